@@ -5,6 +5,7 @@ import KioskHome from './components/Kiosk/KioskHome';
 import QueueDisplay from './components/TV/QueueDisplay';
 import VenueSelector from './components/VenueSelector';
 import AdminPanel from './components/AdminPanel';
+import ConnectivityIndicator from './components/ConnectivityIndicator';
 import {
   isElectron,
   getQueue,
@@ -15,9 +16,12 @@ import {
   getBlockedWords,
   isNameBlocked,
   checkForOnlineOrder,
+  getConnectivity,
+  onConnectivityChanged,
   Venue,
   QueueItem
 } from './services/kioskApi';
+import type { ConnectivityStatus } from './electron/shared/connectivity';
 // Keep old posabit import for web fallback
 import { initializeCustomerCache } from './services/posabit';
 
@@ -74,11 +78,21 @@ const App: React.FC = () => {
   // Blocked words
   const [blockedWords, setBlockedWordsState] = useState<string[]>([]);
 
+  // POSaBIT connectivity (pushed by the main-process monitor)
+  const [connectivity, setConnectivity] = useState<ConnectivityStatus | null>(null);
+
   // Load blocked words on startup
   useEffect(() => {
     getBlockedWords().then(setBlockedWordsState).catch(() => {});
   }, []);
 
+  // Track POSaBIT connectivity for the header indicator and offline messaging
+  useEffect(() => {
+    if (!venueSelected) return;
+    getConnectivity().then(setConnectivity).catch(() => {});
+    return onConnectivityChanged(setConnectivity);
+  }, [venueSelected]);
+
   // Check for existing venue selection on startup
   useEffect(() => {
     const checkVenue = async () => {
@@ -254,6 +268,7 @@ const App: React.FC = () => {
         status: 'Waiting',
         incognito: customerData.incognito,
         displayNumber: customerData.displayNumber,
+        offline: !!result.offline,
       };
 
       setLastCheckIn(newCustomer);
@@ -324,6 +339,11 @@ const App: React.FC = () => {
         </button>
       </div>
 
+      {/* POSaBIT connectivity */}
+      <div className="fixed top-2 left-2 z-50">
+        <ConnectivityIndicator status={connectivity} />
+      </div>
+
       {/* Sync Status Banner - only show when syncing, just finished, or has problem */}
       {isElectron() && syncStatus && showSyncBanner && (syncStatus.isSyncing || syncStatus.customerCount === 0 || wasSyncing) && (
         <div className={`fixed top-12 left-1/2 -translate-x-1/2 z-40 px-6 py-3 rounded-lg shadow-lg transition-opacity duration-500 ${
@@ -375,7 +395,7 @@ const App: React.FC = () => {
       )}
 
       {view === 'KIOSK' ? (
-        <KioskHome onCheckIn={handleCheckIn} lastCheckIn={lastCheckIn} />
+        <KioskHome onCheckIn={handleCheckIn} lastCheckIn={lastCheckIn} offline={connectivity?.state === 'offline'} scanPaused={showAdminPanel} />
       ) : (
         <QueueDisplay queue={queue} />
       )}
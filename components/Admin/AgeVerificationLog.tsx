@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getIdVerifications,
+  getIdVerificationRetention,
+  setIdVerificationRetention,
+  IdVerificationOutcome,
+  IdVerificationRecord,
+} from '../../services/kioskApi';
+import { DOCUMENT_TYPE_LABELS, IdentityDocumentType } from '../../electron/shared/identity';
+
+const OUTCOME_LABELS: Record<IdVerificationOutcome, string> = {
+  admitted: 'Admitted',
+  admitted_grace: 'Admitted (grace)',
+  admitted_override: 'Admitted (staff override)',
+  admitted_medical: 'Admitted (medical card)',
+  underage: 'Underage',
+  medical_card_check: 'Under age — medical card check',
+  expired_blocked: 'Expired — blocked',
+  expired_warned: 'Expired — sent to staff',
+};
+
+const outcomeColor = (outcome: IdVerificationOutcome): string => {
+  if (outcome === 'admitted') return 'text-green-400';
+  if (outcome.startsWith('admitted_')) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+// YYYY-MM-DD for <input type="date">, in local time
+const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Age-verification audit log — every underage / expired / admitted decision from the ID scan
+const AgeVerificationLog: React.FC = () => {
+  const [records, setRecords] = useState<IdVerificationRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)));
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [outcome, setOutcome] = useState<IdVerificationOutcome | ''>('');
+  const [retentionDays, setRetentionDays] = useState(365);
+  const [retentionInput, setRetentionInput] = useState('365');
+
+  useEffect(() => {
+    getIdVerificationRetention().then(days => {
+      setRetentionDays(days);
+      setRetentionInput(String(days));
+    });
+  }, []);
+
+  useEffect(() => {
+    loadRecords();
+  }, [fromDate, toDate, outcome]);
+
+  const loadRecords = async () => {
+    setLoading(true);
+    try {
+      // Date inputs are local days; the log stores UTC ISO timestamps
+      const from = fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined;
+      const to = toDate ? new Date(new Date(`${toDate}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString() : undefined;
+      const rows = await getIdVerifications({ from, to, outcome: outcome || undefined });
+      setRecords(rows);
+    } catch (err) {
+      console.error('Failed to load age verification log:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    const days = parseInt(retentionInput);
+    if (!days || days < 1) return;
+    const saved = await setIdVerificationRetention(days);
+    setRetentionDays(saved);
+    setRetentionInput(String(saved));
+    await loadRecords();
+  };
+
+  const download = (contents: string, type: string, extension: string) => {
+    const blob = new Blob([contents], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `age-verification-${fromDate || 'all'}-to-${toDate || 'now'}.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportCsv = () => {
+    if (records.length === 0) return;
+    const escape = (s: string | number | null) => `"${String(s ?? '').replace(/"/g, '""')}"`;
+    const header = 'id,created_at,venue_id,outcome,age,jurisdiction,license_last4,document_type,entry_method,expiration_date,days_expired';
+    const rows = records.map(r =>
+      [r.id, escape(r.created_at), escape(r.venue_id), escape(r.outcome), r.age ?? '', escape(r.jurisdiction),
+        escape(r.license_last4), escape(r.document_type), escape(r.entry_method), escape(r.expiration_date), r.days_expired ?? ''].join(',')
+    );
+    download([header, ...rows].join('\n'), 'text/csv', 'csv');
+  };
+
+  const exportJson = () => {
+    if (records.length === 0) return;
+    download(JSON.stringify(records, null, 2), 'application/json', 'json');
+  };
+
+  return (
+    <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-craft text-gold">
+          Age Verification Log
+          <span className="text-zinc-500 text-sm font-normal ml-2">
+            ({records.length} {records.length === 1 ? 'decision' : 'decisions'})
+          </span>
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={exportCsv}
+            disabled={records.length === 0}
+            className="px-4 py-2 rounded-lg bg-gold text-black hover:bg-[#d8c19d] text-sm font-craft font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={exportJson}
+            disabled={records.length === 0}
+            className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+      <p className="text-zinc-400 text-sm mb-4">
+        Every ID scan age decision — underage, expired, and admitted. Only the last 4 of the ID number are stored. Entries older than {retentionDays} days are deleted automatically.
+      </p>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <label className="text-zinc-400 text-sm">
+          <span className="block mb-1">From</span>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+          />
+        </label>
+        <label className="text-zinc-400 text-sm">
+          <span className="block mb-1">To</span>
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+          />
+        </label>
+        <label className="text-zinc-400 text-sm">
+          <span className="block mb-1">Outcome</span>
+          <select
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as IdVerificationOutcome | '')}
+            className="bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+          >
+            <option value="">All outcomes</option>
+            {(Object.keys(OUTCOME_LABELS) as IdVerificationOutcome[]).map(key => (
+              <option key={key} value={key}>{OUTCOME_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-zinc-400 text-sm ml-auto">
+          <span className="block mb-1">Keep for (days)</span>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={1}
+              value={retentionInput}
+              onChange={(e) => setRetentionInput(e.target.value)}
+              className="w-24 bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+            />
+            <button
+              onClick={handleSaveRetention}
+              disabled={retentionInput === String(retentionDays)}
+              className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </label>
+      </div>
+
+      {loading ? (
+        <p className="text-zinc-500 text-sm italic">Loading...</p>
+      ) : records.length === 0 ? (
+        <p className="text-zinc-500 text-sm italic">No age decisions in this range.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto rounded-lg border border-zinc-800">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-900/80 sticky top-0">
+              <tr className="text-left text-zinc-400 text-xs uppercase tracking-wider">
+                <th className="p-3">When</th>
+                <th className="p-3">Venue</th>
+                <th className="p-3">Outcome</th>
+                <th className="p-3">Age</th>
+                <th className="p-3">ID</th>
+                <th className="p-3">Method</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map(r => (
+                <tr key={r.id} className="border-t border-zinc-800 hover:bg-zinc-800/40">
+                  <td className="p-3 text-zinc-300 whitespace-nowrap">{new Date(r.created_at).toLocaleString()}</td>
+                  <td className="p-3 text-zinc-400">{r.venue_id}</td>
+                  <td className={`p-3 font-bold ${outcomeColor(r.outcome)}`}>
+                    {OUTCOME_LABELS[r.outcome] || r.outcome}
+                    {r.days_expired ? <span className="text-zinc-500 font-normal text-xs ml-2">({r.days_expired}d expired)</span> : null}
+                  </td>
+                  <td className="p-3 text-white">{r.age ?? '—'}</td>
+                  <td className="p-3 text-zinc-400 font-mono text-xs">
+                    {r.jurisdiction || '??'} ···{r.license_last4 || '----'}
+                    {r.document_type && (
+                      <span className="block text-zinc-500 font-sans">
+                        {DOCUMENT_TYPE_LABELS[r.document_type as IdentityDocumentType] || r.document_type}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-3 text-zinc-500 text-xs">{r.entry_method || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AgeVerificationLog;
@@ -0,0 +1,56 @@
+import React, { useState, useEffect } from 'react';
+import { getCrossVenuePolicy, setCrossVenuePolicy, getVenues, Venue } from '../../services/kioskApi';
+import { CrossVenueMode, CrossVenuePolicy } from '../../electron/shared/crossVenue';
+
+const MODE_LABELS: Record<CrossVenueMode, string> = {
+  off: 'Off',
+  link: 'Link existing account',
+  create: 'Link or create account',
+};
+
+// Which sibling venues this venue searches when a phone / DL isn't found here
+const CrossVenueLookup: React.FC = () => {
+  const [policy, setPolicy] = useState<CrossVenuePolicy>({});
+  const [venues, setVenues] = useState<Venue[]>([]);
+
+  useEffect(() => {
+    getCrossVenuePolicy().then(setPolicy);
+    getVenues().then(setVenues);
+  }, []);
+
+  const handleChange = async (venueId: string, mode: CrossVenueMode) => {
+    const saved = await setCrossVenuePolicy({ ...policy, [venueId]: mode });
+    setPolicy(saved);
+  };
+
+  const siblings = venues.filter(v => v.id in policy);
+  if (siblings.length === 0) return null;
+
+  return (
+    <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+      <h2 className="text-xl font-craft text-gold mb-4">Cross-Venue Lookup</h2>
+      <p className="text-zinc-400 text-sm mb-4">
+        When a phone number or license isn't found at this venue, search these venues too. A match is linked to the same person's account here;
+        with "create", they're added to this venue's POSaBIT account from the other venue's record if they don't have one.
+      </p>
+      <div className="space-y-2">
+        {siblings.map(venue => (
+          <div key={venue.id} className="flex items-center justify-between text-sm">
+            <span className="text-white">{venue.name}</span>
+            <select
+              value={policy[venue.id]}
+              onChange={(e) => handleChange(venue.id, e.target.value as CrossVenueMode)}
+              className="bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+            >
+              {(Object.keys(MODE_LABELS) as CrossVenueMode[]).map(mode => (
+                <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CrossVenueLookup;
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getRetentionPolicies,
+  setRetentionPolicies,
+  forgetCustomer,
+  getDeletionLog,
+  DeletionRecord,
+  DeletionChainStatus,
+} from '../../services/kioskApi';
+import { DEFAULT_RETENTION_POLICIES, RetentionPolicies, ForgetIdentifierType } from '../../electron/shared/retention';
+
+const POLICY_LABELS: Record<keyof RetentionPolicies, { label: string; hint: string }> = {
+  customers: { label: 'Customers', hint: 'since last check-in, POSaBIT update or sync' },
+  offlineQueue: { label: 'Offline check-ins', hint: 'synced or not' },
+  failedScans: { label: 'Failed scans', hint: 'raw barcodes kept for debugging' },
+};
+
+const IDENTIFIER_LABELS: Record<ForgetIdentifierType, string> = {
+  phone: 'Phone number',
+  license: "Driver's license #",
+  customer_id: 'POSaBIT customer ID',
+};
+
+const toInputs = (policies: RetentionPolicies): Record<keyof RetentionPolicies, string> => ({
+  customers: String(policies.customers),
+  offlineQueue: String(policies.offlineQueue),
+  failedScans: String(policies.failedScans),
+});
+
+const summarizeCounts = (counts: string): string => {
+  try {
+    const c = JSON.parse(counts);
+    return `${c.customers} customer, ${c.offlineQueue} queue, ${c.failedScans} scan, ${c.matchChoices} pick, ${c.auditReferences} audit`;
+  } catch {
+    return counts;
+  }
+};
+
+// PII retention windows, "forget this customer", and the tamper-evident deletion log
+const DataRetention: React.FC = () => {
+  const [policies, setPolicies] = useState<RetentionPolicies>(DEFAULT_RETENTION_POLICIES);
+  const [inputs, setInputs] = useState(toInputs(DEFAULT_RETENTION_POLICIES));
+  const [retentionMessage, setRetentionMessage] = useState<string | null>(null);
+
+  const [forgetType, setForgetType] = useState<ForgetIdentifierType>('phone');
+  const [forgetValue, setForgetValue] = useState('');
+  const [forgetReason, setForgetReason] = useState('');
+  const [confirming, setConfirming] = useState(false);
+  const [forgetMessage, setForgetMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const [records, setRecords] = useState<DeletionRecord[]>([]);
+  const [chain, setChain] = useState<DeletionChainStatus | null>(null);
+
+  useEffect(() => {
+    getRetentionPolicies().then(p => {
+      setPolicies(p);
+      setInputs(toInputs(p));
+    });
+    loadDeletionLog();
+  }, []);
+
+  const loadDeletionLog = async () => {
+    try {
+      const log = await getDeletionLog();
+      setRecords([...log.records].reverse());
+      setChain(log.chain);
+    } catch (err) {
+      console.error('Failed to load deletion log:', err);
+    }
+  };
+
+  const handleSavePolicies = async () => {
+    const { policies: saved, removed } = await setRetentionPolicies({
+      customers: parseInt(inputs.customers),
+      offlineQueue: parseInt(inputs.offlineQueue),
+      failedScans: parseInt(inputs.failedScans),
+    });
+    setPolicies(saved);
+    setInputs(toInputs(saved));
+    setRetentionMessage(
+      `Saved. Removed ${removed.customers} customers, ${removed.offlineQueue} offline check-ins, ` +
+      `${removed.failedScans} failed scans and ${removed.idVerifications} age-log entries.`
+    );
+  };
+
+  const handleForget = async () => {
+    setConfirming(false);
+    const result = await forgetCustomer(forgetType, forgetValue, forgetReason);
+    if (result.ok && result.record) {
+      setForgetMessage({ ok: true, text: `Deleted: ${summarizeCounts(result.record.counts)} rows. Backups were removed.` });
+      setForgetValue('');
+      setForgetReason('');
+    } else {
+      setForgetMessage({ ok: false, text: result.error || 'Delete failed' });
+    }
+    await loadDeletionLog();
+  };
+
+  const policiesChanged = (Object.keys(inputs) as (keyof RetentionPolicies)[]).some(key => inputs[key] !== String(policies[key]));
+  const canForget = forgetValue.trim().length > 0 && forgetReason.trim().length > 0;
+
+  return (
+    <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+      <h2 className="text-xl font-craft text-gold mb-4">Data Retention</h2>
+      <p className="text-zinc-400 text-sm mb-4">
+        Local rows older than these windows are deleted at startup and daily. The age verification log has its own setting.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4 mb-2">
+        {(Object.keys(POLICY_LABELS) as (keyof RetentionPolicies)[]).map(key => (
+          <label key={key} className="text-zinc-400 text-sm">
+            <span className="block mb-1">{POLICY_LABELS[key].label} (days)</span>
+            <input
+              type="number"
+              min={1}
+              value={inputs[key]}
+              onChange={(e) => setInputs({ ...inputs, [key]: e.target.value })}
+              className="w-28 bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+            />
+            <span className="block text-zinc-500 text-xs mt-1">{POLICY_LABELS[key].hint}</span>
+          </label>
+        ))}
+        <button
+          onClick={handleSavePolicies}
+          disabled={!policiesChanged}
+          className="px-4 py-2 mb-5 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+      {retentionMessage && <p className="text-green-400 text-sm mb-4">{retentionMessage}</p>}
+
+      {/* Forget a customer */}
+      <h3 className="text-white font-bold mt-6 mb-2">Forget a Customer</h3>
+      <p className="text-zinc-400 text-sm mb-4">
+        Deletes this kiosk's copy of the customer (all venues), their offline check-ins and failed scans, clears matching ID numbers from the age log, and removes database backups.
+        The kiosk won't download them again, but their POSaBIT record is not touched — delete them in POSaBIT as well.
+      </p>
+      <div className="flex flex-wrap items-end gap-4 mb-2">
+        <label className="text-zinc-400 text-sm">
+          <span className="block mb-1">Identify by</span>
+          <select
+            value={forgetType}
+            onChange={(e) => { setForgetType(e.target.value as ForgetIdentifierType); setConfirming(false); }}
+            className="bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+          >
+            {(Object.keys(IDENTIFIER_LABELS) as ForgetIdentifierType[]).map(type => (
+              <option key={type} value={type}>{IDENTIFIER_LABELS[type]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-zinc-400 text-sm">
+          <span className="block mb-1">{IDENTIFIER_LABELS[forgetType]}</span>
+          <input
+            type="text"
+            value={forgetValue}
+            onChange={(e) => { setForgetValue(e.target.value); setConfirming(false); }}
+            className="w-48 bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+          />
+        </label>
+        <label className="text-zinc-400 text-sm flex-1 min-w-[12rem]">
+          <span className="block mb-1">Reason</span>
+          <input
+            type="text"
+            value={forgetReason}
+            onChange={(e) => setForgetReason(e.target.value)}
+            placeholder="e.g. customer deletion request"
+            className="w-full bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+          />
+        </label>
+        {confirming ? (
+          <div className="flex gap-2">
+            <button
+              onClick={handleForget}
+              className="px-4 py-2 rounded-lg bg-red-700 text-white hover:bg-red-600 text-sm font-craft"
+            >
+              Delete permanently
+            </button>
+            <button
+              onClick={() => setConfirming(false)}
+              className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => { setConfirming(true); setForgetMessage(null); }}
+            disabled={!canForget}
+            className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Forget
+          </button>
+        )}
+      </div>
+      {forgetMessage && (
+        <p className={`text-sm mb-4 ${forgetMessage.ok ? 'text-green-400' : 'text-red-400'}`}>{forgetMessage.text}</p>
+      )}
+
+      {/* Deletion log */}
+      <div className="flex items-center justify-between mt-6 mb-2">
+        <h3 className="text-white font-bold">Deletion Log</h3>
+        {chain && (
+          <span className={`text-sm ${chain.ok ? 'text-green-400' : 'text-red-400'}`}>
+            {chain.ok
+              ? `Chain intact (${chain.count} records)`
+              : chain.brokenAtId !== null
+                ? `Tampered: record #${chain.brokenAtId} does not verify`
+                : 'Tampered: records are missing from the end'}
+          </span>
+        )}
+      </div>
+      {records.length === 0 ? (
+        <p className="text-zinc-500 text-sm italic">No customers have been forgotten on this kiosk.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto rounded-lg border border-zinc-800">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-900/80 sticky top-0">
+              <tr className="text-left text-zinc-400 text-xs uppercase tracking-wider">
+                <th className="p-3">#</th>
+                <th className="p-3">When</th>
+                <th className="p-3">By</th>
+                <th className="p-3">Reason</th>
+                <th className="p-3">Rows removed</th>
+                <th className="p-3">Hash</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map(r => (
+                <tr key={r.id} className={`border-t border-zinc-800 ${chain?.brokenAtId === r.id ? 'bg-red-900/30' : ''}`}>
+                  <td className="p-3 text-zinc-500 font-mono">{r.id}</td>
+                  <td className="p-3 text-zinc-300 whitespace-nowrap">{new Date(r.deleted_at).toLocaleString()}</td>
+                  <td className="p-3 text-zinc-400">{IDENTIFIER_LABELS[r.identifier_type] || r.identifier_type}</td>
+                  <td className="p-3 text-white">{r.reason}</td>
+                  <td className="p-3 text-zinc-400 text-xs">{summarizeCounts(r.counts)}</td>
+                  <td className="p-3 text-zinc-500 font-mono text-xs">{r.hash.slice(0, 12)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataRetention;
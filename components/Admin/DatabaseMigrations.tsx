@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react';
+import { getSchemaStatus, SchemaStatus } from '../../services/kioskApi';
+
+// Local database schema version and the migrations this kiosk has run (read-only)
+const DatabaseMigrations: React.FC = () => {
+  const [status, setStatus] = useState<SchemaStatus | null>(null);
+
+  useEffect(() => {
+    getSchemaStatus()
+      .then(setStatus)
+      .catch(err => console.error('Failed to load schema status:', err));
+  }, []);
+
+  if (!status) return null;
+
+  const upToDate = status.currentVersion >= status.latestVersion;
+
+  return (
+    <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+      <h2 className="text-xl font-craft text-gold mb-4">Database Schema</h2>
+      <div className="grid grid-cols-2 gap-2 text-sm mb-4">
+        <p className="text-zinc-400">Schema version:</p>
+        <p className={upToDate ? 'text-green-400' : 'text-red-400'}>
+          v{status.currentVersion} {upToDate ? '(up to date)' : `(expected v${status.latestVersion})`}
+        </p>
+        <p className="text-zinc-400">Backups:</p>
+        <p className="text-white text-xs break-all font-mono">{status.backupDir}</p>
+      </div>
+
+      {status.history.length === 0 ? (
+        <p className="text-zinc-500 text-sm italic">No migrations recorded.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-zinc-500 text-xs uppercase tracking-wider">
+                <th className="py-1">Version</th>
+                <th className="py-1">Migration</th>
+                <th className="py-1">Result</th>
+                <th className="py-1">When</th>
+              </tr>
+            </thead>
+            <tbody>
+              {status.history.map(record => (
+                <tr key={record.id} className="border-t border-zinc-700/50 align-top">
+                  <td className="py-1 text-white font-mono">v{record.version}</td>
+                  <td className="py-1 text-zinc-300">
+                    {record.name}
+                    {record.error && <span className="block text-red-400 text-xs font-mono break-all">{record.error}</span>}
+                    {record.backup_path && (
+                      <span className="block text-zinc-500 text-xs font-mono break-all">Backup: {record.backup_path}</span>
+                    )}
+                  </td>
+                  <td className={`py-1 ${record.status === 'applied' ? 'text-green-400' : 'text-red-400'}`}>
+                    {record.status === 'applied' ? `Applied (${record.duration_ms}ms)` : 'Failed'}
+                  </td>
+                  <td className="py-1 text-zinc-400 whitespace-nowrap">{new Date(record.applied_at).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DatabaseMigrations;
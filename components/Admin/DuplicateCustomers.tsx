@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { getDuplicateReport } from '../../services/kioskApi';
+import { DUPLICATE_REASON_LABELS, DuplicateCustomer, DuplicateGroup } from '../../electron/shared/duplicates';
+
+const FIELDS: { label: string; value: (c: DuplicateCustomer) => string }[] = [
+  { label: 'Name', value: c => `${c.first_name} ${c.last_name}`.trim() },
+  { label: 'Phone', value: c => c.telephone || '—' },
+  { label: 'Birthday', value: c => c.birthday || '—' },
+  { label: 'License #', value: c => c.drivers_license || '—' },
+  { label: 'Email', value: c => c.email || '—' },
+  { label: 'Points', value: c => c.loyalty_points === null ? '—' : String(c.loyalty_points) },
+  { label: 'Created', value: c => c.created_at ? new Date(c.created_at).toLocaleDateString() : '—' },
+];
+
+// Probable duplicate customers in the local cache, side by side, exportable for merging in POSaBIT
+const DuplicateCustomers: React.FC = () => {
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [scanned, setScanned] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const handleScan = async () => {
+    setLoading(true);
+    try {
+      const report = await getDuplicateReport();
+      setGroups(report.groups);
+      setScanned(report.scanned);
+    } catch (err) {
+      console.error('Failed to build duplicate report:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportCsv = () => {
+    if (!groups || groups.length === 0) return;
+    const escape = (s: string | number | null) => `"${String(s ?? '').replace(/"/g, '""')}"`;
+    const header = 'group,reasons,keep,customer_id,first_name,last_name,telephone,birthday,drivers_license,email,loyalty_points,created_at';
+    const rows = groups.flatMap((group, index) => group.customers.map(c =>
+      [index + 1, escape(group.reasons.map(r => DUPLICATE_REASON_LABELS[r]).join('; ')), c.id === group.suggestedSurvivorId ? 'yes' : '',
+        c.id, escape(c.first_name), escape(c.last_name), escape(c.telephone), escape(c.birthday), escape(c.drivers_license),
+        escape(c.email), c.loyalty_points ?? '', escape(c.created_at)].join(',')
+    ));
+
+    const blob = new Blob([[header, ...rows].join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `duplicate-customers-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-craft text-gold">
+          Duplicate Customers
+          {groups && (
+            <span className="text-zinc-500 text-sm font-normal ml-2">
+              ({groups.length} {groups.length === 1 ? 'group' : 'groups'} in {scanned.toLocaleString()} customers)
+            </span>
+          )}
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={handleScan}
+            disabled={loading}
+            className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Scanning...' : groups ? 'Rescan' : 'Scan'}
+          </button>
+          <button
+            onClick={exportCsv}
+            disabled={!groups || groups.length === 0}
+            className="px-4 py-2 rounded-lg bg-gold text-black hover:bg-[#d8c19d] text-sm font-craft font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+      <p className="text-zinc-400 text-sm mb-4">
+        Records in this venue's local cache that are probably the same person: same license #, same birthday and last name, same phone and first name, or a near-identical name.
+        Merging happens in POSaBIT; the oldest record is suggested as the one to keep.
+      </p>
+
+      {groups && groups.length === 0 && (
+        <p className="text-zinc-500 text-sm italic">No probable duplicates found.</p>
+      )}
+      {groups && groups.length > 0 && (
+        <div className="max-h-[32rem] overflow-y-auto space-y-4">
+          {groups.map(group => (
+            <div key={group.customers.map(c => c.id).join('-')} className="rounded-lg border border-zinc-800 p-3">
+              <div className="flex flex-wrap gap-2 mb-2">
+                {group.reasons.map(reason => (
+                  <span key={reason} className="px-2 py-0.5 rounded bg-zinc-800 text-zinc-300 text-xs">
+                    {DUPLICATE_REASON_LABELS[reason]}
+                  </span>
+                ))}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="text-sm">
+                  <thead>
+                    <tr className="text-left text-zinc-400 text-xs uppercase tracking-wider">
+                      <th className="p-2"></th>
+                      {group.customers.map(c => (
+                        <th key={c.id} className="p-2 font-mono">
+                          #{c.id}
+                          {c.id === group.suggestedSurvivorId && <span className="ml-2 text-green-400 normal-case font-sans">keep</span>}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {FIELDS.map(field => (
+                      <tr key={field.label} className="border-t border-zinc-800">
+                        <td className="p-2 text-zinc-500 text-xs whitespace-nowrap">{field.label}</td>
+                        {group.customers.map(c => (
+                          <td key={c.id} className="p-2 text-white whitespace-nowrap">{field.value(c)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateCustomers;
@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { getOfflineQueue, retryOfflineEntry, discardOfflineEntry, OfflineQueueEntry } from '../../services/kioskApi';
+
+// Offline check-ins waiting to post to POSaBIT, and the dead-lettered ones staff need to look at
+const OfflineQueue: React.FC = () => {
+  const [pending, setPending] = useState(0);
+  const [deadLettered, setDeadLettered] = useState<OfflineQueueEntry[]>([]);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    try {
+      const queue = await getOfflineQueue();
+      setPending(queue.pending);
+      setDeadLettered(queue.deadLettered);
+    } catch (err) {
+      console.error('Failed to load offline queue:', err);
+    }
+  };
+
+  const handleAction = async (id: number, action: (id: number) => Promise<boolean>) => {
+    setBusyId(id);
+    try {
+      await action(id);
+      await loadQueue();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-craft text-gold">Offline Check-ins</h2>
+        <button
+          onClick={loadQueue}
+          className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft"
+        >
+          Refresh
+        </button>
+      </div>
+      <p className="text-zinc-400 text-sm mb-4">
+        Check-ins taken while POSaBIT was unreachable are retried with increasing delays, and right away once it answers again.
+        {' '}{pending === 0 ? 'Nothing is waiting.' : `${pending} waiting to post.`}
+        {' '}Entries POSaBIT rejected, or that failed too many times, stop here until you retry or discard them.
+      </p>
+
+      {deadLettered.length === 0 ? (
+        <p className="text-zinc-500 text-sm italic">No failed check-ins.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto rounded-lg border border-zinc-800">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-900/80 sticky top-0">
+              <tr className="text-left text-zinc-400 text-xs uppercase tracking-wider">
+                <th className="p-3">Checked in</th>
+                <th className="p-3">Name</th>
+                <th className="p-3">Method</th>
+                <th className="p-3">Attempts</th>
+                <th className="p-3">Last error</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {deadLettered.map(entry => (
+                <tr key={entry.id} className="border-t border-zinc-800">
+                  <td className="p-3 text-zinc-300 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                  <td className="p-3 text-white">
+                    {entry.name}
+                    {entry.customer_id && <span className="block text-zinc-500 text-xs font-mono">#{entry.customer_id}</span>}
+                  </td>
+                  <td className="p-3 text-zinc-400">{entry.method}</td>
+                  <td className="p-3 text-zinc-400">{entry.attempts}</td>
+                  <td className="p-3 text-red-400 text-xs break-all">{entry.last_error || '—'}</td>
+                  <td className="p-3">
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleAction(entry.id!, retryOfflineEntry)}
+                        disabled={busyId === entry.id}
+                        className="px-3 py-1 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-xs font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Retry
+                      </button>
+                      <button
+                        onClick={() => handleAction(entry.id!, discardOfflineEntry)}
+                        disabled={busyId === entry.id}
+                        className="px-3 py-1 rounded-lg bg-zinc-800 text-zinc-400 hover:bg-zinc-700 text-xs font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineQueue;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { getPendingCustomers, retryPendingCustomer, discardPendingCustomer, PendingCustomer } from '../../services/kioskApi';
+
+const RESOLUTION_LABELS = {
+  created: 'Created',
+  linked: 'Linked to existing',
+  discarded: 'Discarded',
+};
+
+// Customers signed up while POSaBIT was offline: waiting to be created, failed, and recent outcomes
+const PendingCustomers: React.FC = () => {
+  const [customers, setCustomers] = useState<PendingCustomer[]>([]);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadCustomers();
+  }, []);
+
+  const loadCustomers = async () => {
+    try {
+      setCustomers(await getPendingCustomers());
+    } catch (err) {
+      console.error('Failed to load pending customers:', err);
+    }
+  };
+
+  const handleAction = async (id: number, action: (id: number) => Promise<boolean>) => {
+    setBusyId(id);
+    try {
+      await action(id);
+      await loadCustomers();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const waiting = customers.filter(c => !c.resolved_at && !c.failed_at).length;
+
+  const outcome = (c: PendingCustomer) => {
+    if (c.resolution) {
+      return (
+        <span className={c.resolution === 'discarded' ? 'text-zinc-500' : 'text-green-400'}>
+          {RESOLUTION_LABELS[c.resolution]}
+          {c.customer_id && <span className="block text-zinc-500 text-xs font-mono">#{c.customer_id}</span>}
+        </span>
+      );
+    }
+    if (c.failed_at) return <span className="text-red-400">Failed</span>;
+    return <span className="text-yellow-400">Waiting</span>;
+  };
+
+  return (
+    <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-craft text-gold">Offline Sign-ups</h2>
+        <button
+          onClick={loadCustomers}
+          className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft"
+        >
+          Refresh
+        </button>
+      </div>
+      <p className="text-zinc-400 text-sm mb-4">
+        New customers from ID scans and loyalty sign-ups while POSaBIT was unreachable. Each one is created in POSaBIT when it answers again.
+        If it already has that license, the existing record is used. Their check-ins post once the record exists.
+        {' '}{waiting === 0 ? 'Nothing is waiting.' : `${waiting} waiting.`}
+      </p>
+
+      {customers.length === 0 ? (
+        <p className="text-zinc-500 text-sm italic">No offline sign-ups.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto rounded-lg border border-zinc-800">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-900/80 sticky top-0">
+              <tr className="text-left text-zinc-400 text-xs uppercase tracking-wider">
+                <th className="p-3">Signed up</th>
+                <th className="p-3">Name</th>
+                <th className="p-3">Loyalty</th>
+                <th className="p-3">Outcome</th>
+                <th className="p-3">Last error</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {customers.map(c => (
+                <tr key={c.id} className="border-t border-zinc-800">
+                  <td className="p-3 text-zinc-300 whitespace-nowrap">{new Date(c.created_at).toLocaleString()}</td>
+                  <td className="p-3 text-white">{`${c.first_name} ${c.last_name || ''}`.trim()}</td>
+                  <td className="p-3 text-zinc-400">{c.loyalty_opt_in ? 'Yes' : 'No'}</td>
+                  <td className="p-3">{outcome(c)}</td>
+                  <td className="p-3 text-red-400 text-xs break-all">{(!c.resolved_at && c.last_error) || '—'}</td>
+                  <td className="p-3">
+                    {!c.resolved_at && (
+                      <div className="flex gap-2">
+                        {c.failed_at && (
+                          <button
+                            onClick={() => handleAction(c.id, retryPendingCustomer)}
+                            disabled={busyId === c.id}
+                            className="px-3 py-1 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-xs font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Retry
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleAction(c.id, discardPendingCustomer)}
+                          disabled={busyId === c.id}
+                          className="px-3 py-1 rounded-lg bg-zinc-800 text-zinc-400 hover:bg-zinc-700 text-xs font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PendingCustomers;
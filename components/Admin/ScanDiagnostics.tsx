@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { getRecentScans, getFailedScans, onScan } from '../../services/kioskApi';
+import { diagnoseScan, ScanDiagnosis, SLOW_KEY_GAP_MS } from '../../electron/shared/scanDiagnostics';
+
+type DiagnosticsSource = 'live' | 'failed';
+
+interface DiagnosedScan {
+  key: string;
+  at: string;
+  label: string;              // driver for live scans, parser error for captured failures
+  keyGapsMs: number[];
+  diagnosis: ScanDiagnosis;
+}
+
+const SCAN_LIMITS = [10, 25, 50];
+
+// Scan diagnostics for field techs — raw bytes, keystroke timing, AAMVA header and subfile boundaries
+const ScanDiagnostics: React.FC = () => {
+  const [source, setSource] = useState<DiagnosticsSource>('live');
+  const [limit, setLimit] = useState(10);
+  const [scans, setScans] = useState<DiagnosedScan[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadScans();
+    // Live view follows new scans as they arrive
+    if (source !== 'live') return;
+    return onScan(() => loadScans());
+  }, [source, limit]);
+
+  const loadScans = async () => {
+    try {
+      if (source === 'live') {
+        const rows = await getRecentScans(limit);
+        setScans(rows.map((scan, i) => ({
+          key: `live-${scan.receivedAt}-${i}`,
+          at: scan.receivedAt,
+          label: scan.source,
+          keyGapsMs: scan.keyGapsMs || [],
+          diagnosis: diagnoseScan(scan.data, scan.keyGapsMs),
+        })));
+      } else {
+        const rows = await getFailedScans(limit);
+        setScans(rows.map(scan => ({
+          key: `failed-${scan.id}`,
+          at: scan.created_at,
+          label: scan.parser_error,
+          keyGapsMs: [],
+          diagnosis: diagnoseScan(scan.raw_barcode),
+        })));
+      }
+    } catch (err) {
+      console.error('Failed to load scan diagnostics:', err);
+    }
+  };
+
+  const statusFor = (d: ScanDiagnosis): { text: string; color: string } => {
+    if (!d.format) return { text: 'Not an ID', color: 'text-zinc-400' };
+    if (d.parseError) return { text: 'Failed', color: 'text-red-400' };
+    if (d.findings.length > 0) return { text: 'Parsed with issues', color: 'text-yellow-400' };
+    return { text: 'Clean', color: 'text-green-400' };
+  };
+
+  return (
+    <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-craft text-gold">Scan Diagnostics</h2>
+        <div className="flex items-center gap-2">
+          {([['live', 'Live Scans'], ['failed', 'Failed Scans']] as [DiagnosticsSource, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => { setSource(value); setExpanded(null); }}
+              className={`px-4 py-2 rounded-lg text-sm font-craft transition-all ${
+                source === value ? 'bg-gold text-black font-bold' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+          <select
+            value={limit}
+            onChange={(e) => setLimit(parseInt(e.target.value))}
+            className="bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none text-sm"
+          >
+            {SCAN_LIMITS.map(n => <option key={n} value={n}>Last {n}</option>)}
+          </select>
+        </div>
+      </div>
+      <p className="text-zinc-400 text-sm mb-4">
+        {source === 'live'
+          ? 'Scans since the kiosk started (kept in memory only). Scan a card to see it here.'
+          : 'Captured failed scans. Keystroke timing is only available for live scans.'}
+      </p>
+
+      {scans.length === 0 ? (
+        <p className="text-zinc-500 text-sm italic">No scans yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+          {scans.map(scan => {
+            const d = scan.diagnosis;
+            const status = statusFor(d);
+            const isOpen = expanded === scan.key;
+            return (
+              <div key={scan.key} className="bg-zinc-800/50 rounded-lg border border-zinc-700/50">
+                <button
+                  onClick={() => setExpanded(isOpen ? null : scan.key)}
+                  className="w-full flex items-center justify-between p-3 text-left text-sm"
+                >
+                  <span className="text-zinc-300 whitespace-nowrap">{new Date(scan.at).toLocaleString()}</span>
+                  <span className="text-zinc-500 font-mono text-xs mx-3 truncate">{scan.label}</span>
+                  <span className="text-zinc-400 mx-3">{d.length} chars</span>
+                  <span className={`font-bold ${status.color}`}>{status.text}</span>
+                </button>
+
+                {isOpen && (
+                  <div className="border-t border-zinc-700/50 p-4 space-y-4 text-sm">
+                    {/* Findings */}
+                    {d.findings.length > 0 && (
+                      <ul className="space-y-1">
+                        {d.findings.map((finding, i) => (
+                          <li key={i} className="text-yellow-300">• {finding}</li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {/* Raw bytes */}
+                    <div>
+                      <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Raw data</p>
+                      <pre className="bg-black/40 p-3 rounded-lg text-zinc-300 font-mono text-xs whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+                        {d.visible}
+                      </pre>
+                      <p className="text-zinc-500 text-xs mt-1">
+                        Control characters:{' '}
+                        {d.controlChars.length === 0
+                          ? <span className="text-red-400">none</span>
+                          : d.controlChars.map(c => `${c.name} ×${c.count}`).join(', ')}
+                      </p>
+                    </div>
+
+                    {/* AAMVA header */}
+                    {d.header && (
+                      <div>
+                        <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">AAMVA header</p>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                          <span className="text-zinc-400">Preamble: <span className="font-mono text-white">{d.preamble || '—'}</span></span>
+                          <span className="text-zinc-400">File type: <span className="font-mono text-white">"{d.header.fileType}"</span></span>
+                          <span className="text-zinc-400">IIN: <span className="font-mono text-white">{d.header.iin}</span></span>
+                          <span className="text-zinc-400">
+                            Version: <span className="font-mono text-white">{d.header.aamvaVersion}{d.header.jurisdictionVersion !== null ? ` / ${d.header.jurisdictionVersion}` : ''}</span>
+                          </span>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Subfile boundaries */}
+                    {d.subfiles.length > 0 && (
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-zinc-500 uppercase tracking-wider">
+                            <th className="py-1">Subfile</th>
+                            <th className="py-1">Declared offset</th>
+                            <th className="py-1">Length</th>
+                            <th className="py-1">Found at</th>
+                            <th className="py-1">Drift</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {d.subfiles.map(subfile => (
+                            <tr key={subfile.type} className="border-t border-zinc-700/50 font-mono">
+                              <td className="py-1 text-white">{subfile.type}</td>
+                              <td className="py-1 text-zinc-300">{subfile.declaredOffset}</td>
+                              <td className="py-1 text-zinc-300">{subfile.declaredLength}</td>
+                              <td className="py-1 text-zinc-300">{subfile.actualOffset ?? 'missing'}</td>
+                              <td className={`py-1 ${subfile.drift === 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                {subfile.drift === null ? '—' : subfile.drift > 0 ? `+${subfile.drift}` : subfile.drift}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+
+                    {/* Keystroke timing */}
+                    {d.timing && (
+                      <div>
+                        <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">
+                          Inter-key timing — avg {d.timing.averageMs}ms, max {d.timing.maxMs}ms, {d.timing.slowGaps} over {SLOW_KEY_GAP_MS}ms
+                        </p>
+                        <div className="flex items-end h-12 gap-px bg-black/40 rounded-lg p-1 overflow-hidden">
+                          {scan.keyGapsMs.map((gap, i) => (
+                            <div
+                              key={i}
+                              title={`${gap}ms`}
+                              className={`flex-1 min-w-px ${gap > SLOW_KEY_GAP_MS ? 'bg-red-500' : 'bg-gold/70'}`}
+                              style={{ height: `${Math.max(4, Math.min(100, (gap / (d.timing!.maxMs || 1)) * 100))}%` }}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScanDiagnostics;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getScannerConfig,
+  setScannerConfig,
+  getScannerStatus,
+  replayScanFile,
+  onScan,
+  ScannerConfig,
+  ScannerDriverType,
+  ScannerStatus,
+} from '../../services/kioskApi';
+
+const DRIVER_LABELS: [ScannerDriverType, string, string][] = [
+  ['keyboard', 'Keyboard Wedge', 'USB scanner that types like a keyboard (default).'],
+  ['serial', 'Serial / COM', 'USB-serial scanner read directly from its port.'],
+  ['simulated', 'Simulated', 'No scanner — files dropped into the replay folder are sent as scans.'],
+];
+
+// Barcode scanner driver settings + live status
+const ScannerSettings: React.FC = () => {
+  const [config, setConfig] = useState<ScannerConfig | null>(null);
+  const [status, setStatus] = useState<ScannerStatus | null>(null);
+  const [serialPathInput, setSerialPathInput] = useState('');
+  const [replayMessage, setReplayMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    getScannerConfig().then(c => {
+      setConfig(c);
+      setSerialPathInput(c?.serialPath || '');
+    });
+    refreshStatus();
+    // Scan counter / connection state follow along while the panel is open
+    const off = onScan(() => refreshStatus());
+    const poll = setInterval(refreshStatus, 5000);
+    return () => {
+      off();
+      clearInterval(poll);
+    };
+  }, []);
+
+  const refreshStatus = () => {
+    getScannerStatus().then(setStatus).catch(() => {});
+  };
+
+  const saveConfig = async (changes: Partial<ScannerConfig>) => {
+    try {
+      const saved = await setScannerConfig(changes);
+      setConfig(saved);
+      setSerialPathInput(saved?.serialPath || '');
+      refreshStatus();
+    } catch (err) {
+      console.error('Failed to save scanner settings:', err);
+    }
+  };
+
+  const handleReplay = async () => {
+    const result = await replayScanFile();
+    setReplayMessage(result.ok ? 'Scan sent.' : result.error ? `Replay failed: ${result.error}` : null);
+    refreshStatus();
+  };
+
+  if (!config) return null;
+
+  return (
+    <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+      <h2 className="text-xl font-craft text-gold mb-4">Barcode Scanner</h2>
+      <p className="text-zinc-400 text-sm mb-4">
+        How the kiosk reads the ID scanner. Changes apply immediately.
+      </p>
+
+      <div className="flex gap-2 mb-2">
+        {DRIVER_LABELS.map(([driver, label]) => (
+          <button
+            key={driver}
+            onClick={() => saveConfig({ driver })}
+            className={`px-4 py-2 rounded-lg text-sm font-craft transition-all ${
+              config.driver === driver
+                ? 'bg-gold text-black font-bold'
+                : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-zinc-500 text-sm mb-4">
+        {DRIVER_LABELS.find(([driver]) => driver === config.driver)?.[2]}
+      </p>
+
+      {config.driver === 'serial' && (
+        <div className="flex items-center gap-3 mb-4">
+          <label className="text-zinc-400 text-sm">Port:</label>
+          <input
+            type="text"
+            value={serialPathInput}
+            onChange={(e) => setSerialPathInput(e.target.value)}
+            placeholder="/dev/ttyACM0 or \\.\COM3"
+            className="flex-1 bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none font-mono text-sm"
+          />
+          <button
+            onClick={() => saveConfig({ serialPath: serialPathInput.trim() })}
+            disabled={serialPathInput.trim() === config.serialPath}
+            className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      )}
+
+      {config.driver === 'simulated' && (
+        <p className="text-zinc-400 text-sm mb-4">
+          Replay folder: <span className="font-mono text-zinc-300">{config.replayDir}</span>
+        </p>
+      )}
+
+      <div className="flex items-center justify-between text-sm">
+        <div className="text-zinc-400">
+          {status ? (
+            <>
+              <span className={status.connected ? 'text-green-400' : 'text-red-400'}>
+                {status.connected ? '● Connected' : '● Not connected'}
+              </span>
+              <span className="ml-3">{status.scanCount} scan{status.scanCount === 1 ? '' : 's'} since start</span>
+              {status.lastScanAt && (
+                <span className="ml-3 text-zinc-500">last {new Date(status.lastScanAt).toLocaleTimeString()}</span>
+              )}
+              {status.error && <span className="block text-red-400 mt-1">{status.error}</span>}
+            </>
+          ) : (
+            <span className="italic text-zinc-500">Scanner service not running</span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {replayMessage && <span className="text-zinc-500">{replayMessage}</span>}
+          <button
+            onClick={handleReplay}
+            className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft"
+          >
+            Replay File...
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScannerSettings;
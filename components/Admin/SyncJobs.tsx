@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react';
+import { getSyncSchedule, setSyncSchedule, getSyncJobs, runSyncJob, SyncJobStatus, SyncJobRun } from '../../services/kioskApi';
+import { DEFAULT_SYNC_SCHEDULE, DEFAULT_STORE_HOURS, SYNC_JOBS, SYNC_JOB_LABELS, SyncJobName, SyncSchedule } from '../../electron/shared/syncSchedule';
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const TRIGGER_LABELS = {
+  startup: 'Startup',
+  schedule: 'Scheduled',
+  manual: 'Manual',
+  reconnect: 'Reconnect',
+  retry: 'Retry',
+};
+
+type IntervalInputs = Record<SyncJobName, { open: string; closed: string }>;
+
+// Blank = the job doesn't run at those times
+const toInputs = (schedule: SyncSchedule): IntervalInputs => {
+  const inputs = {} as IntervalInputs;
+  for (const job of SYNC_JOBS) {
+    inputs[job] = {
+      open: schedule.jobs[job].openMinutes === null ? '' : String(schedule.jobs[job].openMinutes),
+      closed: schedule.jobs[job].closedMinutes === null ? '' : String(schedule.jobs[job].closedMinutes),
+    };
+  }
+  return inputs;
+};
+
+const toMinutes = (value: string): number | null => (value.trim() === '' ? null : parseInt(value, 10));
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+const formatDuration = (run: SyncJobRun) => {
+  const ms = new Date(run.finished_at).getTime() - new Date(run.started_at).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+// Store hours, when each background sync job runs, and what the recent runs did
+const SyncJobs: React.FC = () => {
+  const [schedule, setSchedule] = useState<SyncSchedule>(DEFAULT_SYNC_SCHEDULE);
+  const [intervals, setIntervals] = useState<IntervalInputs>(toInputs(DEFAULT_SYNC_SCHEDULE));
+  const [pageDelay, setPageDelay] = useState(String(DEFAULT_SYNC_SCHEDULE.pageDelayMs));
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [storeOpen, setStoreOpen] = useState(false);
+  const [jobs, setJobs] = useState<SyncJobStatus[]>([]);
+  const [history, setHistory] = useState<SyncJobRun[]>([]);
+  const [runningJob, setRunningJob] = useState<SyncJobName | null>(null);
+
+  useEffect(() => {
+    getSyncSchedule().then(applySchedule);
+    loadJobs();
+  }, []);
+
+  const applySchedule = (s: SyncSchedule) => {
+    setSchedule(s);
+    setIntervals(toInputs(s));
+    setPageDelay(String(s.pageDelayMs));
+  };
+
+  const loadJobs = async () => {
+    try {
+      const result = await getSyncJobs();
+      setStoreOpen(result.storeOpen);
+      setJobs(result.jobs);
+      setHistory(result.history);
+    } catch (err) {
+      console.error('Failed to load sync jobs:', err);
+    }
+  };
+
+  const setDayHours = (day: number, hours: SyncSchedule['storeHours'][number]) => {
+    setSchedule(s => ({ ...s, storeHours: s.storeHours.map((h, i) => (i === day ? hours : h)) }));
+  };
+
+  const handleSave = async () => {
+    const jobSchedules = { ...schedule.jobs };
+    for (const job of SYNC_JOBS) {
+      jobSchedules[job] = { openMinutes: toMinutes(intervals[job].open), closedMinutes: toMinutes(intervals[job].closed) };
+    }
+    const saved = await setSyncSchedule({ ...schedule, jobs: jobSchedules, pageDelayMs: parseInt(pageDelay, 10) });
+    applySchedule(saved);
+    setMessage('Schedule saved.');
+    await loadJobs();
+  };
+
+  const handleRun = async (job: SyncJobName) => {
+    setRunningJob(job);
+    try {
+      await runSyncJob(job);
+    } catch (err) {
+      console.error(`Sync job ${job} failed:`, err);
+    } finally {
+      setRunningJob(null);
+      await loadJobs();
+    }
+  };
+
+  const status = (job: SyncJobName) => jobs.find(j => j.job === job);
+
+  return (
+    <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-craft text-gold">
+          Sync Schedule
+          <span className={`text-sm font-normal ml-2 ${storeOpen ? 'text-green-400' : 'text-zinc-500'}`}>
+            ({storeOpen ? 'store open now' : 'store closed now'})
+          </span>
+        </h2>
+        <button
+          onClick={loadJobs}
+          className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft"
+        >
+          Refresh
+        </button>
+      </div>
+      <p className="text-zinc-400 text-sm mb-4">
+        Each job runs every so many minutes, with one interval while the store is open and one while it's closed. Leave an interval blank to not run it then.
+        A job that's rate limited or hits a POSaBIT server error waits before trying again, longer after each failure, and at least as long as POSaBIT asks.
+      </p>
+
+      {/* Store hours */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-6">
+        {DAYS.map((day, i) => {
+          const hours = schedule.storeHours[i];
+          return (
+            <div key={day} className="flex items-center gap-2 text-sm">
+              <span className="text-white w-24">{day}</span>
+              <label className="flex items-center gap-1 text-zinc-400">
+                <input
+                  type="checkbox"
+                  checked={!hours}
+                  onChange={(e) => setDayHours(i, e.target.checked ? null : { ...DEFAULT_STORE_HOURS })}
+                />
+                Closed
+              </label>
+              {hours && (
+                <>
+                  <input
+                    type="time"
+                    value={hours.open}
+                    onChange={(e) => setDayHours(i, { ...hours, open: e.target.value })}
+                    className="bg-zinc-800 text-white p-1 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+                  />
+                  <span className="text-zinc-500">to</span>
+                  <input
+                    type="time"
+                    value={hours.close}
+                    onChange={(e) => setDayHours(i, { ...hours, close: e.target.value })}
+                    className="bg-zinc-800 text-white p-1 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Jobs */}
+      <div className="rounded-lg border border-zinc-800 mb-4 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-900/80">
+            <tr className="text-left text-zinc-400 text-xs uppercase tracking-wider">
+              <th className="p-3">Job</th>
+              <th className="p-3">Open (min)</th>
+              <th className="p-3">Closed (min)</th>
+              <th className="p-3">Last run</th>
+              <th className="p-3">Next run</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {SYNC_JOBS.map(job => {
+              const s = status(job);
+              return (
+                <tr key={job} className="border-t border-zinc-800">
+                  <td className="p-3 text-white">{SYNC_JOB_LABELS[job]}</td>
+                  {(['open', 'closed'] as const).map(window => (
+                    <td key={window} className="p-3">
+                      <input
+                        type="number"
+                        min="1"
+                        value={intervals[job][window]}
+                        placeholder="off"
+                        onChange={(e) => setIntervals(prev => ({ ...prev, [job]: { ...prev[job], [window]: e.target.value } }))}
+                        className="w-24 bg-zinc-800 text-white p-1 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+                      />
+                    </td>
+                  ))}
+                  <td className="p-3 text-zinc-300 whitespace-nowrap">{formatTime(s?.lastRunAt ?? null)}</td>
+                  <td className="p-3 text-zinc-300 whitespace-nowrap">
+                    {s?.running ? <span className="text-gold animate-pulse">Running...</span> : formatTime(s?.nextRunAt ?? null)}
+                    {s && s.failures > 0 && (
+                      <span className="block text-yellow-400 text-xs">Backing off after {s.failures} {s.failures === 1 ? 'failure' : 'failures'}</span>
+                    )}
+                  </td>
+                  <td className="p-3">
+                    <button
+                      onClick={() => handleRun(job)}
+                      disabled={runningJob !== null || s?.running}
+                      className="px-3 py-1 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-xs font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {runningJob === job ? 'Running...' : 'Run Now'}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-4 mb-6">
+        <label className="text-zinc-400 text-sm flex items-center gap-2">
+          Pause between customer pages (ms)
+          <input
+            type="number"
+            min="0"
+            value={pageDelay}
+            onChange={(e) => setPageDelay(e.target.value)}
+            className="w-24 bg-zinc-800 text-white p-1 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+          />
+        </label>
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 rounded-lg bg-gold text-black hover:bg-[#d8c19d] text-sm font-craft font-bold"
+        >
+          Save Schedule
+        </button>
+        {message && <span className="text-green-400 text-sm">{message}</span>}
+      </div>
+
+      {/* Job history */}
+      <h3 className="text-white font-bold mb-2">Recent Runs</h3>
+      {history.length === 0 ? (
+        <p className="text-zinc-500 text-sm italic">No sync jobs have run yet.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto rounded-lg border border-zinc-800">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-900/80 sticky top-0">
+              <tr className="text-left text-zinc-400 text-xs uppercase tracking-wider">
+                <th className="p-3">Started</th>
+                <th className="p-3">Job</th>
+                <th className="p-3">Trigger</th>
+                <th className="p-3">Took</th>
+                <th className="p-3">Rows</th>
+                <th className="p-3">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(run => (
+                <tr key={run.id} className="border-t border-zinc-800">
+                  <td className="p-3 text-zinc-300 whitespace-nowrap">{new Date(run.started_at).toLocaleString()}</td>
+                  <td className="p-3 text-white">{SYNC_JOB_LABELS[run.job]}</td>
+                  <td className="p-3 text-zinc-400">{TRIGGER_LABELS[run.trigger]}</td>
+                  <td className="p-3 text-zinc-400">{formatDuration(run)}</td>
+                  <td className="p-3 text-zinc-400">{run.rows ?? '—'}</td>
+                  <td className="p-3 text-xs break-all">
+                    {run.status === 'ok' && <span className="text-green-400">OK</span>}
+                    {run.status === 'skipped' && <span className="text-zinc-400">Skipped: {run.error}</span>}
+                    {run.status === 'error' && <span className="text-red-400">{run.error}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncJobs;
@@ -6,7 +6,12 @@ import {
   setVenue,
   getSyncStatus,
   forceSync,
+  reconcileCustomers,
+  getConnectivity,
+  checkConnectivity,
+  onConnectivityChanged,
   lookupCustomer,
+  searchCustomersByName,
   setKioskMode,
   getKioskMode,
   getShowHomeInfoPanel,
@@ -15,6 +20,12 @@ import {
   setIncogweedoEnabled,
   getFailedScans,
   FailedScan,
+  replayFailedScans,
+  resolveFailedScans,
+  FailedScanReplaySummary,
+  getExpiredIdPolicy,
+  setExpiredIdPolicy,
+  getVenuePolicy,
   getBlockedWords,
   setBlockedWords,
   getAppVersion,
@@ -23,6 +34,22 @@ import {
   Venue,
   KioskCustomer
 } from '../services/kioskApi';
+import { DEFAULT_EXPIRED_ID_POLICY, ExpiredIdAction, ExpiredIdPolicy } from '../electron/shared/idExpiry';
+import { DEFAULT_VENUE_POLICY, VenuePolicy } from '../electron/shared/venuePolicy';
+import type { ReconcileResult } from '../electron/shared/reconcile';
+import type { FullSyncCheckpoint } from '../electron/shared/fullSync';
+import type { ConnectivityStatus } from '../electron/shared/connectivity';
+import ConnectivityIndicator from './ConnectivityIndicator';
+import AgeVerificationLog from './Admin/AgeVerificationLog';
+import ScannerSettings from './Admin/ScannerSettings';
+import ScanDiagnostics from './Admin/ScanDiagnostics';
+import DatabaseMigrations from './Admin/DatabaseMigrations';
+import DataRetention from './Admin/DataRetention';
+import CrossVenueLookup from './Admin/CrossVenueLookup';
+import DuplicateCustomers from './Admin/DuplicateCustomers';
+import OfflineQueue from './Admin/OfflineQueue';
+import PendingCustomers from './Admin/PendingCustomers';
+import SyncJobs from './Admin/SyncJobs';
 
 type UpdateState =
   | { kind: 'idle' }
@@ -45,16 +72,23 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
     lastSync: string | null;
     isSyncing: boolean;
     customerCount: number;
+    lastReconcile: ReconcileResult | null;
+    fullSyncCheckpoint: FullSyncCheckpoint | null;
   } | null>(null);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
 
+  // POSaBIT connectivity
+  const [connectivity, setConnectivity] = useState<ConnectivityStatus | null>(null);
+  const [checkingConnectivity, setCheckingConnectivity] = useState(false);
+
   // Customer search
-  const [searchPhone, setSearchPhone] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
   const [searchResult, setSearchResult] = useState<{
     searched: boolean;
     found: boolean;
     customer?: KioskCustomer;
+    nameMatches?: KioskCustomer[];   // name search results (phone search finds one customer)
     totalCustomers?: number;
     venueIdsInDb?: string[];
   } | null>(null);
@@ -79,8 +113,14 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
   const [incogweedoEnabled, setIncogweedoEnabledState] = useState(false);
 
   // Failed-scan capture (v2.1.4+)
+  // Expired-ID policy (per venue)
+  const [expiredIdPolicy, setExpiredIdPolicyState] = useState<ExpiredIdPolicy>(DEFAULT_EXPIRED_ID_POLICY);
+  const [venuePolicy, setVenuePolicyState] = useState<VenuePolicy>(DEFAULT_VENUE_POLICY);
+
   const [failedScans, setFailedScans] = useState<FailedScan[]>([]);
   const [loadingFailedScans, setLoadingFailedScans] = useState(false);
+  const [replaySummary, setReplaySummary] = useState<FailedScanReplaySummary | null>(null);
+  const [replaying, setReplaying] = useState(false);
 
   // App version
   const [appVersion, setAppVersion] = useState<string>('');
@@ -100,6 +140,13 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
     loadData();
   }, []);
 
+  // Follow the connectivity monitor while the panel is open
+  useEffect(() => {
+    if (!isElectron()) return;
+    getConnectivity().then(setConnectivity).catch(() => {});
+    return onConnectivityChanged(setConnectivity);
+  }, []);
+
   // Subscribe to auto-updater background events (reflects silent updates in UI)
   useEffect(() => {
     if (!isElectron() || !window.kiosk) return;
@@ -176,6 +223,9 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
         setShowHomeInfoPanelState(infoPanel);
         const incogweedo = await getIncogweedoEnabled();
         setIncogweedoEnabledState(incogweedo);
+        const idPolicy = await getExpiredIdPolicy();
+        setExpiredIdPolicyState(idPolicy);
+        setVenuePolicyState(await getVenuePolicy());
         const fs = await getFailedScans(50);
         setFailedScans(fs);
         const words = await getBlockedWords();
@@ -198,6 +248,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
     try {
       const venue = await setVenue(venueId);
       setCurrentVenue(venue);
+      if (isElectron()) {
+        setExpiredIdPolicyState(await getExpiredIdPolicy());
+        setVenuePolicyState(await getVenuePolicy());
+      }
       onVenueChange?.();
     } catch (err) {
       console.error('Failed to change venue:', err);
@@ -219,6 +273,31 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
     }
   };
 
+  const handleReconcile = async () => {
+    if (!isElectron()) return;
+    setSyncing(true);
+    try {
+      await reconcileCustomers();
+      const status = await getSyncStatus();
+      setSyncStatus(status);
+    } catch (err) {
+      console.error('Reconcile failed:', err);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleCheckConnectivity = async () => {
+    setCheckingConnectivity(true);
+    try {
+      setConnectivity(await checkConnectivity());
+    } catch (err) {
+      console.error('Connectivity check failed:', err);
+    } finally {
+      setCheckingConnectivity(false);
+    }
+  };
+
   const handleKioskModeToggle = async () => {
     if (!isElectron()) return;
     const newValue = !kioskModeEnabled;
@@ -240,6 +319,16 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
     setIncogweedoEnabledState(newValue);
   };
 
+  const handleExpiredIdPolicyChange = async (changes: Partial<ExpiredIdPolicy>) => {
+    if (!isElectron()) return;
+    try {
+      const saved = await setExpiredIdPolicy({ ...expiredIdPolicy, ...changes });
+      setExpiredIdPolicyState(saved);
+    } catch (err) {
+      console.error('Failed to save expired-ID policy:', err);
+    }
+  };
+
   const loadFailedScans = async () => {
     if (!isElectron()) return;
     setLoadingFailedScans(true);
@@ -253,6 +342,34 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
     }
   };
 
+  // Re-run every unresolved failed scan through the current parser
+  const handleReplayFailedScans = async () => {
+    if (!isElectron()) return;
+    setReplaying(true);
+    try {
+      const summary = await replayFailedScans();
+      setReplaySummary(summary);
+    } catch (err) {
+      console.error('Failed-scan replay failed:', err);
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const handleResolveReplayed = async () => {
+    if (!replaySummary) return;
+    const ids = replaySummary.results.filter(r => r.ok).map(r => r.id);
+    if (ids.length === 0) return;
+    try {
+      const resolved = await resolveFailedScans(ids);
+      console.log(`Marked ${resolved} failed scans resolved`);
+      setReplaySummary(null);
+      await loadFailedScans();
+    } catch (err) {
+      console.error('Failed to resolve failed scans:', err);
+    }
+  };
+
   const exportFailedScansCsv = () => {
     if (failedScans.length === 0) return;
     const escape = (s: string) => `"${(s || '').replace(/"/g, '""')}"`;
@@ -289,8 +406,25 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
   };
 
   const handleSearch = async () => {
-    if (!searchPhone || searchPhone.length < 10) {
-      alert('Please enter a valid 10-digit phone number');
+    // Letters = name search over the local full-text index
+    if (/[a-z]/i.test(searchQuery)) {
+      setSearching(true);
+      setSearchResult(null);
+      try {
+        const matches = await searchCustomersByName(searchQuery);
+        setSearchResult({ searched: true, found: matches.length > 0, nameMatches: matches });
+      } catch (err) {
+        console.error('Name search failed:', err);
+        setSearchResult({ searched: true, found: false, nameMatches: [] });
+      } finally {
+        setSearching(false);
+      }
+      return;
+    }
+
+    const searchPhone = searchQuery.replace(/\D/g, '');
+    if (searchPhone.length < 10) {
+      alert('Please enter a valid 10-digit phone number or a name');
       return;
     }
 
@@ -299,12 +433,12 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
 
     try {
       // First try venue-specific lookup
-      const result = await lookupCustomer(searchPhone.replace(/\D/g, ''));
+      const result = await lookupCustomer(searchPhone);
 
       // Also try global search if in Electron (for debugging)
       let globalResult = null;
       if (isElectron() && window.kiosk?.debugSearchGlobal) {
-        globalResult = await window.kiosk.debugSearchGlobal(searchPhone.replace(/\D/g, ''));
+        globalResult = await window.kiosk.debugSearchGlobal(searchPhone);
         console.log('Global search result:', globalResult);
       }
 
@@ -420,12 +554,66 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
                     : 'bg-gold text-black hover:bg-[#d8c19d]'
                 }`}
               >
-                {syncing || syncStatus?.isSyncing ? 'Syncing...' : 'Force Full Sync'}
+                {syncing || syncStatus?.isSyncing ? 'Syncing...' : syncStatus?.fullSyncCheckpoint ? 'Resume Full Sync' : 'Force Full Sync'}
+              </button>
+              <button
+                onClick={handleReconcile}
+                disabled={syncing || syncStatus?.isSyncing}
+                className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Check for Deleted Customers
               </button>
               {syncStatus?.isSyncing && (
                 <span className="text-gold animate-pulse">Sync in progress...</span>
               )}
             </div>
+
+            {/* Interrupted full sync — resumes from its last page on the next customer sync */}
+            {syncStatus?.fullSyncCheckpoint && (
+              <p className="text-yellow-400 text-sm mt-4">
+                Full sync started {formatDate(syncStatus.fullSyncCheckpoint.started_at)} is incomplete:{' '}
+                {syncStatus.fullSyncCheckpoint.fetched.toLocaleString()} of {syncStatus.fullSyncCheckpoint.total_records.toLocaleString()} customers
+                (page {syncStatus.fullSyncCheckpoint.last_page} of {syncStatus.fullSyncCheckpoint.total_pages}).
+                Lookups use the customers downloaded so far; the rest download on the next sync.
+              </p>
+            )}
+
+            {/* POSaBIT connection (probed every 15-60s by the connectivity monitor) */}
+            {connectivity && (
+              <div className="flex items-center justify-between bg-zinc-800/50 p-4 rounded-lg mt-4">
+                <div className="flex items-center gap-3">
+                  <ConnectivityIndicator status={connectivity} alwaysLabel />
+                  <div className="text-sm">
+                    <p className="text-white">POSaBIT Connection</p>
+                    <p className="text-zinc-400">
+                      Checked {formatDate(connectivity.checkedAt)}
+                      {connectivity.latencyMs !== null && ` · ${connectivity.latencyMs} ms`}
+                      {connectivity.state === 'offline' && ` · last online ${formatDate(connectivity.lastOnlineAt)}`}
+                    </p>
+                    {connectivity.error && <p className="text-yellow-400 text-xs">{connectivity.error}</p>}
+                  </div>
+                </div>
+                <button
+                  onClick={handleCheckConnectivity}
+                  disabled={checkingConnectivity}
+                  className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {checkingConnectivity ? 'Checking...' : 'Check Now'}
+                </button>
+              </div>
+            )}
+
+            {/* Deleted / merged customer reconcile (scheduled) */}
+            {syncStatus?.lastReconcile && (
+              <p className="text-zinc-400 text-sm mt-4">
+                Last deleted-customer check {formatDate(syncStatus.lastReconcile.at)}:{' '}
+                {syncStatus.lastReconcile.missing} not listed by POSaBIT, {syncStatus.lastReconcile.checked} checked,{' '}
+                {syncStatus.lastReconcile.tombstoned} deleted, {syncStatus.lastReconcile.merged} merged.
+                {syncStatus.lastReconcile.skipped && (
+                  <span className="block text-yellow-400">{syncStatus.lastReconcile.skipped}</span>
+                )}
+              </p>
+            )}
           </div>
         )}
 
@@ -513,6 +701,75 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
           </div>
         )}
 
+        {/* Expired-ID Policy — what the ID scan does when the card is past its DBA date */}
+        {isElectron() && currentVenue && (
+          <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
+            <h2 className="text-xl font-craft text-gold mb-4">Expired ID Policy</h2>
+            <p className="text-zinc-400 text-sm mb-4">
+              What happens at {currentVenue.name} when a scanned ID is past its expiration date. Every expired scan is recorded in the age verification log.
+            </p>
+            <div className="flex gap-2 mb-4">
+              {([
+                ['block', 'Block'],
+                ['warn', 'Warn Staff'],
+                ['grace', 'Grace Period'],
+              ] as [ExpiredIdAction, string][]).map(([action, label]) => (
+                <button
+                  key={action}
+                  onClick={() => handleExpiredIdPolicyChange({ action })}
+                  className={`px-4 py-2 rounded-lg text-sm font-craft transition-all ${
+                    expiredIdPolicy.action === action
+                      ? 'bg-gold text-black font-bold'
+                      : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-zinc-500 text-sm">
+              {expiredIdPolicy.action === 'block' && 'Expired IDs are turned away at the kiosk.'}
+              {expiredIdPolicy.action === 'warn' && 'Expired IDs stop at the kiosk until a team member enters their PIN.'}
+              {expiredIdPolicy.action === 'grace' && 'Expired IDs are accepted for a few days after expiry, then turned away.'}
+            </p>
+            {expiredIdPolicy.action === 'grace' && (
+              <div className="flex items-center gap-3 mt-4">
+                <label className="text-zinc-400 text-sm">Grace days:</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={expiredIdPolicy.graceDays}
+                  onChange={(e) => handleExpiredIdPolicyChange({ graceDays: parseInt(e.target.value) || 0 })}
+                  className="w-24 bg-zinc-800 text-white p-2 rounded-lg border border-zinc-700 focus:border-gold outline-none"
+                />
+              </div>
+            )}
+            {/* Read-only — minimum age / medical card / ID-required rules come from electron/config/policies.ts */}
+            <div className="mt-4 pt-4 border-t border-zinc-800 text-sm text-zinc-400 space-y-1">
+              <p>Minimum age: <span className="text-white">{venuePolicy.minimumAge}+</span></p>
+              <p>
+                Medical recognition cards:{' '}
+                <span className="text-white">
+                  {venuePolicy.allowMedicalRecognitionCard ? `accepted from ${venuePolicy.medicalCardMinimumAge}+ (team member checks the card)` : 'not accepted'}
+                </span>
+              </p>
+              <p>
+                ID required for every check-in:{' '}
+                <span className="text-white">{venuePolicy.requireIdForAllEntries ? 'yes — Phone and Guest go through the ID scan' : 'no'}</span>
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Age Verification Log — compliance record of every ID scan age decision */}
+        {isElectron() && <AgeVerificationLog />}
+
+        {/* Barcode Scanner — driver selection (keyboard wedge / serial / simulated) */}
+        {isElectron() && <ScannerSettings />}
+
+        {/* Scan Diagnostics — raw bytes, timing and subfile boundaries for recent / failed scans */}
+        {isElectron() && <ScanDiagnostics />}
+
         {/* Failed Scans (v2.1.4+) — captures raw AAMVA barcode bytes when ID parsing fails */}
         {isElectron() && (
           <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
@@ -531,6 +788,13 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
                 >
                   {loadingFailedScans ? 'Loading...' : 'Refresh'}
                 </button>
+                <button
+                  onClick={handleReplayFailedScans}
+                  disabled={replaying}
+                  className="px-4 py-2 rounded-lg bg-zinc-700 text-zinc-200 hover:bg-zinc-600 text-sm font-craft disabled:opacity-50"
+                >
+                  {replaying ? 'Replaying...' : 'Replay Through Parser'}
+                </button>
                 <button
                   onClick={exportFailedScansCsv}
                   disabled={failedScans.length === 0}
@@ -544,6 +808,71 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
               Raw barcode capture for IDs that fail to parse (Iowa, out-of-state, partial WA, etc.). Last 50 entries shown — older than 30 days are auto-deleted.
             </p>
 
+            {/* Replay results — which captured scans the current parser now handles */}
+            {replaySummary && (
+              <div className="mb-4 p-4 rounded-lg bg-zinc-800/50 border border-zinc-700">
+                <div className="flex items-center justify-between mb-3">
+                  <p className="text-white text-sm">
+                    Replayed {replaySummary.total} unresolved {replaySummary.total === 1 ? 'scan' : 'scans'}:{' '}
+                    <span className="text-green-400 font-bold">{replaySummary.parsed} now parse</span>,{' '}
+                    <span className="text-yellow-400 font-bold">{replaySummary.failing} still failing</span>
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleResolveReplayed}
+                      disabled={replaySummary.parsed === 0}
+                      className="px-3 py-1 rounded-lg bg-green-700 text-white hover:bg-green-600 text-xs font-craft disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Mark {replaySummary.parsed} Resolved
+                    </button>
+                    <button
+                      onClick={() => setReplaySummary(null)}
+                      className="px-3 py-1 rounded-lg bg-zinc-700 text-zinc-300 hover:bg-zinc-600 text-xs font-craft"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                </div>
+                {replaySummary.results.length > 0 && (
+                  <div className="max-h-72 overflow-y-auto rounded-lg border border-zinc-800">
+                    <table className="w-full text-xs">
+                      <thead className="bg-zinc-900/80 sticky top-0">
+                        <tr className="text-left text-zinc-400 uppercase tracking-wider">
+                          <th className="p-2">When</th>
+                          <th className="p-2">Was</th>
+                          <th className="p-2">Now</th>
+                          <th className="p-2">Extracted</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {replaySummary.results.map(r => (
+                          <tr key={r.id} className="border-t border-zinc-800">
+                            <td className="p-2 text-zinc-300 whitespace-nowrap">{new Date(r.created_at).toLocaleString()}</td>
+                            <td className="p-2 text-zinc-500 font-mono">{r.original_error}</td>
+                            <td className={`p-2 font-mono ${r.ok ? 'text-green-400' : 'text-yellow-400'}`}>
+                              {r.ok ? 'parsed ✓' : r.error}
+                            </td>
+                            <td className="p-2 text-zinc-300">
+                              {r.license ? (
+                                <>
+                                  {r.license.firstName} {r.license.lastName}
+                                  {r.license.dateOfBirth && <span className="text-zinc-500"> · DOB {r.license.dateOfBirth}</span>}
+                                  {r.license.state && <span className="text-zinc-500"> · {r.license.state}</span>}
+                                  {r.license.aamvaVersion !== undefined && <span className="text-zinc-500"> · v{r.license.aamvaVersion}</span>}
+                                </>
+                              ) : (
+                                <span className="text-zinc-600">—</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
             {failedScans.length === 0 ? (
               <p className="text-zinc-500 text-sm italic">No failed scans recorded yet.</p>
             ) : (
@@ -564,7 +893,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
                           {new Date(scan.created_at).toLocaleString()}
                         </td>
                         <td className="p-3 text-zinc-400">{scan.venue_id}</td>
-                        <td className="p-3 text-yellow-400 font-mono text-xs">{scan.parser_error}</td>
+                        <td className="p-3 text-yellow-400 font-mono text-xs">
+                          {scan.parser_error}
+                          {scan.resolved_at && <span className="ml-2 text-green-400">(resolved)</span>}
+                        </td>
                         <td className="p-3 text-zinc-500 font-mono text-xs break-all">
                           {scan.raw_barcode.slice(0, 120)}
                           {scan.raw_barcode.length > 120 ? '…' : ''}
@@ -637,15 +969,17 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
         <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800 mb-6">
           <h2 className="text-xl font-craft text-gold mb-4">Customer Search</h2>
           <p className="text-zinc-400 mb-4">
-            Search for a customer by phone number to verify they exist in the local database.
+            Search for a customer by phone number or name to verify they exist in the local database.
+            Names match on the start of a word or how it sounds ("rob smi", "katherine smyth").
           </p>
 
           <div className="flex gap-4 mb-4">
             <input
-              type="tel"
-              value={searchPhone}
-              onChange={(e) => setSearchPhone(e.target.value)}
-              placeholder="Enter phone number (e.g., 5596769242)"
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSearch(); }}
+              placeholder="Phone number (e.g., 5596769242) or name"
               className="flex-1 bg-zinc-800 text-white p-3 rounded-lg border border-zinc-700 focus:border-gold outline-none text-lg"
             />
             <button
@@ -666,7 +1000,42 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
             <div className={`p-4 rounded-lg ${
               searchResult.found ? 'bg-green-900/30 border border-green-700' : 'bg-red-900/30 border border-red-700'
             }`}>
-              {searchResult.found && searchResult.customer ? (
+              {searchResult.nameMatches ? (
+                searchResult.nameMatches.length > 0 ? (
+                  <div>
+                    <p className="text-green-400 font-bold mb-2">
+                      {searchResult.nameMatches.length} customer{searchResult.nameMatches.length === 1 ? '' : 's'} found
+                    </p>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-zinc-400">
+                          <th className="py-1">ID</th>
+                          <th className="py-1">Name</th>
+                          <th className="py-1">Phone</th>
+                          <th className="py-1">Loyalty</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {searchResult.nameMatches.map(customer => (
+                          <tr key={customer.id} className="border-t border-zinc-700/50 text-white">
+                            <td className="py-1">{customer.id}</td>
+                            <td className="py-1">{customer.first_name} {customer.last_name}</td>
+                            <td className="py-1">{customer.telephone ? formatPhone(customer.telephone) : 'N/A'}</td>
+                            <td className="py-1">{customer.loyalty_member ? 'Yes' : 'No'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div>
+                    <p className="text-red-400 font-bold">Customer Not Found</p>
+                    <p className="text-zinc-400 text-sm mt-1">
+                      No customer named "{searchQuery.trim()}" is in the local database.
+                    </p>
+                  </div>
+                )
+              ) : searchResult.found && searchResult.customer ? (
                 <div>
                   <p className="text-green-400 font-bold mb-2">Customer Found!</p>
                   <div className="grid grid-cols-2 gap-2 text-sm">
@@ -688,7 +1057,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
                 <div>
                   <p className="text-red-400 font-bold">Customer Not Found</p>
                   <p className="text-zinc-400 text-sm mt-1">
-                    Phone {formatPhone(searchPhone)} is not in the local database.
+                    Phone {formatPhone(searchQuery)} is not in the local database.
                     Try running a full sync or verify the phone number in POSaBIT.
                   </p>
                   {searchResult.totalCustomers !== undefined && (
@@ -782,6 +1151,27 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onVenueChange }) => {
           </div>
         )}
 
+        {/* Sync Schedule — store hours, per-job intervals and the job history */}
+        {isElectron() && <SyncJobs key={currentVenue?.id} />}
+
+        {/* Offline Check-ins — retry backlog and dead-lettered entries */}
+        {isElectron() && <OfflineQueue key={currentVenue?.id} />}
+
+        {/* Offline Sign-ups — customers created while POSaBIT was unreachable */}
+        {isElectron() && <PendingCustomers key={currentVenue?.id} />}
+
+        {/* Cross-Venue Lookup — sibling venues searched for customers not found here */}
+        {isElectron() && <CrossVenueLookup key={currentVenue?.id} />}
+
+        {/* Duplicate Customers — probable duplicates in the local cache, for merging in POSaBIT */}
+        {isElectron() && <DuplicateCustomers key={currentVenue?.id} />}
+
+        {/* Data Retention — retention windows, forget a customer, deletion log */}
+        {isElectron() && <DataRetention />}
+
+        {/* Database Schema — migration version, history and backups */}
+        {isElectron() && <DatabaseMigrations />}
+
         {/* Debug Info */}
         <div className="bg-zinc-900/50 p-6 rounded-2xl border border-zinc-800">
           <h2 className="text-xl font-craft text-gold mb-4">System Info</h2>
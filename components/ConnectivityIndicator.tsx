@@ -0,0 +1,26 @@
+import React from 'react';
+import { CONNECTIVITY_LABELS, ConnectivityStatus } from '../electron/shared/connectivity';
+
+const DOT_COLORS = {
+  online: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  offline: 'bg-red-500',
+};
+
+// POSaBIT connection state — a quiet dot while online, a labelled pill otherwise
+const ConnectivityIndicator: React.FC<{ status: ConnectivityStatus | null; alwaysLabel?: boolean }> = ({ status, alwaysLabel }) => {
+  if (!status) return null;
+  const showLabel = alwaysLabel || status.state !== 'online';
+
+  return (
+    <div
+      className={`flex items-center gap-2 ${showLabel ? 'px-3 py-1 rounded-full bg-zinc-900/80 border border-zinc-700' : ''}`}
+      title={status.error || `POSaBIT ${CONNECTIVITY_LABELS[status.state].toLowerCase()}`}
+    >
+      <span className={`w-2.5 h-2.5 rounded-full ${DOT_COLORS[status.state]} ${status.state !== 'online' ? 'animate-pulse' : ''}`}></span>
+      {showLabel && <span className="text-xs text-zinc-200">{CONNECTIVITY_LABELS[status.state]}</span>}
+    </div>
+  );
+};
+
+export default ConnectivityIndicator;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { rememberCustomerChoice, KioskCustomer } from '../../services/kioskApi';
+import { maskCandidate, MAX_PICKER_CANDIDATES } from '../../electron/shared/customerMatch';
+
+interface CustomerPickerProps {
+  candidates: KioskCustomer[];
+  matchKey?: string;           // the pick is remembered under this key so it resolves itself next time
+  onPick: (customer: KioskCustomer) => void;
+  onNoneOfThese: () => void;
+}
+
+// Disambiguation screen — several records match, so the customer picks their own.
+// Only masked details are shown: first name, last initial, last 2 phone digits, birth month.
+const CustomerPicker: React.FC<CustomerPickerProps> = ({ candidates, matchKey, onPick, onNoneOfThese }) => {
+  const pick = (customer: KioskCustomer) => {
+    if (matchKey) {
+      rememberCustomerChoice(matchKey, customer.id).catch(err => {
+        console.error('Failed to remember customer choice (non-blocking):', err);
+      });
+    }
+    onPick(customer);
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-zinc-900/50 p-10 rounded-3xl border border-zinc-800 shadow-xl text-center">
+      <h2 className="text-3xl font-craft font-bold mb-2 text-gold uppercase tracking-wider">
+        Which One Is You?
+      </h2>
+      <p className="text-zinc-400 mb-8">We found more than one account. Tap yours.</p>
+
+      <div className="space-y-4 mb-8">
+        {candidates.slice(0, MAX_PICKER_CANDIDATES).map(customer => {
+          const masked = maskCandidate(customer);
+          const details = [
+            masked.phoneLast2 && `Phone ending ••${masked.phoneLast2}`,
+            masked.birthMonth && `Born in ${masked.birthMonth}`,
+          ].filter(Boolean);
+          return (
+            <button
+              key={customer.id}
+              onClick={() => pick(customer)}
+              className="w-full p-6 rounded-xl bg-zinc-800 text-white hover:bg-zinc-700 transition-all active:scale-95 text-left"
+            >
+              <p className="text-2xl font-craft">
+                {masked.firstName} {masked.lastInitial && `${masked.lastInitial}.`}
+              </p>
+              {details.length > 0 && (
+                <p className="text-zinc-400 mt-1">{details.join(' · ')}</p>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onNoneOfThese}
+        className="w-full p-6 rounded-xl text-xl font-craft bg-zinc-900 border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-all"
+      >
+        None of These
+      </button>
+    </div>
+  );
+};
+
+export default CustomerPicker;
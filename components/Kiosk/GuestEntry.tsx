@@ -1,96 +1,19 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Customer } from '../../types';
-import { createCustomer, lookupCustomer, updateCustomer, getBlockedWords, isNameBlocked } from '../../services/kioskApi';
+import { createCustomer, lookupCustomer, updateCustomer, getBlockedWords, isNameBlocked, onScan, getConnectivity, KioskCustomer } from '../../services/kioskApi';
 import TouchKeyboard from './TouchKeyboard';
+import CustomerPicker from './CustomerPicker';
+import { parseIdentityDocument, IdentityRecord } from '../../electron/shared/identity';
 
 interface GuestEntryProps {
   onComplete: (data: Partial<Customer>) => void;
+  scanPaused?: boolean;  // AdminPanel is open — ignore the scanner
 }
 
-interface ScannedDLData {
-  firstName: string;
-  lastName: string;
-  address?: string;
-  city?: string;
-  state?: string;
-  zipCode?: string;
-  dateOfBirth?: string;
-  gender?: 'M' | 'F' | 'X';
-}
-
-type Step = 'NAME' | 'NAME_INITIAL' | 'LOYALTY_PROMPT' | 'DL_SCAN_OPTION' | 'DL_SCANNING' | 'PHONE_ENTRY' | 'EMAIL_ENTRY' | 'CREATING';
-
-// Parse driver's license barcode (simplified version)
-const parseDriversLicense = (scanData: string): ScannedDLData | null => {
-  try {
-    const fields: Record<string, string> = {};
-    const allFieldCodes = [
-      'DAA', 'DAB', 'DAC', 'DAD', 'DAE', 'DAF', 'DAG', 'DAH', 'DAI', 'DAJ', 'DAK', 'DAL', 'DAM', 'DAN', 'DAO', 'DAP', 'DAQ', 'DAR', 'DAS', 'DAT', 'DAU', 'DAV', 'DAW', 'DAX', 'DAY', 'DAZ',
-      'DBA', 'DBB', 'DBC', 'DBD', 'DBE', 'DBF', 'DBG', 'DBH', 'DBI', 'DBJ', 'DBK', 'DBL', 'DBM', 'DBN', 'DBO', 'DBP', 'DBQ', 'DBR', 'DBS',
-      'DCA', 'DCB', 'DCC', 'DCD', 'DCE', 'DCF', 'DCG', 'DCH', 'DCI', 'DCJ', 'DCK', 'DCL', 'DCM', 'DCN', 'DCO', 'DCP', 'DCQ', 'DCR', 'DCS', 'DCT', 'DCU',
-      'DDA', 'DDB', 'DDC', 'DDD', 'DDE', 'DDF', 'DDG', 'DDH', 'DDI', 'DDJ', 'DDK', 'DDL',
-      'DFN', 'DLN', 'DEN'
-    ];
-
-    const fieldCodeRegex = new RegExp(`(${allFieldCodes.join('|')})`, 'g');
-    const matches: { code: string; index: number }[] = [];
-    let match;
-    while ((match = fieldCodeRegex.exec(scanData)) !== null) {
-      matches.push({ code: match[1], index: match.index });
-    }
-
-    for (let i = 0; i < matches.length; i++) {
-      const { code, index } = matches[i];
-      const startPos = index + 3;
-      const endPos = i < matches.length - 1 ? matches[i + 1].index : scanData.length;
-      let value = scanData.substring(startPos, endPos);
-      value = value.replace(/[\x00-\x1F]/g, '').trim();
-      if (value && !fields[code]) {
-        fields[code] = value;
-      }
-    }
+type Step = 'NAME' | 'NAME_INITIAL' | 'LOYALTY_PROMPT' | 'DL_SCAN_OPTION' | 'DL_SCANNING' | 'PHONE_ENTRY' | 'PICK_CUSTOMER' | 'EMAIL_ENTRY' | 'CREATING';
 
-    let firstName = fields['DAC'] || fields['DCT'] || fields['DFN'] || '';
-    let lastName = fields['DCS'] || fields['DLN'] || '';
-    const dateOfBirth = fields['DBB'] || '';
-    let address = fields['DAG'] || '';
-    let city = fields['DAI'] || '';
-    let state = fields['DAJ'] || '';
-    let zipCode = fields['DAK'] || '';
-
-    if (state.length > 2) state = state.substring(0, 2);
-    zipCode = zipCode.replace(/[^0-9]/g, '').substring(0, 5);
-
-    const genderCode = fields['DBC'] || '';
-    let gender: 'M' | 'F' | 'X' | undefined;
-    if (genderCode === '1') gender = 'M';
-    else if (genderCode === '2') gender = 'F';
-    else if (genderCode) gender = 'X';
-
-    firstName = firstName.replace(/[^A-Za-z\-' ]/g, '').trim();
-    lastName = lastName.replace(/[^A-Za-z\-' ]/g, '').trim();
-
-    if (!firstName) return null;
-
-    const properCase = (s: string) => s.split(/\s+/).map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ');
-
-    return {
-      firstName: properCase(firstName),
-      lastName: lastName ? properCase(lastName) : '',
-      address: address || undefined,
-      city: city ? properCase(city) : undefined,
-      state: state?.toUpperCase() || undefined,
-      zipCode: zipCode || undefined,
-      dateOfBirth: dateOfBirth || undefined,
-      gender,
-    };
-  } catch (e) {
-    return null;
-  }
-};
-
-const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete }) => {
+const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete, scanPaused }) => {
   const [step, setStep] = useState<Step>('NAME');
   const [name, setName] = useState('');
   const [initial, setInitial] = useState('');
@@ -98,13 +21,11 @@ const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete }) => {
   const [email, setEmail] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [dlData, setDlData] = useState<ScannedDLData | null>(null);
+  const [dlData, setDlData] = useState<IdentityRecord | null>(null);
   const [existingCustomerId, setExistingCustomerId] = useState<number | null>(null);
-  const [scanBuffer, setScanBuffer] = useState('');
+  const [candidates, setCandidates] = useState<{ customers: KioskCustomer[]; matchKey?: string } | null>(null);
   const [blockedWords, setBlockedWords] = useState<string[]>([]);
   const [nameBlocked, setNameBlocked] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
-  const bufferTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Load blocked words on mount
   useEffect(() => {
@@ -116,18 +37,13 @@ const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete }) => {
     setNameBlocked(name.trim() ? isNameBlocked(name, blockedWords) : false);
   }, [name, blockedWords]);
 
-  // Keep input focused for scanner when in DL_SCANNING step
+  // Listen for the scanner only while on the DL_SCANNING step
   useEffect(() => {
-    if (step === 'DL_SCANNING') {
-      inputRef.current?.focus();
-      const keepFocus = setInterval(() => {
-        if (document.activeElement !== inputRef.current) {
-          inputRef.current?.focus();
-        }
-      }, 500);
-      return () => clearInterval(keepFocus);
-    }
-  }, [step]);
+    if (step !== 'DL_SCANNING' || scanPaused) return;
+    return onScan(scan => {
+      if (scan.data.length > 50) processDLScan(scan.data);
+    });
+  }, [step, scanPaused]);
 
   const formatPhoneDisplay = (val: string) => {
     if (!val) return '';
@@ -172,7 +88,6 @@ const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete }) => {
 
   // User wants to scan DL for demographics
   const startDLScan = () => {
-    setScanBuffer('');
     setStep('DL_SCANNING');
   };
 
@@ -181,25 +96,9 @@ const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete }) => {
     setStep('PHONE_ENTRY');
   };
 
-  // Handle DL scan input
-  const handleScanInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setScanBuffer(value);
-
-    if (bufferTimeoutRef.current) {
-      clearTimeout(bufferTimeoutRef.current);
-    }
-
-    bufferTimeoutRef.current = setTimeout(() => {
-      if (value.length > 50) {
-        processDLScan(value);
-      }
-    }, 100);
-  };
-
   // Process the DL scan
   const processDLScan = (scanData: string) => {
-    const parsed = parseDriversLicense(scanData);
+    const parsed = parseIdentityDocument(scanData);
 
     if (parsed) {
       setDlData(parsed);
@@ -209,8 +108,6 @@ const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete }) => {
     }
 
     // Move to phone entry regardless
-    setScanBuffer('');
-    if (inputRef.current) inputRef.current.value = '';
     setStep('PHONE_ENTRY');
   };
 
@@ -227,6 +124,10 @@ const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete }) => {
         setStep('EMAIL_ENTRY');
         // Store existing customer id so submitWithLoyalty can update instead of create
         setExistingCustomerId(result.customer.id);
+      } else if (result.candidates && result.candidates.length > 0) {
+        // Several accounts share this phone - ask which one to update instead of adding another
+        setCandidates({ customers: result.candidates, matchKey: result.matchKey });
+        setStep('PICK_CUSTOMER');
       } else {
         setStep('EMAIL_ENTRY');
         setExistingCustomerId(null);
@@ -308,7 +209,10 @@ const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete }) => {
       return; // Skip the finally block's setLoading since we already did it
     } catch (err) {
       console.error('Failed to create/update customer:', err);
-      setError('Failed to sign up for loyalty. Please try again or continue as guest.');
+      const { state } = await getConnectivity().catch(() => ({ state: 'online' as const }));
+      setError(state === 'offline'
+        ? "Loyalty sign-up isn't available while our system is offline. Please continue as guest — staff can add your rewards later."
+        : 'Failed to sign up for loyalty. Please try again or continue as guest.');
       setStep('EMAIL_ENTRY');
       setLoading(false);
     }
@@ -482,18 +386,6 @@ const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete }) => {
           Place the barcode on the back of your ID under the scanner
         </p>
 
-        {/* Hidden input for scanner */}
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onBlur={() => inputRef.current?.focus()}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-          autoFocus
-        />
-
         <button
           onClick={skipDLScan}
           className="text-zinc-500 hover:text-zinc-300 transition-colors underline underline-offset-4"
@@ -571,6 +463,17 @@ const GuestEntry: React.FC<GuestEntryProps> = ({ onComplete }) => {
   }
 
   // Step 4: Email Entry (for loyalty signup)
+  if (step === 'PICK_CUSTOMER' && candidates) {
+    return (
+      <CustomerPicker
+        candidates={candidates.customers}
+        matchKey={candidates.matchKey}
+        onPick={(customer) => { setCandidates(null); setExistingCustomerId(customer.id); setStep('EMAIL_ENTRY'); }}
+        onNoneOfThese={() => { setCandidates(null); setExistingCustomerId(null); setStep('EMAIL_ENTRY'); }}
+      />
+    );
+  }
+
   if (step === 'EMAIL_ENTRY') {
     return (
       <div className="w-full max-w-2xl bg-zinc-900/50 p-10 rounded-3xl border border-zinc-800 shadow-xl text-center">
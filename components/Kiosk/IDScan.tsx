@@ -1,271 +1,51 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Customer } from '../../types';
-import { lookupCustomerByName, lookupCustomerByLicense, lookupCustomerByDobLastname, lookupCustomer, fetchCustomerById, updateCustomer, createCustomer, getQueue, logFailedScan, KioskCustomer } from '../../services/kioskApi';
+import { Customer, CheckInMethod } from '../../types';
+import { matchCustomers, lookupCustomerByLicense, lookupCustomer, fetchCustomerById, updateCustomer, createCustomer, getQueue, logFailedScan, getVenuePolicy, onScan, logIdVerification, IdVerificationOutcome, KioskCustomer } from '../../services/kioskApi';
 import TouchKeyboard from './TouchKeyboard';
+import CustomerPicker from './CustomerPicker';
+import { formatDOB } from '../../electron/shared/aamva';
+import { evaluateScan, DOCUMENT_TYPE_LABELS, IdentityRecord } from '../../electron/shared/identity';
+import { checkIdExpiry, IdExpiryCheck } from '../../electron/shared/idExpiry';
+import { checkAge, DEFAULT_VENUE_POLICY, VenuePolicy } from '../../electron/shared/venuePolicy';
 
 interface IDScanProps {
   onComplete: (data: Partial<Customer>) => void;
   onGoHome?: () => void;
   pendingScanData?: string | null;
   onPendingScanConsumed?: () => void;
+  entryMethod?: CheckInMethod;  // Phone/Guest routed here when the venue requires ID for every entry
+  scanPaused?: boolean;         // AdminPanel is open — ignore the scanner
 }
 
-interface ParsedLicense {
-  firstName: string;
-  lastName: string;
-  middleName?: string;
-  licenseNumber?: string;
-  dateOfBirth?: string;  // MMDDYYYY format
-  age?: number;
-  isOver21?: boolean;
-  // Address fields
-  address?: string;
-  city?: string;
-  state?: string;
-  zipCode?: string;
-  // Demographics
-  gender?: 'M' | 'F' | 'X';  // M=Male, F=Female, X=Non-binary/Other
-  eyeColor?: string;
-  height?: string;
-  expirationDate?: string;
-}
-
-// Calculate age from DOB string (MMDDYYYY format)
-const calculateAge = (dob: string): { age: number; isOver21: boolean } | null => {
-  if (!dob || dob.length !== 8) return null;
-
-  const month = parseInt(dob.substring(0, 2), 10);
-  const day = parseInt(dob.substring(2, 4), 10);
-  const year = parseInt(dob.substring(4, 8), 10);
-
-  if (isNaN(month) || isNaN(day) || isNaN(year)) return null;
-
-  const birthDate = new Date(year, month - 1, day);
-  const today = new Date();
-
-  let age = today.getFullYear() - birthDate.getFullYear();
-  const monthDiff = today.getMonth() - birthDate.getMonth();
-
-  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-    age--;
-  }
-
-  return { age, isOver21: age >= 21 };
-};
-
-// Format DOB for display (MMDDYYYY -> MM/DD/YYYY)
-const formatDOB = (dob: string): string => {
-  if (!dob || dob.length !== 8) return dob;
-  return `${dob.substring(0, 2)}/${dob.substring(2, 4)}/${dob.substring(4, 8)}`;
-};
-
-// Parse driver's license barcode data (AAMVA PDF417 format)
-// AAMVA uses control characters as delimiters: \x1E (Record Sep), \x1D (Group Sep), \x0A (LF)
-// Common Field codes:
-//   DCS = Last Name (Family Name)
-//   DAC = First Name
-//   DCT = First Name (alt in some states)
-//   DAD = Middle Name
-//   DAQ = License Number
-//   DBB = Date of Birth (MMDDYYYY)
-//   DBA = Expiration Date
-//   DAG = Street Address
-//   DAI = City
-//   DAJ = State
-//   DAK = Zip Code
-//   DBC = Sex (1=Male, 2=Female, 9=Not specified)
-//   DAY = Eye Color
-//   DAU = Height
-const parseDriversLicense = (scanData: string): ParsedLicense | null => {
-  try {
-    const fields: Record<string, string> = {};
-
-    // All known AAMVA 3-letter field codes
-    const allFieldCodes = [
-      'DAA', 'DAB', 'DAC', 'DAD', 'DAE', 'DAF', 'DAG', 'DAH', 'DAI', 'DAJ', 'DAK', 'DAL', 'DAM', 'DAN', 'DAO', 'DAP', 'DAQ', 'DAR', 'DAS', 'DAT', 'DAU', 'DAV', 'DAW', 'DAX', 'DAY', 'DAZ',
-      'DBA', 'DBB', 'DBC', 'DBD', 'DBE', 'DBF', 'DBG', 'DBH', 'DBI', 'DBJ', 'DBK', 'DBL', 'DBM', 'DBN', 'DBO', 'DBP', 'DBQ', 'DBR', 'DBS',
-      'DCA', 'DCB', 'DCC', 'DCD', 'DCE', 'DCF', 'DCG', 'DCH', 'DCI', 'DCJ', 'DCK', 'DCL', 'DCM', 'DCN', 'DCO', 'DCP', 'DCQ', 'DCR', 'DCS', 'DCT', 'DCU',
-      'DDA', 'DDB', 'DDC', 'DDD', 'DDE', 'DDF', 'DDG', 'DDH', 'DDI', 'DDJ', 'DDK', 'DDL',
-      'DFN', 'DLN', 'DEN'
-    ];
-
-    // Find field codes by scanning for each code independently to avoid
-    // regex overlap issues (e.g., "BEAMGUARDDAC" → regex sees "DDA" before "DAC")
-    const allMatches: { code: string; index: number }[] = [];
-    for (const code of allFieldCodes) {
-      let pos = 0;
-      while ((pos = scanData.indexOf(code, pos)) !== -1) {
-        allMatches.push({ code, index: pos });
-        pos += 3;
-      }
-    }
-
-    // Sort by position, then prefer priority codes when two overlap
-    allMatches.sort((a, b) => a.index - b.index || 0);
-
-    // Deduplicate: when two codes overlap at adjacent positions, keep the priority one
-    const priorityCodes = new Set(['DCS', 'DAC', 'DAD', 'DAQ', 'DBB', 'DAG', 'DAI', 'DAJ', 'DAK', 'DBA', 'DBC', 'DAY', 'DAU', 'DBD', 'DCA', 'DCB', 'DCD', 'DCF', 'DCG']);
-    const matches: { code: string; index: number }[] = [];
-    for (let i = 0; i < allMatches.length; i++) {
-      const curr = allMatches[i];
-      // Skip if this overlaps with the previous accepted match
-      if (matches.length > 0) {
-        const prev = matches[matches.length - 1];
-        if (curr.index < prev.index + 3) {
-          // Overlapping — keep the priority one
-          if (priorityCodes.has(curr.code) && !priorityCodes.has(prev.code)) {
-            matches.pop(); // Replace previous with current
-          } else {
-            continue; // Skip current
-          }
-        }
-      }
-      matches.push(curr);
-    }
-
-    // Extract value for each field code (from after code to next code)
-    for (let i = 0; i < matches.length; i++) {
-      const { code, index } = matches[i];
-      const startPos = index + 3; // After the 3-letter code
-      const endPos = i < matches.length - 1 ? matches[i + 1].index : scanData.length;
-
-      let value = scanData.substring(startPos, endPos);
-      // Clean control characters
-      value = value.replace(/[\x00-\x1F]/g, '').trim();
-
-      if (value && !fields[code]) {
-        fields[code] = value;
-      }
-    }
-
-    // Also try splitting by control characters as backup
-    const segments = scanData.split(/[\x1D\x1E\x0A\x0D\n\r]+/);
-    for (const segment of segments) {
-      const trimmed = segment.trim();
-      if (!trimmed || trimmed.length < 4) continue;
-
-      // Match 3-letter field codes at start
-      const segMatch = trimmed.match(/^([A-Z]{3})(.+)$/);
-      if (segMatch && allFieldCodes.includes(segMatch[1])) {
-        const [, code, value] = segMatch;
-        const cleanValue = value.replace(/[\x00-\x1F]/g, '').trim();
-        if (cleanValue && !fields[code]) {
-          fields[code] = cleanValue;
-        }
-      }
-    }
-
-    // Extract name fields with fallbacks
-    let firstName = fields['DAC'] || fields['DCT'] || fields['DFN'] || '';
-    let lastName = fields['DCS'] || fields['DLN'] || '';
-    const middleName = fields['DAD'] || '';
-    const licenseNumber = fields['DAQ'] || fields['DAN'] || '';
-    const dateOfBirth = fields['DBB'] || '';
-    const expirationDate = fields['DBA'] || '';
-
-    // Address fields - clean them properly
-    let address = fields['DAG'] || '';
-    let city = fields['DAI'] || '';
-    let state = fields['DAJ'] || '';
-    let zipCode = fields['DAK'] || '';
-
-    // State should be exactly 2 letters
-    if (state.length > 2) {
-      state = state.substring(0, 2);
-    }
-
-    // Clean zip code - first 5 digits only
-    zipCode = zipCode.replace(/[^0-9]/g, '').substring(0, 5);
-
-    // Demographics
-    const genderCode = fields['DBC'] || '';
-    let gender: 'M' | 'F' | 'X' | undefined;
-    if (genderCode === '1') gender = 'M';
-    else if (genderCode === '2') gender = 'F';
-    else if (genderCode) gender = 'X';
-
-    let eyeColor = fields['DAY'] || '';
-    let height = fields['DAU'] || '';
-
-    // Clean height - should be like "068 in" or "5-09"
-    if (height.length > 10) {
-      // Likely captured too much, extract just the height portion
-      const heightMatch = height.match(/^(\d{3}\s*in|\d-\d{2})/);
-      if (heightMatch) {
-        height = heightMatch[1];
-      } else {
-        height = height.substring(0, 6).trim();
-      }
-    }
-
-    // Clean up names - remove trailing non-alpha chars but keep the name
-    firstName = firstName.replace(/[^A-Za-z\-' ]/g, '').trim();
-    lastName = lastName.replace(/[^A-Za-z\-' ]/g, '').trim();
-
-    // If middle name is "NONE", clear it
-    const cleanMiddle = middleName.replace(/[^A-Za-z\-' ]/g, '').trim();
-
-    // Calculate age from DOB
-    const ageInfo = calculateAge(dateOfBirth);
-
-    if (!firstName) {
-      return null;
-    }
-
-    // Proper case the names (handles multi-word names like "Van Houten")
-    const properCase = (s: string) => s.split(/\s+/).map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ');
-
-    return {
-      firstName: properCase(firstName),
-      lastName: lastName ? properCase(lastName) : '',
-      middleName: cleanMiddle && cleanMiddle.toUpperCase() !== 'NONE' ? properCase(cleanMiddle) : undefined,
-      licenseNumber,
-      dateOfBirth,
-      age: ageInfo?.age,
-      isOver21: ageInfo?.isOver21,
-      // Address
-      address: address || undefined,
-      city: city ? properCase(city) : undefined,
-      state: state?.toUpperCase() || undefined,
-      zipCode: zipCode || undefined,
-      // Demographics
-      gender,
-      eyeColor: eyeColor || undefined,
-      height: height || undefined,
-      expirationDate: expirationDate || undefined,
-    };
-  } catch (e) {
-    console.error('Failed to parse license:', e);
-    return null;
-  }
-};
-
-const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData, onPendingScanConsumed }) => {
-  const [status, setStatus] = useState<'READY' | 'SCANNING' | 'FOUND' | 'LOYALTY_PROMPT' | 'EMAIL_ENTRY' | 'UPDATING_LOYALTY' | 'SUCCESS' | 'UNDERAGE' | 'INVALID_SCAN' | 'NEW_CUSTOMER_PHONE' | 'NEW_CUSTOMER_LOYALTY_PROMPT' | 'NEW_CUSTOMER_EMAIL' | 'LINK_ACCOUNT_PHONE' | 'LINK_ACCOUNT_SEARCHING' | 'LINK_ACCOUNT_VERIFYING' | 'LINK_ACCOUNT_FOUND' | 'LINK_ACCOUNT_NOT_FOUND' | 'LINK_ACCOUNT_MISMATCH' | 'AUTO_CHECKIN' | 'ALREADY_IN_QUEUE'>('READY');
-  const [scanBuffer, setScanBuffer] = useState('');
-  const [scannedInfo, setScannedInfo] = useState<ParsedLicense | null>(null);
+const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData, onPendingScanConsumed, entryMethod, scanPaused }) => {
+  const [status, setStatus] = useState<'READY' | 'SCANNING' | 'FOUND' | 'LOYALTY_PROMPT' | 'EMAIL_ENTRY' | 'UPDATING_LOYALTY' | 'SUCCESS' | 'UNDERAGE' | 'MEDICAL_CARD' | 'EXPIRED_ID' | 'INVALID_SCAN' | 'NEW_CUSTOMER_PHONE' | 'NEW_CUSTOMER_LOYALTY_PROMPT' | 'NEW_CUSTOMER_EMAIL' | 'LINK_ACCOUNT_PHONE' | 'LINK_ACCOUNT_SEARCHING' | 'LINK_ACCOUNT_VERIFYING' | 'LINK_ACCOUNT_FOUND' | 'LINK_ACCOUNT_NOT_FOUND' | 'LINK_ACCOUNT_MISMATCH' | 'AUTO_CHECKIN' | 'ALREADY_IN_QUEUE' | 'PICK_CUSTOMER'>('READY');
+  const [scannedInfo, setScannedInfo] = useState<IdentityRecord | null>(null);
   const [foundCustomer, setFoundCustomer] = useState<KioskCustomer | null>(null);
   const [foundByDL, setFoundByDL] = useState(false);
   const [email, setEmail] = useState('');
   const [linkPhone, setLinkPhone] = useState('');
   const [newCustomerPhone, setNewCustomerPhone] = useState('');
+  // Several records matched — which lookup the customer's pick on the disambiguation screen answers
+  const [picker, setPicker] = useState<{ candidates: KioskCustomer[]; matchKey?: string; context: 'scan' | 'new_customer_phone' | 'link_phone' } | null>(null);
   const [managerPin, setManagerPin] = useState('');
   const [pinError, setPinError] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
-  const bufferTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [expiryCheck, setExpiryCheck] = useState<IdExpiryCheck | null>(null);
+  const [venuePolicy, setVenuePolicy] = useState<VenuePolicy>(DEFAULT_VENUE_POLICY);
+  const venuePolicyRef = useRef<VenuePolicy>(DEFAULT_VENUE_POLICY);
+  const heldScanResetRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Keep input focused for scanner
+  // Load this venue's check-in policy (ref so scans from any closure see it)
   useEffect(() => {
-    inputRef.current?.focus();
-
-    const keepFocus = setInterval(() => {
-      if (document.activeElement !== inputRef.current) {
-        inputRef.current?.focus();
-      }
-    }, 500);
-
-    return () => clearInterval(keepFocus);
+    getVenuePolicy()
+      .then(policy => {
+        venuePolicyRef.current = policy;
+        setVenuePolicy(policy);
+      })
+      .catch(err => console.error('Failed to load venue policy:', err));
+    return () => {
+      if (heldScanResetRef.current) clearTimeout(heldScanResetRef.current);
+    };
   }, []);
 
   // Process pending scan data from home screen auto-scan
@@ -276,123 +56,134 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
     }
   }, [pendingScanData]);
 
-  const handleScanInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    // Only accept input in READY state to prevent duplicate scans
-    if (status !== 'READY') {
-      e.target.value = '';
-      return;
-    }
-
-    const value = e.target.value;
-    setScanBuffer(value);
-
-    // Clear existing timeout
-    if (bufferTimeoutRef.current) {
-      clearTimeout(bufferTimeoutRef.current);
-    }
-
-    // Wait for scanner to finish (scanners type fast, humans don't)
-    // If no new input for 100ms, consider scan complete
-    bufferTimeoutRef.current = setTimeout(() => {
-      if (value.length > 5 && status === 'READY') {
-        processScan(value);
-      }
-    }, 100);
-  };
+  // Scans from the scanner service — only accepted in READY so a scan can't interrupt a check-in
+  useEffect(() => {
+    if (status !== 'READY' || scanPaused) return;
+    return onScan(scan => processScan(scan.data));
+  }, [status, scanPaused]);
 
   const processScan = async (scanData: string) => {
-    // Immediately clear the input to prevent re-triggering
-    resetScan();
-
     setStatus('SCANNING');
 
-    // Validate scan data before parsing
-    // Real AAMVA PDF417 barcodes are typically 200+ characters
-    // Small 1D barcodes or invalid scans are usually much shorter
-    const isLikelyValidBarcode = (data: string): boolean => {
-      // Check minimum length - AAMVA barcodes are typically 200-700 chars
-      if (data.length < 100) {
-        return false;
-      }
-
-      // Check for AAMVA header markers (ANSI, AAMVA, or starts with @)
-      const hasAAMVAMarker = data.includes('ANSI') ||
-                             data.includes('AAMVA') ||
-                             data.startsWith('@') ||
-                             data.includes('DL') ||
-                             data.includes('ID');
-
-      // Check for at least some known field codes
-      const fieldCodesFound = ['DCS', 'DAC', 'DAQ', 'DBB', 'DAG'].filter(code =>
-        data.includes(code)
-      ).length;
-
-      // Need marker or at least 2 field codes
-      return hasAAMVAMarker || fieldCodesFound >= 2;
-    };
-
-    // Check if this looks like a valid DL barcode
-    if (!isLikelyValidBarcode(scanData)) {
-      logFailedScan(scanData, 'not_aamva_marker').catch(() => {});
-      setStatus('INVALID_SCAN');
-      // Auto-reset after 4 seconds
-      setTimeout(() => {
-        resetScan();
-        setStatus('READY');
-      }, 4000);
-      return;
-    }
-
-    // Parse the scanned data
-    const parsed = parseDriversLicense(scanData);
+    // Validate and parse the scanned data (shared with the failed-scan replay in AdminPanel)
+    const evaluation = evaluateScan(scanData);
 
-    if (!parsed) {
-      logFailedScan(scanData, 'parse_returned_null').catch(() => {});
+    if (!evaluation.ok || !evaluation.license) {
+      logFailedScan(scanData, evaluation.error || 'parse_returned_null').catch(() => {});
       setStatus('INVALID_SCAN');
       // Auto-reset after 4 seconds
       setTimeout(() => {
-        resetScan();
-        setStatus('READY');
-      }, 4000);
-      return;
-    }
-
-    // Additional validation: must have at least first name AND (last name OR DOB)
-    if (!parsed.firstName || (!parsed.lastName && !parsed.dateOfBirth)) {
-      const missing = [
-        !parsed.firstName ? 'firstName' : null,
-        !parsed.lastName ? 'lastName' : null,
-        !parsed.dateOfBirth ? 'dateOfBirth' : null,
-      ].filter(Boolean).join(',');
-      logFailedScan(scanData, `missing_required_fields:${missing}`).catch(() => {});
-      setStatus('INVALID_SCAN');
-      setTimeout(() => {
-        resetScan();
         setStatus('READY');
       }, 4000);
       return;
     }
 
-    const firstName = parsed.firstName || 'Guest';
-    const lastName = parsed.lastName || '';
-    const lastInitial = lastName ? lastName[0].toUpperCase() : '';
+    const parsed = evaluation.license;
 
     // Store scanned info for display
     setScannedInfo(parsed);
 
-    // Check if underage
-    if (parsed.isOver21 === false) {
+    // Check age against the venue policy
+    const ageCheck = checkAge(parsed.age, venuePolicyRef.current);
+    if (ageCheck === 'underage') {
+      recordAgeDecision(parsed, 'underage');
       setStatus('UNDERAGE');
       // Auto-reset after 5 seconds
       setTimeout(() => {
-        resetScan();
         setStatus('READY');
         setScannedInfo(null);
       }, 5000);
       return;
     }
+    if (ageCheck === 'medical_card_required') {
+      // Medically endorsed store: a team member has to see the recognition card (or times out)
+      recordAgeDecision(parsed, 'medical_card_check');
+      setStatus('MEDICAL_CARD');
+      heldScanResetRef.current = setTimeout(() => {
+        clearHeldScan();
+      }, 60000);
+      return;
+    }
+
+    await checkExpiryAndContinue(parsed, 'admitted');
+  };
+
+  // Check expiry against the venue policy, then look the customer up
+  const checkExpiryAndContinue = async (parsed: IdentityRecord, admittedOutcome: IdVerificationOutcome) => {
+    const expiry = checkIdExpiry(parsed.expirationDate, venuePolicyRef.current.expiredId);
+    if (expiry.outcome === 'blocked' || expiry.outcome === 'warn') {
+      setExpiryCheck(expiry);
+      setStatus('EXPIRED_ID');
+      recordAgeDecision(parsed, expiry.outcome === 'blocked' ? 'expired_blocked' : 'expired_warned', expiry);
+      // Blocked resets on its own; warn waits for a team member (or times out)
+      heldScanResetRef.current = setTimeout(() => {
+        clearHeldScan();
+      }, expiry.outcome === 'blocked' ? 6000 : 60000);
+      return;
+    }
+    recordAgeDecision(parsed, expiry.outcome === 'grace' ? 'admitted_grace' : admittedOutcome, expiry);
+
+    await lookUpScannedCustomer(parsed);
+  };
+
+  // Age-verification audit record for this scan (last 4 of the document number only)
+  const recordAgeDecision = (license: IdentityRecord, outcome: IdVerificationOutcome, expiry?: IdExpiryCheck) => {
+    logIdVerification({
+      outcome,
+      age: license.age,
+      jurisdiction: license.state || license.issuingCountry,
+      licenseNumber: license.documentNumber,
+      documentType: license.documentType,
+      entryMethod: entryMethod || 'ID_SCAN',
+      expirationDate: license.expirationDate,
+      daysExpired: expiry?.daysExpired,
+    }).catch(() => {});
+  };
+
+  // Drop a scan held for a team member (expired ID or medical card) and go back to READY
+  const clearHeldScan = () => {
+    if (heldScanResetRef.current) {
+      clearTimeout(heldScanResetRef.current);
+      heldScanResetRef.current = null;
+    }
+    setExpiryCheck(null);
+    setManagerPin('');
+    setPinError(false);
+    setScannedInfo(null);
+    setStatus('READY');
+  };
+
+  // Team member approved an expired ID (warn policy) — continue check-in
+  const approveExpiredId = () => {
+    if (!scannedInfo || !expiryCheck) return;
+    if (heldScanResetRef.current) {
+      clearTimeout(heldScanResetRef.current);
+      heldScanResetRef.current = null;
+    }
+    recordAgeDecision(scannedInfo, 'admitted_override', expiryCheck);
+    setExpiryCheck(null);
+    setStatus('SCANNING');
+    lookUpScannedCustomer(scannedInfo);
+  };
+
+  // Team member checked the medical recognition card — the ID still has to pass the expiry check
+  const approveMedicalCard = () => {
+    if (!scannedInfo) return;
+    if (heldScanResetRef.current) {
+      clearTimeout(heldScanResetRef.current);
+      heldScanResetRef.current = null;
+    }
+    setManagerPin('');
+    setPinError(false);
+    setStatus('SCANNING');
+    checkExpiryAndContinue(scannedInfo, 'admitted_medical');
+  };
+
+  // Age (and expiry) verified - look up customer by DL number first (most reliable), then fall back to name
+  const lookUpScannedCustomer = async (parsed: IdentityRecord) => {
+    const firstName = parsed.firstName || 'Guest';
+    const lastName = parsed.lastName || '';
 
-    // Age verified - look up customer by DL number first (most reliable), then fall back to name
     try {
       // Strategy 1: Search by driver's license number (unique identifier)
       if (parsed.licenseNumber) {
@@ -411,7 +202,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
               setScannedInfo(null);
               setFoundCustomer(null);
               setFoundByDL(false);
-              resetScan();
               onGoHome?.();
             }, 4000);
           } else {
@@ -425,65 +215,27 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
         }
       }
 
-      // Strategy 2: DOB + last name (catches renewed DLs, nickname vs legal name)
-      if (parsed.dateOfBirth && lastName) {
+      // Strategy 2: Ranked match on name + DOB (catches renewed DLs, nickname vs legal name).
+      // Only a confident, unambiguous match checks in automatically — close calls go to the
+      // disambiguation screen, and no match goes through phone capture.
+      if (lastName) {
         const dob = parsed.dateOfBirth;
-        if (dob.length === 8) {
-          const birthday = `${dob.substring(4, 8)}-${dob.substring(0, 2)}-${dob.substring(2, 4)}`;
-          console.log('DL lookup miss — trying DOB+lastname:', birthday, lastName);
-          const dobResult = await lookupCustomerByDobLastname(birthday, lastName);
-          if (dobResult.found && dobResult.customer) {
-            console.log('Customer found by DOB+lastname:', dobResult.customer.first_name, dobResult.customer.last_name);
-            setFoundCustomer(dobResult.customer);
-            setFoundByDL(false);
-
-            const alreadyQueued = await isCustomerInQueue(dobResult.customer.id);
-            if (alreadyQueued) {
-              setStatus('ALREADY_IN_QUEUE');
-              setTimeout(() => {
-                setScannedInfo(null);
-                setFoundCustomer(null);
-                setFoundByDL(false);
-                resetScan();
-                onGoHome?.();
-              }, 4000);
-            } else {
-              setStatus('AUTO_CHECKIN');
-              setTimeout(() => {
-                autoCheckIn(dobResult.customer, parsed);
-              }, 6000);
-            }
-            return;
-          }
+        const birthday = dob && dob.length === 8 ? `${dob.substring(4, 8)}-${dob.substring(0, 2)}-${dob.substring(2, 4)}` : undefined;
+        console.log('DL lookup miss — trying ranked match:', firstName, lastName, birthday);
+        setFoundByDL(false);
+        const match = await matchCustomers({ firstName, lastName, birthday, licenseNumber: parsed.licenseNumber });
+        const best = match.candidates[0];
+        if (match.decision === 'accept' && best) {
+          console.log('Customer matched:', best.customer.first_name, best.customer.last_name, 'score', best.score);
+          await checkInMatchedCustomer(best.customer, parsed);
+          return;
         }
-      }
-
-      // Strategy 3: Fall back to name search — still auto check-in if found
-      console.log('DL+DOB lookup miss — trying name search:', firstName, lastName);
-      setFoundByDL(false);
-      const result = await lookupCustomerByName(firstName, lastName);
-      if (result.found && result.customer) {
-        setFoundCustomer(result.customer);
-
-        // Check if already in queue
-        const alreadyQueued = await isCustomerInQueue(result.customer.id);
-        if (alreadyQueued) {
-          setStatus('ALREADY_IN_QUEUE');
-          setTimeout(() => {
-            setScannedInfo(null);
-            setFoundCustomer(null);
-            setFoundByDL(false);
-            setStatus('READY');
-            resetScan();
-          }, 4000);
-        } else {
-          setStatus('AUTO_CHECKIN');
-          // Auto check-in after brief confirmation display (6 seconds)
-          setTimeout(() => {
-            autoCheckIn(result.customer, parsed);
-          }, 6000);
+        if (match.decision === 'ambiguous') {
+          console.log('Ambiguous match —', match.candidates.length, 'candidates, asking the customer');
+          setPicker({ candidates: match.candidates.map(c => c.customer), matchKey: match.matchKey, context: 'scan' });
+          setStatus('PICK_CUSTOMER');
+          return;
         }
-        return;
       }
     } catch (error) {
       console.error('Customer lookup failed:', error);
@@ -496,6 +248,52 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
     setStatus('NEW_CUSTOMER_PHONE');
   };
 
+  // Matched (or picked) customer for a scan — confirm and auto check-in unless already queued
+  const checkInMatchedCustomer = async (customer: KioskCustomer, scan: IdentityRecord) => {
+    setFoundCustomer(customer);
+
+    const alreadyQueued = await isCustomerInQueue(customer.id);
+    if (alreadyQueued) {
+      setStatus('ALREADY_IN_QUEUE');
+      setTimeout(() => {
+        setScannedInfo(null);
+        setFoundCustomer(null);
+        setFoundByDL(false);
+        onGoHome?.();
+      }, 4000);
+    } else {
+      setStatus('AUTO_CHECKIN');
+      // Auto check-in after brief confirmation display (6 seconds)
+      setTimeout(() => {
+        autoCheckIn(customer, scan);
+      }, 6000);
+    }
+  };
+
+  // Disambiguation screen — carry on with whichever lookup asked
+  const pickCustomer = (customer: KioskCustomer) => {
+    if (!picker || !scannedInfo) return;
+    const { context } = picker;
+    setPicker(null);
+    if (context === 'scan') checkInMatchedCustomer(customer, scannedInfo);
+    else verifyLinkCandidate(customer);
+  };
+
+  const noneOfThese = () => {
+    if (!picker) return;
+    const { context } = picker;
+    setPicker(null);
+    if (context === 'scan') {
+      setFoundCustomer(null);
+      setNewCustomerPhone('');
+      setStatus('NEW_CUSTOMER_PHONE');
+    } else if (context === 'new_customer_phone') {
+      setStatus('NEW_CUSTOMER_LOYALTY_PROMPT');
+    } else {
+      setStatus('LINK_ACCOUNT_NOT_FOUND');
+    }
+  };
+
   // Check if customer is already in the queue (by customer_id)
   const isCustomerInQueue = async (customerId: number): Promise<boolean> => {
     try {
@@ -512,7 +310,7 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
 
   // Auto check-in for found customers (no buttons)
   // Called immediately when AUTO_CHECKIN is set — adds to queue right away
-  const autoCheckIn = (customer: KioskCustomer, scan: ParsedLicense) => {
+  const autoCheckIn = (customer: KioskCustomer, scan: IdentityRecord) => {
     const customerData = {
       name: customer.first_name,
       lastNameInitial: customer.last_name?.[0]?.toUpperCase() || '',
@@ -545,7 +343,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
     setScannedInfo(null);
     setFoundCustomer(null);
     setFoundByDL(false);
-    resetScan();
 
     onComplete(customerData);
   };
@@ -636,7 +433,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
       setEmail('');
       setNewCustomerPhone('');
       setStatus('READY');
-      resetScan();
 
       onComplete({
         name: firstName,
@@ -653,7 +449,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
       // Fallback: create without loyalty
       setEmail('');
       setStatus('READY');
-      resetScan();
       newCustomerSkipLoyalty();
     }
   };
@@ -681,7 +476,7 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
   };
 
   // Compare DL scan data with account data to determine if auto-link is safe
-  const shouldAutoLink = (scan: ParsedLicense, customer: KioskCustomer): boolean => {
+  const shouldAutoLink = (scan: IdentityRecord, customer: KioskCustomer): boolean => {
     // Rule 1: If DL number matches the one on file → auto-link
     if (scan.licenseNumber && customer.drivers_license) {
       if (scan.licenseNumber.trim().toUpperCase() === customer.drivers_license.trim().toUpperCase()) {
@@ -761,27 +556,12 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
 
       if (result.found && result.customer) {
         setLinkPhone(newCustomerPhone); // mirror so existing link-account UI has the phone
-        setFoundCustomer(result.customer);
-        setStatus('LINK_ACCOUNT_VERIFYING');
-
-        let fullCustomer = result.customer;
-        try {
-          const fullResult = await fetchCustomerById(result.customer.id);
-          if (fullResult.found && fullResult.customer) {
-            fullCustomer = fullResult.customer;
-            setFoundCustomer(fullCustomer);
-          }
-        } catch (err) {
-          console.error('Failed to fetch full customer record:', err);
-        }
-
-        if (scannedInfo && shouldAutoLink(scannedInfo, fullCustomer)) {
-          setStatus('LINK_ACCOUNT_FOUND');
-        } else {
-          setManagerPin('');
-          setPinError(false);
-          setStatus('LINK_ACCOUNT_MISMATCH');
-        }
+        await verifyLinkCandidate(result.customer);
+      } else if (result.candidates && result.candidates.length > 0) {
+        // Several accounts share this phone — let the customer pick theirs
+        setLinkPhone(newCustomerPhone);
+        setPicker({ candidates: result.candidates, matchKey: result.matchKey, context: 'new_customer_phone' });
+        setStatus('PICK_CUSTOMER');
       } else {
         // No existing customer with this phone — proceed to loyalty prompt with phone preserved
         setStatus('NEW_CUSTOMER_LOYALTY_PROMPT');
@@ -799,6 +579,32 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
     setStatus('NEW_CUSTOMER_LOYALTY_PROMPT');
   };
 
+  // Phone matched an account — fetch the full record (birthday, drivers_license) and compare
+  // it with the DL scan: auto-link when it agrees, manager PIN when it doesn't
+  const verifyLinkCandidate = async (customer: KioskCustomer) => {
+    setFoundCustomer(customer);
+    setStatus('LINK_ACCOUNT_VERIFYING');
+
+    let fullCustomer = customer;
+    try {
+      const fullResult = await fetchCustomerById(customer.id);
+      if (fullResult.found && fullResult.customer) {
+        fullCustomer = fullResult.customer;
+        setFoundCustomer(fullCustomer);
+      }
+    } catch (err) {
+      console.error('Failed to fetch full customer record:', err);
+    }
+
+    if (scannedInfo && shouldAutoLink(scannedInfo, fullCustomer)) {
+      setStatus('LINK_ACCOUNT_FOUND');
+    } else {
+      setManagerPin('');
+      setPinError(false);
+      setStatus('LINK_ACCOUNT_MISMATCH');
+    }
+  };
+
   // Link Account - submit phone and search
   const linkAccountSubmitPhone = async () => {
     if (linkPhone.length < 10) return;
@@ -809,30 +615,10 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
       const result = await lookupCustomer(linkPhone);
 
       if (result.found && result.customer) {
-        setFoundCustomer(result.customer);
-
-        // Fetch full record from API to get birthday and drivers_license
-        setStatus('LINK_ACCOUNT_VERIFYING');
-        let fullCustomer = result.customer;
-
-        try {
-          const fullResult = await fetchCustomerById(result.customer.id);
-          if (fullResult.found && fullResult.customer) {
-            fullCustomer = fullResult.customer;
-            setFoundCustomer(fullCustomer);
-          }
-        } catch (err) {
-          console.error('Failed to fetch full customer record:', err);
-        }
-
-        // Compare DL scan data with account data
-        if (scannedInfo && shouldAutoLink(scannedInfo, fullCustomer)) {
-          setStatus('LINK_ACCOUNT_FOUND');
-        } else {
-          setManagerPin('');
-          setPinError(false);
-          setStatus('LINK_ACCOUNT_MISMATCH');
-        }
+        await verifyLinkCandidate(result.customer);
+      } else if (result.candidates && result.candidates.length > 0) {
+        setPicker({ candidates: result.candidates, matchKey: result.matchKey, context: 'link_phone' });
+        setStatus('PICK_CUSTOMER');
       } else {
         setStatus('LINK_ACCOUNT_NOT_FOUND');
       }
@@ -842,7 +628,7 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
     }
   };
 
-  // Manager PIN entry for account linking mismatch
+  // Manager PIN entry for account linking mismatch, expired-ID approval and medical cards
   const managerPinAppend = (digit: string) => {
     if (managerPin.length < 4) {
       const newPin = managerPin + digit;
@@ -851,8 +637,16 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
       // Auto-submit when 4 digits entered
       if (newPin.length === 4) {
         if (newPin === '0420') {
-          setStatus('LINK_ACCOUNT_FOUND');
           setManagerPin('');
+          if (status === 'EXPIRED_ID') {
+            approveExpiredId();
+            return;
+          }
+          if (status === 'MEDICAL_CARD') {
+            approveMedicalCard();
+            return;
+          }
+          setStatus('LINK_ACCOUNT_FOUND');
         } else {
           setPinError(true);
           setTimeout(() => {
@@ -901,7 +695,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
     setFoundCustomer(null);
     setLinkPhone('');
     setStatus('READY');
-    resetScan();
     onComplete(customerData);
   };
 
@@ -936,7 +729,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
     setScannedInfo(null);
     setFoundCustomer(null);
     setStatus('READY');
-    resetScan();
 
     // Then call onComplete
     onComplete(customerData);
@@ -947,17 +739,9 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
     setScannedInfo(null);
     setFoundCustomer(null);
     setFoundByDL(false);
-    resetScan();
     onGoHome?.();
   };
 
-  const resetScan = () => {
-    setScanBuffer('');
-    if (inputRef.current) {
-      inputRef.current.value = '';
-    }
-  };
-
   // Handle loyalty signup - go to email entry first
   const handleLoyaltySignup = () => {
     if (!foundCustomer || !scannedInfo) return;
@@ -1004,7 +788,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
       setFoundCustomer(null);
       setEmail('');
       setStatus('READY');
-      resetScan();
 
       // Complete check-in with loyalty status
       onComplete(customerData);
@@ -1015,7 +798,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
       setFoundCustomer(null);
       setEmail('');
       setStatus('READY');
-      resetScan();
       onComplete({ ...customerData, loyaltyStatus: 'Guest' });
     }
   };
@@ -1056,11 +838,22 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
     setScannedInfo(null);
     setFoundCustomer(null);
     setStatus('READY');
-    resetScan();
     onComplete(customerData);
   };
 
   // AUTO_CHECKIN state - Found customer, auto checking in
+  // PICK_CUSTOMER state - several records match, the customer picks their own
+  if (status === 'PICK_CUSTOMER' && picker && scannedInfo) {
+    return (
+      <CustomerPicker
+        candidates={picker.candidates}
+        matchKey={picker.matchKey}
+        onPick={pickCustomer}
+        onNoneOfThese={noneOfThese}
+      />
+    );
+  }
+
   if (status === 'AUTO_CHECKIN' && foundCustomer && scannedInfo) {
     return (
       <div className="text-center w-full max-w-2xl bg-zinc-900/50 p-12 rounded-3xl border border-zinc-800 shadow-xl">
@@ -1075,7 +868,7 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
           <div className="grid grid-cols-2 gap-2 text-left text-lg">
             <span className="text-zinc-400">DOB:</span>
             <span className="text-white">{formatDOB(scannedInfo.dateOfBirth || '')}</span>
-            <span className="text-zinc-400">21+:</span>
+            <span className="text-zinc-400">{venuePolicy.minimumAge}+:</span>
             <span className="text-green-400 font-bold">Verified ✓</span>
           </div>
         </div>
@@ -1085,15 +878,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
         )}
 
         <p className="text-zinc-500 text-sm mt-6">Your name will appear on the screen in a moment.</p>
-
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
       </div>
     );
   }
@@ -1110,15 +894,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
           {foundCustomer.first_name} {foundCustomer.last_name?.[0] || ''}.
         </p>
         <p className="text-zinc-400 text-lg">Your name will appear on the screen in a moment.</p>
-
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
       </div>
     );
   }
@@ -1141,12 +916,12 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
           <div className="grid grid-cols-2 gap-2 text-left text-lg">
             <span className="text-zinc-400">DOB:</span>
             <span className="text-white">{formatDOB(scannedInfo.dateOfBirth || '')}</span>
-            <span className="text-zinc-400">21+:</span>
+            <span className="text-zinc-400">{venuePolicy.minimumAge}+:</span>
             <span className="text-green-400 font-bold">Verified ✓</span>
-            {scannedInfo.licenseNumber && (
+            {scannedInfo.documentNumber && (
               <>
-                <span className="text-zinc-400">DL #:</span>
-                <span className="text-white font-mono text-sm">{scannedInfo.licenseNumber}</span>
+                <span className="text-zinc-400">{DOCUMENT_TYPE_LABELS[scannedInfo.documentType]}:</span>
+                <span className="text-white font-mono text-sm">{scannedInfo.documentNumber}</span>
               </>
             )}
           </div>
@@ -1166,16 +941,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
             Check In
           </button>
         </div>
-
-        {/* Hidden input to maintain scanner focus */}
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
       </div>
     );
   }
@@ -1200,7 +965,7 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
           <div className="grid grid-cols-2 gap-2 text-left text-lg">
             <span className="text-zinc-400">DOB:</span>
             <span className="text-white">{formatDOB(scannedInfo.dateOfBirth || '')}</span>
-            <span className="text-zinc-400">21+:</span>
+            <span className="text-zinc-400">{venuePolicy.minimumAge}+:</span>
             <span className="text-green-400 font-bold">Verified ✓</span>
           </div>
         </div>
@@ -1226,16 +991,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
         >
           Not {foundCustomer.first_name}? Click here
         </button>
-
-        {/* Hidden input to maintain scanner focus */}
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
       </div>
     );
   }
@@ -1299,7 +1054,7 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
           <div className="grid grid-cols-2 gap-2 text-left text-lg">
             <span className="text-zinc-400">DOB:</span>
             <span className="text-white">{formatDOB(scannedInfo.dateOfBirth || '')}</span>
-            <span className="text-zinc-400">21+:</span>
+            <span className="text-zinc-400">{venuePolicy.minimumAge}+:</span>
             <span className="text-green-400 font-bold">Verified ✓</span>
           </div>
         </div>
@@ -1327,16 +1082,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
             Sign Up for Loyalty
           </button>
         </div>
-
-        {/* Hidden input to maintain scanner focus */}
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
       </div>
     );
   }
@@ -1496,16 +1241,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
         >
           ← Back
         </button>
-
-        {/* Hidden input to maintain scanner focus */}
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
       </div>
     );
   }
@@ -1606,16 +1341,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
         >
           ← Back
         </button>
-
-        {/* Hidden input to maintain scanner focus */}
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
       </div>
     );
   }
@@ -1659,16 +1384,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
             That's Me — Check In
           </button>
         </div>
-
-        {/* Hidden input to maintain scanner focus */}
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
       </div>
     );
   }
@@ -1705,16 +1420,149 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
             Continue
           </button>
         </div>
+      </div>
+    );
+  }
 
-        {/* Hidden input to maintain scanner focus */}
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
+  // MEDICAL_CARD state - Under the venue minimum age but old enough for a medical recognition card
+  if (status === 'MEDICAL_CARD' && scannedInfo) {
+    return (
+      <div className="text-center w-full max-w-xl bg-zinc-900/50 p-10 rounded-3xl border border-zinc-800 shadow-xl">
+        <h2 className="text-4xl font-craft font-bold mb-4 uppercase tracking-tighter text-orange-400">
+          Medical Card Required
+        </h2>
+
+        <div className="mb-6 p-4 rounded-xl bg-orange-900/20 border border-orange-700">
+          <div className="grid grid-cols-2 gap-2 text-left text-lg">
+            <span className="text-zinc-400">Name:</span>
+            <span className="text-white font-bold">{scannedInfo.firstName} {scannedInfo.lastName?.[0] || ''}.</span>
+            <span className="text-zinc-400">Age:</span>
+            <span className="text-white">{scannedInfo.age}</span>
+          </div>
+        </div>
+
+        <p className="text-zinc-400 mb-4 text-sm">
+          Guests under {venuePolicy.minimumAge} need a medical recognition card. Please ask a team member to check your card and enter their code.
+        </p>
+
+        {/* PIN display */}
+        <div className={`text-4xl font-mono mb-3 tracking-[0.5em] ${pinError ? 'text-red-400' : 'text-gold'}`}>
+          {'●'.repeat(managerPin.length) + '○'.repeat(4 - managerPin.length)}
+        </div>
+
+        {pinError && (
+          <p className="text-red-400 text-sm mb-2">Incorrect PIN</p>
+        )}
+
+        {/* Numpad */}
+        <div className="grid grid-cols-3 gap-3 max-w-xs mx-auto mb-5">
+          {[1, 2, 3, 4, 5, 6, 7, 8, 9, null, 0, '←'].map((key, i) => (
+            key === null ? <div key={i} /> : (
+              <button
+                key={i}
+                onClick={() => {
+                  if (key === '←') managerPinClear();
+                  else managerPinAppend(key.toString());
+                }}
+                className={`h-14 text-xl font-craft flex items-center justify-center rounded-xl transition-all active:scale-95 ${
+                  key === '←' ? 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600' : 'bg-zinc-800 text-white hover:bg-zinc-700'
+                }`}
+              >
+                {key}
+              </button>
+            )
+          ))}
+        </div>
+
+        <button
+          onClick={clearHeldScan}
+          className="text-zinc-500 text-sm hover:text-zinc-300 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  // EXPIRED_ID state - Card is past its expiration date (venue policy: block or warn staff)
+  if (status === 'EXPIRED_ID' && scannedInfo && expiryCheck) {
+    const needsApproval = expiryCheck.outcome === 'warn';
+    return (
+      <div className="text-center w-full max-w-xl bg-zinc-900/50 p-10 rounded-3xl border border-zinc-800 shadow-xl">
+        <div className="mb-6">
+          <svg className={`w-24 h-24 mx-auto ${needsApproval ? 'text-orange-400' : 'text-red-500'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </div>
+
+        <h2 className={`text-4xl font-craft font-bold mb-4 uppercase tracking-tighter ${needsApproval ? 'text-orange-400' : 'text-red-500'}`}>
+          ID Expired
+        </h2>
+
+        <div className={`mb-6 p-4 rounded-xl ${needsApproval ? 'bg-orange-900/20 border border-orange-700' : 'bg-red-900/30 border border-red-700'}`}>
+          <div className="grid grid-cols-2 gap-2 text-left text-lg">
+            <span className="text-zinc-400">Name:</span>
+            <span className="text-white font-bold">{scannedInfo.firstName} {scannedInfo.lastName?.[0] || ''}.</span>
+            <span className="text-zinc-400">Expired:</span>
+            <span className="text-white">
+              {formatDOB(scannedInfo.expirationDate || '')}
+              <span className="text-zinc-400 text-sm"> ({expiryCheck.daysExpired} day{expiryCheck.daysExpired === 1 ? '' : 's'} ago)</span>
+            </span>
+          </div>
+        </div>
+
+        {needsApproval ? (
+          <>
+            <p className="text-zinc-400 mb-4 text-sm">
+              Your ID has expired. Please ask a team member to check your ID and enter their code.
+            </p>
+
+            {/* PIN display */}
+            <div className={`text-4xl font-mono mb-3 tracking-[0.5em] ${pinError ? 'text-red-400' : 'text-gold'}`}>
+              {'●'.repeat(managerPin.length) + '○'.repeat(4 - managerPin.length)}
+            </div>
+
+            {pinError && (
+              <p className="text-red-400 text-sm mb-2">Incorrect PIN</p>
+            )}
+
+            {/* Numpad */}
+            <div className="grid grid-cols-3 gap-3 max-w-xs mx-auto mb-5">
+              {[1, 2, 3, 4, 5, 6, 7, 8, 9, null, 0, '←'].map((key, i) => (
+                key === null ? <div key={i} /> : (
+                  <button
+                    key={i}
+                    onClick={() => {
+                      if (key === '←') managerPinClear();
+                      else managerPinAppend(key.toString());
+                    }}
+                    className={`h-14 text-xl font-craft flex items-center justify-center rounded-xl transition-all active:scale-95 ${
+                      key === '←' ? 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600' : 'bg-zinc-800 text-white hover:bg-zinc-700'
+                    }`}
+                  >
+                    {key}
+                  </button>
+                )
+              ))}
+            </div>
+
+            <button
+              onClick={clearHeldScan}
+              className="text-zinc-500 text-sm hover:text-zinc-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-xl text-red-400 mb-4">
+              We can only accept a valid, unexpired ID. Please see a staff member.
+            </p>
+            <p className="text-zinc-500 text-sm">
+              Resetting in a moment...
+            </p>
+          </>
+        )}
       </div>
     );
   }
@@ -1776,16 +1624,6 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
         <p className="text-zinc-500 text-sm">
           Resetting in a moment...
         </p>
-
-        {/* Hidden input to maintain scanner focus */}
-        <input
-          ref={inputRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleScanInput}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
       </div>
     );
   }
@@ -1818,7 +1656,7 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
       }`}>
         {status === 'SCANNING' ? 'Reading ID...' :
          status === 'SUCCESS' ? 'ID Verified!' :
-         status === 'UNDERAGE' ? 'MUST BE 21+' :
+         status === 'UNDERAGE' ? `MUST BE ${venuePolicy.minimumAge}+` :
          'Scan Your ID Now'}
       </h2>
 
@@ -1832,14 +1670,14 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
             <span className="text-white font-bold">{scannedInfo.firstName} {scannedInfo.lastName}</span>
             <span className="text-zinc-400">DOB:</span>
             <span className="text-white">{formatDOB(scannedInfo.dateOfBirth || '')}</span>
-            <span className="text-zinc-400">21+:</span>
-            <span className={`font-bold ${scannedInfo.isOver21 ? 'text-green-400' : 'text-red-400'}`}>
-              {scannedInfo.isOver21 ? 'Verified ✓' : 'Under 21 ✗'}
+            <span className="text-zinc-400">{venuePolicy.minimumAge}+:</span>
+            <span className={`font-bold ${status === 'UNDERAGE' ? 'text-red-400' : 'text-green-400'}`}>
+              {status === 'UNDERAGE' ? `Under ${venuePolicy.minimumAge} ✗` : 'Verified ✓'}
             </span>
-            {scannedInfo.licenseNumber && (
+            {scannedInfo.documentNumber && (
               <>
-                <span className="text-zinc-400">DL #:</span>
-                <span className="text-white font-mono text-sm">{scannedInfo.licenseNumber}</span>
+                <span className="text-zinc-400">{DOCUMENT_TYPE_LABELS[scannedInfo.documentType]}:</span>
+                <span className="text-white font-mono text-sm">{scannedInfo.documentNumber}</span>
               </>
             )}
           </div>
@@ -1847,23 +1685,12 @@ const IDScan: React.FC<IDScanProps> = ({ onComplete, onGoHome, pendingScanData,
       )}
 
       <p className={`text-xl mb-12 ${status === 'UNDERAGE' ? 'text-red-400' : 'text-zinc-400'}`}>
+        {status === 'READY' && entryMethod && entryMethod !== 'ID_SCAN' && 'This store checks ID for every guest. '}
         {status === 'READY' && 'Hold the barcode on the back of your ID under the scanner below.'}
         {status === 'SCANNING' && 'Please wait while we verify your information...'}
         {status === 'SUCCESS' && 'Welcome! Adding you to the queue...'}
-        {status === 'UNDERAGE' && 'Sorry, you must be 21 or older to enter. Please see a staff member.'}
+        {status === 'UNDERAGE' && `Sorry, you must be ${venuePolicy.minimumAge} or older to enter. Please see a staff member.`}
       </p>
-
-      {/* Hidden input for scanner - scanners act as keyboards */}
-      <input
-        ref={inputRef}
-        type="text"
-        className="opacity-0 absolute -left-[9999px]"
-        onChange={handleScanInput}
-        onBlur={() => inputRef.current?.focus()}
-        onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-        autoComplete="off"
-        autoFocus
-      />
     </div>
   );
 };
@@ -2,29 +2,32 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Logo, GoldButton } from '../Branding';
 import { Customer, CheckInMethod } from '../../types';
-import { getShowHomeInfoPanel, getIncogweedoEnabled, generateDisplayNumber, isElectron } from '../../services/kioskApi';
+import { getShowHomeInfoPanel, getIncogweedoEnabled, generateDisplayNumber, getVenuePolicy, onScan, isElectron } from '../../services/kioskApi';
 import IDScan from './IDScan';
 import PhoneEntry from './PhoneEntry';
 import GuestEntry from './GuestEntry';
 import QREntry from './QREntry';
+import { detectDocumentFormat } from '../../electron/shared/identity';
+import { DEFAULT_VENUE_POLICY, VenuePolicy, requiresIdScan } from '../../electron/shared/venuePolicy';
 import IncogweedoToggle from './IncogweedoToggle';
 
 interface KioskHomeProps {
   onCheckIn: (data: Partial<Customer>) => void;
   lastCheckIn: Customer | null;
+  offline?: boolean;         // POSaBIT unreachable — check-ins are stored on the kiosk
+  scanPaused?: boolean;      // AdminPanel is open over the kiosk — its scans are the tech's, not a check-in
 }
 
-const KioskHome: React.FC<KioskHomeProps> = ({ onCheckIn, lastCheckIn }) => {
+const KioskHome: React.FC<KioskHomeProps> = ({ onCheckIn, lastCheckIn, offline, scanPaused }) => {
   const [activeScreen, setActiveScreen] = useState<'HOME' | CheckInMethod>('HOME');
   const [pendingScanData, setPendingScanData] = useState<string | null>(null);
+  const [idScanEntryMethod, setIdScanEntryMethod] = useState<CheckInMethod>('ID_SCAN');
+  const [venuePolicy, setVenuePolicy] = useState<VenuePolicy>(DEFAULT_VENUE_POLICY);
   const [showInfoPanel, setShowInfoPanel] = useState(true);
   const [incogweedoEnabled, setIncogweedoEnabled] = useState(false);
   const [incognitoOn, setIncognitoOn] = useState(false);
   const [displayNumber, setDisplayNumber] = useState('');
   const prevLastCheckIn = useRef<Customer | null>(null);
-  const homeScanRef = useRef<HTMLInputElement>(null);
-  const homeScanBuffer = useRef('');
-  const homeScanTimeout = useRef<NodeJS.Timeout | null>(null);
 
   // Load showHomeInfoPanel setting + live-update on admin toggle
   useEffect(() => {
@@ -42,6 +45,14 @@ const KioskHome: React.FC<KioskHomeProps> = ({ onCheckIn, lastCheckIn }) => {
     return off;
   }, []);
 
+  // Venue check-in policy (re-read on HOME in case the venue was changed in AdminPanel)
+  useEffect(() => {
+    if (activeScreen !== 'HOME') return;
+    getVenuePolicy()
+      .then(setVenuePolicy)
+      .catch(err => console.error('Failed to load venue policy:', err));
+  }, [activeScreen]);
+
   // Reset Incogweedo per-checkin state whenever we land back on HOME (fresh customer)
   useEffect(() => {
     if (activeScreen === 'HOME' && !lastCheckIn) {
@@ -77,53 +88,27 @@ const KioskHome: React.FC<KioskHomeProps> = ({ onCheckIn, lastCheckIn }) => {
     prevLastCheckIn.current = lastCheckIn;
   }, [lastCheckIn]);
 
-  // Keep home screen scanner input focused when on HOME screen
+  // Home screen auto-scan: an ID scanned from HOME jumps straight into the ID scan flow
   useEffect(() => {
-    if (activeScreen === 'HOME' && !lastCheckIn) {
-      homeScanRef.current?.focus();
-      const keepFocus = setInterval(() => {
-        if (activeScreen === 'HOME' && document.activeElement !== homeScanRef.current) {
-          // Don't steal focus from form elements (admin panel dropdowns, inputs, etc.)
-          const tag = document.activeElement?.tagName;
-          if (tag === 'SELECT' || tag === 'INPUT' || tag === 'TEXTAREA') return;
-          // Don't steal focus when PIN overlay is open — it needs keyboard input
-          if (document.querySelector('[data-pin-overlay]')) return;
-          homeScanRef.current?.focus();
-        }
-      }, 500);
-      return () => clearInterval(keepFocus);
-    }
-  }, [activeScreen, lastCheckIn]);
+    if (activeScreen !== 'HOME' || lastCheckIn || scanPaused) return;
+    return onScan(scan => {
+      // Looks like an ID (license barcode, military ID, passport MRZ) — anything else is ignored
+      if (detectDocumentFormat(scan.data)) {
+        setPendingScanData(scan.data);
+        startCheckIn('ID_SCAN');
+      }
+    });
+  }, [activeScreen, lastCheckIn, scanPaused]);
 
-  // Handle barcode scan on home screen
-  const handleHomeScan = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (activeScreen !== 'HOME' || lastCheckIn) {
-      e.target.value = '';
+  // Open a check-in screen — Phone/Guest go through the ID scan when the venue requires ID for every entry
+  const startCheckIn = (method: CheckInMethod) => {
+    if (method !== 'ID_SCAN' && requiresIdScan(method, venuePolicy)) {
+      setIdScanEntryMethod(method);
+      setActiveScreen('ID_SCAN');
       return;
     }
-
-    const value = e.target.value;
-    homeScanBuffer.current = value;
-
-    if (homeScanTimeout.current) {
-      clearTimeout(homeScanTimeout.current);
-    }
-
-    // Wait for scanner to finish typing (100ms debounce)
-    homeScanTimeout.current = setTimeout(() => {
-      if (value.length > 100) {
-        // Looks like a DL barcode — switch to ID scan with this data
-        setPendingScanData(value);
-        setActiveScreen('ID_SCAN');
-        // Clear the buffer
-        homeScanBuffer.current = '';
-        if (homeScanRef.current) homeScanRef.current.value = '';
-      } else {
-        // Too short — not a DL barcode, clear it
-        homeScanBuffer.current = '';
-        if (homeScanRef.current) homeScanRef.current.value = '';
-      }
-    }, 100);
+    setIdScanEntryMethod('ID_SCAN');
+    setActiveScreen(method);
   };
 
   // Clear pending scan data after IDScan picks it up
@@ -159,14 +144,22 @@ const KioskHome: React.FC<KioskHomeProps> = ({ onCheckIn, lastCheckIn }) => {
               <p className="text-2xl text-zinc-300 mb-2">
                 You're <span className="font-bold text-gold text-3xl">#{lastCheckIn.displayNumber}</span>
               </p>
-              <p className="text-lg text-zinc-400">Look for that on the screen — it'll come up in a moment.</p>
+              <p className="text-lg text-zinc-400">
+                {lastCheckIn.offline
+                  ? "Look for that on the screen — it may take a few minutes while our system reconnects."
+                  : "Look for that on the screen — it'll come up in a moment."}
+              </p>
             </>
           ) : (
             <>
               <p className="text-2xl text-zinc-300 mb-4">
                 Thank you, <span className="font-bold text-white">{lastCheckIn.name}</span>!
               </p>
-              <p className="text-lg text-zinc-400">Your name will appear on the screen in a moment.</p>
+              <p className="text-lg text-zinc-400">
+                {lastCheckIn.offline
+                  ? "Our system is reconnecting, so your name may take a few minutes to appear on the screen. You're still in line."
+                  : 'Your name will appear on the screen in a moment.'}
+              </p>
             </>
           )}
         </div>
@@ -188,6 +181,11 @@ const KioskHome: React.FC<KioskHomeProps> = ({ onCheckIn, lastCheckIn }) => {
               <Logo size="lg" />
               <h2 className="mt-6 text-3xl font-craft text-gold tracking-widest">Select Check-In Method</h2>
               <p className="text-zinc-400 mt-2 font-light">Fast & easy entry to our dispensary</p>
+              {offline && (
+                <p className="mt-4 mx-auto max-w-2xl px-6 py-3 rounded-xl bg-yellow-900/40 border border-yellow-700 text-yellow-200 text-lg">
+                  We're having trouble reaching our system. You can still check in — loyalty sign-ups and points will be back shortly.
+                </p>
+              )}
             </div>
 
             <div className="flex-1 px-10 pb-10 flex flex-col gap-8 max-w-[1800px] mx-auto w-full">
@@ -195,24 +193,24 @@ const KioskHome: React.FC<KioskHomeProps> = ({ onCheckIn, lastCheckIn }) => {
               <div className="flex-1 grid grid-cols-2 gap-6">
                 <GoldButton
                   label="Quick ID Scan"
-                  onClick={() => setActiveScreen('ID_SCAN')}
+                  onClick={() => startCheckIn('ID_SCAN')}
                   icon={<svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M10 21h7a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v11m0 5l4.879-4.879m0 0a3 3 0 104.243-4.242 3 3 0 00-4.243 4.242z" /></svg>}
                 />
                 <GoldButton
                   label="Loyalty Members"
-                  onClick={() => setActiveScreen('PHONE')}
+                  onClick={() => startCheckIn('PHONE')}
                   secondary
                   icon={<svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" /></svg>}
                 />
                 <GoldButton
                   label="QR Code Entry"
-                  onClick={() => setActiveScreen('QR')}
+                  onClick={() => startCheckIn('QR')}
                   secondary
                   icon={<svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" /></svg>}
                 />
                 <GoldButton
                   label="Guest Check-In"
-                  onClick={() => setActiveScreen('GUEST')}
+                  onClick={() => startCheckIn('GUEST')}
                   secondary
                   icon={<svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>}
                 />
@@ -275,27 +273,15 @@ const KioskHome: React.FC<KioskHomeProps> = ({ onCheckIn, lastCheckIn }) => {
             )}
 
             <div className="flex-1 flex items-center justify-center">
-              {activeScreen === 'ID_SCAN' && <IDScan onComplete={handleCheckIn} onGoHome={() => setActiveScreen('HOME')} pendingScanData={pendingScanData} onPendingScanConsumed={clearPendingScan} />}
+              {activeScreen === 'ID_SCAN' && <IDScan onComplete={handleCheckIn} onGoHome={() => setActiveScreen('HOME')} pendingScanData={pendingScanData} onPendingScanConsumed={clearPendingScan} entryMethod={idScanEntryMethod} scanPaused={scanPaused} />}
               {activeScreen === 'PHONE' && <PhoneEntry onComplete={handleCheckIn} />}
-              {activeScreen === 'GUEST' && <GuestEntry onComplete={handleCheckIn} />}
+              {activeScreen === 'GUEST' && <GuestEntry onComplete={handleCheckIn} scanPaused={scanPaused} />}
               {activeScreen === 'QR' && <QREntry onComplete={handleCheckIn} />}
             </div>
           </div>
         )}
       </div>
 
-      {/* Hidden scanner input for home screen auto-scan */}
-      {activeScreen === 'HOME' && !lastCheckIn && (
-        <input
-          ref={homeScanRef}
-          type="text"
-          className="opacity-0 absolute -left-[9999px]"
-          onChange={handleHomeScan}
-          onKeyDown={(e) => { if (e.altKey || (e.ctrlKey && e.key === 'm')) e.preventDefault(); }}
-          autoComplete="off"
-        />
-      )}
-
       <footer className="p-6 text-center text-zinc-600 text-xs font-craft tracking-widest bg-black/30">
         &copy; {new Date().getFullYear()} Craft Cannabis • Elevate Your Experience
       </footer>
@@ -3,12 +3,13 @@ import React, { useState, useEffect } from 'react';
 import { Customer } from '../../types';
 import { lookupCustomer, updateCustomer, KioskCustomer, getBlockedWords, isNameBlocked } from '../../services/kioskApi';
 import TouchKeyboard from './TouchKeyboard';
+import CustomerPicker from './CustomerPicker';
 
 interface PhoneEntryProps {
   onComplete: (data: Partial<Customer>) => void;
 }
 
-type Step = 'PHONE' | 'SEARCHING' | 'FOUND' | 'LOYALTY_PROMPT' | 'EMAIL_ENTRY' | 'UPDATING_LOYALTY' | 'NAME';
+type Step = 'PHONE' | 'SEARCHING' | 'PICK_CUSTOMER' | 'FOUND' | 'LOYALTY_PROMPT' | 'EMAIL_ENTRY' | 'UPDATING_LOYALTY' | 'NAME';
 
 const PhoneEntry: React.FC<PhoneEntryProps> = ({ onComplete }) => {
   const [phone, setPhone] = useState('');
@@ -16,6 +17,7 @@ const PhoneEntry: React.FC<PhoneEntryProps> = ({ onComplete }) => {
   const [email, setEmail] = useState('');
   const [step, setStep] = useState<Step>('PHONE');
   const [foundCustomer, setFoundCustomer] = useState<KioskCustomer | null>(null);
+  const [candidates, setCandidates] = useState<{ customers: KioskCustomer[]; matchKey?: string } | null>(null);
   const [loading, setLoading] = useState(false);
   const [blockedWords, setBlockedWords] = useState<string[]>([]);
   const [nameBlocked, setNameBlocked] = useState(false);
@@ -49,6 +51,10 @@ const PhoneEntry: React.FC<PhoneEntryProps> = ({ onComplete }) => {
       if (result.found && result.customer) {
         setFoundCustomer(result.customer);
         setStep('FOUND');
+      } else if (result.candidates && result.candidates.length > 0) {
+        // Several accounts share this phone - let the customer pick theirs
+        setCandidates({ customers: result.candidates, matchKey: result.matchKey });
+        setStep('PICK_CUSTOMER');
       } else {
         // Customer not found - ask for name
         setStep('NAME');
@@ -112,6 +118,18 @@ const PhoneEntry: React.FC<PhoneEntryProps> = ({ onComplete }) => {
     );
   }
 
+  // Several accounts on this phone - customer picks their own
+  if (step === 'PICK_CUSTOMER' && candidates) {
+    return (
+      <CustomerPicker
+        candidates={candidates.customers}
+        matchKey={candidates.matchKey}
+        onPick={(customer) => { setCandidates(null); setFoundCustomer(customer); setStep('FOUND'); }}
+        onNoneOfThese={() => { setCandidates(null); setStep('NAME'); }}
+      />
+    );
+  }
+
   // Handle loyalty signup - go to email entry first
   const handleLoyaltySignup = () => {
     if (!foundCustomer) return;
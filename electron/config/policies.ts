@@ -0,0 +1,25 @@
+// Venue check-in policies (minimum age, medical recognition cards, ID-required rule)
+// Anything not listed for a venue falls back to DEFAULT_VENUE_POLICY (21+, no medical
+// card handling, Phone/Guest check-ins allowed without an ID scan).
+// The expired-ID rule is set per venue from AdminPanel, not here.
+
+import { DEFAULT_VENUE_POLICY, VenuePolicy, normalizeVenuePolicy } from '../shared/venuePolicy.js';
+
+type VenuePolicyConfig = Partial<Omit<VenuePolicy, 'expiredId'>>;
+
+export const VENUE_POLICIES: Record<string, VenuePolicyConfig> = {
+  tacoma: {},
+  andresen: {},
+  millPlain: {},
+  southWenatchee: {},
+  wenatchee: {},
+  // Medically endorsed store example:
+  //   someVenue: { allowMedicalRecognitionCard: true },
+  // Require a scanned ID for every check-in:
+  //   someVenue: { requireIdForAllEntries: true },
+};
+
+export function getVenuePolicy(venueId: string | null, overrides: Partial<VenuePolicy> = {}): VenuePolicy {
+  const configured = venueId ? VENUE_POLICIES[venueId] : undefined;
+  return normalizeVenuePolicy({ ...DEFAULT_VENUE_POLICY, ...configured, ...overrides });
+}
@@ -1,13 +1,29 @@
 import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import crypto from 'crypto';
 import Store from 'electron-store';
 import pkg from 'electron-updater';
 const { autoUpdater } = pkg;
 import { getVenueList, getVenueById, INTEGRATOR_TOKEN, Venue } from './config/venues.js';
-import { initDatabase, getCustomerByPhone, getCustomerByName, getCustomerByLicense, upsertCustomers, addOfflineQueueEntry, getUnsyncedEntries, markEntrySynced, getTotalCustomerCount, searchCustomerByPhoneGlobal, getVenueIdsInDb, getSampleCustomers, getCustomersWithPhoneCount, logFailedScan, getRecentFailedScans } from './services/database.js';
+import { getVenuePolicy } from './config/policies.js';
+import { initDatabase, getCustomersByPhone, getCustomerNameCandidates, searchCustomersByName, getRememberedCustomerChoice, rememberCustomerChoice, getCustomerById, getCustomerByLicense, upsertCustomers, addOfflineQueueEntry, getUnsyncedEntries, getDeadLetterEntries, retryDeadLetterEntry, discardDeadLetterEntry, addPendingCustomer, getPendingCustomers, retryPendingCustomer, discardPendingCustomer, getTotalCustomerCount, searchCustomerByPhoneGlobal, getVenueIdsInDb, getSampleCustomers, getCustomersWithPhoneCount, getSchemaStatus, getAllCustomers, rotateDatabaseKey, applyRetentionPolicies, touchCustomer, forgetCustomer, getDeletionLog, getSyncJobRuns, logFailedScan, getRecentFailedScans, getAllFailedScans, markFailedScansResolved, logIdVerification, getIdVerifications, pruneIdVerifications, IdVerificationFilter } from './services/database.js';
+import { evaluateScan } from './shared/identity.js';
+import { ExpiredIdPolicy, normalizeExpiredIdPolicy } from './shared/idExpiry.js';
+import { CustomerMatchQuery, CustomerMatchResult, MatchCandidate, matchCustomers, nameMatchKey, phoneMatchKey, MAX_PICKER_CANDIDATES } from './shared/customerMatch.js';
 import { SyncService } from './services/sync.js';
-import { PosabitService } from './services/posabit.js';
+import { PosabitService, PosabitCustomer } from './services/posabit.js';
+import { ScannerService, ScannerConfig } from './services/scanner.js';
+import { ConnectivityMonitor } from './services/connectivity.js';
+import { RetentionPolicies, DEFAULT_RETENTION_POLICIES, normalizeRetentionPolicies, ForgetIdentifierType } from './shared/retention.js';
+import { verifyDeletionChain, DeletionLogHead } from './services/deletionLog.js';
+import { CrossVenuePolicy, normalizeCrossVenuePolicy } from './shared/crossVenue.js';
+import { lookupInSiblingVenues, CrossVenueLookupBy } from './services/crossVenue.js';
+import type { ReconcileResult } from './shared/reconcile.js';
+import { httpStatusFromError, nextRetryDelay } from './shared/offlineQueue.js';
+import { toProvisionalId, isProvisionalId, CreateCustomerRequest } from './shared/pendingCustomers.js';
+import { SyncSchedule, SyncJobName, SYNC_JOBS, normalizeSyncSchedule, isStoreOpen } from './shared/syncSchedule.js';
+import { findDuplicateGroups, DuplicateCustomer } from './shared/duplicates.js';
 
 // ESM __dirname equivalent
 const __filename = fileURLToPath(import.meta.url);
@@ -69,6 +85,14 @@ interface StoreSchema {
   showHomeInfoPanel: boolean;
   incogweedoEnabled: boolean;
   blockedWords: string[];
+  expiredIdPolicies: Record<string, ExpiredIdPolicy>;  // keyed by venue id
+  idVerificationRetentionDays: number;
+  retentionPolicies: RetentionPolicies;
+  deletionLogHead: DeletionLogHead | null;  // last deletion record, kept outside the database
+  crossVenuePolicies: Record<string, CrossVenuePolicy>;  // keyed by venue id
+  lastReconcile: ReconcileResult | null;  // last deleted / merged customer check (sync.ts)
+  syncSchedules: Record<string, SyncSchedule>;  // keyed by venue id
+  scanner: ScannerConfig;
 }
 
 // Persistent settings store
@@ -80,6 +104,14 @@ const store = new Store<StoreSchema>({
     showHomeInfoPanel: true,
     incogweedoEnabled: false,
     blockedWords: DEFAULT_BLOCKED_WORDS,
+    expiredIdPolicies: {},
+    idVerificationRetentionDays: 365,
+    retentionPolicies: DEFAULT_RETENTION_POLICIES,
+    deletionLogHead: null,
+    crossVenuePolicies: {},
+    lastReconcile: null,
+    syncSchedules: {},
+    scanner: { driver: 'keyboard', serialPath: '', replayDir: '' },
   }
 });
 
@@ -92,6 +124,36 @@ if (!storedWords || storedWords.length < DEFAULT_BLOCKED_WORDS.length) {
 let mainWindow: BrowserWindow | null = null;
 let syncService: SyncService | null = null;
 let posabitService: PosabitService | null = null;
+let scannerService: ScannerService | null = null;
+
+// POSaBIT health — probed while a venue is selected. Coming back online drains the offline
+// queue and catches up on customer changes right away.
+const connectivity = new ConnectivityMonitor(
+  () => posabitService
+    ? posabitService.checkHealth()
+    : Promise.resolve({ reachable: false, status: null, latencyMs: 0, error: 'No venue selected' }),
+  (status, previous) => {
+    if (status.state === 'online' && previous.state === 'offline' && syncService) {
+      syncService.drainOfflineQueueNow();
+      syncService.runJob('incremental', 'reconnect').catch(err => console.error('Reconnect sync error:', err));
+    }
+  }
+);
+
+// Worth calling POSaBIT — a venue is selected and the monitor hasn't seen it go offline
+function apiAvailable(): boolean {
+  return !!posabitService && connectivity.apiAvailable;
+}
+
+// Scanner settings with the replay folder defaulted under userData
+function getScannerConfig(): ScannerConfig {
+  const config = store.get('scanner') as ScannerConfig;
+  return {
+    driver: config?.driver || 'keyboard',
+    serialPath: config?.serialPath || '',
+    replayDir: config?.replayDir || path.join(app.getPath('userData'), 'scanner-replay'),
+  };
+}
 
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
@@ -178,10 +240,15 @@ function createWindow() {
   });
 
   // Prevent barcode scanner control characters from triggering OS shortcuts (Alt+Space = minimize)
+  // Keystrokes also feed the keyboard-wedge scanner driver, which consumes the ones that belong
+  // to a scan so a focused text field doesn't get the barcode typed into it
   mainWindow.webContents.on('before-input-event', (event, input) => {
     if (input.alt || (input.control && input.key === 'm')) {
       event.preventDefault();
     }
+    if (mainWindow && scannerService?.handleKeyboardInput(input, mainWindow.webContents)) {
+      event.preventDefault();
+    }
   });
 
   // Prevent window from being minimized when in kiosk mode
@@ -212,10 +279,58 @@ function initializeServices(venueId: string) {
   }
 
   posabitService = new PosabitService(INTEGRATOR_TOKEN, venue.token);
+  syncService?.stopBackgroundSync();
   syncService = new SyncService(posabitService, store, venueId);
 
   // Start background sync
   syncService.startBackgroundSync();
+  connectivity.start();
+}
+
+// Records synced without a birthday — fetch it from POSaBIT so the disambiguation screen
+// can show a birth month, and cache the full record so the next scan has it offline
+async function withBirthdays<T extends { id: number; birthday?: string | null }>(customers: T[]): Promise<T[]> {
+  if (!posabitService || !apiAvailable()) return customers;
+  const service = posabitService;
+  return Promise.all(customers.map(async customer => {
+    if (customer.birthday) return customer;
+    try {
+      const full = await service.fetchCustomerById(customer.id);
+      const venueId = store.get('selectedVenue') as string;
+      if (full && venueId) upsertCustomers([full], venueId);
+      return full?.birthday ? { ...customer, birthday: full.birthday } : customer;
+    } catch (err) {
+      console.error('Birthday fetch failed for customer', customer.id, err);
+      return customer;
+    }
+  }));
+}
+
+// Which sibling venues this venue may search for a customer it doesn't have (AdminPanel)
+function getCrossVenuePolicy(venueId: string): CrossVenuePolicy {
+  const policies = store.get('crossVenuePolicies') as Record<string, CrossVenuePolicy>;
+  return normalizeCrossVenuePolicy(policies?.[venueId], venueId, getVenueList().map(v => v.id));
+}
+
+// Not found at this venue — try the enabled sibling venues (see services/crossVenue.ts)
+async function lookupCrossVenue(by: CrossVenueLookupBy, value: string, venueId: string) {
+  // Linking needs the current venue's API, so there's nothing to do offline
+  if (!posabitService || !apiAvailable()) return null;
+  const match = await lookupInSiblingVenues(by, value, venueId, getCrossVenuePolicy(venueId), posabitService);
+  return match ? { found: true, customer: match.customer, crossVenue: { fromVenueId: match.fromVenueId, action: match.action } } : null;
+}
+
+// Purge rows past their retention window (startup, daily, and when the policies change)
+function applyRetention(): { customers: number; offlineQueue: number; failedScans: number; idVerifications: number } {
+  const removed = { customers: 0, offlineQueue: 0, failedScans: 0, idVerifications: 0 };
+  try {
+    Object.assign(removed, applyRetentionPolicies(normalizeRetentionPolicies(store.get('retentionPolicies'))));
+    removed.idVerifications = pruneIdVerifications(store.get('idVerificationRetentionDays') as number);
+    console.log('Retention applied:', JSON.stringify(removed));
+  } catch (e) {
+    console.error('Retention error:', e);
+  }
+  return removed;
 }
 
 // IPC Handlers
@@ -233,6 +348,7 @@ function setupIpcHandlers() {
     if (!venue) throw new Error('Invalid venue');
 
     store.set('selectedVenue', venueId);
+    rotateDatabaseKey(venueId);
     initializeServices(venueId);
 
     return venue;
@@ -248,10 +364,35 @@ function setupIpcHandlers() {
       return { found: false };
     }
 
-    const customer = getCustomerByPhone(phone, venueId);
-    console.log('Lookup result:', customer ? `Found: ${customer.first_name} ${customer.last_name}` : 'Not found');
+    const customers = getCustomersByPhone(phone, venueId);
+    if (customers.length === 0) {
+      const crossVenue = await lookupCrossVenue('phone', phone, venueId);
+      if (crossVenue) return crossVenue;
+    }
+    if (customers.length <= 1) {
+      const customer = customers[0];
+      console.log('Lookup result:', customer ? `Found: ${customer.first_name} ${customer.last_name}` : 'Not found');
+      return customer ? { found: true, customer } : { found: false };
+    }
 
-    return customer ? { found: true, customer } : { found: false };
+    // Several records share the phone — use the customer's earlier pick, else let them choose
+    const matchKey = phoneMatchKey(phone);
+    const rememberedId = getRememberedCustomerChoice(matchKey, venueId);
+    const remembered = customers.find(c => c.id === rememberedId);
+    if (remembered) {
+      console.log('Lookup result: picked before -', remembered.first_name, remembered.last_name, '(ID:', remembered.id, ')');
+      return { found: true, customer: remembered };
+    }
+
+    console.log('Lookup result:', customers.length, 'customers share this phone');
+    return { found: false, candidates: await withBirthdays(customers.slice(0, MAX_PICKER_CANDIDATES)), matchKey };
+  });
+
+  // Customer name search (local full-text index: prefix + phonetic) - AdminPanel Customer Search
+  ipcMain.handle('search-customers-by-name', async (_event, text: string) => {
+    const venueId = store.get('selectedVenue') as string;
+    if (!venueId || !text?.trim()) return [];
+    return searchCustomersByName(text, venueId);
   });
 
   // Customer lookup by driver's license number (local SQLite first, then POSaBIT API fallback)
@@ -270,8 +411,8 @@ function setupIpcHandlers() {
       return { found: true, customer };
     }
 
-    // Strategy 2: POSaBIT API fallback
-    if (posabitService) {
+    // Strategy 2: POSaBIT API fallback (skipped while offline)
+    if (posabitService && apiAvailable()) {
       console.log('Local DB DL miss — trying POSaBIT API for DL:', licenseNumber);
       try {
         const apiCustomer = await posabitService.searchCustomerByLicense(licenseNumber);
@@ -286,6 +427,10 @@ function setupIpcHandlers() {
       }
     }
 
+    // Strategy 3: a sibling venue's customer, linked / created in this venue
+    const crossVenue = await lookupCrossVenue('license', licenseNumber, venueId);
+    if (crossVenue) return crossVenue;
+
     console.log('Customer not found by DL:', licenseNumber);
     return { found: false };
   });
@@ -293,74 +438,126 @@ function setupIpcHandlers() {
   // Fetch full customer record from POSaBIT API (for link account verification)
   ipcMain.handle('fetch-customer-by-id', async (_event, customerId: number) => {
     if (!posabitService) throw new Error('No venue selected');
+    const venueId = store.get('selectedVenue') as string;
 
-    console.log('Fetching full customer record for ID:', customerId);
-    const customer = await posabitService.fetchCustomerById(customerId);
+    // Strategy 1: Local SQLite cache, if it already has what link verification needs
+    const cached = getCustomerById(customerId, venueId);
+    if (cached && (cached.birthday || cached.drivers_license)) {
+      console.log('Local DB record for ID:', customerId);
+      return { found: true, customer: cached };
+    }
 
-    return customer ? { found: true, customer } : { found: false };
+    // Offline — whatever the cache has is all there is
+    if (!apiAvailable()) {
+      return cached ? { found: true, customer: cached } : { found: false, offline: true };
+    }
+
+    // Strategy 2: POSaBIT API (cached for next time)
+    console.log('Fetching full customer record for ID:', customerId);
+    try {
+      const customer = await posabitService.fetchCustomerById(customerId);
+      if (customer) upsertCustomers([customer], venueId);
+      return customer ? { found: true, customer } : { found: false };
+    } catch (err) {
+      // Offline — a cached record without demographics is still better than nothing
+      if (cached) return { found: true, customer: cached };
+      throw err;
+    }
   });
 
-  // Customer lookup by name (local SQLite first, then POSaBIT API fallback) - for ID scan
-  ipcMain.handle('lookup-customer-by-name', async (_event, firstName: string, lastName: string) => {
+  // Ranked customer matching for an ID scan (local SQLite first, then POSaBIT API for more candidates).
+  // Returns every plausible record with a score; the kiosk only auto-attaches on decision 'accept'.
+  ipcMain.handle('match-customers', async (_event, query: CustomerMatchQuery): Promise<CustomerMatchResult> => {
     const venueId = store.get('selectedVenue') as string;
-    console.log('Looking up customer by name:', firstName, lastName, 'in venue:', venueId);
+    console.log('Matching customer:', query?.firstName, query?.lastName, 'in venue:', venueId);
 
-    if (!venueId) {
-      console.log('No venue selected for lookup');
-      return { found: false };
+    if (!venueId || !query?.lastName) {
+      return { decision: 'none', candidates: [] };
     }
-
-    // Strategy 1: Local SQLite database (fast)
-    const customer = getCustomerByName(firstName, lastName, venueId);
-    if (customer) {
-      console.log('Local DB match:', customer.first_name, customer.last_name, '(ID:', customer.id, ')');
-      return { found: true, customer };
+    const matchKey = nameMatchKey(query);
+    query = { ...query, rememberedCustomerId: getRememberedCustomerChoice(matchKey, venueId) ?? undefined };
+
+    // Strategy 1: Local SQLite database (fast) — a confident match here saves the API round trip
+    const local: MatchCandidate[] = getCustomerNameCandidates(query.lastName, venueId);
+    if (query.licenseNumber) {
+      const byLicense = getCustomerByLicense(query.licenseNumber, venueId);
+      if (byLicense) local.push(byLicense);
     }
+    let result = matchCustomers(query, local);
 
-    // Strategy 2: POSaBIT API fallback (slower but comprehensive)
-    if (posabitService) {
-      console.log('Local DB miss — trying POSaBIT API for:', firstName, lastName);
+    // Strategy 2: POSaBIT API — more candidates, plus birthdays the local DB doesn't store.
+    // Skipped while offline: the local result is all the kiosk can go on.
+    if (result.decision !== 'accept' && posabitService && apiAvailable()) {
       try {
-        const apiCustomer = await posabitService.searchCustomerByName(firstName, lastName);
-        if (apiCustomer) {
-          console.log('API match:', apiCustomer.first_name, apiCustomer.last_name, '(ID:', apiCustomer.id, ')');
-          // Cache in local DB for future lookups
-          upsertCustomers([apiCustomer], venueId);
-          return { found: true, customer: apiCustomer };
-        }
+        const [byName, byDob] = await Promise.all([
+          posabitService.searchCustomersByName(query.lastName),
+          query.birthday ? posabitService.searchCustomersByDobAndLastName(query.birthday, query.lastName) : Promise.resolve([]),
+        ]);
+        const remote = [...byName, ...byDob];
+        // Cache in local DB for future lookups
+        if (remote.length > 0) upsertCustomers(remote, venueId);
+        result = matchCustomers(query, [...local, ...remote]);
       } catch (err) {
-        console.error('API name lookup failed:', err);
+        console.error('API customer match failed:', err);
       }
     }
 
-    console.log('Customer not found anywhere:', firstName, lastName);
-    return { found: false };
-  });
+    console.log('Match decision:', result.decision, result.candidates.slice(0, 3).map(c =>
+      `${c.customer.first_name} ${c.customer.last_name} (ID: ${c.customer.id}) ${c.score} [${c.reasons.join(', ')}]`
+    ));
 
-  // Customer lookup by DOB + last name (POSaBIT API only — catches renewed DLs, nickname mismatches)
-  ipcMain.handle('lookup-customer-by-dob-lastname', async (_event, birthday: string, lastName: string) => {
-    console.log('Looking up customer by DOB+lastname:', birthday, lastName);
-    if (!posabitService || !birthday || !lastName) return { found: false };
-
-    try {
-      const customer = await posabitService.searchCustomerByDobAndLastName(birthday, lastName);
-      if (customer) {
-        const venueId = store.get('selectedVenue') as string;
-        if (venueId) upsertCustomers([customer], venueId);
-        return { found: true, customer };
-      }
-    } catch (err) {
-      console.error('DOB+lastname lookup failed:', err);
+    // The disambiguation screen only needs the top few, with birth months filled in
+    if (result.decision === 'ambiguous') {
+      const top = result.candidates.slice(0, MAX_PICKER_CANDIDATES);
+      const customers = await withBirthdays(top.map(c => c.customer));
+      result = { ...result, candidates: top.map((c, i) => ({ ...c, customer: customers[i] })) };
     }
-    return { found: false };
+    return { ...result, matchKey };
   });
 
-  // Create customer in POSaBIT
-  ipcMain.handle('create-customer', async (_event, data: any) => {
+  // Remember which record the customer picked on the disambiguation screen
+  ipcMain.handle('remember-customer-choice', async (_event, matchKey: string, customerId: number) => {
+    const venueId = store.get('selectedVenue') as string;
+    if (!venueId || !matchKey || !customerId) return { ok: false };
+    rememberCustomerChoice(matchKey, customerId, venueId);
+    console.log('Remembered customer choice:', customerId);
+    return { ok: true };
+  });
+
+  // Create customer in POSaBIT. Offline, or with no response, the signup is kept as a pending
+  // customer and the kiosk carries on with a provisional record (see shared/pendingCustomers.ts).
+  ipcMain.handle('create-customer', async (_event, data: CreateCustomerRequest) => {
     if (!posabitService) throw new Error('No venue selected');
     const venueId = store.get('selectedVenue') as string;
 
-    const newCustomer = await posabitService.createCustomer(data);
+    const storePending = (postingStartedAt?: string) => {
+      const pendingId = addPendingCustomer(data, venueId, postingStartedAt);
+      syncService?.scheduleQueueDrain();
+      console.log('Customer stored as pending:', pendingId);
+      return {
+        id: toProvisionalId(pendingId),
+        first_name: data.firstName,
+        last_name: data.lastName || '',
+        telephone: data.telephone,
+        email: data.email,
+        loyalty_member: data.loyaltyOptIn,
+        pending: true,
+      };
+    };
+
+    if (!apiAvailable()) return storePending();
+
+    const attemptStartedAt = new Date().toISOString();
+    let newCustomer: PosabitCustomer;
+    try {
+      newCustomer = await posabitService.createCustomer(data);
+    } catch (error) {
+      // POSaBIT answered and refused it — retrying later won't change that
+      if (httpStatusFromError((error as Error).message) !== null) throw error;
+      console.error('[create-customer] No response from POSaBIT — storing as pending:', (error as Error).message);
+      connectivity.checkNow().catch(err => console.error('Connectivity check error:', err));
+      return storePending(attemptStartedAt);
+    }
 
     // Sync newly created customer to local database so email and other fields persist
     if (venueId) {
@@ -374,6 +571,7 @@ function setupIpcHandlers() {
   // Update customer in POSaBIT (e.g., to enable loyalty)
   ipcMain.handle('update-customer', async (_event, customerId: number, data: any) => {
     if (!posabitService) throw new Error('No venue selected');
+    if (!apiAvailable()) throw new Error('POSaBIT is offline');
     const venueId = store.get('selectedVenue') as string;
 
     console.log('Updating customer:', customerId, 'data:', data);
@@ -391,6 +589,7 @@ function setupIpcHandlers() {
   // Queue operations
   ipcMain.handle('get-queue', async () => {
     if (!posabitService) throw new Error('No venue selected');
+    if (!apiAvailable()) throw new Error('POSaBIT is offline');
     return posabitService.getQueue();
   });
 
@@ -398,6 +597,14 @@ function setupIpcHandlers() {
     const venueId = store.get('selectedVenue') as string;
     console.log('[add-to-queue] incoming data:', JSON.stringify(data));
 
+    if (data.customerId && venueId) {
+      try {
+        touchCustomer(data.customerId, venueId);
+      } catch (e) {
+        console.error('Failed to record customer check-in:', e);
+      }
+    }
+
     // Strip kiosk-only fields before they reach POSaBIT (POSaBIT only reads name/telephone/customerId/source)
     const posabitPayload = {
       name: data.name,
@@ -406,31 +613,94 @@ function setupIpcHandlers() {
       source: (data.source || 'walk_in') as 'walk_in' | 'order_ahead',
     };
 
-    if (!posabitService) {
-      console.warn('[add-to-queue] no posabit service — storing offline');
+    // One key per check-in, reused by every retry of it from the offline queue
+    const idempotencyKey = crypto.randomUUID();
+    const attemptStartedAt = new Date().toISOString();
+    const storeOffline = (postingStartedAt?: string) => {
       try {
-        addOfflineQueueEntry({ ...data, venue_id: venueId });
+        addOfflineQueueEntry({
+          name: data.name,
+          phone: posabitPayload.telephone || null,
+          method: data.method,
+          customer_id: data.customerId || null,
+          venue_id: venueId,
+          next_attempt_at: new Date(Date.now() + nextRetryDelay(1)).toISOString(),
+          idempotency_key: idempotencyKey,
+          posting_started_at: postingStartedAt,
+        });
+        syncService?.scheduleQueueDrain();
       } catch (e) {
         console.error('Failed to store offline queue entry:', e);
       }
+    };
+
+    // A customer created offline posts once POSaBIT has created them (SyncService re-points it)
+    if (isProvisionalId(data.customerId)) {
+      console.log('[add-to-queue] Customer is pending creation — storing offline');
+      storeOffline();
+      return { offline: true, pendingCustomer: true };
+    }
+
+    if (!posabitService || !apiAvailable()) {
+      console.warn('[add-to-queue] POSaBIT unavailable — storing offline');
+      storeOffline();
       return { offline: true };
     }
 
     try {
-      const result = await posabitService.addToQueue(posabitPayload);
+      const result = await posabitService.addToQueue(posabitPayload, idempotencyKey);
       console.log('[add-to-queue] POSaBIT success — customer_queue_id:', result.customer_queue_id);
+      // POSaBIT is reachable — anything waiting out a network failure can go now
+      syncService?.drainOfflineQueueNow();
       return result;
     } catch (error) {
       console.error('[add-to-queue] POSaBIT failed:', (error as Error).message);
-      try {
-        addOfflineQueueEntry({ ...data, venue_id: venueId });
-      } catch (e) {
-        console.error('Failed to store offline queue entry:', e);
-      }
+      // No response: the check-in may have landed, so the retry looks for it on the queue first.
+      // It may also mean POSaBIT just went down — probe now rather than at the next interval.
+      const noResponse = httpStatusFromError((error as Error).message) === null;
+      storeOffline(noResponse ? attemptStartedAt : undefined);
+      if (noResponse) connectivity.checkNow().catch(err => console.error('Connectivity check error:', err));
       return { offline: true, error: (error as Error).message };
     }
   });
 
+  // Offline check-ins — pending count and dead-lettered entries for staff review
+  ipcMain.handle('get-offline-queue', () => {
+    const venueId = store.get('selectedVenue') as string | null;
+    if (!venueId) return { pending: 0, deadLettered: [] };
+    return {
+      pending: getUnsyncedEntries(venueId).length,
+      deadLettered: getDeadLetterEntries(venueId),
+    };
+  });
+
+  ipcMain.handle('retry-offline-entry', (_event, id: number) => {
+    const retried = retryDeadLetterEntry(id);
+    if (retried) syncService?.runJob('queueDrain', 'manual').catch(err => console.error('Offline sync error:', err));
+    return retried;
+  });
+
+  ipcMain.handle('discard-offline-entry', (_event, id: number) => discardDeadLetterEntry(id));
+
+  // Customers created while offline — waiting, failed, and recently resolved
+  ipcMain.handle('get-pending-customers', () => {
+    const venueId = store.get('selectedVenue') as string | null;
+    if (!venueId) return [];
+    return getPendingCustomers(venueId);
+  });
+
+  ipcMain.handle('retry-pending-customer', (_event, id: number) => {
+    const retried = retryPendingCustomer(id);
+    if (retried) syncService?.runJob('queueDrain', 'manual').catch(err => console.error('Offline sync error:', err));
+    return retried;
+  });
+
+  ipcMain.handle('discard-pending-customer', (_event, id: number) => {
+    const discarded = discardPendingCustomer(id);
+    if (discarded) syncService?.runJob('queueDrain', 'manual').catch(err => console.error('Offline sync error:', err));
+    return discarded;
+  });
+
   // Sync status
   ipcMain.handle('get-sync-status', () => {
     return {
@@ -438,12 +708,50 @@ function setupIpcHandlers() {
       isSyncing: syncService?.isSyncing ?? false,
       customerCount: syncService?.customerCount ?? 0,
       progress: syncService?.progress ?? null,
+      lastReconcile: store.get('lastReconcile'),
+      fullSyncCheckpoint: syncService?.fullSyncCheckpoint ?? null,
     };
   });
 
   ipcMain.handle('force-sync', async () => {
     if (!syncService) throw new Error('No venue selected');
-    await syncService.fullSync();
+    await syncService.runJob('fullResync', 'manual');
+    return { success: true };
+  });
+
+  // POSaBIT connectivity (header indicator, AdminPanel)
+  ipcMain.handle('get-connectivity', () => connectivity.current);
+  ipcMain.handle('check-connectivity', () => connectivity.checkNow());
+
+  // Check for customers deleted / merged in POSaBIT now instead of waiting for the daily pass
+  ipcMain.handle('reconcile-customers', async () => {
+    if (!syncService) throw new Error('No venue selected');
+    await syncService.runJob('reconcile', 'manual');
+    return store.get('lastReconcile');
+  });
+
+  // Background sync schedule (store hours, per-job intervals) and the job history
+  ipcMain.handle('get-sync-schedule', () => syncService?.schedule ?? normalizeSyncSchedule(null));
+  ipcMain.handle('set-sync-schedule', (_event, schedule: SyncSchedule) => {
+    const venueId = store.get('selectedVenue') as string | null;
+    if (!venueId) throw new Error('No venue selected');
+    const normalized = normalizeSyncSchedule(schedule);
+    store.set('syncSchedules', { ...(store.get('syncSchedules') as Record<string, SyncSchedule>), [venueId]: normalized });
+    return normalized;
+  });
+  ipcMain.handle('get-sync-jobs', () => {
+    const venueId = store.get('selectedVenue') as string | null;
+    if (!venueId || !syncService) return { storeOpen: false, jobs: [], history: [] };
+    return {
+      storeOpen: isStoreOpen(syncService.schedule.storeHours),
+      jobs: syncService.jobStatus,
+      history: getSyncJobRuns(venueId),
+    };
+  });
+  ipcMain.handle('run-sync-job', async (_event, job: SyncJobName) => {
+    if (!syncService) throw new Error('No venue selected');
+    if (!SYNC_JOBS.includes(job)) throw new Error(`Unknown sync job: ${job}`);
+    await syncService.runJob(job, 'manual');
     return { success: true };
   });
 
@@ -488,6 +796,160 @@ function setupIpcHandlers() {
     return { ok: true };
   });
 
+  // Expired-ID policy for the selected venue (block / warn staff / grace days)
+  ipcMain.handle('get-expired-id-policy', () => {
+    const venueId = store.get('selectedVenue') as string;
+    const policies = store.get('expiredIdPolicies') || {};
+    return normalizeExpiredIdPolicy(venueId ? policies[venueId] : null);
+  });
+
+  ipcMain.handle('set-expired-id-policy', (_event, policy: ExpiredIdPolicy) => {
+    const venueId = store.get('selectedVenue') as string;
+    if (!venueId) throw new Error('No venue selected');
+    const normalized = normalizeExpiredIdPolicy(policy);
+    store.set('expiredIdPolicies', { ...(store.get('expiredIdPolicies') || {}), [venueId]: normalized });
+    return normalized;
+  });
+
+  // Full check-in policy for the selected venue: config/policies.ts plus the AdminPanel expired-ID rule
+  ipcMain.handle('get-venue-policy', () => {
+    const venueId = store.get('selectedVenue') as string | null;
+    const policies = store.get('expiredIdPolicies') || {};
+    return getVenuePolicy(venueId, { expiredId: normalizeExpiredIdPolicy(venueId ? policies[venueId] : null) });
+  });
+
+  // Barcode scanner driver (keyboard wedge / serial / simulated file replay)
+  ipcMain.handle('get-scanner-config', () => getScannerConfig());
+
+  ipcMain.handle('set-scanner-config', (_event, config: Partial<ScannerConfig>) => {
+    const next = { ...getScannerConfig(), ...config };
+    store.set('scanner', next);
+    scannerService?.reconfigure(next);
+    return next;
+  });
+
+  ipcMain.handle('get-scanner-status', () => scannerService?.status ?? null);
+
+  ipcMain.handle('get-recent-scans', (_event, limit?: number) => scannerService?.getRecentScans(limit) ?? []);
+
+  ipcMain.handle('replay-scan-file', async () => {
+    if (!mainWindow || !scannerService) return { ok: false };
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Replay a scan file',
+      defaultPath: getScannerConfig().replayDir,
+      properties: ['openFile'],
+    });
+    if (result.canceled || result.filePaths.length === 0) return { ok: false };
+    try {
+      scannerService.replayFile(result.filePaths[0]);
+      return { ok: true };
+    } catch (e: any) {
+      console.error('Failed to replay scan file:', e);
+      return { ok: false, error: e.message };
+    }
+  });
+
+  // Age-verification audit log (every underage / expired / admitted decision)
+  ipcMain.handle('log-id-verification', (_event, entry: { outcome: string; age?: number; jurisdiction?: string; licenseNumber?: string; documentType?: string; entryMethod?: string; expirationDate?: string; daysExpired?: number }) => {
+    const venueId = store.get('selectedVenue') as string;
+    try {
+      logIdVerification({
+        venue_id: venueId || 'unknown',
+        outcome: entry.outcome,
+        age: entry.age ?? null,
+        jurisdiction: entry.jurisdiction || null,
+        document_type: entry.documentType || null,
+        entry_method: entry.entryMethod || null,
+        expiration_date: entry.expirationDate || null,
+        days_expired: entry.daysExpired ?? null,
+      }, entry.licenseNumber || null);
+    } catch (e) {
+      console.error('Failed to log ID verification:', e);
+    }
+    return { ok: true };
+  });
+
+  ipcMain.handle('get-id-verifications', (_event, filter?: IdVerificationFilter) => {
+    try {
+      return getIdVerifications(filter || {});
+    } catch (e) {
+      console.error('Failed to fetch ID verifications:', e);
+      return [];
+    }
+  });
+
+  ipcMain.handle('get-id-verification-retention', () => store.get('idVerificationRetentionDays'));
+  ipcMain.handle('set-id-verification-retention', (_event, days: number) => {
+    const retentionDays = Math.max(1, Math.floor(Number(days) || 0));
+    store.set('idVerificationRetentionDays', retentionDays);
+    try {
+      const removed = pruneIdVerifications(retentionDays);
+      if (removed > 0) console.log(`Pruned ${removed} ID verification rows older than ${retentionDays} days`);
+    } catch (e) {
+      console.error('Failed to prune ID verifications:', e);
+    }
+    return retentionDays;
+  });
+
+  // Cross-venue lookup settings for the current venue
+  ipcMain.handle('get-cross-venue-policy', () => {
+    const venueId = store.get('selectedVenue') as string | null;
+    return venueId ? getCrossVenuePolicy(venueId) : {};
+  });
+  ipcMain.handle('set-cross-venue-policy', (_event, policy: CrossVenuePolicy) => {
+    const venueId = store.get('selectedVenue') as string | null;
+    if (!venueId) throw new Error('No venue selected');
+    const normalized = normalizeCrossVenuePolicy(policy, venueId, getVenueList().map(v => v.id));
+    store.set('crossVenuePolicies', { ...(store.get('crossVenuePolicies') as Record<string, CrossVenuePolicy>), [venueId]: normalized });
+    return normalized;
+  });
+
+  // PII retention policies (customers, offline queue, failed scans)
+  ipcMain.handle('get-retention-policies', () => normalizeRetentionPolicies(store.get('retentionPolicies')));
+  ipcMain.handle('set-retention-policies', (_event, policies: Partial<RetentionPolicies>) => {
+    const normalized = normalizeRetentionPolicies({ ...store.get('retentionPolicies'), ...policies });
+    store.set('retentionPolicies', normalized);
+    return { policies: normalized, removed: applyRetention() };
+  });
+
+  // "Forget this customer" — remove local rows by phone, DL or POSaBIT ID and log the deletion
+  ipcMain.handle('forget-customer', (_event, type: ForgetIdentifierType, value: string, reason: string) => {
+    const venueId = store.get('selectedVenue') as string;
+    if (!reason?.trim()) return { ok: false, error: 'A reason is required' };
+    try {
+      const { record, head } = forgetCustomer(type, value, reason, venueId || '');
+      store.set('deletionLogHead', head);
+      return { ok: true, record };
+    } catch (e: any) {
+      console.error('Forget customer failed:', e);
+      return { ok: false, error: e.message };
+    }
+  });
+
+  ipcMain.handle('get-deletion-log', () => {
+    const records = getDeletionLog();
+    return { records, chain: verifyDeletionChain(records, store.get('deletionLogHead') as DeletionLogHead | null) };
+  });
+
+  // Probable duplicate customers in the local cache, for merging in POSaBIT
+  ipcMain.handle('get-duplicate-report', () => {
+    const venueId = store.get('selectedVenue') as string | null;
+    if (!venueId) return { scanned: 0, groups: [] };
+
+    const customers: DuplicateCustomer[] = getAllCustomers(venueId).map(c => ({
+      id: c.id,
+      first_name: c.first_name,
+      last_name: c.last_name,
+      telephone: c.telephone,
+      email: c.email,
+      birthday: c.birthday,
+      drivers_license: c.drivers_license,
+      loyalty_points: c.loyalty_points,
+      created_at: c.created_at,
+    }));
+    return { scanned: customers.length, groups: findDuplicateGroups(customers) };
+  });
+
   ipcMain.handle('get-failed-scans', (_event, limit?: number) => {
     try {
       return getRecentFailedScans(limit || 50);
@@ -497,6 +959,42 @@ function setupIpcHandlers() {
     }
   });
 
+  // Failed-scan replay — re-run stored raw barcodes through the current parser
+  ipcMain.handle('replay-failed-scans', (_event, includeResolved?: boolean) => {
+    try {
+      const scans = getAllFailedScans(includeResolved ?? false);
+      const results = scans.map(scan => {
+        const evaluation = evaluateScan(scan.raw_barcode);
+        return {
+          id: scan.id,
+          created_at: scan.created_at,
+          venue_id: scan.venue_id,
+          resolved_at: scan.resolved_at,
+          original_error: scan.parser_error,
+          ok: evaluation.ok,
+          error: evaluation.error,
+          license: evaluation.license,
+        };
+      });
+
+      const parsed = results.filter(r => r.ok).length;
+      console.log(`Failed-scan replay: ${parsed}/${results.length} now parse`);
+      return { total: results.length, parsed, failing: results.length - parsed, results };
+    } catch (e) {
+      console.error('Failed-scan replay error:', e);
+      return { total: 0, parsed: 0, failing: 0, results: [] };
+    }
+  });
+
+  ipcMain.handle('resolve-failed-scans', (_event, ids: number[]) => {
+    try {
+      return { resolved: markFailedScansResolved(ids || []) };
+    } catch (e) {
+      console.error('Failed to resolve failed scans:', e);
+      return { resolved: 0 };
+    }
+  });
+
   // Blocked words
   ipcMain.handle('get-blocked-words', () => store.get('blockedWords'));
 
@@ -553,6 +1051,9 @@ function setupIpcHandlers() {
     };
   });
 
+  // Local database schema version + migration history (AdminPanel)
+  ipcMain.handle('get-schema-status', async () => getSchemaStatus());
+
   ipcMain.handle('debug-db-info', async () => {
     const totalCount = getTotalCustomerCount();
     const venueIds = getVenueIdsInDb();
@@ -580,9 +1081,17 @@ app.whenReady().then(() => {
   // Initialize SQLite database
   initDatabase();
 
+  // Apply retention policies now and once a day (kiosks run for weeks without a restart)
+  applyRetention();
+  setInterval(applyRetention, 24 * 60 * 60 * 1000);
+
   // Setup IPC handlers
   setupIpcHandlers();
 
+  // Start the barcode scanner before the window so the first keystrokes are not missed
+  scannerService = new ScannerService(getScannerConfig());
+  scannerService.start();
+
   // Create main window
   createWindow();
 
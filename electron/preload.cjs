@@ -10,9 +10,10 @@ contextBridge.exposeInMainWorld('kiosk', {
 
   // Customer operations
   lookupCustomer: (phone) => ipcRenderer.invoke('lookup-customer', phone),
-  lookupCustomerByName: (firstName, lastName) => ipcRenderer.invoke('lookup-customer-by-name', firstName, lastName),
+  searchCustomersByName: (text) => ipcRenderer.invoke('search-customers-by-name', text),
+  matchCustomers: (query) => ipcRenderer.invoke('match-customers', query),
+  rememberCustomerChoice: (matchKey, customerId) => ipcRenderer.invoke('remember-customer-choice', matchKey, customerId),
   lookupCustomerByLicense: (licenseNumber) => ipcRenderer.invoke('lookup-customer-by-license', licenseNumber),
-  lookupCustomerByDobLastname: (birthday, lastName) => ipcRenderer.invoke('lookup-customer-by-dob-lastname', birthday, lastName),
   fetchCustomerById: (customerId) => ipcRenderer.invoke('fetch-customer-by-id', customerId),
   createCustomer: (data) => ipcRenderer.invoke('create-customer', data),
   updateCustomer: (customerId, data) => ipcRenderer.invoke('update-customer', customerId, data),
@@ -24,6 +25,11 @@ contextBridge.exposeInMainWorld('kiosk', {
   // Sync operations
   getSyncStatus: () => ipcRenderer.invoke('get-sync-status'),
   forceSync: () => ipcRenderer.invoke('force-sync'),
+  reconcileCustomers: () => ipcRenderer.invoke('reconcile-customers'),
+  getSyncSchedule: () => ipcRenderer.invoke('get-sync-schedule'),
+  setSyncSchedule: (schedule) => ipcRenderer.invoke('set-sync-schedule', schedule),
+  getSyncJobs: () => ipcRenderer.invoke('get-sync-jobs'),
+  runSyncJob: (job) => ipcRenderer.invoke('run-sync-job', job),
 
   // Settings
   setKioskMode: (enabled) => ipcRenderer.invoke('set-kiosk-mode', enabled),
@@ -43,9 +49,61 @@ contextBridge.exposeInMainWorld('kiosk', {
     return () => ipcRenderer.removeListener('incogweedo-enabled-changed', handler);
   },
 
+  // POSaBIT connectivity
+  getConnectivity: () => ipcRenderer.invoke('get-connectivity'),
+  checkConnectivity: () => ipcRenderer.invoke('check-connectivity'),
+  onConnectivityChanged: (callback) => {
+    const handler = (_event, status) => callback(status);
+    ipcRenderer.on('connectivity-changed', handler);
+    return () => ipcRenderer.removeListener('connectivity-changed', handler);
+  },
+
   // Failed-scan capture (v2.1.4+)
   logFailedScan: (rawBarcode, parserError) => ipcRenderer.invoke('log-failed-scan', rawBarcode, parserError),
   getFailedScans: (limit) => ipcRenderer.invoke('get-failed-scans', limit),
+  replayFailedScans: (includeResolved) => ipcRenderer.invoke('replay-failed-scans', includeResolved),
+  resolveFailedScans: (ids) => ipcRenderer.invoke('resolve-failed-scans', ids),
+
+  // Barcode scanner (complete scans from the main-process scanner service)
+  onScan: (callback) => {
+    const handler = (_event, scan) => callback(scan);
+    ipcRenderer.on('scanner-scan', handler);
+    return () => ipcRenderer.removeListener('scanner-scan', handler);
+  },
+  getScannerConfig: () => ipcRenderer.invoke('get-scanner-config'),
+  setScannerConfig: (config) => ipcRenderer.invoke('set-scanner-config', config),
+  getScannerStatus: () => ipcRenderer.invoke('get-scanner-status'),
+  getSchemaStatus: () => ipcRenderer.invoke('get-schema-status'),
+  getRecentScans: (limit) => ipcRenderer.invoke('get-recent-scans', limit),
+  replayScanFile: () => ipcRenderer.invoke('replay-scan-file'),
+
+  // Expired-ID policy
+  getExpiredIdPolicy: () => ipcRenderer.invoke('get-expired-id-policy'),
+  setExpiredIdPolicy: (policy) => ipcRenderer.invoke('set-expired-id-policy', policy),
+  getVenuePolicy: () => ipcRenderer.invoke('get-venue-policy'),
+
+  // Age-verification audit log
+  logIdVerification: (entry) => ipcRenderer.invoke('log-id-verification', entry),
+  getIdVerifications: (filter) => ipcRenderer.invoke('get-id-verifications', filter),
+  getIdVerificationRetention: () => ipcRenderer.invoke('get-id-verification-retention'),
+  setIdVerificationRetention: (days) => ipcRenderer.invoke('set-id-verification-retention', days),
+
+  // Cross-venue lookup
+  getCrossVenuePolicy: () => ipcRenderer.invoke('get-cross-venue-policy'),
+  setCrossVenuePolicy: (policy) => ipcRenderer.invoke('set-cross-venue-policy', policy),
+
+  // PII retention + right to delete
+  getRetentionPolicies: () => ipcRenderer.invoke('get-retention-policies'),
+  setRetentionPolicies: (policies) => ipcRenderer.invoke('set-retention-policies', policies),
+  forgetCustomer: (type, value, reason) => ipcRenderer.invoke('forget-customer', type, value, reason),
+  getDeletionLog: () => ipcRenderer.invoke('get-deletion-log'),
+  getDuplicateReport: () => ipcRenderer.invoke('get-duplicate-report'),
+  getOfflineQueue: () => ipcRenderer.invoke('get-offline-queue'),
+  retryOfflineEntry: (id) => ipcRenderer.invoke('retry-offline-entry', id),
+  discardOfflineEntry: (id) => ipcRenderer.invoke('discard-offline-entry', id),
+  getPendingCustomers: () => ipcRenderer.invoke('get-pending-customers'),
+  retryPendingCustomer: (id) => ipcRenderer.invoke('retry-pending-customer', id),
+  discardPendingCustomer: (id) => ipcRenderer.invoke('discard-pending-customer', id),
 
   // Blocked words
   getBlockedWords: () => ipcRenderer.invoke('get-blocked-words'),
@@ -1,4 +1,19 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { ExpiredIdPolicy } from './shared/idExpiry.js';
+import type { VenuePolicy } from './shared/venuePolicy.js';
+import type { CustomerMatchQuery, CustomerMatchResult } from './shared/customerMatch.js';
+import type { ScannerConfig, ScannerStatus, ScanEvent } from './services/scanner.js';
+import type { SchemaStatus } from './services/migrations.js';
+import type { RetentionPolicies, ForgetIdentifierType } from './shared/retention.js';
+import type { CrossVenuePolicy } from './shared/crossVenue.js';
+import type { ReconcileResult } from './shared/reconcile.js';
+import type { FullSyncCheckpoint } from './shared/fullSync.js';
+import type { DuplicateGroup } from './shared/duplicates.js';
+import type { DeletionRecord, DeletionChainStatus } from './services/deletionLog.js';
+import type { OfflineQueueEntry, PendingCustomer, SyncJobRun } from './services/database.js';
+import type { SyncSchedule, SyncJobName } from './shared/syncSchedule.js';
+import type { SyncJobStatus } from './services/syncScheduler.js';
+import type { ConnectivityStatus } from './shared/connectivity.js';
 
 // Customer data type
 export interface KioskCustomer {
@@ -29,6 +44,8 @@ export interface SyncStatus {
   lastSync: string | null;
   isSyncing: boolean;
   customerCount: number;
+  lastReconcile: ReconcileResult | null;
+  fullSyncCheckpoint: FullSyncCheckpoint | null;
 }
 
 // Expose safe APIs to renderer process
@@ -97,12 +114,17 @@ declare global {
       getVenues: () => Promise<KioskVenue[]>;
       getCurrentVenue: () => Promise<KioskVenue | null>;
       setVenue: (venueId: string) => Promise<KioskVenue>;
-      lookupCustomer: (phone: string) => Promise<{ found: boolean; customer?: KioskCustomer }>;
+      lookupCustomer: (phone: string) => Promise<{ found: boolean; customer?: KioskCustomer; candidates?: KioskCustomer[]; matchKey?: string; crossVenue?: { fromVenueId: string; action: 'linked' | 'created' } }>;
       createCustomer: (data: any) => Promise<KioskCustomer>;
       getQueue: () => Promise<any>;
       addToQueue: (data: QueueEntry) => Promise<any>;
       getSyncStatus: () => Promise<SyncStatus>;
       forceSync: () => Promise<{ success: boolean }>;
+      reconcileCustomers: () => Promise<ReconcileResult | null>;
+      getSyncSchedule: () => Promise<SyncSchedule>;
+      setSyncSchedule: (schedule: SyncSchedule) => Promise<SyncSchedule>;
+      getSyncJobs: () => Promise<{ storeOpen: boolean; jobs: SyncJobStatus[]; history: SyncJobRun[] }>;
+      runSyncJob: (job: SyncJobName) => Promise<{ success: boolean }>;
       setKioskMode: (enabled: boolean) => Promise<boolean>;
       getKioskMode: () => Promise<boolean>;
       getShowHomeInfoPanel: () => Promise<boolean>;
@@ -111,8 +133,40 @@ declare global {
       getIncogweedoEnabled: () => Promise<boolean>;
       setIncogweedoEnabled: (enabled: boolean) => Promise<boolean>;
       onIncogweedoEnabledChanged: (callback: (enabled: boolean) => void) => () => void;
+      getConnectivity: () => Promise<ConnectivityStatus>;
+      checkConnectivity: () => Promise<ConnectivityStatus>;
+      onConnectivityChanged: (callback: (status: ConnectivityStatus) => void) => () => void;
       logFailedScan: (rawBarcode: string, parserError: string) => Promise<{ ok: boolean }>;
-      getFailedScans: (limit?: number) => Promise<Array<{ id: number; raw_barcode: string; parser_error: string; venue_id: string; created_at: string }>>;
+      getFailedScans: (limit?: number) => Promise<Array<{ id: number; raw_barcode: string; parser_error: string; venue_id: string; created_at: string; resolved_at: string | null }>>;
+      replayFailedScans: (includeResolved?: boolean) => Promise<any>;
+      resolveFailedScans: (ids: number[]) => Promise<{ resolved: number }>;
+      onScan: (callback: (scan: ScanEvent) => void) => () => void;
+      getScannerConfig: () => Promise<ScannerConfig>;
+      setScannerConfig: (config: Partial<ScannerConfig>) => Promise<ScannerConfig>;
+      getScannerStatus: () => Promise<ScannerStatus | null>;
+      getSchemaStatus: () => Promise<SchemaStatus>;
+      getRecentScans: (limit?: number) => Promise<ScanEvent[]>;
+      replayScanFile: () => Promise<{ ok: boolean; error?: string }>;
+      getExpiredIdPolicy: () => Promise<ExpiredIdPolicy>;
+      setExpiredIdPolicy: (policy: ExpiredIdPolicy) => Promise<ExpiredIdPolicy>;
+      getVenuePolicy: () => Promise<VenuePolicy>;
+      logIdVerification: (entry: { outcome: string; age?: number; jurisdiction?: string; licenseNumber?: string; documentType?: string; entryMethod?: string; expirationDate?: string; daysExpired?: number }) => Promise<{ ok: boolean }>;
+      getIdVerifications: (filter?: { from?: string; to?: string; outcome?: string; limit?: number }) => Promise<any[]>;
+      getIdVerificationRetention: () => Promise<number>;
+      setIdVerificationRetention: (days: number) => Promise<number>;
+      getCrossVenuePolicy: () => Promise<CrossVenuePolicy>;
+      setCrossVenuePolicy: (policy: CrossVenuePolicy) => Promise<CrossVenuePolicy>;
+      getRetentionPolicies: () => Promise<RetentionPolicies>;
+      setRetentionPolicies: (policies: Partial<RetentionPolicies>) => Promise<{ policies: RetentionPolicies; removed: { customers: number; offlineQueue: number; failedScans: number; idVerifications: number } }>;
+      forgetCustomer: (type: ForgetIdentifierType, value: string, reason: string) => Promise<{ ok: boolean; record?: DeletionRecord; error?: string }>;
+      getDeletionLog: () => Promise<{ records: DeletionRecord[]; chain: DeletionChainStatus }>;
+      getDuplicateReport: () => Promise<{ scanned: number; groups: DuplicateGroup[] }>;
+      getOfflineQueue: () => Promise<{ pending: number; deadLettered: OfflineQueueEntry[] }>;
+      retryOfflineEntry: (id: number) => Promise<boolean>;
+      discardOfflineEntry: (id: number) => Promise<boolean>;
+      getPendingCustomers: () => Promise<PendingCustomer[]>;
+      retryPendingCustomer: (id: number) => Promise<boolean>;
+      discardPendingCustomer: (id: number) => Promise<boolean>;
       toggleFullscreen: () => Promise<boolean>;
       getFullscreen: () => Promise<boolean>;
       getBlockedWords: () => Promise<string[]>;
@@ -123,9 +177,10 @@ declare global {
       debugSearchGlobal: (phone: string) => Promise<any>;
       debugDbInfo: () => Promise<any>;
       // Auto-update
-      lookupCustomerByName: (firstName: string, lastName: string) => Promise<{ found: boolean; customer?: KioskCustomer }>;
-      lookupCustomerByLicense: (licenseNumber: string) => Promise<{ found: boolean; customer?: KioskCustomer }>;
-      lookupCustomerByDobLastname: (birthday: string, lastName: string) => Promise<{ found: boolean; customer?: KioskCustomer }>;
+      searchCustomersByName: (text: string) => Promise<KioskCustomer[]>;
+      matchCustomers: (query: CustomerMatchQuery) => Promise<CustomerMatchResult<KioskCustomer>>;
+      rememberCustomerChoice: (matchKey: string, customerId: number) => Promise<{ ok: boolean }>;
+      lookupCustomerByLicense: (licenseNumber: string) => Promise<{ found: boolean; customer?: KioskCustomer; crossVenue?: { fromVenueId: string; action: 'linked' | 'created' } }>;
       fetchCustomerById: (customerId: number) => Promise<{ found: boolean; customer?: KioskCustomer }>;
       updateCustomer: (customerId: number, data: any) => Promise<KioskCustomer>;
       checkForUpdates: () => Promise<any>;
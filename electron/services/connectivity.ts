@@ -0,0 +1,83 @@
+// Connectivity Monitor - probes POSaBIT and broadcasts online / degraded / offline to the renderer
+
+import { BrowserWindow } from 'electron';
+import {
+  ConnectivityStatus,
+  ProbeResult,
+  INITIAL_CONNECTIVITY,
+  PROBE_INTERVAL_MS,
+  nextConnectivity,
+  isApiAvailable,
+} from '../shared/connectivity.js';
+
+export class ConnectivityMonitor {
+  private probe: () => Promise<ProbeResult>;
+  private onChange: (status: ConnectivityStatus, previous: ConnectivityStatus) => void;
+  private status: ConnectivityStatus = INITIAL_CONNECTIVITY;
+  private timer: NodeJS.Timeout | null = null;
+  private probing: Promise<ConnectivityStatus> | null = null;
+
+  constructor(
+    probe: () => Promise<ProbeResult>,
+    onChange: (status: ConnectivityStatus, previous: ConnectivityStatus) => void
+  ) {
+    this.probe = probe;
+    this.onChange = onChange;
+  }
+
+  get current(): ConnectivityStatus {
+    return this.status;
+  }
+
+  get apiAvailable(): boolean {
+    return isApiAvailable(this.status.state);
+  }
+
+  start(): void {
+    this.checkNow().catch(err => console.error('Connectivity check error:', err));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Probe now (a request just failed, or staff asked) — concurrent callers share one probe
+  async checkNow(): Promise<ConnectivityStatus> {
+    if (this.probing) return this.probing;
+
+    this.probing = (async () => {
+      this.stop();
+      const previous = this.status;
+      try {
+        this.status = nextConnectivity(previous, await this.probe());
+      } catch (err: any) {
+        this.status = nextConnectivity(previous, { reachable: false, status: null, latencyMs: 0, error: err?.message });
+      }
+
+      if (this.status.state !== previous.state) {
+        console.log(`Connectivity: ${previous.state} → ${this.status.state}`, this.status.error || '');
+        this.broadcast();
+        this.onChange(this.status, previous);
+      }
+
+      this.timer = setTimeout(() => this.start(), PROBE_INTERVAL_MS[this.status.state]);
+      return this.status;
+    })();
+
+    try {
+      return await this.probing;
+    } finally {
+      this.probing = null;
+    }
+  }
+
+  private broadcast(): void {
+    const windows = BrowserWindow.getAllWindows();
+    for (const win of windows) {
+      win.webContents.send('connectivity-changed', this.status);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+// Cross-venue customer lookup — runs when the current venue has no record for a phone / DL.
+//
+// For each enabled sibling venue (see shared/crossVenue.ts): look in its cached rows, then its
+// POSaBIT account. A hit is then resolved in the current venue's account — the same person
+// found there by DL or phone is linked; otherwise, in 'create' mode, they're created from the
+// sibling's record. Either way the result is cached under the current venue.
+
+import { PosabitService, PosabitCustomer } from './posabit.js';
+import { getCustomersByPhone, getCustomerByLicense, upsertCustomers, isForgottenIdentifier, DbCustomer } from './database.js';
+import { getVenueById, INTEGRATOR_TOKEN } from '../config/venues.js';
+import { CrossVenuePolicy, CrossVenueMode, enabledSiblings, siblingToCreateRequest } from '../shared/crossVenue.js';
+
+export type CrossVenueLookupBy = 'phone' | 'license';
+
+export interface CrossVenueMatch {
+  customer: PosabitCustomer;
+  fromVenueId: string;
+  action: 'linked' | 'created';
+}
+
+const sameName = (a: { first_name?: string; last_name?: string }, b: { first_name?: string; last_name?: string }) =>
+  (a.first_name || '').trim().toUpperCase() === (b.first_name || '').trim().toUpperCase() &&
+  (a.last_name || '').trim().toUpperCase() === (b.last_name || '').trim().toUpperCase();
+
+// One unambiguous record at the sibling venue — several people on one phone isn't enough to go on
+async function findAtSibling(by: CrossVenueLookupBy, value: string, siblingId: string): Promise<DbCustomer | PosabitCustomer | null> {
+  if (by === 'license') {
+    const cached = getCustomerByLicense(value, siblingId);
+    if (cached) return cached;
+  } else {
+    const cached = getCustomersByPhone(value, siblingId);
+    if (cached.length === 1) return cached[0];
+    if (cached.length > 1) return null;
+  }
+
+  const venue = getVenueById(siblingId);
+  if (!venue) return null;
+  const sibling = new PosabitService(INTEGRATOR_TOKEN, venue.token);
+  const found = by === 'license'
+    ? await sibling.searchCustomerByLicense(value)
+    : await sibling.searchCustomersByPhone(value).then(results => results.length === 1 ? results[0] : null);
+  if (found) upsertCustomers([found], siblingId);
+  return found;
+}
+
+// The sibling's customer in the current venue's account — found by DL, or by phone with the same name
+async function linkOrCreate(
+  customer: DbCustomer | PosabitCustomer,
+  mode: Exclude<CrossVenueMode, 'off'>,
+  venueId: string,
+  current: PosabitService
+): Promise<Omit<CrossVenueMatch, 'fromVenueId'> | null> {
+  let existing: PosabitCustomer | null = null;
+  if (customer.drivers_license) {
+    existing = await current.searchCustomerByLicense(customer.drivers_license);
+  }
+  if (!existing && customer.telephone) {
+    existing = (await current.searchCustomersByPhone(customer.telephone)).find(c => sameName(c, customer)) || null;
+  }
+  if (existing) {
+    upsertCustomers([existing], venueId);
+    return { customer: existing, action: 'linked' };
+  }
+
+  if (mode !== 'create' || !customer.telephone) return null;
+  const created = await current.createCustomer(siblingToCreateRequest(customer));
+  upsertCustomers([created], venueId);
+  return { customer: created, action: 'created' };
+}
+
+export async function lookupInSiblingVenues(
+  by: CrossVenueLookupBy,
+  value: string,
+  venueId: string,
+  policy: CrossVenuePolicy,
+  current: PosabitService
+): Promise<CrossVenueMatch | null> {
+  // A customer forgotten on this kiosk isn't copied back in (or created) from a sibling venue
+  if (isForgottenIdentifier(by, value)) return null;
+
+  for (const { venueId: siblingId, mode } of enabledSiblings(policy)) {
+    try {
+      const customer = await findAtSibling(by, value, siblingId);
+      if (!customer) continue;
+
+      console.log(`Cross-venue ${by} match at ${siblingId}:`, customer.first_name, customer.last_name, '(ID:', customer.id, ')');
+      const resolved = await linkOrCreate(customer, mode, venueId, current);
+      if (resolved) {
+        console.log(`Cross-venue ${resolved.action} in ${venueId}: ID`, resolved.customer.id);
+        return { ...resolved, fromVenueId: siblingId };
+      }
+    } catch (err) {
+      console.error(`Cross-venue lookup at ${siblingId} failed:`, err);
+    }
+  }
+  return null;
+}
@@ -2,8 +2,19 @@ import Database from 'better-sqlite3';
 import { app } from 'electron';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
+import { phoneticKeys, buildNameSearchQuery, buildLastNameQuery } from '../shared/nameSearch.js';
+import { runMigrations, getMigrationHistory, getSchemaVersion, removeBackupsBefore, LATEST_SCHEMA_VERSION, ENCRYPTED_SCHEMA_VERSION, SchemaStatus } from './migrations.js';
+import { encryptField, decryptField, blindIndex, generateKey, ENCRYPTED_PREFIX } from './fieldCrypto.js';
+import { loadDatabaseKeys, saveDatabaseKeys, DatabaseKeys } from './keyStore.js';
+import { hashDeletionRecord, GENESIS_HASH, DeletionRecord, DeletionCounts, DeletionLogHead } from './deletionLog.js';
+import { normalizeForgetIdentifier, ForgetIdentifierType, RetentionPolicies } from '../shared/retention.js';
+import { toProvisionalId, CreateCustomerRequest, PendingCustomerResolution } from '../shared/pendingCustomers.js';
+import type { SyncJobName, SyncJobTrigger } from '../shared/syncSchedule.js';
+import type { FullSyncCheckpoint } from '../shared/fullSync.js';
 
 let db: Database.Database | null = null;
+let keys: DatabaseKeys | null = null;
 
 // Customer type
 export interface DbCustomer {
@@ -13,8 +24,29 @@ export interface DbCustomer {
   telephone: string | null;
   email: string | null;
   loyalty_member: number; // SQLite uses 0/1 for boolean
+  drivers_license: string | null;
   venue_id: string;
   synced_at: string;
+  // Demographics cached from POSaBIT (null until a sync / lookup returns them)
+  birthday: string | null;         // "1990-07-23"
+  gender: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  zipcode: string | null;
+  marketing_opt_in: number | null; // 0/1
+  loyalty_points: number | null;
+  created_at: string | null;       // POSaBIT record timestamps
+  updated_at: string | null;
+  last_seen_at: string | null;     // last check-in at this kiosk (drives customer retention)
+  deleted_at: string | null;       // tombstoned: deleted or merged in POSaBIT (see reconcile)
+  merged_into_id: number | null;   // the surviving record, for a merge
+}
+
+// Stored form: PII columns encrypted, plus the blind indexes used to look them up
+interface CustomerRow extends DbCustomer {
+  telephone_hash: string | null;
+  license_hash: string | null;
 }
 
 // Offline queue entry type
@@ -27,6 +59,46 @@ export interface OfflineQueueEntry {
   venue_id: string;
   created_at: string;
   synced: number;
+  // Retry state (see shared/offlineQueue.ts)
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  posting_started_at: string | null;   // set while a POST is in flight; still set after a crash
+  dead_lettered_at: string | null;     // gave up — waiting for staff to retry or discard
+  idempotency_key: string;
+}
+
+// Customer created while POSaBIT was offline (see shared/pendingCustomers.ts). The request —
+// phone, email, DL demographics — is stored encrypted and cleared once it's resolved.
+export interface PendingCustomer {
+  id: number;
+  venue_id: string;
+  first_name: string;
+  last_name: string | null;
+  loyalty_opt_in: number;
+  request: CreateCustomerRequest | null;
+  created_at: string;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  posting_started_at: string | null;
+  failed_at: string | null;              // gave up — waiting for staff to retry or discard
+  customer_id: number | null;            // the POSaBIT record, once created or linked
+  resolution: PendingCustomerResolution | null;
+  resolved_at: string | null;
+}
+
+// One run of a background sync job (see services/syncScheduler.ts)
+export interface SyncJobRun {
+  id: number;
+  venue_id: string;
+  job: SyncJobName;
+  trigger: SyncJobTrigger;
+  status: 'ok' | 'skipped' | 'error';
+  started_at: string;
+  finished_at: string;
+  rows: number | null;          // customers fetched, entries posted, IDs checked — per job
+  error: string | null;         // the error, or why the run was skipped
 }
 
 // Failed-scan capture (Iowa / out-of-state / partial-WA debugging — v2.1.4)
@@ -36,6 +108,40 @@ export interface FailedScan {
   parser_error: string;
   venue_id: string;
   created_at: string;
+  resolved_at: string | null;  // set when a replay through a newer parser succeeds
+}
+
+// Age-verification audit record — one row per age/expiry decision at the kiosk
+export interface IdVerificationEntry {
+  id: number;
+  created_at: string;
+  venue_id: string;
+  outcome: string;                 // admitted | admitted_grace | admitted_override | underage | expired_blocked | expired_warned
+  age: number | null;              // computed from DOB at scan time
+  jurisdiction: string | null;     // DAJ state/province
+  license_last4: string | null;    // never the full document number
+  document_type: string | null;    // drivers_license | state_id | military_id | passport | passport_card | id_card
+  entry_method: string | null;     // CheckInMethod that led to the scan (ID_SCAN, ...)
+  expiration_date: string | null;  // MMDDYYYY
+  days_expired: number | null;
+}
+
+export interface RetentionResult {
+  customers: number;
+  offlineQueue: number;
+  failedScans: number;
+}
+
+export interface TombstoneResult {
+  matchChoices: number;    // remembered picks moved to the survivor
+  offlineQueue: number;    // unsynced check-ins moved to the survivor
+}
+
+export interface IdVerificationFilter {
+  from?: string;     // ISO timestamp, inclusive
+  to?: string;       // ISO timestamp, exclusive
+  outcome?: string;
+  limit?: number;
 }
 
 // Get database path in user's AppData
@@ -44,6 +150,142 @@ function getDbPath(): string {
   return path.join(userDataPath, 'customers.db');
 }
 
+function getKeyPath(): string {
+  return path.join(path.dirname(getDbPath()), 'customers.key');
+}
+
+// PII encryption (see fieldCrypto.ts / keyStore.ts). Names stay plaintext — the full-text
+// index and match ranking need them. Encrypted: customers.telephone, email, drivers_license,
+// birthday, address; offline_queue.phone; failed_scans.raw_barcode (the full AAMVA payload).
+function currentKey(): Buffer {
+  if (!keys) throw new Error('Database not initialized');
+  return keys.current;
+}
+
+// Blind indexes use the index key, which survives rotations (see keyStore.ts)
+function indexKey(): Buffer {
+  if (!keys) throw new Error('Database not initialized');
+  return keys.index;
+}
+
+const encrypt = (value: string | null | undefined): string | null => encryptField(value, currentKey());
+const decrypt = (value: string | null | undefined): string | null =>
+  decryptField(value, keys?.previous ? [keys.current, keys.previous] : [currentKey()]);
+
+const phoneHash = (phone: string | null | undefined): string | null =>
+  phone ? blindIndex(normalizePhone(phone), indexKey(), 'phone') : null;
+const licenseHash = (licenseNumber: string | null | undefined): string | null =>
+  licenseNumber ? blindIndex(licenseNumber.trim().toUpperCase(), indexKey(), 'license') : null;
+// Ties age-log rows to a license for "forget" without joining them to customer records
+const auditLicenseHash = (licenseNumber: string | null | undefined): string | null =>
+  licenseNumber ? blindIndex(licenseNumber.trim().toUpperCase(), indexKey(), 'audit') : null;
+// Forgotten customers (forgotten_identifiers) — POSaBIT IDs, and phone / license blind indexes
+const forgottenKey = (type: ForgetIdentifierType, value: string | number): string => `${type}:${value}`;
+function loadForgotten(database: Database.Database): Set<string> {
+  const rows = database.prepare(`SELECT kind, value FROM forgotten_identifiers`).all() as { kind: ForgetIdentifierType; value: string }[];
+  return new Set(rows.map(row => forgottenKey(row.kind, row.value)));
+}
+// Match keys hold phone digits / name + DOB, so only their hash is stored
+const matchKeyHash = (matchKey: string): string => blindIndex(matchKey, indexKey(), 'match') as string;
+const isPlainMatchKey = (matchKey: string): boolean => /^(name|phone):/.test(matchKey);
+
+function decryptCustomer(row: CustomerRow): DbCustomer {
+  const { telephone_hash, license_hash, ...customer } = row;
+  return {
+    ...customer,
+    telephone: decrypt(row.telephone),
+    email: decrypt(row.email),
+    drivers_license: decrypt(row.drivers_license),
+    birthday: decrypt(row.birthday),
+    address: decrypt(row.address),
+  };
+}
+
+// Any PII column still holding plaintext (rows from before encryption existed)?
+function hasPlaintextPii(): boolean {
+  if (!db) throw new Error('Database not initialized');
+
+  const plain = (column: string) => `(${column} IS NOT NULL AND ${column} != '' AND ${column} NOT LIKE '${ENCRYPTED_PREFIX}%')`;
+  const row = db.prepare(`
+    SELECT 1 FROM customers
+      WHERE ${['telephone', 'email', 'drivers_license', 'birthday', 'address'].map(plain).join(' OR ')}
+    UNION ALL SELECT 1 FROM offline_queue WHERE ${plain('phone')}
+    UNION ALL SELECT 1 FROM failed_scans WHERE ${plain('raw_barcode')}
+    UNION ALL SELECT 1 FROM customer_match_choices WHERE match_key LIKE 'name:%' OR match_key LIKE 'phone:%'
+    LIMIT 1
+  `).get();
+  return !!row;
+}
+
+// Rewrite every PII value under the current key, in one transaction. Reads plaintext or
+// either key, so it serves both the first encryption pass and a key rotation.
+function reencryptAll(): void {
+  if (!db) throw new Error('Database not initialized');
+  const database = db;
+
+  database.transaction(() => {
+    const customers = database.prepare(
+      `SELECT id, telephone, email, drivers_license, birthday, address FROM customers`
+    ).all() as Pick<DbCustomer, 'id' | 'telephone' | 'email' | 'drivers_license' | 'birthday' | 'address'>[];
+    const updateCustomer = database.prepare(`
+      UPDATE customers
+      SET telephone = ?, email = ?, drivers_license = ?, birthday = ?, address = ?, telephone_hash = ?, license_hash = ?
+      WHERE id = ?
+    `);
+    for (const c of customers) {
+      const telephone = decrypt(c.telephone);
+      const normalizedTelephone = telephone ? normalizePhone(telephone) : null;
+      const driversLicense = decrypt(c.drivers_license);
+      updateCustomer.run(
+        encrypt(normalizedTelephone),
+        encrypt(decrypt(c.email)),
+        encrypt(driversLicense),
+        encrypt(decrypt(c.birthday)),
+        encrypt(decrypt(c.address)),
+        phoneHash(normalizedTelephone),
+        licenseHash(driversLicense),
+        c.id
+      );
+    }
+
+    const queue = database.prepare(`SELECT id, phone FROM offline_queue`).all() as { id: number; phone: string | null }[];
+    const updateQueue = database.prepare(`UPDATE offline_queue SET phone = ? WHERE id = ?`);
+    for (const entry of queue) updateQueue.run(encrypt(decrypt(entry.phone)), entry.id);
+
+    const pending = database.prepare(`SELECT id, request FROM pending_customers WHERE request IS NOT NULL`).all() as { id: number; request: string }[];
+    const updatePending = database.prepare(`UPDATE pending_customers SET request = ? WHERE id = ?`);
+    for (const row of pending) updatePending.run(encrypt(decrypt(row.request)), row.id);
+
+    const scans = database.prepare(`SELECT id, raw_barcode FROM failed_scans`).all() as { id: number; raw_barcode: string }[];
+    const updateScan = database.prepare(`UPDATE failed_scans SET raw_barcode = ? WHERE id = ?`);
+    for (const scan of scans) updateScan.run(encrypt(decrypt(scan.raw_barcode)) ?? '', scan.id);
+
+    // Remembered picks from before match keys were hashed
+    const choices = database.prepare(`SELECT match_key, venue_id FROM customer_match_choices`).all() as { match_key: string; venue_id: string }[];
+    const rekeyChoice = database.prepare(`UPDATE OR REPLACE customer_match_choices SET match_key = ? WHERE match_key = ? AND venue_id = ?`);
+    for (const choice of choices) {
+      if (isPlainMatchKey(choice.match_key)) {
+        rekeyChoice.run(matchKeyHash(choice.match_key), choice.match_key, choice.venue_id);
+      }
+    }
+
+    console.log(`Encrypted PII under the current key: ${customers.length} customers, ${queue.length} queue entries, ${pending.length} pending customers, ${scans.length} failed scans`);
+  })();
+
+  // Push the rewritten pages out of the WAL (secure_delete has zeroed the old ones)
+  database.pragma('wal_checkpoint(TRUNCATE)');
+}
+
+// The key file exists but this OS account can't unwrap it (copied from another machine,
+// keystore reset). The encrypted columns are unreadable, so set the database and key aside
+// and start fresh — customers resync from POSaBIT.
+function setAsideUnreadableDatabase(dbPath: string, keyPath: string): void {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  for (const file of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`, keyPath]) {
+    if (fs.existsSync(file)) fs.renameSync(file, `${file}.unreadable-${stamp}`);
+  }
+}
+
 // Initialize database and create tables
 export function initDatabase(): void {
   const dbPath = getDbPath();
@@ -55,81 +297,83 @@ export function initDatabase(): void {
     fs.mkdirSync(dbDir, { recursive: true });
   }
 
+  const keyPath = getKeyPath();
+  try {
+    keys = loadDatabaseKeys(keyPath);
+  } catch (e: any) {
+    console.error('Database key unreadable, setting customers.db aside:', e.message);
+    setAsideUnreadableDatabase(dbPath, keyPath);
+    keys = loadDatabaseKeys(keyPath);
+  }
+
   db = new Database(dbPath);
 
   // Enable WAL mode for better concurrent access
   db.pragma('journal_mode = WAL');
-
-  // Create customers table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS customers (
-      id INTEGER PRIMARY KEY,
-      first_name TEXT NOT NULL,
-      last_name TEXT,
-      telephone TEXT,
-      email TEXT,
-      loyalty_member INTEGER DEFAULT 0,
-      drivers_license TEXT,
-      venue_id TEXT NOT NULL,
-      synced_at TEXT NOT NULL,
-      UNIQUE(id, venue_id)
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_customers_phone ON customers(telephone);
-    CREATE INDEX IF NOT EXISTS idx_customers_venue ON customers(venue_id);
-  `);
-
-  // Migration: add drivers_license column if missing (existing installs)
-  try {
-    db.exec(`ALTER TABLE customers ADD COLUMN drivers_license TEXT`);
-    db.exec(`CREATE INDEX IF NOT EXISTS idx_customers_dl ON customers(drivers_license)`);
-    console.log('Migration: added drivers_license column');
-  } catch (e: any) {
-    // Column already exists — ignore
-    if (!e.message?.includes('duplicate column')) {
-      console.error('Migration error:', e);
+  // Zero deleted content so replaced plaintext / old ciphertext doesn't linger in free pages
+  db.pragma('secure_delete = ON');
+
+  // Name-search SQL function used by the customers_fts triggers — registered on every
+  // connection before anything (migrations included) writes to customers
+  db.function('phonetic_keys', { deterministic: true }, (name: unknown) => phoneticKeys(typeof name === 'string' ? name : ''));
+
+  // Create / upgrade tables (see migrations.ts). Backups go next to the database.
+  const backupDir = path.join(dbDir, 'backups');
+  runMigrations(db, backupDir);
+
+  // Encrypt rows from before encryption existed, or finish a rotation a crash interrupted
+  if (keys.previous || hasPlaintextPii()) {
+    reencryptAll();
+    if (keys.previous) {
+      keys.previous = null;
+      saveDatabaseKeys(keyPath, keys);
     }
+    const removed = removeBackupsBefore(backupDir, ENCRYPTED_SCHEMA_VERSION);
+    if (removed > 0) console.log(`Removed ${removed} unencrypted database backups`);
+  }
+  if (!keys.protected) {
+    console.warn('Database key is not protected by the OS keystore');
   }
 
-  // Create offline queue table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS offline_queue (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      phone TEXT,
-      method TEXT NOT NULL,
-      customer_id INTEGER,
-      venue_id TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      synced INTEGER DEFAULT 0
-    );
-  `);
+  // Old rows (failed_scans included) are purged by main.ts with the configured retention policies
+  console.log('Database initialized successfully');
+}
 
-  // Failed-scan capture for parser debugging (v2.1.4+)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS failed_scans (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      raw_barcode TEXT NOT NULL,
-      parser_error TEXT NOT NULL,
-      venue_id TEXT NOT NULL,
-      created_at TEXT NOT NULL
-    );
+// Schema version + migration history for the AdminPanel
+export function getSchemaStatus(): SchemaStatus {
+  if (!db) throw new Error('Database not initialized');
 
-    CREATE INDEX IF NOT EXISTS idx_failed_scans_created ON failed_scans(created_at);
-  `);
+  return {
+    currentVersion: getSchemaVersion(db),
+    latestVersion: LATEST_SCHEMA_VERSION,
+    backupDir: path.join(path.dirname(getDbPath()), 'backups'),
+    history: getMigrationHistory(db),
+  };
+}
 
-  // Drop failed_scans rows older than 30 days at startup
-  try {
-    const cutoff = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
-    const result = db.prepare(`DELETE FROM failed_scans WHERE created_at < ?`).run(cutoff);
-    if (result.changes > 0) {
-      console.log(`Cleaned up ${result.changes} failed_scans rows older than 30 days`);
-    }
-  } catch (e: any) {
-    console.error('failed_scans cleanup error:', e.message);
+// New database key when the kiosk moves to another venue; everything is re-encrypted under
+// it. A key not yet tied to a venue (first launch) is just claimed.
+export function rotateDatabaseKey(venueId: string): void {
+  if (!db || !keys) throw new Error('Database not initialized');
+  if (keys.venueId === venueId) return;
+
+  const keyPath = getKeyPath();
+  if (keys.venueId === null) {
+    keys.venueId = venueId;
+    saveDatabaseKeys(keyPath, keys);
+    return;
   }
 
-  console.log('Database initialized successfully');
+  // Save both keys first — if we crash mid-way, initDatabase finishes the rotation
+  keys = { current: generateKey(), previous: keys.current, index: keys.index, venueId, createdAt: new Date().toISOString(), protected: keys.protected };
+  saveDatabaseKeys(keyPath, keys);
+  reencryptAll();
+  keys.previous = null;
+  saveDatabaseKeys(keyPath, keys);
+
+  // Backups are under the discarded key now, so they can never be restored
+  const removed = removeBackupsBefore(path.join(path.dirname(getDbPath()), 'backups'), LATEST_SCHEMA_VERSION + 1);
+  console.log(`Database key rotated for venue ${venueId}; removed ${removed} backups under the old key`);
 }
 
 // Failed-scan helpers
@@ -140,17 +384,247 @@ export function logFailedScan(rawBarcode: string, parserError: string, venueId:
   db.prepare(`
     INSERT INTO failed_scans (raw_barcode, parser_error, venue_id, created_at)
     VALUES (?, ?, ?, ?)
-  `).run(truncated, parserError, venueId, new Date().toISOString());
+  `).run(encrypt(truncated) ?? '', parserError, venueId, new Date().toISOString());
 }
 
 export function getRecentFailedScans(limit: number = 50): FailedScan[] {
   if (!db) throw new Error('Database not initialized');
-  return db.prepare(`
-    SELECT id, raw_barcode, parser_error, venue_id, created_at
+  return (db.prepare(`
+    SELECT id, raw_barcode, parser_error, venue_id, created_at, resolved_at
     FROM failed_scans
     ORDER BY created_at DESC
     LIMIT ?
-  `).all(limit) as FailedScan[];
+  `).all(limit) as FailedScan[])
+    .map(scan => ({ ...scan, raw_barcode: decrypt(scan.raw_barcode) ?? '' }));
+}
+
+// All failed scans, oldest first (for replaying through the current parser)
+export function getAllFailedScans(includeResolved: boolean = false): FailedScan[] {
+  if (!db) throw new Error('Database not initialized');
+  return (db.prepare(`
+    SELECT id, raw_barcode, parser_error, venue_id, created_at, resolved_at
+    FROM failed_scans
+    ${includeResolved ? '' : 'WHERE resolved_at IS NULL'}
+    ORDER BY created_at ASC
+  `).all() as FailedScan[])
+    .map(scan => ({ ...scan, raw_barcode: decrypt(scan.raw_barcode) ?? '' }));
+}
+
+// Mark failed scans as resolved (they now parse with the current parser)
+export function markFailedScansResolved(ids: number[]): number {
+  if (!db) throw new Error('Database not initialized');
+  if (ids.length === 0) return 0;
+
+  const stmt = db.prepare(`UPDATE failed_scans SET resolved_at = ? WHERE id = ? AND resolved_at IS NULL`);
+  const resolvedAt = new Date().toISOString();
+  const markMany = db.transaction((items: number[]) => {
+    let changed = 0;
+    for (const id of items) {
+      changed += stmt.run(resolvedAt, id).changes;
+    }
+    return changed;
+  });
+
+  return markMany(ids);
+}
+
+// Age-verification audit helpers. The row keeps the last 4 of the document number for staff
+// and a keyed hash of the full number, so forgetting a customer clears only their rows.
+export function logIdVerification(entry: Omit<IdVerificationEntry, 'id' | 'created_at' | 'license_last4'>, licenseNumber: string | null): void {
+  if (!db) throw new Error('Database not initialized');
+  db.prepare(`
+    INSERT INTO id_verification_log (created_at, venue_id, outcome, age, jurisdiction, license_last4, license_hash, document_type, entry_method, expiration_date, days_expired)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    new Date().toISOString(),
+    entry.venue_id,
+    entry.outcome,
+    entry.age,
+    entry.jurisdiction,
+    licenseNumber ? licenseNumber.trim().slice(-4) : null,
+    auditLicenseHash(licenseNumber),
+    entry.document_type,
+    entry.entry_method,
+    entry.expiration_date,
+    entry.days_expired
+  );
+}
+
+// Newest first, optionally filtered by date range and outcome
+export function getIdVerifications(filter: IdVerificationFilter = {}): IdVerificationEntry[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const where: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.from) { where.push('created_at >= ?'); params.push(filter.from); }
+  if (filter.to) { where.push('created_at < ?'); params.push(filter.to); }
+  if (filter.outcome) { where.push('outcome = ?'); params.push(filter.outcome); }
+  params.push(filter.limit ?? 1000);
+
+  return db.prepare(`
+    SELECT id, created_at, venue_id, outcome, age, jurisdiction, license_last4, document_type, entry_method, expiration_date, days_expired
+    FROM id_verification_log
+    ${where.length > 0 ? 'WHERE ' + where.join(' AND ') : ''}
+    ORDER BY created_at DESC
+    LIMIT ?
+  `).all(...params) as IdVerificationEntry[];
+}
+
+// Drop audit rows older than the configured retention window
+export function pruneIdVerifications(retentionDays: number): number {
+  if (!db) throw new Error('Database not initialized');
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  return db.prepare(`DELETE FROM id_verification_log WHERE created_at < ?`).run(cutoff).changes;
+}
+
+// Delete rows past their retention window (see shared/retention.ts for what each policy counts from)
+export function applyRetentionPolicies(policies: RetentionPolicies): RetentionResult {
+  if (!db) throw new Error('Database not initialized');
+  const database = db;
+  const cutoff = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  return database.transaction(() => {
+    const customers = database.prepare(`
+      DELETE FROM customers
+      WHERE MAX(COALESCE(last_seen_at, ''), COALESCE(updated_at, ''), synced_at) < ?
+    `).run(cutoff(policies.customers)).changes;
+    // Remembered picks pointing at customers that are gone
+    database.prepare(`DELETE FROM customer_match_choices WHERE customer_id NOT IN (SELECT id FROM customers)`).run();
+
+    const offlineQueue = database.prepare(`DELETE FROM offline_queue WHERE created_at < ?`).run(cutoff(policies.offlineQueue)).changes +
+      database.prepare(`DELETE FROM pending_customers WHERE resolved_at IS NOT NULL AND created_at < ?`).run(cutoff(policies.offlineQueue)).changes;
+    const failedScans = database.prepare(`DELETE FROM failed_scans WHERE created_at < ?`).run(cutoff(policies.failedScans)).changes;
+    return { customers, offlineQueue, failedScans };
+  })();
+}
+
+// Record a check-in so the customer isn't aged out by the retention policy
+export function touchCustomer(customerId: number, venueId: string): void {
+  if (!db) throw new Error('Database not initialized');
+  db.prepare(`UPDATE customers SET last_seen_at = ? WHERE id = ? AND venue_id = ?`).run(new Date().toISOString(), customerId, venueId);
+}
+
+// "Forget this customer": remove every local row tied to a phone number, DL or POSaBIT ID
+// (all venues), clear matching license_last4 audit references, delete backups that would
+// still hold them, and append a hash-chained deletion record. Throws on an unusable identifier.
+export function forgetCustomer(type: ForgetIdentifierType, value: string, reason: string, venueId: string): { record: DeletionRecord; head: DeletionLogHead } {
+  if (!db) throw new Error('Database not initialized');
+  const database = db;
+
+  const identifier = normalizeForgetIdentifier(type, value);
+  if (!identifier) throw new Error('Enter a full phone number, license number or POSaBIT customer ID');
+
+  const result = database.transaction(() => {
+    const matches = (
+      type === 'customer_id'
+        ? database.prepare(`SELECT * FROM customers WHERE id = ?`).all(Number(identifier))
+        : type === 'phone'
+          ? database.prepare(`SELECT * FROM customers WHERE telephone_hash = ?`).all(phoneHash(identifier))
+          : database.prepare(`SELECT * FROM customers WHERE license_hash = ?`).all(licenseHash(identifier))
+    ) as CustomerRow[];
+    const customers = matches.map(decryptCustomer);
+
+    // Everything we know identifies this person, to find rows that aren't linked by ID
+    const customerIds = new Set(customers.map(c => c.id));
+    const phones = new Set(customers.map(c => c.telephone).filter((p): p is string => !!p).map(normalizePhone));
+    const licenses = new Set(customers.map(c => c.drivers_license).filter((l): l is string => !!l).map(l => l.trim().toUpperCase()));
+    if (type === 'customer_id') customerIds.add(Number(identifier));
+    if (type === 'phone') phones.add(identifier);
+    if (type === 'license') licenses.add(identifier);
+
+    const counts: DeletionCounts = { customers: 0, offlineQueue: 0, failedScans: 0, matchChoices: 0, auditReferences: 0 };
+
+    const deleteCustomer = database.prepare(`DELETE FROM customers WHERE id = ?`);
+    const deleteChoices = database.prepare(`DELETE FROM customer_match_choices WHERE customer_id = ?`);
+    for (const id of customerIds) {
+      counts.customers += deleteCustomer.run(id).changes;
+      counts.matchChoices += deleteChoices.run(id).changes;
+    }
+
+    // Queue phones, pending-customer requests and raw barcodes are encrypted without an index —
+    // small tables, check each row
+    const pending = database.prepare(`SELECT id, request FROM pending_customers WHERE request IS NOT NULL`).all() as { id: number; request: string }[];
+    const deletePending = database.prepare(`DELETE FROM pending_customers WHERE id = ?`);
+    for (const row of pending) {
+      const request = JSON.parse(decrypt(row.request) || '{}') as Partial<CreateCustomerRequest>;
+      if ((request.telephone && phones.has(normalizePhone(request.telephone))) ||
+          (request.driversLicense && licenses.has(request.driversLicense.trim().toUpperCase()))) {
+        counts.customers += deletePending.run(row.id).changes;
+        // Check-ins queued under the provisional ID go with it
+        customerIds.add(toProvisionalId(row.id));
+      }
+    }
+
+    const queue = database.prepare(`SELECT id, phone, customer_id FROM offline_queue`).all() as { id: number; phone: string | null; customer_id: number | null }[];
+    const deleteQueueEntry = database.prepare(`DELETE FROM offline_queue WHERE id = ?`);
+    for (const entry of queue) {
+      const phone = decrypt(entry.phone);
+      if ((entry.customer_id && customerIds.has(entry.customer_id)) || (phone && phones.has(normalizePhone(phone)))) {
+        counts.offlineQueue += deleteQueueEntry.run(entry.id).changes;
+      }
+    }
+
+    if (licenses.size > 0) {
+      const scans = database.prepare(`SELECT id, raw_barcode FROM failed_scans`).all() as { id: number; raw_barcode: string }[];
+      const deleteScan = database.prepare(`DELETE FROM failed_scans WHERE id = ?`);
+      for (const scan of scans) {
+        const raw = (decrypt(scan.raw_barcode) || '').toUpperCase();
+        // DAQ is the AAMVA customer ID number field
+        if ([...licenses].some(license => raw.includes(`DAQ${license}`))) {
+          counts.failedScans += deleteScan.run(scan.id).changes;
+        }
+      }
+
+      // The audit log keeps the age decision but loses the reference. Rows are matched on the
+      // full-number hash; rows without one (logged before it existed) can't be told apart
+      // from other people's with the same last 4, so they're left alone.
+      const clearAudit = database.prepare(`UPDATE id_verification_log SET license_last4 = NULL, license_hash = NULL WHERE license_hash = ?`);
+      for (const license of licenses) {
+        counts.auditReferences += clearAudit.run(auditLicenseHash(license)).changes;
+      }
+    }
+
+    // Keep them from coming back with the next sync or a sibling-venue lookup. A phone can be
+    // shared, so someone else on it is left to live API lookups instead of the cache.
+    const suppress = database.prepare(`INSERT OR IGNORE INTO forgotten_identifiers (kind, value, forgotten_at) VALUES (?, ?, ?)`);
+    const forgottenAt = new Date().toISOString();
+    for (const id of customerIds) {
+      if (id > 0) suppress.run('customer_id', String(id), forgottenAt);
+    }
+    for (const phone of phones) suppress.run('phone', phoneHash(phone), forgottenAt);
+    for (const license of licenses) suppress.run('license', licenseHash(license), forgottenAt);
+
+    const last = database.prepare(`SELECT hash FROM deletion_log ORDER BY id DESC LIMIT 1`).get() as { hash: string } | undefined;
+    const entry = {
+      deleted_at: new Date().toISOString(),
+      venue_id: venueId,
+      identifier_type: type,
+      identifier_hash: blindIndex(identifier, indexKey(), 'deletion') as string,
+      reason: reason.trim(),
+      counts: JSON.stringify(counts),
+      prev_hash: last ? last.hash : GENESIS_HASH,
+    };
+    const hash = hashDeletionRecord(entry);
+    const id = database.prepare(`
+      INSERT INTO deletion_log (deleted_at, venue_id, identifier_type, identifier_hash, reason, counts, prev_hash, hash)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(entry.deleted_at, entry.venue_id, entry.identifier_type, entry.identifier_hash, entry.reason, entry.counts, entry.prev_hash, hash).lastInsertRowid as number;
+
+    const count = (database.prepare(`SELECT COUNT(*) as count FROM deletion_log`).get() as { count: number }).count;
+    return { record: { id, ...entry, hash }, head: { count, hash } };
+  })();
+
+  database.pragma('wal_checkpoint(TRUNCATE)');
+  // Backups taken before now still hold the customer
+  const removed = removeBackupsBefore(path.join(path.dirname(getDbPath()), 'backups'), LATEST_SCHEMA_VERSION + 1);
+  console.log(`Forgot customer by ${type}: ${result.record.counts}; removed ${removed} backups`);
+  return result;
+}
+
+// Deletion records, oldest first (the order the hash chain is verified in)
+export function getDeletionLog(): DeletionRecord[] {
+  if (!db) throw new Error('Database not initialized');
+  return db.prepare(`SELECT * FROM deletion_log ORDER BY id ASC`).all() as DeletionRecord[];
 }
 
 // Normalize phone number (strip non-digits, take last 10)
@@ -158,64 +632,123 @@ function normalizePhone(phone: string): string {
   return phone.replace(/\D/g, '').slice(-10);
 }
 
-// Get customer by phone number
-export function getCustomerByPhone(phone: string, venueId: string): DbCustomer | null {
+// Get every customer on a phone number — households and old duplicate accounts share one,
+// so more than one row means the kiosk has to ask which record is theirs
+export function getCustomersByPhone(phone: string, venueId: string, limit: number = 10): DbCustomer[] {
   if (!db) throw new Error('Database not initialized');
 
-  const normalizedPhone = normalizePhone(phone);
-
-  // Try exact match on normalized phone first
-  const exactStmt = db.prepare(`
+  // Phones are normalized before hashing, so an exact hash match covers every stored format
+  const rows = db.prepare(`
     SELECT * FROM customers
-    WHERE telephone = ? AND venue_id = ?
-    LIMIT 1
-  `);
+    WHERE telephone_hash = ? AND venue_id = ? AND deleted_at IS NULL
+    ORDER BY id
+    LIMIT ?
+  `).all(phoneHash(phone), venueId, limit) as CustomerRow[];
 
-  let result = exactStmt.get(normalizedPhone, venueId) as DbCustomer | undefined;
+  return rows.map(decryptCustomer);
+}
 
-  // Fallback: try LIKE match for phones stored in different formats (e.g. with country code)
-  if (!result) {
-    const likeStmt = db.prepare(`
-      SELECT * FROM customers
-      WHERE telephone LIKE ? AND venue_id = ?
-      LIMIT 1
-    `);
-    result = likeStmt.get(`%${normalizedPhone}`, venueId) as DbCustomer | undefined;
-  }
+// Disambiguation choices — which record a customer picked for an ambiguous phone / name
+export function getRememberedCustomerChoice(matchKey: string, venueId: string): number | null {
+  if (!db) throw new Error('Database not initialized');
 
-  return result || null;
+  const row = db.prepare(
+    `SELECT customer_id FROM customer_match_choices WHERE match_key = ? AND venue_id = ?`
+  ).get(matchKeyHash(matchKey), venueId) as { customer_id: number } | undefined;
+  return row ? row.customer_id : null;
+}
+
+export function rememberCustomerChoice(matchKey: string, customerId: number, venueId: string): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`
+    INSERT OR REPLACE INTO customer_match_choices (match_key, venue_id, customer_id, chosen_at)
+    VALUES (?, ?, ?, ?)
+  `).run(matchKeyHash(matchKey), venueId, customerId, new Date().toISOString());
 }
 
-// Bulk upsert customers
+// Bulk upsert customers. Customers forgotten on this kiosk are skipped, so a sync can't bring
+// them back; returns how many were written.
 export function upsertCustomers(customers: any[], venueId: string): number {
   if (!db) throw new Error('Database not initialized');
+  const forgotten = loadForgotten(db);
 
   const syncedAt = new Date().toISOString();
 
+  // Not every endpoint returns every field (queue / update responses are partial), so a
+  // missing demographic keeps the cached value instead of wiping it
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO customers (id, first_name, last_name, telephone, email, loyalty_member, drivers_license, venue_id, synced_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO customers (
+      id, first_name, last_name, telephone, email, loyalty_member, drivers_license, venue_id, synced_at,
+      birthday, gender, address, city, state, zipcode, marketing_opt_in, loyalty_points, created_at, updated_at,
+      telephone_hash, license_hash
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      first_name = excluded.first_name,
+      last_name = excluded.last_name,
+      telephone = excluded.telephone,
+      telephone_hash = excluded.telephone_hash,
+      email = excluded.email,
+      loyalty_member = excluded.loyalty_member,
+      drivers_license = COALESCE(excluded.drivers_license, customers.drivers_license),
+      license_hash = COALESCE(excluded.license_hash, customers.license_hash),
+      venue_id = excluded.venue_id,
+      synced_at = excluded.synced_at,
+      birthday = COALESCE(excluded.birthday, customers.birthday),
+      gender = COALESCE(excluded.gender, customers.gender),
+      address = COALESCE(excluded.address, customers.address),
+      city = COALESCE(excluded.city, customers.city),
+      state = COALESCE(excluded.state, customers.state),
+      zipcode = COALESCE(excluded.zipcode, customers.zipcode),
+      marketing_opt_in = COALESCE(excluded.marketing_opt_in, customers.marketing_opt_in),
+      loyalty_points = COALESCE(excluded.loyalty_points, customers.loyalty_points),
+      created_at = COALESCE(excluded.created_at, customers.created_at),
+      updated_at = COALESCE(excluded.updated_at, customers.updated_at),
+      deleted_at = NULL,
+      merged_into_id = NULL
   `);
 
   const insertMany = db.transaction((items: any[]) => {
+    let written = 0;
     for (const customer of items) {
       // Normalize phone on insert for consistent lookups
       const rawPhone = customer.telephone || null;
       const normalizedTelephone = rawPhone ? normalizePhone(rawPhone) : null;
+      const telephoneHash = phoneHash(normalizedTelephone);
+      const driversLicenseHash = licenseHash(customer.drivers_license);
+      if (forgotten.has(forgottenKey('customer_id', customer.id)) ||
+          (telephoneHash && forgotten.has(forgottenKey('phone', telephoneHash))) ||
+          (driversLicenseHash && forgotten.has(forgottenKey('license', driversLicenseHash)))) {
+        continue;
+      }
 
       stmt.run(
         customer.id,
         customer.first_name || '',
         customer.last_name || '',
-        normalizedTelephone,
-        customer.email || null,
+        encrypt(normalizedTelephone),
+        encrypt(customer.email),
         customer.loyalty_member ? 1 : 0,
-        customer.drivers_license || null,
+        encrypt(customer.drivers_license),
         venueId,
-        syncedAt
+        syncedAt,
+        encrypt(customer.birthday),
+        customer.gender || null,
+        encrypt(customer.address),
+        customer.city || null,
+        customer.state || null,
+        customer.zipcode || null,
+        customer.marketing_opt_in === undefined || customer.marketing_opt_in === null ? null : (customer.marketing_opt_in ? 1 : 0),
+        typeof customer.loyalty_points === 'number' ? customer.loyalty_points : null,
+        customer.created_at || null,
+        customer.updated_at || null,
+        telephoneHash,
+        driversLicenseHash
       );
+      written++;
     }
-    return items.length;
+    return written;
   });
 
   return insertMany(customers);
@@ -225,7 +758,7 @@ export function upsertCustomers(customers: any[], venueId: string): number {
 export function getCustomerCount(venueId: string): number {
   if (!db) throw new Error('Database not initialized');
 
-  const stmt = db.prepare('SELECT COUNT(*) as count FROM customers WHERE venue_id = ?');
+  const stmt = db.prepare('SELECT COUNT(*) as count FROM customers WHERE venue_id = ? AND deleted_at IS NULL');
   const result = stmt.get(venueId) as { count: number };
   return result.count;
 }
@@ -248,17 +781,17 @@ export function searchCustomerByPhoneGlobal(phone: string): DbCustomer | null {
 
   const stmt = db.prepare(`
     SELECT * FROM customers
-    WHERE telephone LIKE ?
+    WHERE telephone_hash = ? AND deleted_at IS NULL
     LIMIT 1
   `);
 
-  const result = stmt.get(`%${normalizedPhone}%`) as DbCustomer | undefined;
+  const result = stmt.get(phoneHash(normalizedPhone)) as CustomerRow | undefined;
   if (result) {
     console.log('Found customer globally:', result.first_name, result.last_name, 'venue:', result.venue_id);
   } else {
     console.log('No customer found with phone:', normalizedPhone);
   }
-  return result || null;
+  return result ? decryptCustomer(result) : null;
 }
 
 // Get all unique venue IDs in database
@@ -275,7 +808,7 @@ export function getSampleCustomers(limit: number = 10): DbCustomer[] {
   if (!db) throw new Error('Database not initialized');
 
   const stmt = db.prepare('SELECT * FROM customers LIMIT ?');
-  return stmt.all(limit) as DbCustomer[];
+  return (stmt.all(limit) as CustomerRow[]).map(decryptCustomer);
 }
 
 // Debug: Get count of customers with phone numbers
@@ -291,6 +824,26 @@ export function getCustomersWithPhoneCount(): { total: number; withPhone: number
   return { total, withPhone };
 }
 
+// Cached customer record by POSaBIT ID
+export function getCustomerById(customerId: number, venueId: string): DbCustomer | null {
+  if (!db) throw new Error('Database not initialized');
+
+  const result = db.prepare(
+    `SELECT * FROM customers WHERE id = ? AND venue_id = ? AND deleted_at IS NULL`
+  ).get(customerId, venueId) as CustomerRow | undefined;
+
+  return result ? decryptCustomer(result) : null;
+}
+
+// Whether a phone / license belongs to a customer forgotten on this kiosk (cross-venue lookup)
+export function isForgottenIdentifier(type: Exclude<ForgetIdentifierType, 'customer_id'>, value: string): boolean {
+  if (!db) throw new Error('Database not initialized');
+
+  const hash = type === 'phone' ? phoneHash(value) : licenseHash(value);
+  if (!hash) return false;
+  return !!db.prepare(`SELECT 1 FROM forgotten_identifiers WHERE kind = ? AND value = ?`).get(type, hash);
+}
+
 // Search customer by driver's license number
 export function getCustomerByLicense(licenseNumber: string, venueId: string): DbCustomer | null {
   if (!db) throw new Error('Database not initialized');
@@ -300,8 +853,8 @@ export function getCustomerByLicense(licenseNumber: string, venueId: string): Db
   console.log('Searching for customer by DL:', normalized, 'venue:', venueId);
 
   const result = db.prepare(
-    `SELECT * FROM customers WHERE UPPER(drivers_license) = ? AND venue_id = ? LIMIT 1`
-  ).get(normalized, venueId) as DbCustomer | undefined;
+    `SELECT * FROM customers WHERE license_hash = ? AND venue_id = ? AND deleted_at IS NULL LIMIT 1`
+  ).get(licenseHash(normalized), venueId) as CustomerRow | undefined;
 
   if (result) {
     console.log('Found customer by DL:', result.first_name, result.last_name, 'ID:', result.id);
@@ -309,96 +862,468 @@ export function getCustomerByLicense(licenseNumber: string, venueId: string): Db
     console.log('No customer found with DL:', normalized);
   }
 
-  return result || null;
+  return result ? decryptCustomer(result) : null;
 }
 
-// Search customer by first name and last name (multi-strategy matching)
-export function getCustomerByName(firstName: string, lastName: string, venueId: string): DbCustomer | null {
+// Candidate records for a scanned name — anyone whose last name shares a word with it, by
+// prefix (DL truncation) or sound (spelling). Ranking is customerMatch.ts's job; this only
+// has to cast a wide enough net.
+export function getCustomerNameCandidates(lastName: string, venueId: string, limit: number = 25): DbCustomer[] {
   if (!db) throw new Error('Database not initialized');
 
-  const normalizedFirst = firstName.trim().toUpperCase();
-  const normalizedLast = lastName.trim().toUpperCase();
+  const match = buildLastNameQuery(lastName);
+  if (!match) return [];
 
-  console.log('Searching for customer by name:', normalizedFirst, normalizedLast, 'venue:', venueId);
+  const results = db.prepare(`
+    SELECT c.* FROM customers_fts f
+    JOIN customers c ON c.id = f.rowid
+    WHERE customers_fts MATCH ? AND c.venue_id = ? AND c.deleted_at IS NULL
+    ORDER BY f.rank
+    LIMIT ?
+  `).all(match, venueId, limit) as CustomerRow[];
 
-  // Strategy 1: Exact match (case-insensitive)
-  let result = db.prepare(
-    `SELECT * FROM customers WHERE UPPER(first_name) = ? AND UPPER(last_name) = ? AND venue_id = ? LIMIT 1`
-  ).get(normalizedFirst, normalizedLast, venueId) as DbCustomer | undefined;
-  if (result) {
-    console.log('Found customer by exact match:', result.first_name, result.last_name, 'ID:', result.id);
-    return result;
-  }
+  console.log('Name candidates for', lastName, 'venue:', venueId, '-', results.length);
+  return results.map(decryptCustomer);
+}
 
-  // Strategy 2: First word of multi-word last name (e.g. DL has "Van Houten", DB has "Van")
-  const lastNameFirstWord = normalizedLast.split(/\s+/)[0];
-  if (lastNameFirstWord !== normalizedLast) {
-    result = db.prepare(
-      `SELECT * FROM customers WHERE UPPER(first_name) = ? AND UPPER(last_name) = ? AND venue_id = ? LIMIT 1`
-    ).get(normalizedFirst, lastNameFirstWord, venueId) as DbCustomer | undefined;
-    if (result) {
-      console.log('Found customer by first-word-of-last-name:', result.first_name, result.last_name, 'ID:', result.id);
-      return result;
-    }
-  }
+// Free-text name search ("rob smi", "katherine smyth") — prefix and phonetic, best first
+export function searchCustomersByName(text: string, venueId: string, limit: number = 20): DbCustomer[] {
+  if (!db) throw new Error('Database not initialized');
 
-  // Strategy 3: Last name starts-with (handles DL truncation, e.g. "Jor" matching "Jordan")
-  if (normalizedLast.length >= 2) {
-    result = db.prepare(
-      `SELECT * FROM customers WHERE UPPER(first_name) = ? AND UPPER(last_name) LIKE ? AND venue_id = ? LIMIT 1`
-    ).get(normalizedFirst, normalizedLast + '%', venueId) as DbCustomer | undefined;
-    if (result) {
-      console.log('Found customer by last-name-starts-with:', result.first_name, result.last_name, 'ID:', result.id);
-      return result;
-    }
-  }
+  const match = buildNameSearchQuery(text);
+  if (!match) return [];
+
+  const results = db.prepare(`
+    SELECT c.* FROM customers_fts f
+    JOIN customers c ON c.id = f.rowid
+    WHERE customers_fts MATCH ? AND c.venue_id = ? AND c.deleted_at IS NULL
+    ORDER BY f.rank
+    LIMIT ?
+  `).all(match, venueId, limit) as CustomerRow[];
 
-  console.log('No customer found with name:', normalizedFirst, normalizedLast);
-  return null;
+  return results.map(decryptCustomer);
 }
 
-// Add offline queue entry
-export function addOfflineQueueEntry(data: Omit<OfflineQueueEntry, 'id' | 'synced'>): number {
+// Add offline queue entry. The idempotency key is the one the live attempt already sent, so a
+// check-in that did reach POSaBIT before the request failed isn't stored twice.
+export function addOfflineQueueEntry(
+  data: Pick<OfflineQueueEntry, 'name' | 'phone' | 'method' | 'customer_id' | 'venue_id'> & { created_at?: string; next_attempt_at?: string; idempotency_key?: string; posting_started_at?: string }
+): number {
   if (!db) throw new Error('Database not initialized');
 
+  const createdAt = data.created_at || new Date().toISOString();
   const stmt = db.prepare(`
-    INSERT INTO offline_queue (name, phone, method, customer_id, venue_id, created_at, synced)
-    VALUES (?, ?, ?, ?, ?, ?, 0)
+    INSERT INTO offline_queue (name, phone, method, customer_id, venue_id, created_at, synced, next_attempt_at, idempotency_key, posting_started_at)
+    VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?, ?)
+    ON CONFLICT(idempotency_key) DO NOTHING
   `);
 
   const result = stmt.run(
     data.name,
-    data.phone || null,
+    encrypt(data.phone),
     data.method,
     data.customer_id || null,
     data.venue_id,
-    data.created_at || new Date().toISOString()
+    createdAt,
+    data.next_attempt_at || createdAt,
+    data.idempotency_key || crypto.randomUUID(),
+    data.posting_started_at || null
   );
 
   return result.lastInsertRowid as number;
 }
 
-// Get unsynced offline entries
+const decryptEntry = (entry: OfflineQueueEntry): OfflineQueueEntry => ({ ...entry, phone: decrypt(entry.phone) });
+
+// Get unsynced offline entries (pending retry, not dead-lettered)
 export function getUnsyncedEntries(venueId: string): OfflineQueueEntry[] {
   if (!db) throw new Error('Database not initialized');
 
   const stmt = db.prepare(`
     SELECT * FROM offline_queue
-    WHERE venue_id = ? AND synced = 0
+    WHERE venue_id = ? AND synced = 0 AND dead_lettered_at IS NULL
     ORDER BY created_at ASC
   `);
 
-  return stmt.all(venueId) as OfflineQueueEntry[];
+  return (stmt.all(venueId) as OfflineQueueEntry[]).map(decryptEntry);
+}
+
+// Unsynced entries whose backoff has elapsed. Entries under a provisional customer ID wait for
+// that customer to be created (resolvePendingCustomer re-points them).
+export function getDueEntries(venueId: string, now: string = new Date().toISOString()): OfflineQueueEntry[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT * FROM offline_queue
+    WHERE venue_id = ? AND synced = 0 AND dead_lettered_at IS NULL
+      AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+      AND (customer_id IS NULL OR customer_id > 0)
+    ORDER BY created_at ASC
+  `);
+
+  return (stmt.all(venueId, now) as OfflineQueueEntry[]).map(decryptEntry);
+}
+
+// When the next pending entry or pending customer is due, null if nothing is waiting
+export function getNextAttemptAt(venueId: string): string | null {
+  if (!db) throw new Error('Database not initialized');
+
+  const row = db.prepare(`
+    SELECT MIN(next) as next FROM (
+      SELECT COALESCE(next_attempt_at, created_at) as next FROM offline_queue
+      WHERE venue_id = ? AND synced = 0 AND dead_lettered_at IS NULL AND (customer_id IS NULL OR customer_id > 0)
+      UNION ALL
+      SELECT COALESCE(next_attempt_at, created_at) FROM pending_customers
+      WHERE venue_id = ? AND resolved_at IS NULL AND failed_at IS NULL
+    )
+  `).get(venueId, venueId) as { next: string | null };
+  return row.next;
+}
+
+// Make these pending entries due now — connectivity is back, skip the remaining backoff
+export function resetEntryBackoff(ids: number[]): number {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`UPDATE offline_queue SET next_attempt_at = ? WHERE id = ? AND synced = 0 AND dead_lettered_at IS NULL`);
+  const now = new Date().toISOString();
+  return ids.reduce((changed, id) => changed + stmt.run(now, id).changes, 0);
+}
+
+// Record the attempt before the POST goes out, so a crash mid-request is detectable
+export function markEntryPosting(id: number): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(
+    `UPDATE offline_queue SET attempts = attempts + 1, posting_started_at = ? WHERE id = ?`
+  ).run(new Date().toISOString(), id);
 }
 
 // Mark entry as synced
 export function markEntrySynced(id: number): void {
   if (!db) throw new Error('Database not initialized');
 
-  const stmt = db.prepare('UPDATE offline_queue SET synced = 1 WHERE id = ?');
+  const stmt = db.prepare('UPDATE offline_queue SET synced = 1, posting_started_at = NULL, last_error = NULL WHERE id = ?');
   stmt.run(id);
 }
 
+// Failed attempt: schedule the next one, or dead-letter the entry (nextAttemptAt null).
+// Without a response it's unknown whether the POST landed, so posting_started_at is kept and
+// the next attempt checks the POSaBIT queue first.
+export function markEntryFailed(id: number, error: string, nextAttemptAt: string | null, outcomeKnown: boolean): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`
+    UPDATE offline_queue
+    SET posting_started_at = CASE WHEN ? THEN NULL ELSE posting_started_at END,
+        last_error = ?, next_attempt_at = ?, dead_lettered_at = ?
+    WHERE id = ?
+  `).run(outcomeKnown ? 1 : 0, error, nextAttemptAt, nextAttemptAt ? null : new Date().toISOString(), id);
+}
+
+// Entries that gave up, newest first, for staff review
+export function getDeadLetterEntries(venueId: string): OfflineQueueEntry[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT * FROM offline_queue
+    WHERE venue_id = ? AND synced = 0 AND dead_lettered_at IS NOT NULL
+    ORDER BY dead_lettered_at DESC
+  `);
+
+  return (stmt.all(venueId) as OfflineQueueEntry[]).map(decryptEntry);
+}
+
+// Staff sent a dead-lettered entry back for another round of attempts
+export function retryDeadLetterEntry(id: number): boolean {
+  if (!db) throw new Error('Database not initialized');
+
+  return db.prepare(`
+    UPDATE offline_queue SET dead_lettered_at = NULL, attempts = 0, next_attempt_at = ?
+    WHERE id = ? AND synced = 0 AND dead_lettered_at IS NOT NULL
+  `).run(new Date().toISOString(), id).changes > 0;
+}
+
+// Staff gave up on a dead-lettered entry (handled at the till, or not worth posting)
+export function discardDeadLetterEntry(id: number): boolean {
+  if (!db) throw new Error('Database not initialized');
+
+  return db.prepare(
+    `DELETE FROM offline_queue WHERE id = ? AND synced = 0 AND dead_lettered_at IS NOT NULL`
+  ).run(id).changes > 0;
+}
+
+// Store a customer POSaBIT couldn't take right now. Returns the pending row ID — the kiosk uses
+// its provisional form (toProvisionalId) until the real record exists.
+export function addPendingCustomer(request: CreateCustomerRequest, venueId: string, postingStartedAt?: string): number {
+  if (!db) throw new Error('Database not initialized');
+
+  const now = new Date().toISOString();
+  const result = db.prepare(`
+    INSERT INTO pending_customers (venue_id, first_name, last_name, loyalty_opt_in, request, created_at, next_attempt_at, posting_started_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    venueId,
+    request.firstName,
+    request.lastName || null,
+    request.loyaltyOptIn ? 1 : 0,
+    encrypt(JSON.stringify(request)),
+    now,
+    now,
+    postingStartedAt || null
+  );
+
+  return result.lastInsertRowid as number;
+}
+
+type PendingCustomerRow = Omit<PendingCustomer, 'request'> & { request: string | null };
+
+const decryptPendingCustomer = (row: PendingCustomerRow): PendingCustomer => {
+  const request = decrypt(row.request);
+  return { ...row, request: request ? JSON.parse(request) as CreateCustomerRequest : null };
+};
+
+// Unresolved pending customers whose backoff has elapsed, oldest first
+export function getDuePendingCustomers(venueId: string, now: string = new Date().toISOString()): PendingCustomer[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const stmt = db.prepare(`
+    SELECT * FROM pending_customers
+    WHERE venue_id = ? AND resolved_at IS NULL AND failed_at IS NULL
+      AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+    ORDER BY created_at ASC
+  `);
+
+  return (stmt.all(venueId, now) as PendingCustomerRow[]).map(decryptPendingCustomer);
+}
+
+// Open pending customers, then the most recently resolved ones, for the AdminPanel. Without
+// the request — the list only shows names and outcomes.
+export function getPendingCustomers(venueId: string, resolvedLimit: number = 20): PendingCustomer[] {
+  if (!db) throw new Error('Database not initialized');
+
+  const columns = `id, venue_id, first_name, last_name, loyalty_opt_in, NULL as request, created_at, attempts, last_error,
+    next_attempt_at, posting_started_at, failed_at, customer_id, resolution, resolved_at`;
+  const open = db.prepare(
+    `SELECT ${columns} FROM pending_customers WHERE venue_id = ? AND resolved_at IS NULL ORDER BY created_at ASC`
+  ).all(venueId) as PendingCustomer[];
+  const resolved = db.prepare(
+    `SELECT ${columns} FROM pending_customers WHERE venue_id = ? AND resolved_at IS NOT NULL ORDER BY resolved_at DESC LIMIT ?`
+  ).all(venueId, resolvedLimit) as PendingCustomer[];
+  return [...open, ...resolved];
+}
+
+// Make waiting pending customers due now — connectivity is back
+export function resetPendingCustomerBackoff(venueId: string): number {
+  if (!db) throw new Error('Database not initialized');
+
+  return db.prepare(`
+    UPDATE pending_customers SET next_attempt_at = ?
+    WHERE venue_id = ? AND resolved_at IS NULL AND failed_at IS NULL
+  `).run(new Date().toISOString(), venueId).changes;
+}
+
+// Record the attempt before the POST goes out, so a crash mid-request is detectable
+export function markPendingCustomerPosting(id: number): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(
+    `UPDATE pending_customers SET attempts = attempts + 1, posting_started_at = ? WHERE id = ?`
+  ).run(new Date().toISOString(), id);
+}
+
+// Failed attempt: schedule the next one, or give up until staff step in (nextAttemptAt null)
+export function markPendingCustomerFailed(id: number, error: string, nextAttemptAt: string | null, outcomeKnown: boolean): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`
+    UPDATE pending_customers
+    SET posting_started_at = CASE WHEN ? THEN NULL ELSE posting_started_at END,
+        last_error = ?, next_attempt_at = ?, failed_at = ?
+    WHERE id = ?
+  `).run(outcomeKnown ? 1 : 0, error, nextAttemptAt, nextAttemptAt ? null : new Date().toISOString(), id);
+}
+
+// POSaBIT has the customer: drop the stored request and re-point check-ins queued under the
+// provisional ID to the real one, due now. Returns how many check-ins moved.
+export function resolvePendingCustomer(id: number, customerId: number, resolution: Exclude<PendingCustomerResolution, 'discarded'>): number {
+  if (!db) throw new Error('Database not initialized');
+  const database = db;
+
+  return database.transaction(() => {
+    const now = new Date().toISOString();
+    database.prepare(`
+      UPDATE pending_customers
+      SET customer_id = ?, resolution = ?, resolved_at = ?, request = NULL, posting_started_at = NULL, last_error = NULL, failed_at = NULL
+      WHERE id = ?
+    `).run(customerId, resolution, now, id);
+
+    return database.prepare(
+      `UPDATE offline_queue SET customer_id = ?, next_attempt_at = ? WHERE customer_id = ? AND synced = 0`
+    ).run(customerId, now, toProvisionalId(id)).changes;
+  })();
+}
+
+// Staff sent a failed pending customer back for another round of attempts
+export function retryPendingCustomer(id: number): boolean {
+  if (!db) throw new Error('Database not initialized');
+
+  return db.prepare(`
+    UPDATE pending_customers SET failed_at = NULL, attempts = 0, next_attempt_at = ?
+    WHERE id = ? AND resolved_at IS NULL AND failed_at IS NOT NULL
+  `).run(new Date().toISOString(), id).changes > 0;
+}
+
+// Staff gave up on a pending customer (created at the till instead, or bad details). Its queued
+// check-ins post as guests rather than waiting forever.
+export function discardPendingCustomer(id: number): boolean {
+  if (!db) throw new Error('Database not initialized');
+  const database = db;
+
+  return database.transaction(() => {
+    const discarded = database.prepare(`
+      UPDATE pending_customers SET resolution = 'discarded', resolved_at = ?, request = NULL, posting_started_at = NULL
+      WHERE id = ? AND resolved_at IS NULL
+    `).run(new Date().toISOString(), id).changes > 0;
+    if (discarded) {
+      database.prepare(
+        `UPDATE offline_queue SET customer_id = NULL WHERE customer_id = ? AND synced = 0`
+      ).run(toProvisionalId(id));
+    }
+    return discarded;
+  })();
+}
+
+// Sync job history is capped rather than put under a retention policy — it holds no PII
+const MAX_SYNC_JOB_RUNS = 500;
+
+// Runs are recorded when they finish; one cut short by a crash or restart leaves no row
+export function recordSyncJobRun(run: Omit<SyncJobRun, 'id'>): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`
+    INSERT INTO sync_job_runs (venue_id, job, trigger, status, started_at, finished_at, rows, error)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(run.venue_id, run.job, run.trigger, run.status, run.started_at, run.finished_at, run.rows, run.error);
+  db.prepare(`
+    DELETE FROM sync_job_runs WHERE id <= (SELECT id FROM sync_job_runs ORDER BY id DESC LIMIT 1 OFFSET ?)
+  `).run(MAX_SYNC_JOB_RUNS);
+}
+
+export function getSyncJobRuns(venueId: string, limit: number = 50): SyncJobRun[] {
+  if (!db) throw new Error('Database not initialized');
+
+  return db.prepare(
+    `SELECT * FROM sync_job_runs WHERE venue_id = ? ORDER BY id DESC LIMIT ?`
+  ).all(venueId, limit) as SyncJobRun[];
+}
+
+// When each job last started, so intervals carry over a restart
+export function getLastSyncJobStarts(venueId: string): Partial<Record<SyncJobName, string>> {
+  if (!db) throw new Error('Database not initialized');
+
+  const rows = db.prepare(
+    `SELECT job, MAX(started_at) as started_at FROM sync_job_runs WHERE venue_id = ? GROUP BY job`
+  ).all(venueId) as { job: SyncJobName; started_at: string }[];
+  return Object.fromEntries(rows.map(row => [row.job, row.started_at]));
+}
+
+// The full sync in progress for a venue, if a download was interrupted
+export function getFullSyncCheckpoint(venueId: string): FullSyncCheckpoint | null {
+  if (!db) throw new Error('Database not initialized');
+
+  return (db.prepare(
+    `SELECT * FROM full_sync_checkpoints WHERE venue_id = ?`
+  ).get(venueId) as FullSyncCheckpoint | undefined) ?? null;
+}
+
+// Write one page of a full sync and move the checkpoint past it in the same transaction,
+// so a crash can't leave the checkpoint ahead of the customers it claims
+export function saveFullSyncPage(customers: any[], checkpoint: Omit<FullSyncCheckpoint, 'updated_at'>): number {
+  if (!db) throw new Error('Database not initialized');
+  const database = db;
+
+  return database.transaction(() => {
+    const upserted = upsertCustomers(customers, checkpoint.venue_id);
+    database.prepare(`
+      INSERT INTO full_sync_checkpoints (venue_id, started_at, last_page, total_pages, total_records, fetched, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(venue_id) DO UPDATE SET
+        started_at = excluded.started_at,
+        last_page = excluded.last_page,
+        total_pages = excluded.total_pages,
+        total_records = excluded.total_records,
+        fetched = excluded.fetched,
+        updated_at = excluded.updated_at
+    `).run(
+      checkpoint.venue_id,
+      checkpoint.started_at,
+      checkpoint.last_page,
+      checkpoint.total_pages,
+      checkpoint.total_records,
+      checkpoint.fetched,
+      new Date().toISOString()
+    );
+    return upserted;
+  })();
+}
+
+export function clearFullSyncCheckpoint(venueId: string): void {
+  if (!db) throw new Error('Database not initialized');
+
+  db.prepare(`DELETE FROM full_sync_checkpoints WHERE venue_id = ?`).run(venueId);
+}
+
+// Customers written since a full sync began — the IDs POSaBIT listed, when the download
+// spanned more than one session and the earlier pages aren't in memory
+export function getCustomerIdsSyncedSince(venueId: string, since: string): number[] {
+  if (!db) throw new Error('Database not initialized');
+
+  return (db.prepare(
+    `SELECT id FROM customers WHERE venue_id = ? AND synced_at >= ?`
+  ).all(venueId, since) as { id: number }[]).map(row => row.id);
+}
+
+// Every active customer for a venue, decrypted — for whole-cache reports (duplicates)
+export function getAllCustomers(venueId: string): DbCustomer[] {
+  if (!db) throw new Error('Database not initialized');
+
+  return (db.prepare(
+    `SELECT * FROM customers WHERE venue_id = ? AND deleted_at IS NULL ORDER BY id`
+  ).all(venueId) as CustomerRow[]).map(decryptCustomer);
+}
+
+// Active customer IDs for a venue, stalest first — the local side of a reconcile pass
+export function getActiveCustomerIds(venueId: string): { id: number; synced_at: string }[] {
+  if (!db) throw new Error('Database not initialized');
+
+  return db.prepare(
+    `SELECT id, synced_at FROM customers WHERE venue_id = ? AND deleted_at IS NULL ORDER BY synced_at ASC`
+  ).all(venueId) as { id: number; synced_at: string }[];
+}
+
+// Mark a customer deleted in POSaBIT. The row stays (lookups skip it) so retention removes it
+// on the usual schedule; for a merge, remembered picks and unsynced check-ins move to the survivor.
+export function tombstoneCustomer(customerId: number, mergedIntoId: number | null = null): TombstoneResult {
+  if (!db) throw new Error('Database not initialized');
+  const database = db;
+
+  return database.transaction(() => {
+    database.prepare(
+      `UPDATE customers SET deleted_at = ?, merged_into_id = ? WHERE id = ?`
+    ).run(new Date().toISOString(), mergedIntoId, customerId);
+
+    if (mergedIntoId === null) return { matchChoices: 0, offlineQueue: 0 };
+    return {
+      matchChoices: database.prepare(
+        `UPDATE customer_match_choices SET customer_id = ? WHERE customer_id = ?`
+      ).run(mergedIntoId, customerId).changes,
+      offlineQueue: database.prepare(
+        `UPDATE offline_queue SET customer_id = ? WHERE customer_id = ? AND synced = 0`
+      ).run(mergedIntoId, customerId).changes,
+    };
+  })();
+}
+
 // Clear all customers for venue (for full resync)
 export function clearCustomers(venueId: string): void {
   if (!db) throw new Error('Database not initialized');
@@ -0,0 +1,75 @@
+// Tamper-evident record of "forget this customer" deletions (deletion_log table)
+//
+// Each record stores what kind of identifier was used, a keyed hash of it (never the value)
+// and how many rows were removed, chained by SHA-256 to the record before it. Editing or
+// deleting a record breaks the chain; dropping records off the end is caught by comparing
+// against the head (count + hash) that main.ts keeps outside the database.
+//
+// No electron imports, so the chain logic is unit tested under node.
+
+import crypto from 'crypto';
+import type { ForgetIdentifierType } from '../shared/retention.js';
+
+export interface DeletionCounts {
+  customers: number;
+  offlineQueue: number;
+  failedScans: number;
+  matchChoices: number;
+  auditReferences: number;   // id_verification_log rows whose license reference was cleared
+}
+
+export interface DeletionRecord {
+  id: number;
+  deleted_at: string;
+  venue_id: string;
+  identifier_type: ForgetIdentifierType;
+  identifier_hash: string;
+  reason: string;
+  counts: string;            // JSON DeletionCounts
+  prev_hash: string;
+  hash: string;
+}
+
+export interface DeletionLogHead {
+  count: number;
+  hash: string;
+}
+
+export interface DeletionChainStatus {
+  ok: boolean;
+  count: number;
+  brokenAtId: number | null;   // first record whose hash doesn't verify
+  truncated: boolean;          // fewer records (or a different head) than the stored head
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export function hashDeletionRecord(record: Omit<DeletionRecord, 'id' | 'hash'>): string {
+  const canonical = JSON.stringify([
+    record.prev_hash,
+    record.deleted_at,
+    record.venue_id,
+    record.identifier_type,
+    record.identifier_hash,
+    record.reason,
+    record.counts,
+  ]);
+  return crypto.createHash('sha256').update(canonical, 'utf8').digest('hex');
+}
+
+// records oldest first. head is the last known (count, hash) kept outside the database.
+export function verifyDeletionChain(records: DeletionRecord[], head: DeletionLogHead | null): DeletionChainStatus {
+  let prevHash = GENESIS_HASH;
+  for (const record of records) {
+    if (record.prev_hash !== prevHash || hashDeletionRecord(record) !== record.hash) {
+      return { ok: false, count: records.length, brokenAtId: record.id, truncated: false };
+    }
+    prevHash = record.hash;
+  }
+
+  // The head only moves forward, so the chain must contain it at position head.count
+  const truncated = !!head && head.count > 0 && (
+    records.length < head.count || records[head.count - 1].hash !== head.hash
+  );
+  return { ok: !truncated, count: records.length, brokenAtId: null, truncated };
+}
@@ -0,0 +1,70 @@
+// Column-level encryption for PII in customers.db
+//
+// Values are AES-256-GCM encrypted with the database key (kept in the OS keystore, see keyStore.ts)
+// and stored as "enc1:" + base64(iv | auth tag | ciphertext). Encrypted columns can't be searched,
+// so lookups go through blind indexes: an HMAC of the normalized value under a key derived from
+// the database key (a plain hash of a 10-digit phone number is trivially brute-forced).
+//
+// No electron imports — the key is passed in, so this is unit tested under node.
+
+import crypto from 'crypto';
+
+export const ENCRYPTED_PREFIX = 'enc1:';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+export const KEY_BYTES = 32;
+
+export type BlindIndexPurpose = 'phone' | 'license' | 'match' | 'deletion' | 'audit';
+
+export const generateKey = (): Buffer => crypto.randomBytes(KEY_BYTES);
+
+export const isEncrypted = (value: string | null | undefined): boolean =>
+  typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+
+// null / '' stay null so "has a phone" checks keep working on the encrypted column
+export function encryptField(value: string | null | undefined, key: Buffer): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+// Tries each key in turn (mid-rotation a value may still be under the previous one).
+// Plaintext written before encryption passes through unchanged; a value no key can
+// open comes back null rather than as ciphertext.
+export function decryptField(value: string | null | undefined, keys: Buffer[]): string | null {
+  if (value === null || value === undefined) return null;
+  if (!isEncrypted(value)) return value;
+
+  const data = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64');
+  const iv = data.subarray(0, IV_BYTES);
+  const tag = data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const ciphertext = data.subarray(IV_BYTES + TAG_BYTES);
+  for (const key of keys) {
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    } catch {
+      // Wrong key — the auth tag doesn't verify
+    }
+  }
+  return null;
+}
+
+// Derived HMAC keys per database key, so a full sync doesn't re-derive them per row
+const indexKeys = new WeakMap<Buffer, Partial<Record<BlindIndexPurpose, Buffer>>>();
+
+// Keyed hash for equality lookups. Callers normalize first (phone digits, upper-cased DL);
+// each purpose gets its own derived key so a phone hash never equals a license hash.
+
+export function blindIndex(value: string | null | undefined, key: Buffer, purpose: BlindIndexPurpose): string | null {
+  if (!value) return null;
+  const derived = indexKeys.get(key) || {};
+  if (!derived[purpose]) {
+    derived[purpose] = Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), `customers.db blind index:${purpose}`, KEY_BYTES));
+    indexKeys.set(key, derived);
+  }
+  return crypto.createHmac('sha256', derived[purpose]!).update(value, 'utf8').digest('hex');
+}
@@ -0,0 +1,112 @@
+// Database encryption key, wrapped by the OS keystore through Electron safeStorage
+// (DPAPI on Windows, Keychain on macOS, libsecret on Linux) and kept in customers.key
+// next to the database. Copying customers.db and customers.key to another machine or
+// Windows account doesn't expose anything — only this OS user can unwrap the key.
+//
+// During a rotation the file holds the previous key too, so a crash halfway through
+// re-encrypting can still read both and finish on the next launch.
+//
+// Blind indexes (phone / license lookups, forgotten customers, the deletion log) use a
+// separate index key that is never rotated, so they keep matching after a venue change.
+
+import { safeStorage } from 'electron';
+import fs from 'fs';
+import { generateKey, KEY_BYTES } from './fieldCrypto.js';
+
+export interface DatabaseKeys {
+  current: Buffer;
+  previous: Buffer | null;   // set only while a rotation is in progress
+  index: Buffer;             // blind indexes only — never rotated
+  venueId: string | null;    // venue the current key was created for
+  createdAt: string;
+  protected: boolean;        // false when the OS keystore was unavailable
+}
+
+interface KeyFile {
+  version: 1;
+  protected: boolean;
+  current: string;
+  previous: string | null;
+  index?: string;            // missing in files from before the index key existed
+  venueId: string | null;
+  createdAt: string;
+}
+
+function wrapKey(key: Buffer, useKeystore: boolean): string {
+  const encoded = key.toString('base64');
+  return useKeystore ? safeStorage.encryptString(encoded).toString('base64') : encoded;
+}
+
+function unwrapKey(wrapped: string, isProtected: boolean): Buffer {
+  const encoded = isProtected ? safeStorage.decryptString(Buffer.from(wrapped, 'base64')) : wrapped;
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== KEY_BYTES) throw new Error('Database key has the wrong length');
+  return key;
+}
+
+export function saveDatabaseKeys(keyPath: string, keys: DatabaseKeys): void {
+  const useKeystore = safeStorage.isEncryptionAvailable();
+  if (!useKeystore) {
+    console.warn('OS keystore unavailable — database key is stored unprotected');
+  }
+  const file: KeyFile = {
+    version: 1,
+    protected: useKeystore,
+    current: wrapKey(keys.current, useKeystore),
+    previous: keys.previous ? wrapKey(keys.previous, useKeystore) : null,
+    index: wrapKey(keys.index, useKeystore),
+    venueId: keys.venueId,
+    createdAt: keys.createdAt,
+  };
+  // Write-then-rename so a crash never leaves a half-written key file
+  const tmpPath = `${keyPath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(file), { mode: 0o600 });
+  fs.renameSync(tmpPath, keyPath);
+  keys.protected = useKeystore;
+}
+
+// Load the key, creating one on first run. Throws if the file exists but can't be
+// unwrapped (different machine / OS account, or the keystore entry was reset).
+export function loadDatabaseKeys(keyPath: string): DatabaseKeys {
+  if (!fs.existsSync(keyPath)) {
+    const keys: DatabaseKeys = {
+      current: generateKey(),
+      previous: null,
+      index: generateKey(),
+      venueId: null,
+      createdAt: new Date().toISOString(),
+      protected: false,
+    };
+    saveDatabaseKeys(keyPath, keys);
+    console.log('Created database encryption key:', keyPath);
+    return keys;
+  }
+
+  const file = JSON.parse(fs.readFileSync(keyPath, 'utf8')) as KeyFile;
+  const current = unwrapKey(file.current, file.protected);
+  const previous = file.previous ? unwrapKey(file.previous, file.protected) : null;
+  if (file.index) {
+    return {
+      current,
+      previous,
+      index: unwrapKey(file.index, file.protected),
+      venueId: file.venueId,
+      createdAt: file.createdAt,
+      protected: file.protected,
+    };
+  }
+
+  // Older file: the existing hashes were made with the data key (the one being rotated away
+  // from, if a rotation was interrupted), so that key becomes the index key from here on
+  const keys: DatabaseKeys = {
+    current,
+    previous,
+    index: previous ?? current,
+    venueId: file.venueId,
+    createdAt: file.createdAt,
+    protected: file.protected,
+  };
+  saveDatabaseKeys(keyPath, keys);
+  console.log('Added blind-index key to', keyPath);
+  return keys;
+}
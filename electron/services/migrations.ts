@@ -0,0 +1,456 @@
+// Schema migrations for the local SQLite database (customers.db)
+//
+// PRAGMA user_version holds the schema version. Pending migrations run in order, each in
+// its own transaction together with the user_version bump, after a backup of the database
+// is written next to it. Every attempt is recorded in schema_migrations for the AdminPanel.
+//
+// To change the schema, append a migration with the next version number — never edit one
+// that has shipped, kiosks that already ran it won't run it again.
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationRecord {
+  id: number;
+  version: number;
+  name: string;
+  status: 'applied' | 'failed';
+  error: string | null;
+  backup_path: string | null;
+  duration_ms: number;
+  applied_at: string;
+}
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  backupDir: string;
+  history: MigrationRecord[];
+}
+
+// Backups older than the newest few are deleted after each migration run
+const MAX_BACKUPS = 5;
+
+// Installs from before the migration runner already have some of these columns
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Baseline schema (customers, offline queue, failed scans, ID verification log)',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS customers (
+          id INTEGER PRIMARY KEY,
+          first_name TEXT NOT NULL,
+          last_name TEXT,
+          telephone TEXT,
+          email TEXT,
+          loyalty_member INTEGER DEFAULT 0,
+          drivers_license TEXT,
+          venue_id TEXT NOT NULL,
+          synced_at TEXT NOT NULL,
+          UNIQUE(id, venue_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS offline_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          phone TEXT,
+          method TEXT NOT NULL,
+          customer_id INTEGER,
+          venue_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          synced INTEGER DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS failed_scans (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          raw_barcode TEXT NOT NULL,
+          parser_error TEXT NOT NULL,
+          venue_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          resolved_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS id_verification_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at TEXT NOT NULL,
+          venue_id TEXT NOT NULL,
+          outcome TEXT NOT NULL,
+          age INTEGER,
+          jurisdiction TEXT,
+          license_last4 TEXT,
+          document_type TEXT,
+          entry_method TEXT,
+          expiration_date TEXT,
+          days_expired INTEGER
+        );
+      `);
+
+      // Columns added before versioned migrations existed
+      addColumnIfMissing(db, 'customers', 'drivers_license', 'TEXT');
+      addColumnIfMissing(db, 'failed_scans', 'resolved_at', 'TEXT');
+      addColumnIfMissing(db, 'id_verification_log', 'age', 'INTEGER');
+      addColumnIfMissing(db, 'id_verification_log', 'entry_method', 'TEXT');
+      addColumnIfMissing(db, 'id_verification_log', 'document_type', 'TEXT');
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_customers_phone ON customers(telephone);
+        CREATE INDEX IF NOT EXISTS idx_customers_venue ON customers(venue_id);
+        CREATE INDEX IF NOT EXISTS idx_customers_dl ON customers(drivers_license);
+        CREATE INDEX IF NOT EXISTS idx_failed_scans_created ON failed_scans(created_at);
+        CREATE INDEX IF NOT EXISTS idx_id_verification_created ON id_verification_log(created_at);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'Customer disambiguation choices',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS customer_match_choices (
+          match_key TEXT NOT NULL,
+          venue_id TEXT NOT NULL,
+          customer_id INTEGER NOT NULL,
+          chosen_at TEXT NOT NULL,
+          PRIMARY KEY (match_key, venue_id)
+        );
+      `);
+    },
+  },
+  {
+    // Needs the phonetic_keys SQL function (registered in initDatabase before migrating)
+    version: 3,
+    name: 'Customer name full-text index (FTS5)',
+    up: (db) => {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS customers_fts USING fts5(
+          first_name, last_name, first_phonetic, last_phonetic,
+          tokenize = 'unicode61 remove_diacritics 2', prefix = '2 3'
+        );
+
+        -- INSERT OR REPLACE doesn't fire the delete trigger, so clear the old entry here too
+        CREATE TRIGGER IF NOT EXISTS customers_fts_insert AFTER INSERT ON customers BEGIN
+          DELETE FROM customers_fts WHERE rowid = new.id;
+          INSERT INTO customers_fts (rowid, first_name, last_name, first_phonetic, last_phonetic)
+          VALUES (new.id, new.first_name, new.last_name, phonetic_keys(new.first_name), phonetic_keys(new.last_name));
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS customers_fts_update AFTER UPDATE OF id, first_name, last_name ON customers BEGIN
+          DELETE FROM customers_fts WHERE rowid = old.id;
+          INSERT INTO customers_fts (rowid, first_name, last_name, first_phonetic, last_phonetic)
+          VALUES (new.id, new.first_name, new.last_name, phonetic_keys(new.first_name), phonetic_keys(new.last_name));
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS customers_fts_delete AFTER DELETE ON customers BEGIN
+          DELETE FROM customers_fts WHERE rowid = old.id;
+        END;
+
+        -- Index customers synced before the index existed
+        DELETE FROM customers_fts;
+        INSERT INTO customers_fts (rowid, first_name, last_name, first_phonetic, last_phonetic)
+        SELECT id, first_name, last_name, phonetic_keys(first_name), phonetic_keys(last_name) FROM customers;
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'Customer demographics (birthday, address, marketing opt-in, loyalty points)',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE customers ADD COLUMN birthday TEXT;
+        ALTER TABLE customers ADD COLUMN gender TEXT;
+        ALTER TABLE customers ADD COLUMN address TEXT;
+        ALTER TABLE customers ADD COLUMN city TEXT;
+        ALTER TABLE customers ADD COLUMN state TEXT;
+        ALTER TABLE customers ADD COLUMN zipcode TEXT;
+        ALTER TABLE customers ADD COLUMN marketing_opt_in INTEGER;
+        ALTER TABLE customers ADD COLUMN loyalty_points INTEGER;
+        ALTER TABLE customers ADD COLUMN created_at TEXT;
+        ALTER TABLE customers ADD COLUMN updated_at TEXT;
+
+        CREATE INDEX IF NOT EXISTS idx_customers_birthday ON customers(birthday);
+      `);
+    },
+  },
+  {
+    // Columns only — existing rows are encrypted by initDatabase, which holds the key
+    version: 5,
+    name: 'PII encryption at rest (hashed phone / license index columns)',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE customers ADD COLUMN telephone_hash TEXT;
+        ALTER TABLE customers ADD COLUMN license_hash TEXT;
+
+        -- Indexes on encrypted columns are useless; lookups go through the hashes
+        DROP INDEX IF EXISTS idx_customers_phone;
+        DROP INDEX IF EXISTS idx_customers_dl;
+        DROP INDEX IF EXISTS idx_customers_birthday;
+        CREATE INDEX IF NOT EXISTS idx_customers_phone_hash ON customers(telephone_hash, venue_id);
+        CREATE INDEX IF NOT EXISTS idx_customers_license_hash ON customers(license_hash, venue_id);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'PII retention (customer last seen) and deletion log',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE customers ADD COLUMN last_seen_at TEXT;
+
+        CREATE TABLE IF NOT EXISTS deletion_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          deleted_at TEXT NOT NULL,
+          venue_id TEXT NOT NULL,
+          identifier_type TEXT NOT NULL,
+          identifier_hash TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          counts TEXT NOT NULL,
+          prev_hash TEXT NOT NULL,
+          hash TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_offline_queue_created ON offline_queue(created_at);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'Tombstones for customers deleted or merged in POSaBIT',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE customers ADD COLUMN deleted_at TEXT;
+        ALTER TABLE customers ADD COLUMN merged_into_id INTEGER;
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'Offline queue retries, backoff, dead-lettering and idempotency keys',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE offline_queue ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE offline_queue ADD COLUMN last_error TEXT;
+        ALTER TABLE offline_queue ADD COLUMN next_attempt_at TEXT;
+        ALTER TABLE offline_queue ADD COLUMN posting_started_at TEXT;
+        ALTER TABLE offline_queue ADD COLUMN dead_lettered_at TEXT;
+        ALTER TABLE offline_queue ADD COLUMN idempotency_key TEXT;
+
+        UPDATE offline_queue SET idempotency_key = 'legacy-' || id WHERE idempotency_key IS NULL;
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_offline_queue_idempotency ON offline_queue(idempotency_key);
+        CREATE INDEX IF NOT EXISTS idx_offline_queue_pending ON offline_queue(venue_id, synced, next_attempt_at);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'Pending customers created while POSaBIT was offline',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pending_customers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          venue_id TEXT NOT NULL,
+          first_name TEXT NOT NULL,
+          last_name TEXT,
+          loyalty_opt_in INTEGER NOT NULL DEFAULT 0,
+          request TEXT,
+          created_at TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          next_attempt_at TEXT,
+          posting_started_at TEXT,
+          failed_at TEXT,
+          customer_id INTEGER,
+          resolution TEXT,
+          resolved_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pending_customers_open ON pending_customers(venue_id, resolved_at, next_attempt_at);
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'Sync job history',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_job_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          venue_id TEXT NOT NULL,
+          job TEXT NOT NULL,
+          trigger TEXT NOT NULL,
+          status TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          finished_at TEXT NOT NULL,
+          rows INTEGER,
+          error TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sync_job_runs_venue ON sync_job_runs(venue_id, job, started_at);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'Full sync checkpoints',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS full_sync_checkpoints (
+          venue_id TEXT PRIMARY KEY,
+          started_at TEXT NOT NULL,
+          last_page INTEGER NOT NULL,
+          total_pages INTEGER NOT NULL,
+          total_records INTEGER NOT NULL,
+          fetched INTEGER NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'Forgotten customer suppression list',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS forgotten_identifiers (
+          kind TEXT NOT NULL,
+          value TEXT NOT NULL,
+          forgotten_at TEXT NOT NULL,
+          PRIMARY KEY (kind, value)
+        );
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'Age log license hash',
+    up: (db) => {
+      addColumnIfMissing(db, 'id_verification_log', 'license_hash', 'TEXT');
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_id_verification_license ON id_verification_log(license_hash);`);
+    },
+  },
+];
+
+// Backups taken before this version hold PII in plaintext
+export const ENCRYPTED_SCHEMA_VERSION = 5;
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), 0);
+
+function ensureHistoryTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      version INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      status TEXT NOT NULL,
+      error TEXT,
+      backup_path TEXT,
+      duration_ms INTEGER NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+function recordMigration(db: Database.Database, migration: Migration, status: 'applied' | 'failed', durationMs: number, backupPath: string | null, error: string | null): void {
+  db.prepare(`
+    INSERT INTO schema_migrations (version, name, status, error, backup_path, duration_ms, applied_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(migration.version, migration.name, status, error, backupPath, durationMs, new Date().toISOString());
+}
+
+// Copy the whole database to backupDir (VACUUM INTO gives a consistent copy even in WAL mode)
+function backupDatabase(db: Database.Database, backupDir: string, fromVersion: number): string {
+  fs.mkdirSync(backupDir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = path.join(backupDir, `customers-v${fromVersion}-${stamp}.db`);
+  db.exec(`VACUUM INTO '${backupPath.replace(/'/g, "''")}'`);
+
+  const backups = fs.readdirSync(backupDir).filter(f => /^customers-v\d+-.*\.db$/.test(f)).sort();
+  for (const old of backups.slice(0, Math.max(0, backups.length - MAX_BACKUPS))) {
+    try {
+      fs.unlinkSync(path.join(backupDir, old));
+    } catch (e) {
+      console.error('Failed to remove old database backup:', old, e);
+    }
+  }
+  return backupPath;
+}
+
+// Delete backups of databases older than minVersion (backup files are named by the version they were taken at)
+export function removeBackupsBefore(backupDir: string, minVersion: number): number {
+  if (!fs.existsSync(backupDir)) return 0;
+  let removed = 0;
+  for (const file of fs.readdirSync(backupDir)) {
+    const match = /^customers-v(\d+)-.*\.db$/.exec(file);
+    if (match && parseInt(match[1], 10) < minVersion) {
+      fs.unlinkSync(path.join(backupDir, file));
+      removed++;
+    }
+  }
+  return removed;
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+// Bring the database up to LATEST_SCHEMA_VERSION. Throws if the backup or a migration
+// fails — that migration is rolled back and the ones after it are not attempted.
+// migrations is only overridden by tests.
+export function runMigrations(db: Database.Database, backupDir: string, migrations: Migration[] = MIGRATIONS): void {
+  ensureHistoryTable(db);
+
+  const currentVersion = getSchemaVersion(db);
+  const pending = migrations.filter(m => m.version > currentVersion).sort((a, b) => a.version - b.version);
+  if (pending.length === 0) return;
+
+  // Nothing to back up on a fresh install (only schema_migrations exists)
+  const tableCount = (db.prepare(
+    `SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table' AND name NOT IN ('schema_migrations', 'sqlite_sequence')`
+  ).get() as { count: number }).count;
+  let backupPath: string | null = null;
+  if (tableCount > 0) {
+    try {
+      backupPath = backupDatabase(db, backupDir, currentVersion);
+      console.log('Database backed up before migrating:', backupPath);
+    } catch (e: any) {
+      recordMigration(db, pending[0], 'failed', 0, null, `Backup failed: ${e.message}`);
+      throw new Error(`Database backup failed, not migrating: ${e.message}`);
+    }
+  }
+
+  for (const migration of pending) {
+    const started = Date.now();
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        db.pragma(`user_version = ${migration.version}`);
+        recordMigration(db, migration, 'applied', Date.now() - started, backupPath, null);
+      })();
+      console.log(`Migration ${migration.version} applied: ${migration.name} (${Date.now() - started}ms)`);
+    } catch (e: any) {
+      recordMigration(db, migration, 'failed', Date.now() - started, backupPath, e.message);
+      console.error(`Migration ${migration.version} failed: ${migration.name}`, e);
+      throw e;
+    }
+  }
+}
+
+export function getMigrationHistory(db: Database.Database, limit: number = 50): MigrationRecord[] {
+  ensureHistoryTable(db);
+  return db.prepare(`SELECT * FROM schema_migrations ORDER BY id DESC LIMIT ?`).all(limit) as MigrationRecord[];
+}
@@ -1,7 +1,22 @@
 // POSaBIT API Service - Runs in main process (secure)
 
+import { classifyRemoteRecord, RemoteCustomerStatus } from '../shared/reconcile.js';
+import { ProbeResult, PROBE_TIMEOUT_MS } from '../shared/connectivity.js';
+import { parseRetryAfter, retryAfterFromError, isBackoffError } from '../shared/syncSchedule.js';
+
 const BASE_URL = 'https://app.posabit.com/api/v3';
 
+// Retries of one customer list page that was rate limited or hit a server error, and the longest
+// wait between them — a longer Retry-After fails the page and the scheduler backs off instead
+const PAGE_RETRIES = 3;
+const MAX_PAGE_RETRY_WAIT_MS = 60 * 1000;
+
+// " (retry after 30s)" when POSaBIT asked us to wait — read back by shared/syncSchedule.ts
+const retryAfterNote = (response: Response): string => {
+  const ms = parseRetryAfter(response.headers.get('retry-after'));
+  return ms === null ? '' : ` (retry after ${Math.ceil(ms / 1000)}s)`;
+};
+
 export interface PosabitCustomer {
   id: number;
   first_name: string;
@@ -21,6 +36,8 @@ export interface PosabitCustomer {
   city?: string;
   state?: string;
   zipcode?: string;
+  loyalty_points?: number;
+  merged_into_id?: number | null;
 }
 
 export interface PosabitQueueItem {
@@ -91,42 +108,96 @@ export class PosabitService {
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to fetch customers: ${response.status}`);
+      throw new Error(`Failed to fetch customers: ${response.status}${retryAfterNote(response)}`);
     }
 
     return response.json() as Promise<CustomerResponse>;
   }
 
-  // Fetch all customers with pagination (for initial sync)
+  // Fetch all customers with pagination (for reconcile)
   async fetchAllCustomers(
-    onProgress?: (current: number, total: number) => void
+    onProgress?: (current: number, total: number) => void,
+    pageDelayMs: number = 100
   ): Promise<PosabitCustomer[]> {
     const allCustomers: PosabitCustomer[] = [];
-    let page = 1;
-    let totalPages = 1;
+    await this.fetchCustomerPages(1, (customers, response) => {
+      allCustomers.push(...customers);
+      if (onProgress) {
+        onProgress(allCustomers.length, response.total_records);
+      }
+    }, pageDelayMs);
+    return allCustomers;
+  }
+
+  // Walk the customer list page by page from startPage, handing each page to onPage before the
+  // next is fetched (the full sync writes and checkpoints it there). A page that's rate limited or
+  // hits a server error is retried after its Retry-After, and the pause between pages doubles from then on.
+  async fetchCustomerPages(
+    startPage: number,
+    onPage: (customers: PosabitCustomer[], response: CustomerResponse) => void | Promise<void>,
+    pageDelayMs: number = 100
+  ): Promise<void> {
+    let page = startPage;
+    let totalPages = startPage;
+    let delay = pageDelayMs;
 
     do {
-      const response = await this.fetchCustomers({ page, perPage: 100 });
+      let response: CustomerResponse | null = null;
+      for (let retry = 0; !response; retry++) {
+        try {
+          response = await this.fetchCustomers({ page, perPage: 100 });
+        } catch (error: any) {
+          const message = error?.message || String(error);
+          const wait = Math.max(retryAfterFromError(message) ?? 0, delay * 4, 1000);
+          if (retry >= PAGE_RETRIES || !isBackoffError(message) || wait > MAX_PAGE_RETRY_WAIT_MS) throw error;
+          console.warn(`Customer page ${page} failed (${message}) — retrying in ${wait}ms`);
+          await new Promise(resolve => setTimeout(resolve, wait));
+          delay = Math.min(Math.max(delay, 50) * 2, MAX_PAGE_RETRY_WAIT_MS);
+        }
+      }
+
       // POSaBIT wraps each customer in a { customer: {...} } object - unwrap it
       const unwrappedCustomers = response.customers.map((item: any) =>
         item.customer ? item.customer : item
       );
-      allCustomers.push(...unwrappedCustomers);
+      await onPage(unwrappedCustomers, { ...response, current_page: page });
       totalPages = response.total_pages;
 
-      if (onProgress) {
-        onProgress(allCustomers.length, response.total_records);
-      }
-
       page++;
 
       // Small delay to avoid rate limiting
-      if (page <= totalPages) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+      if (page <= totalPages && delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
     } while (page <= totalPages);
+  }
 
-    return allCustomers;
+  // Health probe for ConnectivityMonitor — the queue endpoint is small and always present.
+  // Never throws: no response within the timeout is reported as unreachable.
+  async checkHealth(timeoutMs: number = PROBE_TIMEOUT_MS): Promise<ProbeResult> {
+    const started = Date.now();
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(`${BASE_URL}/venue/customer_queues`, {
+        method: 'GET',
+        headers: {
+          'Authorization': this.authHeader,
+          'Content-Type': 'application/json',
+        },
+        signal: controller.signal,
+      });
+      return { reachable: true, status: response.status, latencyMs: Date.now() - started };
+    } catch (err: any) {
+      return {
+        reachable: false,
+        status: null,
+        latencyMs: Date.now() - started,
+        error: err?.name === 'AbortError' ? `No response in ${timeoutMs}ms` : err?.message,
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
   }
 
   // Get customer queue
@@ -140,19 +211,20 @@ export class PosabitService {
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to fetch queue: ${response.status}`);
+      throw new Error(`Failed to fetch queue: ${response.status}${retryAfterNote(response)}`);
     }
 
     return response.json() as Promise<QueueResponse>;
   }
 
-  // Add customer to queue
+  // Add customer to queue. The idempotency key identifies one kiosk check-in across retries;
+  // SyncService also checks the queue itself before reposting an interrupted attempt.
   async addToQueue(data: {
     name: string;
     telephone?: string;
     customerId?: number;
     source?: 'walk_in' | 'order_ahead';
-  }): Promise<PosabitQueueItem> {
+  }, idempotencyKey?: string): Promise<PosabitQueueItem> {
     const body = {
       customer_queue: {
         source: data.source || 'walk_in',
@@ -167,13 +239,14 @@ export class PosabitService {
       headers: {
         'Authorization': this.authHeader,
         'Content-Type': 'application/json',
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
       },
       body: JSON.stringify(body),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Failed to add to queue: ${response.status} - ${errorText}`);
+      throw new Error(`Failed to add to queue: ${response.status}${retryAfterNote(response)} - ${errorText}`);
     }
 
     return response.json() as Promise<PosabitQueueItem>;
@@ -255,7 +328,7 @@ export class PosabitService {
         }
       }
 
-      throw new Error(`Failed to create customer: ${response.status} - ${errorText}`);
+      throw new Error(`Failed to create customer: ${response.status}${retryAfterNote(response)} - ${errorText}`);
     }
 
     const result = await response.json() as { customer?: PosabitCustomer } & PosabitCustomer;
@@ -306,18 +379,16 @@ export class PosabitService {
     }
   }
 
-  // Search for a customer by name via the API (for when local DB doesn't have them)
-  async searchCustomerByName(firstName: string, lastName: string): Promise<PosabitCustomer | null> {
+  // Customers on a phone number via the API (cross-venue lookup at a sibling venue)
+  async searchCustomersByPhone(phone: string): Promise<PosabitCustomer[]> {
     try {
-      // Use ransack query parameters (POSaBIT uses Rails/Ransack)
       const params = new URLSearchParams({
-        per_page: '5',
-        'q[first_name_cont]': firstName,
-        'q[last_name_cont]': lastName,
+        per_page: '10',
+        'q[telephone_cont]': phone.replace(/\D/g, '').slice(-10),
       });
 
       const url = `${BASE_URL}/venue/customers?${params.toString()}`;
-      console.log('API name search URL:', url);
+      console.log('API phone search URL:', url);
 
       const response = await fetch(url, {
         method: 'GET',
@@ -328,51 +399,77 @@ export class PosabitService {
       });
 
       if (!response.ok) {
-        console.log('API name search failed:', response.status);
-        return null;
+        console.log('API phone search failed:', response.status);
+        return [];
       }
 
       const data = await response.json() as CustomerResponse;
       if (!data.customers || data.customers.length === 0) {
-        console.log('API name search: no results');
-        return null;
+        console.log('API phone search: no results');
+        return [];
       }
 
       // Unwrap if wrapped in { customer: {...} }
       const unwrapped = data.customers.map((item: any) =>
         item.customer ? item.customer : item
-      );
+      ) as PosabitCustomer[];
 
-      // Find best match (case-insensitive exact match on both names)
-      const normalizedFirst = firstName.trim().toUpperCase();
-      const normalizedLast = lastName.trim().toUpperCase();
+      console.log('API phone search:', unwrapped.length, 'results');
+      return unwrapped;
+    } catch (err) {
+      console.error('API phone search error:', err);
+      return [];
+    }
+  }
 
-      const exactMatch = unwrapped.find((c: PosabitCustomer) =>
-        c.first_name?.toUpperCase() === normalizedFirst &&
-        c.last_name?.toUpperCase() === normalizedLast
-      );
+  // Candidate customers by last name via the API (for when local DB doesn't have them).
+  // First name isn't filtered on so nicknames (Bob on file, Robert on the ID) still come back;
+  // ranking is customerMatch.ts's job.
+  async searchCustomersByName(lastName: string): Promise<PosabitCustomer[]> {
+    try {
+      // Use ransack query parameters (POSaBIT uses Rails/Ransack)
+      const params = new URLSearchParams({
+        per_page: '25',
+        'q[last_name_cont]': lastName,
+      });
+
+      const url = `${BASE_URL}/venue/customers?${params.toString()}`;
+      console.log('API name search URL:', url);
 
-      if (exactMatch) {
-        console.log('API name search: exact match found -', exactMatch.first_name, exactMatch.last_name, 'ID:', exactMatch.id);
-        return exactMatch;
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Authorization': this.authHeader,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        console.log('API name search failed:', response.status);
+        return [];
       }
 
-      // Fallback: first result if names are close enough
-      const firstResult = unwrapped[0];
-      if (firstResult) {
-        console.log('API name search: using first result -', firstResult.first_name, firstResult.last_name, 'ID:', firstResult.id);
-        return firstResult;
+      const data = await response.json() as CustomerResponse;
+      if (!data.customers || data.customers.length === 0) {
+        console.log('API name search: no results');
+        return [];
       }
 
-      return null;
+      // Unwrap if wrapped in { customer: {...} }
+      const unwrapped = data.customers.map((item: any) =>
+        item.customer ? item.customer : item
+      ) as PosabitCustomer[];
+
+      console.log('API name search:', unwrapped.length, 'candidates');
+      return unwrapped;
     } catch (err) {
       console.error('API name search error:', err);
-      return null;
+      return [];
     }
   }
 
-  // Search by birthday + last name (catches renewed DLs, nickname mismatches)
-  async searchCustomerByDobAndLastName(birthday: string, lastName: string): Promise<PosabitCustomer | null> {
+  // Candidates by birthday + last name (catches renewed DLs, nickname mismatches)
+  async searchCustomersByDobAndLastName(birthday: string, lastName: string): Promise<PosabitCustomer[]> {
     try {
       const params = new URLSearchParams({
         per_page: '10',
@@ -391,28 +488,20 @@ export class PosabitService {
         },
       });
 
-      if (!response.ok) return null;
+      if (!response.ok) return [];
 
       const data = await response.json() as CustomerResponse;
-      if (!data.customers || data.customers.length === 0) return null;
+      if (!data.customers || data.customers.length === 0) return [];
 
       const unwrapped = data.customers.map((item: any) =>
         item.customer ? item.customer : item
-      );
-
-      // Return first match that has a phone (prefer established accounts over other kiosk records)
-      const withPhone = unwrapped.find((c: PosabitCustomer) => c.telephone);
-      if (withPhone) {
-        console.log('DOB+lastname match (with phone):', withPhone.first_name, withPhone.last_name, 'ID:', withPhone.id);
-        return withPhone;
-      }
+      ) as PosabitCustomer[];
 
-      // If no phone match, return first result
-      console.log('DOB+lastname match:', unwrapped[0].first_name, unwrapped[0].last_name, 'ID:', unwrapped[0].id);
-      return unwrapped[0];
+      console.log('DOB+lastname search:', unwrapped.length, 'candidates');
+      return unwrapped;
     } catch (err) {
       console.error('DOB+lastname search error:', err);
-      return null;
+      return [];
     }
   }
 
@@ -493,7 +582,7 @@ export class PosabitService {
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Failed to update customer: ${response.status} - ${errorText}`);
+      throw new Error(`Failed to update customer: ${response.status}${retryAfterNote(response)} - ${errorText}`);
     }
 
     const result = await response.json() as { customer?: PosabitCustomer } & PosabitCustomer;
@@ -526,4 +615,27 @@ export class PosabitService {
       return null;
     }
   }
+
+  // Whether a customer still exists, for reconciliation. Unlike fetchCustomerById, only a 404
+  // counts as "gone" — any other failure throws, so an outage never tombstones anyone.
+  async fetchCustomerStatus(customerId: number): Promise<{ status: RemoteCustomerStatus; customer: PosabitCustomer | null }> {
+    const response = await fetch(`${BASE_URL}/venue/customers/${customerId}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': this.authHeader,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (response.status === 404) {
+      return { status: classifyRemoteRecord(customerId, null), customer: null };
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch customer ${customerId}: ${response.status}${retryAfterNote(response)}`);
+    }
+
+    const data = await response.json() as { customer?: PosabitCustomer } & PosabitCustomer;
+    const customer = data.customer || data;
+    return { status: classifyRemoteRecord(customerId, customer), customer };
+  }
 }
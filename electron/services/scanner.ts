@@ -0,0 +1,337 @@
+// Scanner Service - One place that reads the barcode scanner and hands complete scans to the renderer
+//
+// Drivers:
+//   keyboard  — USB HID scanner in keyboard-wedge mode; keystrokes are read from the window's
+//               before-input-event so no screen needs a focused hidden input
+//   serial    — USB-serial / COM scanner read straight from the device path
+//               (/dev/ttyACM0, \\.\COM3); CDC-ACM scanners ignore baud rate
+//   simulated — replays files: every file dropped into the replay folder is sent as one scan
+
+import { BrowserWindow, Input, WebContents } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { ScanBuffer, KEYBOARD_WEDGE_OPTIONS, SERIAL_OPTIONS, keyToScanText, isControlText } from '../shared/scanBuffer.js';
+
+export type ScannerDriverType = 'keyboard' | 'serial' | 'simulated';
+
+export interface ScannerConfig {
+  driver: ScannerDriverType;
+  serialPath: string;
+  replayDir: string;
+}
+
+export interface ScanEvent {
+  data: string;
+  source: ScannerDriverType;
+  receivedAt: string;  // ISO timestamp
+  keyGapsMs: number[]; // ms between keystrokes (keyboard) or chunks (serial); empty for replays
+}
+
+export interface ScannerStatus {
+  driver: ScannerDriverType;
+  connected: boolean;
+  error: string | null;
+  scanCount: number;
+  lastScanAt: string | null;
+}
+
+interface ScannerDriver {
+  readonly type: ScannerDriverType;
+  readonly connected: boolean;
+  readonly error: string | null;
+  start(): void;
+  stop(): void;
+}
+
+const SERIAL_RETRY_MS = 5000;
+const DONE_SUFFIX = '.done';
+const RECENT_SCAN_LIMIT = 50;
+
+// Keystrokes reach the page until the buffer sees scanner speed; from then on they're held back.
+// Enter, Tab and Ctrl combinations are always held until the buffer decides, since Backspace
+// can't undo them. When the scan completes, the few printable keys that got through are
+// backspaced out of the focused field. If the burst turns out not to be a scan, the held keys
+// are typed back in.
+class KeyboardWedgeDriver implements ScannerDriver {
+  readonly type = 'keyboard' as const;
+  readonly connected = true;
+  readonly error = null;
+  private buffer: ScanBuffer;
+  private target: WebContents | null = null;
+  private passed = 0;
+  private held: { text: string; key: string; control: boolean }[] = [];
+  private replaying: string[] = [];  // control keys sent back to the page, let through once
+
+  constructor(emit: (data: string, gapsMs: number[]) => void) {
+    this.buffer = new ScanBuffer((data, gapsMs) => {
+      this.erasePassed();
+      emit(data, gapsMs);
+    }, KEYBOARD_WEDGE_OPTIONS, () => this.giveBackHeld());
+  }
+
+  start(): void {}
+
+  stop(): void {
+    this.buffer.reset();
+    this.passed = 0;
+    this.held = [];
+    this.replaying = [];
+  }
+
+  // Returns true if the keystroke is part of a scan and shouldn't reach the page
+  handleInput(input: Input, target: WebContents): boolean {
+    if (input.type !== 'keyDown' || input.alt || input.meta) return false;
+    if (this.replaying[0] === input.key) {
+      this.replaying.shift();
+      return false;
+    }
+    const text = keyToScanText(input.key, input.control);
+    if (!text) return false;
+
+    this.target = target;
+    if (this.buffer.push(text)) {
+      this.held.push({ text, key: input.key, control: input.control });
+      return true;
+    }
+    this.passed++;
+    return false;
+  }
+
+  private erasePassed(): void {
+    const count = this.passed;
+    this.passed = 0;
+    this.held = [];
+    if (!this.target || this.target.isDestroyed()) return;
+    for (let i = 0; i < count; i++) {
+      // Backspace maps to no scan text, so these don't come back through handleInput as a scan
+      this.target.sendInputEvent({ type: 'keyDown', keyCode: 'Backspace' });
+      this.target.sendInputEvent({ type: 'keyUp', keyCode: 'Backspace' });
+    }
+  }
+
+  private giveBackHeld(): void {
+    const held = this.held;
+    this.passed = 0;
+    this.held = [];
+    if (!this.target || this.target.isDestroyed()) return;
+    for (const { text, key, control } of held) {
+      if (isControlText(text)) {
+        // Handlers listen for the key itself; it comes back through handleInput, which lets it pass
+        this.replaying.push(key);
+        this.target.sendInputEvent({ type: 'keyDown', keyCode: key, modifiers: control ? ['control'] : [] });
+        this.target.sendInputEvent({ type: 'keyUp', keyCode: key, modifiers: control ? ['control'] : [] });
+      } else {
+        // char events don't raise before-input-event, so they go straight to the page
+        this.target.sendInputEvent({ type: 'char', keyCode: text });
+      }
+    }
+  }
+}
+
+class SerialDriver implements ScannerDriver {
+  readonly type = 'serial' as const;
+  private devicePath: string;
+  private buffer: ScanBuffer;
+  private stream: fs.ReadStream | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private stopped = true;
+  connected = false;
+  error: string | null = null;
+
+  constructor(devicePath: string, emit: (data: string, gapsMs: number[]) => void) {
+    this.devicePath = devicePath;
+    this.buffer = new ScanBuffer(emit, SERIAL_OPTIONS);
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.open();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.stream?.destroy();
+    this.stream = null;
+    this.connected = false;
+    this.buffer.flush();
+  }
+
+  private open(): void {
+    if (!this.devicePath) {
+      this.error = 'No serial port configured';
+      return;
+    }
+
+    const stream = fs.createReadStream(this.devicePath);
+    this.stream = stream;
+    stream.on('open', () => {
+      this.connected = true;
+      this.error = null;
+      console.log(`Scanner: serial port ${this.devicePath} open`);
+    });
+    stream.on('data', (chunk: Buffer | string) => {
+      this.buffer.push(chunk.toString());
+    });
+    stream.on('error', (err) => {
+      this.error = err.message;
+      console.error(`Scanner: serial port ${this.devicePath} error:`, err.message);
+    });
+    // Unplugged or failed to open — keep retrying so a reconnected scanner comes back on its own
+    stream.on('close', () => {
+      this.connected = false;
+      this.stream = null;
+      if (this.stopped) return;
+      this.retryTimer = setTimeout(() => this.open(), SERIAL_RETRY_MS);
+    });
+  }
+}
+
+class SimulatedDriver implements ScannerDriver {
+  readonly type = 'simulated' as const;
+  private replayDir: string;
+  private emit: (data: string, gapsMs: number[]) => void;
+  private watcher: fs.FSWatcher | null = null;
+  connected = false;
+  error: string | null = null;
+
+  constructor(replayDir: string, emit: (data: string, gapsMs: number[]) => void) {
+    this.replayDir = replayDir;
+    this.emit = emit;
+  }
+
+  start(): void {
+    try {
+      fs.mkdirSync(this.replayDir, { recursive: true });
+      this.watcher = fs.watch(this.replayDir, () => this.replayPending());
+      this.connected = true;
+      this.error = null;
+      this.replayPending();
+    } catch (err: any) {
+      this.error = err.message;
+      console.error('Scanner: replay folder error:', err.message);
+    }
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.connected = false;
+  }
+
+  // Send one file's contents as a scan
+  replayFile(filePath: string): void {
+    const data = fs.readFileSync(filePath, 'utf8').replace(/[\r\n]+$/, '');
+    if (data) this.emit(data, []);
+  }
+
+  private replayPending(): void {
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.replayDir).filter(f => !f.endsWith(DONE_SUFFIX) && !f.startsWith('.')).sort();
+    } catch {
+      return;
+    }
+    for (const file of files) {
+      const filePath = path.join(this.replayDir, file);
+      try {
+        if (!fs.statSync(filePath).isFile()) continue;
+        this.replayFile(filePath);
+        // Mark it done so it is not replayed again
+        fs.renameSync(filePath, filePath + DONE_SUFFIX);
+      } catch (err: any) {
+        console.error(`Scanner: failed to replay ${file}:`, err.message);
+      }
+    }
+  }
+}
+
+export class ScannerService {
+  private config: ScannerConfig;
+  private driver: ScannerDriver | null = null;
+  private _scanCount: number = 0;
+  private _lastScanAt: string | null = null;
+  // Last few scans, in memory only, for the AdminPanel scan diagnostics
+  private recentScans: ScanEvent[] = [];
+
+  constructor(config: ScannerConfig) {
+    this.config = config;
+  }
+
+  get status(): ScannerStatus {
+    return {
+      driver: this.config.driver,
+      connected: this.driver?.connected ?? false,
+      error: this.driver?.error ?? null,
+      scanCount: this._scanCount,
+      lastScanAt: this._lastScanAt,
+    };
+  }
+
+  start(): void {
+    this.stop();
+    const emit = (data: string, gapsMs: number[]) => this.sendScan(data, gapsMs);
+    switch (this.config.driver) {
+      case 'serial':
+        this.driver = new SerialDriver(this.config.serialPath, emit);
+        break;
+      case 'simulated':
+        this.driver = new SimulatedDriver(this.config.replayDir, emit);
+        break;
+      default:
+        this.driver = new KeyboardWedgeDriver(emit);
+    }
+    this.driver.start();
+    console.log(`Scanner: ${this.driver.type} driver started`);
+  }
+
+  stop(): void {
+    this.driver?.stop();
+    this.driver = null;
+  }
+
+  // Switch drivers (AdminPanel) — restarts the active driver
+  reconfigure(config: ScannerConfig): void {
+    this.config = config;
+    this.start();
+  }
+
+  // Keystrokes from the main window (called from its before-input-event handler). Returns true
+  // when the keystroke belongs to a scan and the handler should preventDefault it.
+  handleKeyboardInput(input: Input, target: WebContents): boolean {
+    if (this.driver instanceof KeyboardWedgeDriver) {
+      return this.driver.handleInput(input, target);
+    }
+    return false;
+  }
+
+  // Replay one file as a scan regardless of the active driver (testing without a scanner)
+  replayFile(filePath: string): void {
+    new SimulatedDriver(this.config.replayDir, (data) => this.sendScan(data, [])).replayFile(filePath);
+  }
+
+  // Newest first
+  getRecentScans(limit: number = RECENT_SCAN_LIMIT): ScanEvent[] {
+    return this.recentScans.slice(0, limit);
+  }
+
+  // Send a complete scan to the renderer
+  private sendScan(data: string, keyGapsMs: number[]): void {
+    const event: ScanEvent = {
+      data,
+      source: this.driver?.type ?? this.config.driver,
+      receivedAt: new Date().toISOString(),
+      keyGapsMs,
+    };
+    this._scanCount++;
+    this._lastScanAt = event.receivedAt;
+    this.recentScans = [event, ...this.recentScans].slice(0, RECENT_SCAN_LIMIT);
+    const windows = BrowserWindow.getAllWindows();
+    for (const win of windows) {
+      win.webContents.send('scanner-scan', event);
+    }
+  }
+}
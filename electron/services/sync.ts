@@ -1,9 +1,25 @@
-// Sync Service - Handles customer sync and offline queue sync
+// Sync Service - Handles customer sync and offline queue sync, run on a schedule by SyncScheduler
 
 import { BrowserWindow } from 'electron';
 import Store from 'electron-store';
-import { PosabitService } from './posabit.js';
-import { upsertCustomers, getCustomerCount, getUnsyncedEntries, markEntrySynced } from './database.js';
+import { PosabitService, PosabitQueueItem, PosabitCustomer } from './posabit.js';
+import {
+  upsertCustomers, getCustomerCount, getUnsyncedEntries, getDueEntries, getNextAttemptAt, resetEntryBackoff, markEntryPosting, markEntrySynced, markEntryFailed,
+  getActiveCustomerIds, getCustomerById, tombstoneCustomer,
+  getDuePendingCustomers, resetPendingCustomerBackoff, markPendingCustomerPosting, markPendingCustomerFailed, resolvePendingCustomer,
+  getFullSyncCheckpoint, saveFullSyncPage, clearFullSyncCheckpoint, getCustomerIdsSyncedSince,
+} from './database.js';
+import { nextRetryDelay, shouldDeadLetter, httpStatusFromError, findPostedQueueItem } from '../shared/offlineQueue.js';
+import { findCreatedCustomer } from '../shared/pendingCustomers.js';
+import { resumePage, FullSyncCheckpoint } from '../shared/fullSync.js';
+import { planReconciliation, ReconcileResult } from '../shared/reconcile.js';
+import { SyncJobName, SyncJobTrigger, SyncSchedule, normalizeSyncSchedule } from '../shared/syncSchedule.js';
+import { SyncScheduler, SyncJobRunner, SyncJobOutcome, SyncJobStatus } from './syncScheduler.js';
+import type { ExpiredIdPolicy } from '../shared/idExpiry.js';
+import type { ScannerConfig } from './scanner.js';
+import type { RetentionPolicies } from '../shared/retention.js';
+import type { DeletionLogHead } from './deletionLog.js';
+import type { CrossVenuePolicy } from '../shared/crossVenue.js';
 
 // Store schema type (must match main.ts StoreSchema)
 interface StoreSchema {
@@ -13,14 +29,24 @@ interface StoreSchema {
   showHomeInfoPanel: boolean;
   incogweedoEnabled: boolean;
   blockedWords: string[];
+  expiredIdPolicies: Record<string, ExpiredIdPolicy>;
+  idVerificationRetentionDays: number;
+  retentionPolicies: RetentionPolicies;
+  deletionLogHead: DeletionLogHead | null;  // last deletion record, kept outside the database
+  crossVenuePolicies: Record<string, CrossVenuePolicy>;  // keyed by venue id
+  lastReconcile: ReconcileResult | null;
+  syncSchedules: Record<string, SyncSchedule>;  // keyed by venue id
+  scanner: ScannerConfig;
 }
 
 export class SyncService {
   private posabit: PosabitService;
   private store: Store<StoreSchema>;
   private venueId: string;
-  private syncInterval: NodeJS.Timeout | null = null;
+  private scheduler: SyncScheduler;
+  private queueTimer: NodeJS.Timeout | null = null;
   private _isSyncing: boolean = false;
+  private _isDrainingQueue: boolean = false;
   private _customerCount: number = 0;
   private _progress: { current: number; total: number } | null = null;
 
@@ -29,6 +55,16 @@ export class SyncService {
     this.store = store;
     this.venueId = venueId;
     this._customerCount = getCustomerCount(venueId);
+    this.scheduler = new SyncScheduler(venueId, this.jobRunners(), () => this.schedule);
+  }
+
+  get schedule(): SyncSchedule {
+    const schedules = this.store.get('syncSchedules') as Record<string, SyncSchedule> | undefined;
+    return normalizeSyncSchedule(schedules?.[this.venueId]);
+  }
+
+  get jobStatus(): SyncJobStatus[] {
+    return this.scheduler.status();
   }
 
   get isSyncing(): boolean {
@@ -61,58 +97,99 @@ export class SyncService {
     }
   }
 
-  // Full sync - fetches all customers (for first install or manual resync)
-  async fullSync(): Promise<void> {
+  // The interrupted full sync this one would resume, for the AdminPanel
+  get fullSyncCheckpoint(): FullSyncCheckpoint | null {
+    return getFullSyncCheckpoint(this.venueId);
+  }
+
+  // Full sync - fetches all customers (for first install or manual resync). Each page is written
+  // with a checkpoint as it arrives, so an interrupted download resumes where it stopped
+  // (shared/fullSync.ts) and lookups work on the customers so far. Returns the count.
+  async fullSync(): Promise<number> {
     if (this._isSyncing) {
       console.log('Sync already in progress');
-      return;
+      return 0;
     }
 
     this._isSyncing = true;
-    console.log('Starting full customer sync...');
+
+    const checkpoint = getFullSyncCheckpoint(this.venueId);
+    const startPage = resumePage(checkpoint);
+    const startedAt = startPage > 1 ? checkpoint!.started_at : new Date().toISOString();
+    let fetched = 0;
+    let lastPage = startPage - 1;
+
+    if (startPage > 1) {
+      console.log(`Resuming full customer sync at page ${startPage} of ${checkpoint!.total_pages} (started ${startedAt})...`);
+    } else {
+      console.log('Starting full customer sync...');
+    }
 
     try {
-      const customers = await this.posabit.fetchAllCustomers((current, total) => {
-        this.sendProgress(current, total);
-        if (current % 1000 === 0) {
-          console.log(`Sync progress: ${current}/${total}`);
+      await this.posabit.fetchCustomerPages(startPage, (customers, response) => {
+        // Log sample of what we got from API
+        if (response.current_page === 1 && customers.length > 0) {
+          console.log('=== SAMPLE CUSTOMER FROM API ===');
+          console.log(JSON.stringify(customers[0], null, 2));
+          const withPhone = customers.filter(c => c.telephone).length;
+          console.log(`Customers with phone from API (first page): ${withPhone}/${customers.length}`);
+          console.log('================================');
         }
-      });
-
-      // Log sample of what we got from API
-      if (customers.length > 0) {
-        console.log('=== SAMPLE CUSTOMER FROM API ===');
-        console.log(JSON.stringify(customers[0], null, 2));
-        const withPhone = customers.filter(c => c.telephone).length;
-        console.log(`Customers with phone from API: ${withPhone}/${customers.length}`);
-        console.log('================================');
-      }
 
-      const inserted = upsertCustomers(customers, this.venueId);
-      this._customerCount = getCustomerCount(this.venueId);
+        // Position in the list rather than a running total — a resumed sync refetches its last page
+        fetched = (response.current_page - 1) * response.per_page + customers.length;
+        lastPage = response.current_page;
+        saveFullSyncPage(customers, {
+          venue_id: this.venueId,
+          started_at: startedAt,
+          last_page: response.current_page,
+          total_pages: response.total_pages,
+          total_records: response.total_records,
+          fetched,
+        });
+        this._customerCount = getCustomerCount(this.venueId);
 
-      this.store.set('lastSyncTime', new Date().toISOString());
+        this.sendProgress(fetched, response.total_records);
+        if (fetched % 1000 === 0) {
+          console.log(`Sync progress: ${fetched}/${response.total_records}`);
+        }
+      }, this.schedule.pageDelayMs);
+
+      // Updates made while the download ran (maybe over several sessions) are picked up by the
+      // next incremental sync
+      clearFullSyncCheckpoint(this.venueId);
+      this.store.set('lastSyncTime', startedAt);
+
+      // Every listed customer was written since the download began — use that to catch
+      // deleted / merged customers
+      try {
+        await this.reconcileAgainst(new Set(getCustomerIdsSyncedSince(this.venueId, startedAt)));
+      } catch (error) {
+        console.error('Reconcile after full sync failed:', error);
+      }
+      this._customerCount = getCustomerCount(this.venueId);
 
-      console.log(`Full sync complete: ${inserted} customers`);
+      console.log(`Full sync complete: ${fetched} customers`);
       this.sendComplete();
+      return fetched;
     } catch (error) {
-      console.error('Full sync failed:', error);
+      console.error(`Full sync stopped after page ${lastPage}; the next full sync resumes there:`, error);
       throw error;
     } finally {
       this._isSyncing = false;
     }
   }
 
-  // Incremental sync - only fetches customers updated since last sync
-  async incrementalSync(): Promise<void> {
+  // Incremental sync - only fetches customers updated since last sync. Returns the count.
+  async incrementalSync(): Promise<number> {
     if (this._isSyncing) {
       console.log('Sync already in progress');
-      return;
+      return 0;
     }
 
     const lastSync = this.store.get('lastSyncTime') as string | null;
-    if (!lastSync) {
-      // No previous sync, do full sync
+    if (!lastSync || getFullSyncCheckpoint(this.venueId)) {
+      // No previous sync, or a full sync was cut short — finish that first
       return this.fullSync();
     }
 
@@ -149,75 +226,308 @@ export class SyncService {
       this.store.set('lastSyncTime', new Date().toISOString());
 
       console.log(`Incremental sync complete: ${totalUpdated} customers updated`);
+      return totalUpdated;
     } catch (error) {
       console.error('Incremental sync failed:', error);
+      throw error;
     } finally {
       this._isSyncing = false;
     }
   }
 
-  // Sync offline queue entries to POSaBIT
-  async syncOfflineQueue(): Promise<void> {
-    const unsyncedEntries = getUnsyncedEntries(this.venueId);
+  // Reconcile - tombstone local customers POSaBIT no longer has (deleted or merged).
+  // Incremental sync only sees updated records, so without this they'd stay matchable forever.
+  async reconcile(): Promise<ReconcileResult | null> {
+    if (this._isSyncing) {
+      console.log('Sync already in progress');
+      return null;
+    }
+
+    this._isSyncing = true;
+    console.log('Starting customer reconcile...');
 
-    if (unsyncedEntries.length === 0) {
-      return;
+    try {
+      // Refreshes every listed customer on the way — upserting also clears a stale tombstone
+      const customers = await this.posabit.fetchAllCustomers(undefined, this.schedule.pageDelayMs);
+      upsertCustomers(customers, this.venueId);
+      const result = await this.reconcileAgainst(new Set(customers.map(c => c.id)));
+      this._customerCount = getCustomerCount(this.venueId);
+      return result;
+    } catch (error) {
+      console.error('Reconcile failed:', error);
+      throw error;
+    } finally {
+      this._isSyncing = false;
     }
+  }
 
-    console.log(`Syncing ${unsyncedEntries.length} offline queue entries...`);
+  // Diff the local IDs against the remote set, confirm each missing ID with POSaBIT, and
+  // tombstone the ones that are really gone. Stops at the first API error.
+  private async reconcileAgainst(remoteIds: Set<number>): Promise<ReconcileResult> {
+    const local = getActiveCustomerIds(this.venueId);
+    const plan = planReconciliation(local, remoteIds);
+    const result: ReconcileResult = {
+      at: new Date().toISOString(),
+      remoteCount: remoteIds.size,
+      localCount: local.length,
+      missing: plan.missing,
+      checked: 0,
+      tombstoned: 0,
+      merged: 0,
+      skipped: plan.skipped,
+    };
+
+    if (plan.skipped) {
+      console.warn('Reconcile skipped:', plan.skipped);
+    }
 
-    for (const entry of unsyncedEntries) {
+    for (const customerId of plan.toConfirm) {
+      let confirmed: Awaited<ReturnType<PosabitService['fetchCustomerStatus']>>;
       try {
-        await this.posabit.addToQueue({
-          name: entry.name,
-          telephone: entry.phone || undefined,
-          customerId: entry.customer_id || undefined,
-        });
+        confirmed = await this.posabit.fetchCustomerStatus(customerId);
+      } catch (error: any) {
+        // Don't guess — the rest wait for the next pass
+        result.skipped = `Stopped after ${result.checked} checks: ${error.message}`;
+        console.error('Reconcile stopped:', error);
+        break;
+      }
+      const { status, customer } = confirmed;
+      result.checked++;
+
+      if (status.status === 'active') {
+        // Outside the list's date window but still there — refresh it so it goes to the back
+        if (customer) upsertCustomers([customer], this.venueId);
+      } else if (status.status === 'deleted') {
+        tombstoneCustomer(customerId);
+        result.tombstoned++;
+        console.log(`Reconcile: customer ${customerId} deleted in POSaBIT`);
+      } else {
+        // Cache the survivor first so references moved to it resolve locally
+        if (!getCustomerById(status.survivorId, this.venueId)) {
+          const survivor = await this.posabit.fetchCustomerById(status.survivorId);
+          if (survivor) upsertCustomers([survivor], this.venueId);
+        }
+        const moved = tombstoneCustomer(customerId, status.survivorId);
+        result.merged++;
+        console.log(`Reconcile: customer ${customerId} merged into ${status.survivorId}`,
+          `(${moved.matchChoices} remembered picks, ${moved.offlineQueue} queued check-ins moved)`);
+      }
 
-        markEntrySynced(entry.id!);
-        console.log(`Synced offline entry ${entry.id}`);
-      } catch (error) {
-        console.error(`Failed to sync offline entry ${entry.id}:`, error);
-        // Continue with other entries
+      // Small delay to avoid rate limiting
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    this.store.set('lastReconcile', result);
+    console.log(`Reconcile complete: ${result.missing} missing, ${result.checked} checked, ` +
+      `${result.tombstoned} deleted, ${result.merged} merged`);
+    return result;
+  }
+
+  // Create customers taken while POSaBIT was offline (see shared/pendingCustomers.ts), so their
+  // check-ins can post in the same pass. reachable is false if POSaBIT stopped answering.
+  private async syncPendingCustomers(): Promise<{ created: number; reachable: boolean }> {
+    const due = getDuePendingCustomers(this.venueId);
+    let created = 0;
+    if (due.length === 0) return { created, reachable: true };
+
+    console.log(`Creating ${due.length} pending customers...`);
+
+    for (const pending of due) {
+      if (!pending.request) continue;
+      const request = pending.request;
+      let attempted = false;
+      try {
+        // An interrupted create without a DL has no duplicate check to fall back on — look first
+        let customer: PosabitCustomer | null = null;
+        if (pending.posting_started_at && !request.driversLicense) {
+          customer = findCreatedCustomer(request, pending.posting_started_at, await this.posabit.searchCustomersByPhone(request.telephone));
+        }
+        if (!customer) {
+          markPendingCustomerPosting(pending.id);
+          attempted = true;
+          // A duplicate DL comes back as the existing record (createCustomer's 422 recovery)
+          customer = await this.posabit.createCustomer(request);
+        }
+
+        // Older than the signup: POSaBIT already had them (made at the till, or our earlier POST)
+        const linked = !!customer.created_at && new Date(customer.created_at).getTime() < new Date(pending.created_at).getTime();
+        if (linked && request.loyaltyOptIn && !customer.loyalty_member) {
+          customer = await this.posabit.updateCustomer(customer.id, { loyaltyMember: true, marketingOptIn: true, email: request.email });
+        }
+
+        upsertCustomers([customer], this.venueId);
+        const moved = resolvePendingCustomer(pending.id, customer.id, linked ? 'linked' : 'created');
+        created++;
+        console.log(`Pending customer ${pending.id} ${linked ? 'linked to' : 'created as'} ${customer.id}; ${moved} check-ins re-pointed`);
+      } catch (error: any) {
+        const message = error?.message || String(error);
+        const attempts = pending.attempts + (attempted ? 1 : 0);
+        const outcomeKnown = !attempted || httpStatusFromError(message) !== null;
+
+        if (shouldDeadLetter(attempts, message)) {
+          markPendingCustomerFailed(pending.id, message, null, outcomeKnown);
+          console.warn(`Pending customer ${pending.id} failed after ${attempts} attempts:`, message);
+        } else {
+          const nextAttemptAt = new Date(Date.now() + nextRetryDelay(attempts)).toISOString();
+          markPendingCustomerFailed(pending.id, message, nextAttemptAt, outcomeKnown);
+          console.error(`Failed to create pending customer ${pending.id} (attempt ${attempts}, next ${nextAttemptAt}):`, message);
+        }
+
+        if (httpStatusFromError(message) === null) return { created, reachable: false };
       }
     }
+    return { created, reachable: true };
   }
 
-  // Start background sync (called after venue selection)
-  startBackgroundSync(): void {
-    // Do initial sync in background (non-blocking)
-    const lastSync = this.store.get('lastSyncTime') as string | null;
+  // Sync offline queue entries to POSaBIT - the ones whose backoff has elapsed (see shared/offlineQueue.ts).
+  // Returns how many pending customers and check-ins made it.
+  async syncOfflineQueue(): Promise<number> {
+    if (this._isDrainingQueue) return 0;
+    this._isDrainingQueue = true;
+    let synced = 0;
 
-    if (!lastSync) {
-      // First install - full sync in background
-      console.log('First install detected, starting background full sync...');
-      this.fullSync().catch(err => console.error('Background sync error:', err));
-    } else {
-      // Incremental sync
-      this.incrementalSync().catch(err => console.error('Background sync error:', err));
+    try {
+      const pending = await this.syncPendingCustomers();
+      synced += pending.created;
+      if (!pending.reachable) return synced;
+
+      const dueEntries = getDueEntries(this.venueId);
+      if (dueEntries.length === 0) {
+        return synced;
+      }
+
+      console.log(`Syncing ${dueEntries.length} offline queue entries...`);
+
+      // Fetched once, only if an entry's last POST was interrupted
+      let queue: PosabitQueueItem[] | null = null;
+
+      for (const entry of dueEntries) {
+        let attempted = false;
+        try {
+          if (entry.posting_started_at) {
+            queue = queue ?? (await this.posabit.getQueue()).customer_queues;
+            const posted = findPostedQueueItem({ ...entry, posting_started_at: entry.posting_started_at }, queue);
+            if (posted) {
+              markEntrySynced(entry.id!);
+              synced++;
+              console.log(`Offline entry ${entry.id} was already on the queue (customer_queue_id ${posted.customer_queue_id})`);
+              continue;
+            }
+          }
+
+          markEntryPosting(entry.id!);
+          attempted = true;
+          await this.posabit.addToQueue({
+            name: entry.name,
+            telephone: entry.phone || undefined,
+            customerId: entry.customer_id || undefined,
+          }, entry.idempotency_key);
+
+          markEntrySynced(entry.id!);
+          synced++;
+          console.log(`Synced offline entry ${entry.id}`);
+        } catch (error: any) {
+          const message = error?.message || String(error);
+          const attempts = entry.attempts + (attempted ? 1 : 0);
+          const outcomeKnown = !attempted || httpStatusFromError(message) !== null;
+
+          if (shouldDeadLetter(attempts, message)) {
+            markEntryFailed(entry.id!, message, null, outcomeKnown);
+            console.warn(`Offline entry ${entry.id} dead-lettered after ${attempts} attempts:`, message);
+          } else {
+            const nextAttemptAt = new Date(Date.now() + nextRetryDelay(attempts)).toISOString();
+            markEntryFailed(entry.id!, message, nextAttemptAt, outcomeKnown);
+            console.error(`Failed to sync offline entry ${entry.id} (attempt ${attempts}, next ${nextAttemptAt}):`, message);
+          }
+
+          // No response at all — still offline, the rest would fail the same way
+          if (httpStatusFromError(message) === null) break;
+        }
+      }
+      return synced;
+    } finally {
+      this._isDrainingQueue = false;
+      this.scheduleQueueDrain();
+    }
+  }
+
+  // POSaBIT is reachable again — retry entries that were waiting out a network failure now
+  drainOfflineQueueNow(): void {
+    const waiting = getUnsyncedEntries(this.venueId)
+      .filter(entry => !entry.last_error || httpStatusFromError(entry.last_error) === null)
+      .map(entry => entry.id!);
+    if (waiting.length > 0) resetEntryBackoff(waiting);
+    resetPendingCustomerBackoff(this.venueId);
+    this.runJob('queueDrain', 'reconnect').catch(err => console.error('Offline sync error:', err));
+  }
+
+  // Wake up when the next entry's backoff runs out instead of waiting for the scheduled drain
+  scheduleQueueDrain(): void {
+    if (this.queueTimer) {
+      clearTimeout(this.queueTimer);
+      this.queueTimer = null;
     }
 
-    // Also sync any offline queue entries
-    this.syncOfflineQueue().catch(err => console.error('Offline sync error:', err));
+    const next = getNextAttemptAt(this.venueId);
+    if (!next) return;
 
-    // Setup periodic sync (every 15 minutes)
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
+    const delay = Math.max(1000, new Date(next).getTime() - Date.now());
+    this.queueTimer = setTimeout(() => {
+      this.queueTimer = null;
+      this.runJob('queueDrain', 'retry').catch(err => console.error('Offline sync error:', err));
+    }, delay);
+  }
+
+  // Run one sync job now through the scheduler, so it lands in the job history
+  runJob(job: SyncJobName, trigger: SyncJobTrigger): Promise<SyncJobOutcome | null> {
+    return this.scheduler.run(job, trigger);
+  }
+
+  // Job bodies for the scheduler. The customer jobs share one in-progress flag, so a run that
+  // finds another one going is recorded as skipped rather than as an empty success.
+  private jobRunners(): Record<SyncJobName, SyncJobRunner> {
+    const busy: SyncJobOutcome = { rows: 0, skipped: 'Another customer sync was running' };
+    return {
+      incremental: async () => this._isSyncing ? busy : { rows: await this.incrementalSync() },
+      queueDrain: async () => {
+        // Nothing due isn't worth a history row every few minutes
+        if (getDuePendingCustomers(this.venueId).length === 0 && getDueEntries(this.venueId).length === 0) return null;
+        return { rows: await this.syncOfflineQueue() };
+      },
+      reconcile: async () => {
+        if (this._isSyncing) return busy;
+        const result = await this.reconcile();
+        if (!result) return busy;
+        return { rows: result.checked, skipped: result.skipped ?? undefined };
+      },
+      fullResync: async () => this._isSyncing ? busy : { rows: await this.fullSync() },
+    };
+  }
+
+  // Start background sync (called after venue selection)
+  startBackgroundSync(): void {
+    // Catch up in the background (non-blocking): everything on first install or after an
+    // interrupted full sync, updates otherwise
+    const lastSync = this.store.get('lastSyncTime') as string | null;
+    const full = !lastSync || this.fullSyncCheckpoint !== null;
+    if (full) {
+      console.log(lastSync ? 'Resuming interrupted full sync in background...' : 'First install detected, starting background full sync...');
     }
+    this.runJob(full ? 'fullResync' : 'incremental', 'startup').catch(err => console.error('Background sync error:', err));
 
-    this.syncInterval = setInterval(() => {
-      this.incrementalSync().catch(err => console.error('Periodic sync error:', err));
-      this.syncOfflineQueue().catch(err => console.error('Offline sync error:', err));
-    }, 15 * 60 * 1000); // 15 minutes
+    // Also sync any offline queue entries
+    this.runJob('queueDrain', 'startup').catch(err => console.error('Offline sync error:', err));
 
-    console.log('Background sync started (15 minute interval)');
+    this.scheduler.start();
+    console.log('Background sync scheduler started');
   }
 
   // Stop background sync
   stopBackgroundSync(): void {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
-      this.syncInterval = null;
+    this.scheduler.stop();
+    if (this.queueTimer) {
+      clearTimeout(this.queueTimer);
+      this.queueTimer = null;
     }
   }
 }
@@ -0,0 +1,166 @@
+// Sync Scheduler - runs the background sync jobs on the venue's schedule (shared/syncSchedule.ts)
+// and records every run in sync_job_runs for the AdminPanel job history
+
+import { recordSyncJobRun, getLastSyncJobStarts } from './database.js';
+import {
+  SyncJobName,
+  SyncJobTrigger,
+  SyncSchedule,
+  SYNC_JOBS,
+  SCHEDULER_TICK_MS,
+  isStoreOpen,
+  isJobDue,
+  jobInterval,
+  isBackoffError,
+  jobBackoffMs,
+  retryAfterFromError,
+} from '../shared/syncSchedule.js';
+
+// What a run did — rows for the history, or why it didn't do its work. A runner returns null
+// when there was nothing to do (an empty offline queue), and that run isn't recorded.
+export interface SyncJobOutcome {
+  rows: number;
+  skipped?: string;
+}
+
+export type SyncJobRunner = () => Promise<SyncJobOutcome | null>;
+
+export interface SyncJobStatus {
+  job: SyncJobName;
+  running: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;      // null while the job is off at this time of day
+  failures: number;              // in a row, counting toward the backoff
+  backoffUntil: string | null;
+}
+
+export class SyncScheduler {
+  private venueId: string;
+  private runners: Record<SyncJobName, SyncJobRunner>;
+  private getSchedule: () => SyncSchedule;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: boolean = false;
+  private running = new Set<SyncJobName>();
+  private lastRunAt: Partial<Record<SyncJobName, number>> = {};
+  private backoff: Partial<Record<SyncJobName, { failures: number; until: number }>> = {};
+
+  constructor(venueId: string, runners: Record<SyncJobName, SyncJobRunner>, getSchedule: () => SyncSchedule) {
+    this.venueId = venueId;
+    this.runners = runners;
+    this.getSchedule = getSchedule;
+
+    // Pick up where the last session left off, so a weekly job doesn't rerun on every restart
+    const starts = getLastSyncJobStarts(venueId);
+    for (const job of SYNC_JOBS) {
+      const started = starts[job];
+      if (started) this.lastRunAt[job] = new Date(started).getTime();
+    }
+  }
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.tick().catch(err => console.error('Sync scheduler error:', err));
+    }, SCHEDULER_TICK_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run a job now, whatever the schedule says. Returns null if it's already running.
+  // Throws the job's error (after recording it and, for 429 / 5xx / no response, backing off).
+  async run(job: SyncJobName, trigger: SyncJobTrigger): Promise<SyncJobOutcome | null> {
+    if (this.running.has(job)) return null;
+    this.running.add(job);
+
+    const startedAt = new Date();
+    this.lastRunAt[job] = startedAt.getTime();
+    const record = (status: 'ok' | 'skipped' | 'error', rows: number | null, error: string | null) => {
+      try {
+        recordSyncJobRun({
+          venue_id: this.venueId,
+          job,
+          trigger,
+          status,
+          started_at: startedAt.toISOString(),
+          finished_at: new Date().toISOString(),
+          rows,
+          error,
+        });
+      } catch (e) {
+        console.error('Failed to record sync job run:', e);
+      }
+    };
+
+    try {
+      const outcome = await this.runners[job]();
+      delete this.backoff[job];
+      if (outcome) record(outcome.skipped ? 'skipped' : 'ok', outcome.rows, outcome.skipped ?? null);
+      return outcome;
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      record('error', null, message);
+
+      if (isBackoffError(message)) {
+        const failures = (this.backoff[job]?.failures ?? 0) + 1;
+        const wait = jobBackoffMs(failures, retryAfterFromError(message));
+        this.backoff[job] = { failures, until: Date.now() + wait };
+        console.warn(`Sync job ${job} failed ${failures}x in a row — next try in ${Math.round(wait / 1000)}s:`, message);
+      } else {
+        console.error(`Sync job ${job} failed:`, message);
+      }
+      throw error;
+    } finally {
+      this.running.delete(job);
+    }
+  }
+
+  status(now: number = Date.now()): SyncJobStatus[] {
+    const schedule = this.getSchedule();
+    const open = isStoreOpen(schedule.storeHours, new Date(now));
+    return SYNC_JOBS.map(job => {
+      const last = this.lastRunAt[job] ?? null;
+      const backoff = this.backoff[job];
+      const interval = jobInterval(schedule.jobs[job], open);
+      const next = interval === null ? null : backoff ? backoff.until : last === null ? now : last + interval * 60 * 1000;
+      return {
+        job,
+        running: this.running.has(job),
+        lastRunAt: last === null ? null : new Date(last).toISOString(),
+        nextRunAt: next === null ? null : new Date(next).toISOString(),
+        failures: backoff?.failures ?? 0,
+        backoffUntil: backoff ? new Date(backoff.until).toISOString() : null,
+      };
+    });
+  }
+
+  // A job backing off is retried when its wait is over, rather than at its next interval
+  private isDue(job: SyncJobName, schedule: SyncSchedule, open: boolean, now: number): boolean {
+    if (this.running.has(job)) return false;
+    const backoff = this.backoff[job];
+    if (backoff) return jobInterval(schedule.jobs[job], open) !== null && now >= backoff.until;
+    return isJobDue(schedule.jobs[job], open, this.lastRunAt[job] ?? null, now);
+  }
+
+  // Due jobs run one after another — the customer jobs would only turn each other away
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const schedule = this.getSchedule();
+      const now = Date.now();
+      const open = isStoreOpen(schedule.storeHours, new Date(now));
+      for (const job of SYNC_JOBS) {
+        if (!this.isDue(job, schedule, open, now)) continue;
+        await this.run(job, this.backoff[job] ? 'retry' : 'schedule').catch(() => {});   // recorded and logged by run
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
@@ -0,0 +1,621 @@
+// AAMVA PDF417 parser - shared by the kiosk screens (IDScan, GuestEntry) and the main process
+// Pure TypeScript: no Electron, Node or DOM imports, so both the Vite bundle and dist-electron can use it.
+//
+// Card layout (AAMVA DL/ID Card Design Standard, Annex D):
+//   "@"            compliance indicator
+//   "\n\x1E\r"     data element separator, record separator, segment terminator
+//   "ANSI "        file type ("AAMVA" on pre-2000 cards)
+//   NNNNNN         IIN - Issuer Identification Number (636045 = Washington)
+//   NN             AAMVA version number
+//   NN             jurisdiction version number (absent on version 1 cards)
+//   NN             number of subfile entries
+//   TTOOOOLLLL     one designator per subfile: type ("DL", "ID", "ZW"...), offset, length
+//   DLDAQ...\n...  subfiles - type followed by "\n"-separated data elements, "\r" terminated
+//
+// Keyboard-wedge scanners often drop the control characters, which breaks the offsets.
+// The parser prefers offsets when they line up, then separators, then a scan for known element IDs.
+
+// Every data element ID defined across AAMVA versions 1-10 (plus the non-standard DFN/DLN/DEN
+// some jurisdictions emit). Jurisdiction-specific Z* elements are only picked up when delimited.
+export const AAMVA_ELEMENT_IDS = [
+  'DAA', 'DAB', 'DAC', 'DAD', 'DAE', 'DAF', 'DAG', 'DAH', 'DAI', 'DAJ', 'DAK', 'DAL', 'DAM', 'DAN', 'DAO', 'DAP', 'DAQ', 'DAR', 'DAS', 'DAT', 'DAU', 'DAV', 'DAW', 'DAX', 'DAY', 'DAZ',
+  'DBA', 'DBB', 'DBC', 'DBD', 'DBE', 'DBF', 'DBG', 'DBH', 'DBI', 'DBJ', 'DBK', 'DBL', 'DBM', 'DBN', 'DBO', 'DBP', 'DBQ', 'DBR', 'DBS',
+  'DCA', 'DCB', 'DCC', 'DCD', 'DCE', 'DCF', 'DCG', 'DCH', 'DCI', 'DCJ', 'DCK', 'DCL', 'DCM', 'DCN', 'DCO', 'DCP', 'DCQ', 'DCR', 'DCS', 'DCT', 'DCU',
+  'DDA', 'DDB', 'DDC', 'DDD', 'DDE', 'DDF', 'DDG', 'DDH', 'DDI', 'DDJ', 'DDK', 'DDL',
+  'DFN', 'DLN', 'DEN',
+];
+
+const ELEMENT_ID_SET = new Set(AAMVA_ELEMENT_IDS);
+
+// When two element IDs overlap in undelimited data (e.g. "BEAMGUARDDAC" → "DDA" before "DAC"),
+// keep the one we actually read
+const PRIORITY_ELEMENT_IDS = new Set(['DCS', 'DAC', 'DAD', 'DAQ', 'DBB', 'DAG', 'DAI', 'DAJ', 'DAK', 'DBA', 'DBC', 'DAY', 'DAU', 'DBD', 'DCA', 'DCB', 'DCD', 'DCF', 'DCG']);
+
+// Anything a scanner may send between elements: LF, CR, record/group separators
+const SEPARATOR_REGEX = /[\x0A\x0D\x1C\x1D\x1E]+/;
+
+// Fewer delimited elements than this means separators were mostly dropped
+const MIN_DELIMITED_ELEMENTS = 5;
+
+export interface AamvaSubfileDesignator {
+  type: string;     // "DL", "ID", or a jurisdiction subfile such as "ZW"
+  offset: number;   // byte offset from the compliance indicator
+  length: number;
+}
+
+export interface AamvaHeader {
+  complianceIndicator: boolean;       // "@" present at the start
+  fileType: string;                   // "ANSI " or "AAMVA"
+  iin: string;
+  aamvaVersion: number;
+  jurisdictionVersion: number | null;
+  numberOfEntries: number;
+  subfiles: AamvaSubfileDesignator[];
+  start: number;                      // index of the file type in the raw scan
+  end: number;                        // index just past the last designator
+}
+
+// How an element value was located in the raw scan
+//   offset    - designator offset/length lined up with the subfile type
+//   delimited - split on element separators
+//   scan      - searched for known element IDs (separators were stripped by the scanner)
+export type AamvaElementSource = 'offset' | 'delimited' | 'scan';
+
+export interface AamvaElement {
+  id: string;
+  value: string;
+  subfile: string | null;   // null when the scan had no usable header
+  source: AamvaElementSource;
+}
+
+export interface AamvaSubfile {
+  type: string;
+  start: number;            // index of the subfile type in the raw scan
+  end: number;
+  source: AamvaElementSource;
+  elements: Record<string, AamvaElement>;
+}
+
+export interface AamvaDocument {
+  header: AamvaHeader | null;
+  subfiles: AamvaSubfile[];
+  // Merged view - DL/ID subfile values win over jurisdiction subfiles and headerless scans
+  elements: Record<string, AamvaElement>;
+}
+
+// Where a normalized ParsedLicense field came from
+export interface FieldProvenance {
+  element: string;
+  subfile: string | null;
+  source: AamvaElementSource;
+}
+
+export interface ParsedLicense {
+  firstName: string;
+  lastName: string;
+  middleName?: string;
+  licenseNumber?: string;
+  dateOfBirth?: string;  // MMDDYYYY format
+  age?: number;
+  isOver21?: boolean;
+  // Address fields
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  // Demographics
+  gender?: 'M' | 'F' | 'X';  // M=Male, F=Female, X=Non-binary/Other
+  eyeColor?: string;
+  height?: string;
+  expirationDate?: string;  // MMDDYYYY format
+  nameTruncated?: boolean;   // DDE/DDF/DDG - name was cut to fit the card
+  // Header details (null/undefined for headerless scans)
+  iin?: string;
+  aamvaVersion?: number;
+  provenance: Partial<Record<ProvenanceField, FieldProvenance>>;
+}
+
+export type ProvenanceField = Exclude<keyof ParsedLicense, 'provenance' | 'age' | 'isOver21' | 'nameTruncated' | 'iin' | 'aamvaVersion'>;
+
+// Calculate age from DOB string (MMDDYYYY format)
+export const calculateAge = (dob: string, today: Date = new Date()): { age: number; isOver21: boolean } | null => {
+  if (!dob || dob.length !== 8) return null;
+
+  const month = parseInt(dob.substring(0, 2), 10);
+  const day = parseInt(dob.substring(2, 4), 10);
+  const year = parseInt(dob.substring(4, 8), 10);
+
+  if (isNaN(month) || isNaN(day) || isNaN(year)) return null;
+
+  const birthDate = new Date(year, month - 1, day);
+
+  let age = today.getFullYear() - birthDate.getFullYear();
+  const monthDiff = today.getMonth() - birthDate.getMonth();
+
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+    age--;
+  }
+
+  return { age, isOver21: age >= 21 };
+};
+
+// Format DOB for display (MMDDYYYY -> MM/DD/YYYY)
+export const formatDOB = (dob: string): string => {
+  if (!dob || dob.length !== 8) return dob;
+  return `${dob.substring(0, 2)}/${dob.substring(2, 4)}/${dob.substring(4, 8)}`;
+};
+
+// Quick sanity check before parsing - real AAMVA PDF417 barcodes are typically 200-700 characters,
+// small 1D barcodes (receipts, product labels) are much shorter
+export const isLikelyAamvaBarcode = (data: string): boolean => {
+  if (data.length < 100) {
+    return false;
+  }
+
+  // Check for AAMVA header markers (ANSI, AAMVA, or starts with @)
+  const hasAAMVAMarker = data.includes('ANSI') ||
+                         data.includes('AAMVA') ||
+                         data.startsWith('@') ||
+                         data.includes('DL') ||
+                         data.includes('ID');
+
+  // Check for at least some known field codes
+  const fieldCodesFound = ['DCS', 'DAC', 'DAQ', 'DBB', 'DAG'].filter(code =>
+    data.includes(code)
+  ).length;
+
+  // Need marker or at least 2 field codes
+  return hasAAMVAMarker || fieldCodesFound >= 2;
+};
+
+// Parse the file header and subfile designators
+export const parseAamvaHeader = (raw: string): AamvaHeader | null => {
+  const match = /(ANSI ?|AAMVA)(\d{6})(\d{2})/.exec(raw);
+  if (!match) return null;
+
+  const start = match.index;
+  const aamvaVersion = parseInt(match[3], 10);
+  let pos = start + match[0].length;
+
+  // Version 1 (and pre-standard "AAMVA" files) have no jurisdiction version
+  let jurisdictionVersion: number | null = null;
+  if (aamvaVersion >= 2) {
+    const jv = raw.substring(pos, pos + 2);
+    if (!/^\d{2}$/.test(jv)) return null;
+    jurisdictionVersion = parseInt(jv, 10);
+    pos += 2;
+  }
+
+  const entries = raw.substring(pos, pos + 2);
+  if (!/^\d{2}$/.test(entries)) return null;
+  const numberOfEntries = parseInt(entries, 10);
+  pos += 2;
+
+  const subfiles: AamvaSubfileDesignator[] = [];
+  for (let i = 0; i < numberOfEntries; i++) {
+    const designator = /^([A-Z]{2})(\d{4})(\d{4})/.exec(raw.substring(pos, pos + 10));
+    if (!designator) break;
+    subfiles.push({
+      type: designator[1],
+      offset: parseInt(designator[2], 10),
+      length: parseInt(designator[3], 10),
+    });
+    pos += 10;
+  }
+
+  return {
+    complianceIndicator: raw.trimStart().startsWith('@'),
+    fileType: match[1].length === 4 ? 'ANSI ' : match[1],
+    iin: match[2],
+    aamvaVersion,
+    jurisdictionVersion,
+    numberOfEntries,
+    subfiles,
+    start,
+    end: pos,
+  };
+};
+
+// Split delimited subfile data into elements ("DAQ123\nDCSSMITH\n...")
+const readDelimitedElements = (
+  data: string,
+  subfile: string | null,
+  source: AamvaElementSource,
+  into: Record<string, AamvaElement>,
+  allowJurisdiction: boolean
+): void => {
+  for (const segment of data.split(SEPARATOR_REGEX)) {
+    const trimmed = segment.trim();
+    if (trimmed.length < 4) continue;
+
+    const id = trimmed.substring(0, 3);
+    const known = ELEMENT_ID_SET.has(id) || (allowJurisdiction && /^Z[A-Z]{2}$/.test(id));
+    if (!known) continue;
+
+    const value = trimmed.substring(3).replace(/[\x00-\x1F]/g, '').trim();
+    if (value && !into[id]) {
+      into[id] = { id, value, subfile, source };
+    }
+  }
+};
+
+// Locate known element IDs in undelimited data and read each value up to the next ID
+const scanElements = (
+  data: string,
+  subfile: string | null,
+  into: Record<string, AamvaElement>
+): void => {
+  // Find element IDs by scanning for each independently to avoid
+  // regex overlap issues (e.g., "BEAMGUARDDAC" → regex sees "DDA" before "DAC")
+  const allMatches: { id: string; index: number }[] = [];
+  for (const id of AAMVA_ELEMENT_IDS) {
+    let pos = 0;
+    while ((pos = data.indexOf(id, pos)) !== -1) {
+      allMatches.push({ id, index: pos });
+      pos += 3;
+    }
+  }
+
+  allMatches.sort((a, b) => a.index - b.index);
+
+  // Deduplicate: when two IDs overlap at adjacent positions, keep the priority one
+  const matches: { id: string; index: number }[] = [];
+  for (const curr of allMatches) {
+    if (matches.length > 0) {
+      const prev = matches[matches.length - 1];
+      if (curr.index < prev.index + 3) {
+        if (PRIORITY_ELEMENT_IDS.has(curr.id) && !PRIORITY_ELEMENT_IDS.has(prev.id)) {
+          matches.pop();
+        } else {
+          continue;
+        }
+      }
+    }
+    matches.push(curr);
+  }
+
+  for (let i = 0; i < matches.length; i++) {
+    const { id, index } = matches[i];
+    const endPos = i < matches.length - 1 ? matches[i + 1].index : data.length;
+    const value = data.substring(index + 3, endPos).replace(/[\x00-\x1F]/g, '').trim();
+
+    if (value && !into[id]) {
+      into[id] = { id, value, subfile, source: 'scan' };
+    }
+  }
+};
+
+// Find where each designated subfile starts: trust the offset if the subfile type sits there,
+// otherwise search after the header for "<type><element ID>" (offsets shift when control chars are dropped)
+const locateSubfiles = (raw: string, header: AamvaHeader): AamvaSubfile[] => {
+  const located: AamvaSubfile[] = [];
+  // Offsets are counted from the compliance indicator
+  const base = Math.max(0, raw.indexOf('@'));
+
+  for (const designator of header.subfiles) {
+    const atOffset = base + designator.offset;
+    if (raw.substring(atOffset, atOffset + 2) === designator.type && atOffset >= header.end) {
+      located.push({
+        type: designator.type,
+        start: atOffset,
+        end: Math.min(raw.length, atOffset + designator.length),
+        source: 'offset',
+        elements: {},
+      });
+      continue;
+    }
+
+    const searchFrom = located.length > 0 ? located[located.length - 1].start + 2 : header.end;
+    const pattern = new RegExp(`${designator.type}(?=[A-Z]{3})`, 'g');
+    pattern.lastIndex = searchFrom;
+    const found = pattern.exec(raw);
+    if (found) {
+      located.push({ type: designator.type, start: found.index, end: raw.length, source: 'scan', elements: {} });
+    }
+  }
+
+  // Searched subfiles run up to the next subfile
+  located.sort((a, b) => a.start - b.start);
+  for (let i = 0; i < located.length; i++) {
+    if (located[i].source === 'scan') {
+      located[i].end = i < located.length - 1 ? located[i + 1].start : raw.length;
+    }
+  }
+
+  return located;
+};
+
+// Parse a raw scan into header, subfiles and elements. Never throws.
+export const parseAamva = (raw: string): AamvaDocument => {
+  const header = parseAamvaHeader(raw);
+  const subfiles = header ? locateSubfiles(raw, header) : [];
+
+  for (const subfile of subfiles) {
+    // Skip the 2-char subfile type so the first element ("DLDAQ...") reads cleanly
+    const data = raw.substring(subfile.start + 2, subfile.end);
+    const isJurisdiction = subfile.type.startsWith('Z');
+
+    if (SEPARATOR_REGEX.test(data)) {
+      readDelimitedElements(data, subfile.type, subfile.source === 'offset' ? 'offset' : 'delimited', subfile.elements, isJurisdiction);
+    }
+
+    // Too few delimited elements means the scanner dropped most separators - values would run
+    // together, so read the subfile by element ID instead
+    if (!isJurisdiction && Object.keys(subfile.elements).length < MIN_DELIMITED_ELEMENTS) {
+      subfile.elements = {};
+      scanElements(data, subfile.type, subfile.elements);
+    }
+  }
+
+  // DL/ID subfiles first, then jurisdiction subfiles
+  const elements: Record<string, AamvaElement> = {};
+  const ordered = [...subfiles].sort((a, b) => Number(a.type.startsWith('Z')) - Number(b.type.startsWith('Z')));
+  for (const subfile of ordered) {
+    for (const [id, element] of Object.entries(subfile.elements)) {
+      if (!elements[id]) elements[id] = element;
+    }
+  }
+
+  // No usable header/subfiles - fall back to reading the whole scan
+  if (!subfiles.some(s => !s.type.startsWith('Z'))) {
+    const start = header ? header.end : 0;
+    const data = raw.substring(start);
+    let loose: Record<string, AamvaElement> = {};
+    readDelimitedElements(data, null, 'delimited', loose, false);
+    if (Object.keys(loose).length < MIN_DELIMITED_ELEMENTS) {
+      loose = {};
+      scanElements(data, null, loose);
+    }
+    for (const [id, element] of Object.entries(loose)) {
+      if (!elements[id]) elements[id] = element;
+    }
+  }
+
+  return { header, subfiles, elements };
+};
+
+// Proper case names (handles multi-word names like "Van Houten")
+const properCase = (s: string) => s.split(/\s+/).map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ');
+
+// Remove anything that can't be part of a name (stray control chars, digits from bad reads)
+const cleanName = (s: string) => s.replace(/[^A-Za-z\-' ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Field mapping by AAMVA version:
+//   v0-v1 (AAMVA 2000 and earlier) - DAA full name "LAST,FIRST,MIDDLE" or DAB/DAC/DAD,
+//                                    residence address in DAL-DAP, dates CCYYMMDD
+//   v2-v3                          - DCS family name, DCT given names ("FIRST MIDDLE")
+//   v4+                            - DCS family name, DAC first, DAD middle
+// US cards from v2 on use MMDDCCYY dates, Canadian cards keep CCYYMMDD.
+export const CANADIAN_JURISDICTIONS = new Set(['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT']);
+
+type DateOrder = 'MDY' | 'YMD';
+
+const dateOrderFor = (doc: AamvaDocument): DateOrder => {
+  const version = doc.header?.aamvaVersion;
+  if (version !== undefined && version <= 1) return 'YMD';
+
+  const country = (doc.elements['DCG']?.value || '').toUpperCase();
+  if (country.startsWith('CAN')) return 'YMD';
+  if (country.startsWith('USA')) return 'MDY';
+
+  const jurisdiction = (doc.elements['DAJ']?.value || '').substring(0, 2).toUpperCase();
+  return CANADIAN_JURISDICTIONS.has(jurisdiction) ? 'YMD' : 'MDY';
+};
+
+// Normalize an AAMVA date to MMDDYYYY. Tries the expected order first, then the other one
+// (some jurisdictions ignore the spec), and rejects anything that isn't a real calendar date.
+export const normalizeAamvaDate = (value: string, preferred: DateOrder = 'MDY'): string => {
+  const digits = (value || '').replace(/\D/g, '');
+  if (digits.length < 8) return '';
+  const d8 = digits.substring(0, 8);
+
+  const read = (order: DateOrder): string => {
+    const [year, month, day] = order === 'MDY'
+      ? [d8.substring(4, 8), d8.substring(0, 2), d8.substring(2, 4)]
+      : [d8.substring(0, 4), d8.substring(4, 6), d8.substring(6, 8)];
+    const y = parseInt(year, 10);
+    const m = parseInt(month, 10);
+    const d = parseInt(day, 10);
+    if (y < 1900 || y > 2199 || m < 1 || m > 12 || d < 1) return '';
+    // Day 0 of the next month = last day of this month (handles Feb 29 in leap years)
+    if (d > new Date(y, m, 0).getDate()) return '';
+    return `${month}${day}${year}`;
+  };
+
+  return read(preferred) || read(preferred === 'MDY' ? 'YMD' : 'MDY');
+};
+
+// Sex: 1/M = male, 2/F = female, 9/X/anything else = not specified
+export const normalizeAamvaSex = (value: string): 'M' | 'F' | 'X' | undefined => {
+  const code = (value || '').trim().toUpperCase().charAt(0);
+  if (!code) return undefined;
+  if (code === '1' || code === 'M') return 'M';
+  if (code === '2' || code === 'F') return 'F';
+  return 'X';
+};
+
+// Height as "069 in" or "175 cm". Accepts "069 IN", "175 CM", "5-09", "509" (v1 feet-inches)
+// and falls back to the v1 centimetre element (DAV).
+export const normalizeAamvaHeight = (dau: string, dav: string = ''): string => {
+  const value = (dau || '').trim().toUpperCase();
+
+  const withUnit = /^(\d{2,3})\s*(IN|CM)/.exec(value);
+  if (withUnit) {
+    return `${withUnit[1].padStart(3, '0')} ${withUnit[2].toLowerCase()}`;
+  }
+
+  const feetInches = /^(\d)\s*[-' ]\s*(\d{1,2})/.exec(value);
+  if (feetInches) {
+    const inches = parseInt(feetInches[1], 10) * 12 + parseInt(feetInches[2], 10);
+    return `${String(inches).padStart(3, '0')} in`;
+  }
+
+  const bare = /^(\d{3})/.exec(value);
+  if (bare) {
+    const n = parseInt(bare[1], 10);
+    // Nobody is over 8 feet tall - a larger bare number is feet + inches ("509" = 5'09")
+    if (n > 96) {
+      const inches = Math.floor(n / 100) * 12 + (n % 100);
+      return `${String(inches).padStart(3, '0')} in`;
+    }
+    return `${bare[1]} in`;
+  }
+
+  const cm = /^(\d{2,3})/.exec((dav || '').trim());
+  if (cm) {
+    return `${cm[1].padStart(3, '0')} cm`;
+  }
+
+  return '';
+};
+
+// Split a v1 DAA full name - "LAST,FIRST,MIDDLE" (some issuers use "$" or spaces instead of commas)
+const splitFullName = (full: string): { first: string; last: string; middle: string } => {
+  if (/[,$]/.test(full)) {
+    const [last = '', first = '', ...middle] = full.split(/[,$]/).map(p => p.trim());
+    return { first, last, middle: middle.join(' ') };
+  }
+  const parts = full.trim().split(/\s+/);
+  if (parts.length === 1) return { first: parts[0], last: '', middle: '' };
+  return { first: parts[0], last: parts[parts.length - 1], middle: parts.slice(1, -1).join(' ') };
+};
+
+// Normalize a parsed document into the shape the kiosk screens use
+export const toParsedLicense = (doc: AamvaDocument): ParsedLicense | null => {
+  const provenance: ParsedLicense['provenance'] = {};
+  const version = doc.header?.aamvaVersion;
+  const isLegacy = version !== undefined && version <= 1;     // AAMVA 2000 and earlier
+  const usesGivenNames = version === 2 || version === 3;       // DCT = "FIRST MIDDLE"
+
+  const remember = (field: ProvenanceField, id: string) => {
+    const element = doc.elements[id];
+    provenance[field] = { element: id, subfile: element.subfile, source: element.source };
+  };
+
+  // Read the first present element from a fallback list and remember which one it was
+  const pick = (field: ProvenanceField, ids: string[]): string => {
+    for (const id of ids) {
+      const element = doc.elements[id];
+      if (element?.value) {
+        remember(field, id);
+        return element.value;
+      }
+    }
+    return '';
+  };
+
+  const value = (id: string) => doc.elements[id]?.value || '';
+
+  // Names - version decides which elements are authoritative, the rest are fallbacks
+  let firstName = '';
+  let lastName = '';
+  let middleName = '';
+
+  if (usesGivenNames && value('DCT')) {
+    const [first = '', ...middle] = cleanName(value('DCT').replace(/,/g, ' ')).split(' ');
+    firstName = first;
+    middleName = middle.join(' ');
+    remember('firstName', 'DCT');
+    if (middleName) remember('middleName', 'DCT');
+  }
+  if (!firstName) firstName = pick('firstName', ['DAC', 'DCT', 'DFN']);
+  if (!middleName) middleName = pick('middleName', ['DAD']);
+  lastName = pick('lastName', isLegacy ? ['DAB', 'DCS', 'DLN'] : ['DCS', 'DAB', 'DLN']);
+
+  // v1 cards (and a few later ones) only carry the combined DAA name
+  if ((!firstName || !lastName) && value('DAA')) {
+    const full = splitFullName(value('DAA'));
+    if (!firstName && full.first) { firstName = full.first; remember('firstName', 'DAA'); }
+    if (!lastName && full.last) { lastName = full.last; remember('lastName', 'DAA'); }
+    if (!middleName && full.middle) { middleName = full.middle; remember('middleName', 'DAA'); }
+  }
+
+  // v2+ cards that carry DCT but not DAC - the first given name is the first name
+  if (firstName && provenance.firstName?.element === 'DCT' && !usesGivenNames) {
+    const [first = '', ...middle] = cleanName(firstName.replace(/,/g, ' ')).split(' ');
+    firstName = first;
+    if (!middleName && middle.length > 0) {
+      middleName = middle.join(' ');
+      remember('middleName', 'DCT');
+    }
+  }
+
+  // v1 has no DAQ on some cards; DAN is the residence city there, never a license number
+  const licenseNumber = pick('licenseNumber', isLegacy ? ['DAQ', 'DBJ'] : ['DAQ', 'DAN']);
+
+  const dateOrder = dateOrderFor(doc);
+  const dateOfBirth = normalizeAamvaDate(pick('dateOfBirth', ['DBB']), dateOrder);
+  const expirationDate = normalizeAamvaDate(pick('expirationDate', ['DBA']), dateOrder);
+
+  // Mailing address, with v1 residence address as the fallback
+  const address = pick('address', ['DAG', 'DAL']);
+  const city = pick('city', isLegacy ? ['DAI', 'DAN'] : ['DAI']);
+  let state = pick('state', isLegacy ? ['DAJ', 'DAO'] : ['DAJ']);
+  let zipCode = pick('zipCode', isLegacy ? ['DAK', 'DAP'] : ['DAK']);
+
+  // State should be exactly 2 letters
+  if (state.length > 2) {
+    state = state.substring(0, 2);
+  }
+
+  // Clean zip code - first 5 digits only (Canadian postal codes are alphanumeric, keep as-is)
+  zipCode = /^[A-Z]\d[A-Z]/i.test(zipCode)
+    ? zipCode.replace(/[^A-Za-z0-9]/g, '').substring(0, 6).toUpperCase()
+    : zipCode.replace(/[^0-9]/g, '').substring(0, 5);
+
+  // Demographics
+  const gender = normalizeAamvaSex(pick('gender', ['DBC']));
+  const eyeColor = pick('eyeColor', ['DAY']);
+  const rawHeight = pick('height', ['DAU', 'DAV']);
+  const height = normalizeAamvaHeight(provenance.height?.element === 'DAU' ? rawHeight : '', value('DAV'));
+
+  // Truncation indicators (v4+): T = truncated, N = not truncated, U = unknown
+  const nameTruncated = ['DDE', 'DDF', 'DDG'].some(id => value(id).toUpperCase().startsWith('T'));
+
+  // Clean up names - remove trailing non-alpha chars but keep the name
+  firstName = cleanName(firstName);
+  lastName = cleanName(lastName);
+
+  // If middle name is "NONE", clear it
+  const cleanMiddle = cleanName(middleName);
+
+  if (!firstName) {
+    return null;
+  }
+
+  const ageInfo = calculateAge(dateOfBirth);
+
+  return {
+    firstName: properCase(firstName),
+    lastName: lastName ? properCase(lastName) : '',
+    middleName: cleanMiddle && cleanMiddle.toUpperCase() !== 'NONE' ? properCase(cleanMiddle) : undefined,
+    licenseNumber,
+    dateOfBirth: dateOfBirth || undefined,
+    age: ageInfo?.age,
+    isOver21: ageInfo?.isOver21,
+    // Address
+    address: address || undefined,
+    city: city ? properCase(city) : undefined,
+    state: state?.toUpperCase() || undefined,
+    zipCode: zipCode || undefined,
+    // Demographics
+    gender,
+    eyeColor: eyeColor || undefined,
+    height: height || undefined,
+    expirationDate: expirationDate || undefined,
+    nameTruncated: nameTruncated || undefined,
+    iin: doc.header?.iin,
+    aamvaVersion: doc.header?.aamvaVersion,
+    provenance,
+  };
+};
+
+// Parse driver's license barcode data (AAMVA PDF417 format)
+export const parseDriversLicense = (scanData: string): ParsedLicense | null => {
+  try {
+    return toParsedLicense(parseAamva(scanData));
+  } catch (e) {
+    console.error('Failed to parse license:', e);
+    return null;
+  }
+};
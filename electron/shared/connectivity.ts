@@ -0,0 +1,84 @@
+// POSaBIT connectivity state — probed by ConnectivityMonitor (services/connectivity.ts)
+// Pure TypeScript like offlineQueue.ts; shared with the renderer for the status indicators.
+//
+// online:   the health probe answered quickly
+// degraded: it answered slowly or with a server error, or one probe failed outright
+// offline:  OFFLINE_AFTER_FAILURES probes in a row got no response — lookups go local-only
+//           and API-only searches are skipped until a probe gets through again
+
+export type ConnectivityState = 'online' | 'degraded' | 'offline';
+
+export interface ConnectivityStatus {
+  state: ConnectivityState;
+  checkedAt: string | null;
+  lastOnlineAt: string | null;
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  error: string | null;
+}
+
+export interface ProbeResult {
+  reachable: boolean;        // got any HTTP response
+  status: number | null;
+  latencyMs: number;
+  error?: string;
+}
+
+export const CONNECTIVITY_LABELS: Record<ConnectivityState, string> = {
+  online: 'Online',
+  degraded: 'Degraded',
+  offline: 'Offline',
+};
+
+export const SLOW_PROBE_MS = 3000;
+export const PROBE_TIMEOUT_MS = 8000;
+export const OFFLINE_AFTER_FAILURES = 2;
+
+// Probe less often while healthy, more often while waiting for POSaBIT to come back
+export const PROBE_INTERVAL_MS: Record<ConnectivityState, number> = {
+  online: 60 * 1000,
+  degraded: 15 * 1000,
+  offline: 15 * 1000,
+};
+
+// Optimistic until the first probe — a kiosk that just started shouldn't refuse API lookups
+export const INITIAL_CONNECTIVITY: ConnectivityStatus = {
+  state: 'online',
+  checkedAt: null,
+  lastOnlineAt: null,
+  latencyMs: null,
+  consecutiveFailures: 0,
+  error: null,
+};
+
+export const nextConnectivity = (
+  previous: ConnectivityStatus,
+  probe: ProbeResult,
+  now: string = new Date().toISOString()
+): ConnectivityStatus => {
+  if (!probe.reachable) {
+    const failures = previous.consecutiveFailures + 1;
+    return {
+      ...previous,
+      state: failures >= OFFLINE_AFTER_FAILURES ? 'offline' : 'degraded',
+      checkedAt: now,
+      latencyMs: null,
+      consecutiveFailures: failures,
+      error: probe.error || 'No response from POSaBIT',
+    };
+  }
+
+  const serverError = probe.status !== null && (probe.status >= 500 || probe.status === 401 || probe.status === 403);
+  const slow = probe.latencyMs > SLOW_PROBE_MS;
+  return {
+    state: serverError || slow ? 'degraded' : 'online',
+    checkedAt: now,
+    lastOnlineAt: serverError ? previous.lastOnlineAt : now,
+    latencyMs: probe.latencyMs,
+    consecutiveFailures: 0,
+    error: serverError ? `POSaBIT returned ${probe.status}` : slow ? `Slow response (${probe.latencyMs}ms)` : null,
+  };
+};
+
+// Worth calling the POSaBIT API at all? Degraded still tries — requests may well succeed.
+export const isApiAvailable = (state: ConnectivityState): boolean => state !== 'offline';
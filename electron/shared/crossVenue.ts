@@ -0,0 +1,69 @@
+// Cross-venue customer lookup settings — a regular from one store checking in at another
+// Pure TypeScript like venuePolicy.ts so the AdminPanel can share the types.
+//
+// Configured per venue pair, in one direction: Wenatchee North searching Wenatchee South says
+// nothing about South searching North. Each venue keeps its own POSaBIT account, so a match
+// at a sibling is linked to (or created as) a customer in the current venue's account.
+
+// off    — never search this sibling
+// link   — use the sibling's record only to find the same person already in this venue's account
+// create — like link, and create them in this venue's account (copying the sibling's demographics) if missing
+export type CrossVenueMode = 'off' | 'link' | 'create';
+
+// Sibling venue id → mode, for one venue
+export type CrossVenuePolicy = Record<string, CrossVenueMode>;
+
+const MODES: CrossVenueMode[] = ['off', 'link', 'create'];
+
+// Every other venue gets an entry; unknown venues and bad modes are dropped / turned off
+export const normalizeCrossVenuePolicy = (
+  policy: Record<string, unknown> | null | undefined,
+  venueId: string,
+  venueIds: string[]
+): CrossVenuePolicy => {
+  const normalized: CrossVenuePolicy = {};
+  for (const id of venueIds) {
+    if (id === venueId) continue;
+    const mode = policy?.[id];
+    normalized[id] = MODES.includes(mode as CrossVenueMode) ? mode as CrossVenueMode : 'off';
+  }
+  return normalized;
+};
+
+export const enabledSiblings = (policy: CrossVenuePolicy): { venueId: string; mode: Exclude<CrossVenueMode, 'off'> }[] =>
+  Object.entries(policy)
+    .filter((entry): entry is [string, 'link' | 'create'] => entry[1] !== 'off')
+    .map(([venueId, mode]) => ({ venueId, mode }));
+
+interface SiblingCustomer {
+  first_name: string;
+  last_name: string;
+  telephone?: string | null;
+  email?: string | null;
+  loyalty_member?: boolean | number;
+  birthday?: string | null;          // "1990-07-23"
+  drivers_license?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zipcode?: string | null;
+}
+
+// createCustomer payload for copying a sibling venue's record into this venue's account
+export const siblingToCreateRequest = (customer: SiblingCustomer) => {
+  const dob = /^(\d{4})-(\d{2})-(\d{2})/.exec(customer.birthday || '');
+  return {
+    firstName: customer.first_name,
+    lastName: customer.last_name || undefined,
+    telephone: customer.telephone || '',
+    email: customer.email || undefined,
+    loyaltyOptIn: !!customer.loyalty_member,
+    address1: customer.address || undefined,
+    city: customer.city || undefined,
+    state: customer.state || undefined,
+    zipCode: customer.zipcode || undefined,
+    // createCustomer takes the AAMVA MMDDYYYY form
+    dateOfBirth: dob ? `${dob[2]}${dob[3]}${dob[1]}` : undefined,
+    driversLicense: customer.drivers_license || undefined,
+  };
+};
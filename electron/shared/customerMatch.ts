@@ -0,0 +1,324 @@
+// Customer matching - ranks candidate POSaBIT records against a scanned ID
+// Pure TypeScript like aamva.ts; used by the main-process 'match-customers' handler.
+//
+// Every candidate gets a 0-100 score from name similarity (with nicknames, truncation and
+// multi-word last names), date of birth, license number and phone. A match is only
+// auto-accepted when it clears AUTO_ACCEPT_SCORE and nobody else is close behind it;
+// otherwise the kiosk has to ask the customer which record is theirs.
+
+export interface CustomerMatchQuery {
+  firstName: string;
+  lastName: string;
+  birthday?: string;        // "1990-07-23" (POSaBIT format)
+  licenseNumber?: string;
+  phone?: string;
+  rememberedCustomerId?: number;   // who the customer picked last time this query was ambiguous
+}
+
+// The fields scoring looks at — satisfied by DbCustomer, PosabitCustomer and KioskCustomer
+export interface MatchCandidate {
+  id: number;
+  first_name: string;
+  last_name: string;
+  telephone?: string | null;
+  birthday?: string | null;
+  drivers_license?: string | null;
+}
+
+export interface RankedCandidate<T extends MatchCandidate = MatchCandidate> {
+  customer: T;
+  score: number;            // 0-100
+  reasons: string[];        // why it scored what it did, for logs / admin debugging
+}
+
+export type MatchDecision = 'accept' | 'ambiguous' | 'none';
+
+export interface CustomerMatchResult<T extends MatchCandidate = MatchCandidate> {
+  decision: MatchDecision;
+  candidates: RankedCandidate<T>[];   // best first, already filtered to MIN_CANDIDATE_SCORE
+  matchKey?: string;                  // remember the customer's pick under this key (see nameMatchKey)
+}
+
+// What the disambiguation screen shows for each candidate — enough for someone to recognize
+// their own record, not enough to learn anything about a stranger's
+export interface MaskedCandidate {
+  id: number;
+  firstName: string;
+  lastInitial: string;
+  phoneLast2: string | null;
+  birthMonth: string | null;   // "July"
+}
+
+// An exact first + last name match on its own scores NAME_POINTS — enough to auto-accept
+// a single record, but not when a second record with the same name is on file.
+export const NAME_POINTS = 70;
+export const LICENSE_MATCH_POINTS = 30;
+export const BIRTHDAY_MATCH_POINTS = 20;
+export const PHONE_MATCH_POINTS = 15;
+export const BIRTHDAY_MISMATCH_PENALTY = 35;
+export const LICENSE_MISMATCH_PENALTY = 10;   // small — renewals and the 2018 WA format change issue new numbers
+export const REMEMBERED_CHOICE_POINTS = 30;   // the customer picked this record on the disambiguation screen before
+
+export const AUTO_ACCEPT_SCORE = 65;          // exact name, or exact first name + truncated last name
+export const AMBIGUITY_MARGIN = 10;           // the runner-up must be at least this far behind to auto-accept
+export const MIN_CANDIDATE_SCORE = 40;        // below this a record isn't worth showing
+export const MAX_PICKER_CANDIDATES = 4;       // records shown on the disambiguation screen
+
+// Names below this similarity count as different people
+const MIN_NAME_SIMILARITY = 0.7;
+
+// Common nickname / formal-name groups. A name may appear in more than one group (AL, CHRIS...).
+const NICKNAME_GROUPS: string[][] = [
+  ['ROBERT', 'BOB', 'BOBBY', 'ROB', 'ROBBIE', 'BERT'],
+  ['WILLIAM', 'BILL', 'BILLY', 'WILL', 'WILLIE', 'LIAM'],
+  ['RICHARD', 'RICK', 'RICKY', 'RICH', 'DICK'],
+  ['JAMES', 'JIM', 'JIMMY', 'JAMIE'],
+  ['JOHN', 'JOHNNY', 'JACK', 'JON'],
+  ['JONATHAN', 'JON', 'JONNY'],
+  ['MICHAEL', 'MIKE', 'MIKEY', 'MICKEY'],
+  ['THOMAS', 'TOM', 'TOMMY'],
+  ['CHRISTOPHER', 'CHRIS', 'TOPHER'],
+  ['CHRISTINA', 'CHRISTINE', 'CHRIS', 'TINA', 'CHRISSY'],
+  ['DANIEL', 'DAN', 'DANNY'],
+  ['DAVID', 'DAVE', 'DAVEY'],
+  ['JOSEPH', 'JOE', 'JOEY'],
+  ['ANTHONY', 'TONY'],
+  ['STEVEN', 'STEPHEN', 'STEVE', 'STEVIE'],
+  ['EDWARD', 'ED', 'EDDIE', 'TED', 'TEDDY', 'NED'],
+  ['THEODORE', 'TED', 'TEDDY', 'THEO'],
+  ['CHARLES', 'CHARLIE', 'CHUCK', 'CHAS'],
+  ['MATTHEW', 'MATT', 'MATTY'],
+  ['NICHOLAS', 'NICK', 'NICKY', 'NICO'],
+  ['ALEXANDER', 'ALEX', 'AL', 'XANDER', 'SANDY'],
+  ['ALEXANDRA', 'ALEX', 'ALEXA', 'LEXI', 'SANDRA', 'SANDY'],
+  ['ALBERT', 'AL', 'BERT'],
+  ['ALAN', 'ALLAN', 'ALLEN', 'AL'],
+  ['BENJAMIN', 'BEN', 'BENNY', 'BENJI'],
+  ['SAMUEL', 'SAM', 'SAMMY'],
+  ['SAMANTHA', 'SAM', 'SAMMY'],
+  ['ANDREW', 'ANDY', 'DREW'],
+  ['JOSHUA', 'JOSH'],
+  ['ZACHARY', 'ZACH', 'ZACK'],
+  ['TIMOTHY', 'TIM', 'TIMMY'],
+  ['GREGORY', 'GREG'],
+  ['PATRICK', 'PAT', 'PATTY'],
+  ['PATRICIA', 'PAT', 'PATTY', 'TRISH', 'TRICIA'],
+  ['KENNETH', 'KEN', 'KENNY'],
+  ['RONALD', 'RON', 'RONNIE'],
+  ['DONALD', 'DON', 'DONNIE'],
+  ['GERALD', 'JERRY', 'GERRY'],
+  ['LAWRENCE', 'LARRY'],
+  ['RAYMOND', 'RAY'],
+  ['PETER', 'PETE'],
+  ['JEFFREY', 'JEFF'],
+  ['DOUGLAS', 'DOUG'],
+  ['FREDERICK', 'FRED', 'FREDDIE'],
+  ['ELIZABETH', 'LIZ', 'LIZZY', 'BETH', 'BETSY', 'BETTY', 'ELIZA', 'LIBBY'],
+  ['MARGARET', 'MAGGIE', 'MEG', 'PEGGY', 'MARGE'],
+  ['KATHERINE', 'CATHERINE', 'KATHRYN', 'KATE', 'KATIE', 'KATHY', 'CATHY', 'KAT'],
+  ['JENNIFER', 'JEN', 'JENNY'],
+  ['JESSICA', 'JESS', 'JESSIE'],
+  ['REBECCA', 'BECKY', 'BECCA'],
+  ['SUSAN', 'SUE', 'SUSIE'],
+  ['DEBORAH', 'DEBRA', 'DEB', 'DEBBIE'],
+  ['VICTORIA', 'VICKY', 'TORI'],
+  ['ABIGAIL', 'ABBY', 'ABBIE'],
+  ['KIMBERLY', 'KIM'],
+  ['AMANDA', 'MANDY'],
+  ['MELISSA', 'MISSY', 'MEL'],
+  ['MELANIE', 'MEL'],
+  ['NATHANIEL', 'NATHAN', 'NATE'],
+  ['JACOB', 'JAKE'],
+  ['GABRIEL', 'GABE'],
+  ['VINCENT', 'VINCE', 'VINNY'],
+];
+
+const NICKNAME_INDEX: Map<string, Set<number>> = (() => {
+  const index = new Map<string, Set<number>>();
+  NICKNAME_GROUPS.forEach((group, i) => {
+    for (const name of group) {
+      if (!index.has(name)) index.set(name, new Set());
+      index.get(name)!.add(i);
+    }
+  });
+  return index;
+})();
+
+const normalizeName = (name: string | null | undefined): string =>
+  (name || '').toUpperCase().replace(/[^A-Z\s-]/g, '').replace(/\s+/g, ' ').trim();
+
+const normalizeDigits = (value: string | null | undefined): string =>
+  (value || '').replace(/\D/g, '').slice(-10);
+
+const normalizeLicense = (value: string | null | undefined): string =>
+  (value || '').replace(/[^A-Z0-9]/gi, '').toUpperCase();
+
+export const areNicknames = (a: string, b: string): boolean => {
+  const groupsA = NICKNAME_INDEX.get(normalizeName(a));
+  const groupsB = NICKNAME_INDEX.get(normalizeName(b));
+  if (!groupsA || !groupsB) return false;
+  for (const group of groupsA) if (groupsB.has(group)) return true;
+  return false;
+};
+
+// Jaro-Winkler similarity, 0 (nothing alike) to 1 (identical). Forgiving of typos and
+// transpositions, and weights a shared prefix the way names tend to be misspelled.
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// First names: exact > nickname or truncation > spelling. A nickname alone isn't enough to
+// auto-accept — it needs the birthday, license or phone to back it up. The ID may carry a middle
+// name ("MARY ANN") so each word is tried.
+export const firstNameSimilarity = (scanned: string, onFile: string): number => {
+  const a = normalizeName(scanned);
+  const b = normalizeName(onFile);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  let best = 0;
+  for (const x of a.split(' ')) {
+    for (const y of b.split(' ')) {
+      if (x === y) best = Math.max(best, 0.95);
+      else if (areNicknames(x, y)) best = Math.max(best, 0.8);
+      else if (x.length >= 3 && y.length >= 3 && (x.startsWith(y) || y.startsWith(x))) best = Math.max(best, 0.8);
+      else best = Math.max(best, jaroWinkler(x, y));
+    }
+  }
+  return best;
+};
+
+// Last names: exact > one word of a multi-word/hyphenated name ("VAN HOUTEN" vs "VAN",
+// "GARCIA-LOPEZ" vs "GARCIA") or DL truncation > spelling
+export const lastNameSimilarity = (scanned: string, onFile: string): number => {
+  const a = normalizeName(scanned);
+  const b = normalizeName(onFile);
+  if (!a || !b) return 0;
+  if (a === b || a.replace(/[\s-]/g, '') === b.replace(/[\s-]/g, '')) return 1;
+  if (a.length >= 3 && b.length >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.9;
+
+  const wordsA = a.split(/[\s-]/).filter(Boolean);
+  const wordsB = b.split(/[\s-]/).filter(Boolean);
+  if (wordsA.some(w => w.length >= 2 && wordsB.includes(w))) return 0.85;
+  return jaroWinkler(a, b);
+};
+
+export const scoreCandidate = <T extends MatchCandidate>(query: CustomerMatchQuery, customer: T): RankedCandidate<T> => {
+  const reasons: string[] = [];
+
+  const first = firstNameSimilarity(query.firstName, customer.first_name);
+  const last = lastNameSimilarity(query.lastName, customer.last_name);
+  const nameScore = (first >= MIN_NAME_SIMILARITY ? first : 0) * 0.5 + (last >= MIN_NAME_SIMILARITY ? last : 0) * 0.5;
+  let score = nameScore * NAME_POINTS;
+  reasons.push(`name ${Math.round(nameScore * 100)}% (first ${Math.round(first * 100)}%, last ${Math.round(last * 100)}%)`);
+
+  const queryLicense = normalizeLicense(query.licenseNumber);
+  const customerLicense = normalizeLicense(customer.drivers_license);
+  if (queryLicense && customerLicense) {
+    if (queryLicense === customerLicense) {
+      score += LICENSE_MATCH_POINTS;
+      reasons.push('license matches');
+    } else {
+      score -= LICENSE_MISMATCH_PENALTY;
+      reasons.push('different license on file');
+    }
+  }
+
+  if (query.birthday && customer.birthday) {
+    if (query.birthday === customer.birthday.substring(0, 10)) {
+      score += BIRTHDAY_MATCH_POINTS;
+      reasons.push('birthday matches');
+    } else {
+      score -= BIRTHDAY_MISMATCH_PENALTY;
+      reasons.push('different birthday on file');
+    }
+  }
+
+  const queryPhone = normalizeDigits(query.phone);
+  if (queryPhone.length === 10 && normalizeDigits(customer.telephone) === queryPhone) {
+    score += PHONE_MATCH_POINTS;
+    reasons.push('phone matches');
+  }
+
+  if (query.rememberedCustomerId === customer.id && score > 0) {
+    score += REMEMBERED_CHOICE_POINTS;
+    reasons.push('picked before');
+  }
+
+  return { customer, score: Math.max(0, Math.min(100, Math.round(score))), reasons };
+};
+
+// Score every candidate (duplicates by id keep the later, usually richer API copy), drop the
+// ones not worth showing, best first
+export const rankCandidates = <T extends MatchCandidate>(query: CustomerMatchQuery, candidates: T[]): RankedCandidate<T>[] => {
+  const byId = new Map<number, T>();
+  for (const candidate of candidates) byId.set(candidate.id, candidate);
+  return [...byId.values()]
+    .map(candidate => scoreCandidate(query, candidate))
+    .filter(ranked => ranked.score >= MIN_CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score || a.customer.id - b.customer.id);
+};
+
+export const decideMatch = (ranked: RankedCandidate[]): MatchDecision => {
+  if (ranked.length === 0) return 'none';
+  const [best, runnerUp] = ranked;
+  if (best.score < AUTO_ACCEPT_SCORE) return 'ambiguous';
+  if (runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN) return 'ambiguous';
+  return 'accept';
+};
+
+export const matchCustomers = <T extends MatchCandidate>(query: CustomerMatchQuery, candidates: T[]): CustomerMatchResult<T> => {
+  const ranked = rankCandidates(query, candidates);
+  return { decision: decideMatch(ranked), candidates: ranked };
+};
+
+// Keys the customer's pick is remembered under — the same ambiguity resolves itself next time
+export const nameMatchKey = (query: CustomerMatchQuery): string =>
+  `name:${normalizeName(query.firstName)}|${normalizeName(query.lastName)}|${query.birthday || ''}`;
+
+export const phoneMatchKey = (phone: string): string => `phone:${normalizeDigits(phone)}`;
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export const maskCandidate = (customer: MatchCandidate): MaskedCandidate => {
+  const phone = normalizeDigits(customer.telephone);
+  const month = customer.birthday ? parseInt(customer.birthday.substring(5, 7), 10) : NaN;
+  return {
+    id: customer.id,
+    firstName: (customer.first_name || '').trim(),
+    lastInitial: (customer.last_name || '').trim().charAt(0).toUpperCase(),
+    phoneLast2: phone.length >= 2 ? phone.slice(-2) : null,
+    birthMonth: month >= 1 && month <= 12 ? MONTH_NAMES[month - 1] : null,
+  };
+};
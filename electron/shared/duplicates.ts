@@ -0,0 +1,165 @@
+// Duplicate-customer detection for the admin report (AdminPanel → Duplicate Customers)
+// Pure TypeScript like customerMatch.ts; the main process feeds it the local customer cache.
+//
+// Kiosk-created records (skip-loyalty ID scans, guest signups) often duplicate someone the till
+// already has. Two records are linked when they share a license number, a birthday + last name,
+// a phone + similar first name, or a near-identical name with nothing on file contradicting it.
+// Links are transitive, so each group is everyone reachable through them.
+
+import { firstNameSimilarity, lastNameSimilarity } from './customerMatch.js';
+import { phoneticCode } from './nameSearch.js';
+
+export type DuplicateReason = 'license' | 'birthday_last_name' | 'phone' | 'similar_name';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  license: 'Same license #',
+  birthday_last_name: 'Same birthday + last name',
+  phone: 'Same phone + first name',
+  similar_name: 'Near-identical name',
+};
+
+// The fields the report compares and shows — a DbCustomer mapped down for IPC
+export interface DuplicateCustomer {
+  id: number;
+  first_name: string;
+  last_name: string;
+  telephone: string | null;
+  email: string | null;
+  birthday: string | null;
+  drivers_license: string | null;
+  loyalty_points: number | null;
+  created_at: string | null;
+}
+
+export interface DuplicateGroup<T extends DuplicateCustomer = DuplicateCustomer> {
+  reasons: DuplicateReason[];
+  customers: T[];            // lowest ID first
+  suggestedSurvivorId: number;
+}
+
+// A shared phone alone is usually a household, so it also needs a first name this close
+const PHONE_FIRST_NAME_SIMILARITY = 0.8;
+// "Near-identical": typos and transpositions, not nicknames (those score 0.8)
+const SIMILAR_NAME_THRESHOLD = 0.9;
+// Skip pairwise name comparison in larger sound-alike blocks — too common to be a signal
+const MAX_NAME_BLOCK = 500;
+
+const REASON_ORDER: DuplicateReason[] = ['license', 'birthday_last_name', 'phone', 'similar_name'];
+
+const normalizeName = (name: string | null | undefined): string =>
+  (name || '').toUpperCase().replace(/[^A-Z]/g, '');
+
+const normalizeDigits = (value: string | null | undefined): string =>
+  (value || '').replace(/\D/g, '').slice(-10);
+
+const normalizeLicense = (value: string | null | undefined): string =>
+  (value || '').replace(/[^A-Z0-9]/gi, '').toUpperCase();
+
+// Different birthdays or license numbers on file mean different people
+const conflicts = (a: DuplicateCustomer, b: DuplicateCustomer): boolean =>
+  (!!a.birthday && !!b.birthday && a.birthday !== b.birthday) ||
+  (!!a.drivers_license && !!b.drivers_license && normalizeLicense(a.drivers_license) !== normalizeLicense(b.drivers_license));
+
+const bucketBy = <T>(items: T[], key: (item: T) => string | null): T[][] => {
+  const buckets = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!k) continue;
+    if (!buckets.has(k)) buckets.set(k, []);
+    buckets.get(k)!.push(item);
+  }
+  return [...buckets.values()].filter(bucket => bucket.length > 1);
+};
+
+export const findDuplicateGroups = <T extends DuplicateCustomer>(customers: T[]): DuplicateGroup<T>[] => {
+  // Union-find over array indexes, with the reasons collected on each link
+  const parent = customers.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const linkReasons = new Map<number, Set<DuplicateReason>>();   // keyed by the lower index of a link
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+    const key = Math.min(a, b);
+    if (!linkReasons.has(key)) linkReasons.set(key, new Set());
+    linkReasons.get(key)!.add(reason);
+  };
+
+  const indexed = customers.map((customer, index) => ({ customer, index }));
+
+  for (const bucket of bucketBy(indexed, ({ customer }) => {
+    const license = normalizeLicense(customer.drivers_license);
+    return license.length >= 4 ? license : null;
+  })) {
+    for (let i = 1; i < bucket.length; i++) link(bucket[0].index, bucket[i].index, 'license');
+  }
+
+  for (const bucket of bucketBy(indexed, ({ customer }) =>
+    customer.birthday && normalizeName(customer.last_name) ? `${customer.birthday}|${normalizeName(customer.last_name)}` : null
+  )) {
+    for (let i = 1; i < bucket.length; i++) link(bucket[0].index, bucket[i].index, 'birthday_last_name');
+  }
+
+  const pairwise = (bucket: typeof indexed, reason: DuplicateReason, isMatch: (a: T, b: T) => boolean) => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const a = bucket[i].customer;
+        const b = bucket[j].customer;
+        if (!conflicts(a, b) && isMatch(a, b)) link(bucket[i].index, bucket[j].index, reason);
+      }
+    }
+  };
+
+  for (const bucket of bucketBy(indexed, ({ customer }) => {
+    const phone = normalizeDigits(customer.telephone);
+    return phone.length === 10 ? phone : null;
+  })) {
+    pairwise(bucket, 'phone', (a, b) => firstNameSimilarity(a.first_name, b.first_name) >= PHONE_FIRST_NAME_SIMILARITY);
+  }
+
+  // Only records whose last names sound alike and share a first initial are compared
+  for (const bucket of bucketBy(indexed, ({ customer }) => {
+    const first = normalizeName(customer.first_name);
+    const last = phoneticCode(customer.last_name);
+    return first && last ? `${last}|${first[0]}` : null;
+  })) {
+    if (bucket.length > MAX_NAME_BLOCK) continue;
+    pairwise(bucket, 'similar_name', (a, b) =>
+      firstNameSimilarity(a.first_name, b.first_name) >= SIMILAR_NAME_THRESHOLD &&
+      lastNameSimilarity(a.last_name, b.last_name) >= SIMILAR_NAME_THRESHOLD
+    );
+  }
+
+  const groups = new Map<number, { reasons: Set<DuplicateReason>; members: number[] }>();
+  customers.forEach((_, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, { reasons: new Set(), members: [] });
+    const group = groups.get(root)!;
+    group.members.push(i);
+    linkReasons.get(i)?.forEach(reason => group.reasons.add(reason));
+  });
+
+  return [...groups.values()]
+    .filter(group => group.members.length > 1)
+    .map(group => {
+      const members = group.members.map(i => customers[i]).sort((a, b) => a.id - b.id);
+      return {
+        reasons: REASON_ORDER.filter(reason => group.reasons.has(reason)),
+        customers: members,
+        // The oldest record is usually the one the till has purchase history on
+        suggestedSurvivorId: members[0].id,
+      };
+    })
+    // Strongest evidence first, then biggest groups
+    .sort((a, b) =>
+      REASON_ORDER.indexOf(a.reasons[0]) - REASON_ORDER.indexOf(b.reasons[0]) ||
+      b.customers.length - a.customers.length ||
+      a.suggestedSurvivorId - b.suggestedSurvivorId
+    );
+};
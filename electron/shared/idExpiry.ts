@@ -0,0 +1,71 @@
+// Expired-ID policy — shared by IDScan (enforcement) and the main process (per-venue settings)
+//
+// WA retail compliance requires a valid ID. Each venue picks what happens when
+// the DBA (expiration) date on a scanned card has passed:
+//   block — turn the customer away
+//   warn  — stop at the kiosk until a team member approves with their PIN
+//   grace — allow for `graceDays` after expiry, then block
+
+export type ExpiredIdAction = 'block' | 'warn' | 'grace';
+
+export interface ExpiredIdPolicy {
+  action: ExpiredIdAction;
+  graceDays: number;  // only used by 'grace'
+}
+
+export const DEFAULT_EXPIRED_ID_POLICY: ExpiredIdPolicy = { action: 'block', graceDays: 0 };
+
+// valid    — not expired
+// unknown  — no usable expiration date on the card (let through, same as before)
+// grace    — expired but inside the venue's grace window
+// warn     — expired, needs staff approval
+// blocked  — expired, turn away
+export type IdExpiryOutcome = 'valid' | 'unknown' | 'grace' | 'warn' | 'blocked';
+
+export interface IdExpiryCheck {
+  outcome: IdExpiryOutcome;
+  daysExpired: number;  // 0 when not expired
+}
+
+// Coerce whatever came out of the settings store into a usable policy
+export const normalizeExpiredIdPolicy = (policy: Partial<ExpiredIdPolicy> | null | undefined): ExpiredIdPolicy => {
+  const action: ExpiredIdAction = policy?.action === 'warn' || policy?.action === 'grace' ? policy.action : 'block';
+  const graceDays = Math.max(0, Math.floor(Number(policy?.graceDays) || 0));
+  return { action, graceDays };
+};
+
+// Check an MMDDYYYY expiration date against a venue policy.
+// A card is valid through the end of its expiration date.
+export const checkIdExpiry = (
+  expirationDate: string | undefined,
+  policy: ExpiredIdPolicy = DEFAULT_EXPIRED_ID_POLICY,
+  today: Date = new Date()
+): IdExpiryCheck => {
+  if (!expirationDate || !/^\d{8}$/.test(expirationDate)) {
+    return { outcome: 'unknown', daysExpired: 0 };
+  }
+
+  const month = parseInt(expirationDate.substring(0, 2));
+  const day = parseInt(expirationDate.substring(2, 4));
+  const year = parseInt(expirationDate.substring(4, 8));
+  const expires = new Date(year, month - 1, day);
+  if (expires.getMonth() !== month - 1 || expires.getDate() !== day) {
+    return { outcome: 'unknown', daysExpired: 0 };
+  }
+
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  // Round rather than floor so DST shifts don't lose a day
+  const daysExpired = Math.round((startOfToday.getTime() - expires.getTime()) / (24 * 60 * 60 * 1000));
+  if (daysExpired <= 0) {
+    return { outcome: 'valid', daysExpired: 0 };
+  }
+
+  switch (policy.action) {
+    case 'warn':
+      return { outcome: 'warn', daysExpired };
+    case 'grace':
+      return { outcome: daysExpired <= policy.graceDays ? 'grace' : 'blocked', daysExpired };
+    default:
+      return { outcome: 'blocked', daysExpired };
+  }
+};
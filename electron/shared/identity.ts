@@ -0,0 +1,309 @@
+// Identity documents — one normalized record for everything a customer can hand us at the kiosk
+//
+//   aamva       PDF417 on the back of driver's licenses and state ID cards (see aamva.ts)
+//   mrz         ICAO 9303 machine readable zone typed out by a passport / document reader
+//   cac_pdf417  DoD Common Access Card / uniformed services ID PDF417 (has name and DOB)
+//   cac_code39  CAC Code 39 (IDs only, no DOB — can't be used for age checks)
+//
+// Shared between the renderer (IDScan) and the main process (failed-scan replay).
+
+import { calculateAge, isLikelyAamvaBarcode, parseAamva, toParsedLicense, CANADIAN_JURISDICTIONS, ParsedLicense } from './aamva.js';
+
+export type IdentityDocumentFormat = 'aamva' | 'mrz' | 'cac_pdf417' | 'cac_code39';
+
+export type IdentityDocumentType =
+  | 'drivers_license'
+  | 'state_id'
+  | 'military_id'
+  | 'passport'
+  | 'passport_card'
+  | 'id_card';         // MRZ national/foreign ID card
+
+export const DOCUMENT_TYPE_LABELS: Record<IdentityDocumentType, string> = {
+  drivers_license: "Driver's License",
+  state_id: 'State ID',
+  military_id: 'Military ID',
+  passport: 'Passport',
+  passport_card: 'Passport Card',
+  id_card: 'ID Card',
+};
+
+// ParsedLicense plus what kind of document it came from.
+// licenseNumber is only set for AAMVA documents (it's what we link to POSaBIT's drivers_license);
+// documentNumber is set for every document type.
+export interface IdentityRecord extends ParsedLicense {
+  documentType: IdentityDocumentType;
+  documentFormat: IdentityDocumentFormat;
+  documentNumber?: string;
+  issuingCountry?: string;  // ICAO 3-letter code (MRZ) or USA
+}
+
+const properCase = (s: string) => s.split(/\s+/).map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ');
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+const toMMDDYYYY = (date: Date) => pad2(date.getMonth() + 1) + pad2(date.getDate()) + String(date.getFullYear()).padStart(4, '0');
+
+// ============================================
+// ICAO 9303 MRZ
+// ============================================
+
+type MrzFormat = 'TD1' | 'TD2' | 'TD3';
+
+const MRZ_LAYOUTS: { format: MrzFormat; lines: number; width: number }[] = [
+  { format: 'TD1', lines: 3, width: 30 },   // ID cards, US passport card
+  { format: 'TD2', lines: 2, width: 36 },
+  { format: 'TD3', lines: 2, width: 44 },   // passport book
+];
+
+// Split raw reader output into MRZ lines. Readers either keep the line breaks or
+// (as a keyboard wedge into a text input) run the lines together.
+const splitMrz = (data: string): { format: MrzFormat; lines: string[] } | null => {
+  const rawLines = data.toUpperCase().split(/[\r\n]+/).map(l => l.replace(/\s/g, '')).filter(Boolean);
+  const joined = rawLines.join('');
+  if (!/^[A-Z0-9<]+$/.test(joined) || !joined.includes('<<')) return null;
+
+  for (const layout of MRZ_LAYOUTS) {
+    const linesMatch = rawLines.length === layout.lines && rawLines.every(l => l.length === layout.width);
+    if (linesMatch || joined.length === layout.lines * layout.width) {
+      const lines: string[] = [];
+      for (let i = 0; i < layout.lines; i++) {
+        lines.push(joined.substring(i * layout.width, (i + 1) * layout.width));
+      }
+      return { format: layout.format, lines };
+    }
+  }
+  return null;
+};
+
+// 7-3-1 weighted check digit; '<' counts as 0, A-Z as 10-35
+export const mrzCheckDigit = (field: string): number => {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let i = 0; i < field.length; i++) {
+    const c = field[i];
+    const value = c === '<' ? 0 : /[0-9]/.test(c) ? c.charCodeAt(0) - 48 : c.charCodeAt(0) - 55;
+    sum += value * weights[i % 3];
+  }
+  return sum % 10;
+};
+
+const checks = (field: string, digit: string) => digit === '<' ? /^<*$/.test(field) : mrzCheckDigit(field) === parseInt(digit, 10);
+
+// YYMMDD -> MMDDYYYY. Birth dates in the future belong to the previous century.
+const mrzDate = (yymmdd: string, kind: 'birth' | 'expiry', today: Date = new Date()): string => {
+  if (!/^\d{6}$/.test(yymmdd)) return '';
+  const yy = parseInt(yymmdd.substring(0, 2), 10);
+  const month = parseInt(yymmdd.substring(2, 4), 10);
+  const day = parseInt(yymmdd.substring(4, 6), 10);
+  const year = kind === 'birth' && yy > today.getFullYear() % 100 ? 1900 + yy : 2000 + yy;
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return '';
+  return toMMDDYYYY(date);
+};
+
+// "SURNAME<<GIVEN<NAMES<<<<" -> { last, given[] }
+const mrzNames = (field: string): { last: string; given: string[] } => {
+  const [surname = '', given = ''] = field.split('<<');
+  return {
+    last: surname.replace(/</g, ' ').trim(),
+    given: given.split('<').filter(Boolean),
+  };
+};
+
+const mrzSex = (c: string): 'M' | 'F' | 'X' | undefined => c === 'M' || c === 'F' || c === 'X' ? c : undefined;
+
+// Parse MRZ text into an identity record. Returns null when the layout isn't an MRZ or a
+// check digit on the number, birth date or expiry fails (misread line).
+export const parseMrz = (data: string): IdentityRecord | null => {
+  const mrz = splitMrz(data);
+  if (!mrz) return null;
+
+  let documentCode: string, issuingCountry: string, number: string, numberCheck: string;
+  let birth: string, birthCheck: string, sex: string, expiry: string, expiryCheck: string, names: string;
+
+  if (mrz.format === 'TD1') {
+    const [l1, l2, l3] = mrz.lines;
+    documentCode = l1.substring(0, 2);
+    issuingCountry = l1.substring(2, 5);
+    number = l1.substring(5, 14);
+    numberCheck = l1[14];
+    birth = l2.substring(0, 6);
+    birthCheck = l2[6];
+    sex = l2[7];
+    expiry = l2.substring(8, 14);
+    expiryCheck = l2[14];
+    names = l3;
+  } else {
+    const [l1, l2] = mrz.lines;
+    documentCode = l1.substring(0, 2);
+    issuingCountry = l1.substring(2, 5);
+    names = l1.substring(5);
+    number = l2.substring(0, 9);
+    numberCheck = l2[9];
+    birth = l2.substring(13, 19);
+    birthCheck = l2[19];
+    sex = l2[20];
+    expiry = l2.substring(21, 27);
+    expiryCheck = l2[27];
+  }
+
+  if (!checks(number, numberCheck) || !checks(birth, birthCheck) || !checks(expiry, expiryCheck)) {
+    return null;
+  }
+
+  const { last, given } = mrzNames(names);
+  if (given.length === 0) return null;
+
+  const documentType: IdentityDocumentType = mrz.format === 'TD3'
+    ? 'passport'
+    : documentCode[0] === 'P' || (documentCode[0] === 'C' && issuingCountry === 'USA') ? 'passport_card' : 'id_card';
+
+  const dateOfBirth = mrzDate(birth, 'birth');
+  const ageInfo = calculateAge(dateOfBirth);
+  const documentNumber = number.replace(/</g, '');
+
+  return {
+    firstName: properCase(given[0]),
+    lastName: properCase(last),
+    middleName: given.length > 1 ? properCase(given.slice(1).join(' ')) : undefined,
+    dateOfBirth: dateOfBirth || undefined,
+    age: ageInfo?.age,
+    isOver21: ageInfo?.isOver21,
+    gender: mrzSex(sex),
+    expirationDate: mrzDate(expiry, 'expiry') || undefined,
+    provenance: {},
+    documentType,
+    documentFormat: 'mrz',
+    documentNumber: documentNumber || undefined,
+    issuingCountry: issuingCountry.replace(/</g, '') || undefined,
+  };
+};
+
+// ============================================
+// DoD CAC / uniformed services ID
+// ============================================
+//
+// PDF417 (back): fixed-width, dates are base-32 day counts from 1000-01-01
+//   version(1) PDI(6) PDI type(1) EDIPI(7) first(20) last(26) DOB(4) category(1) branch(1)
+//   entitlement(2) rank(6) pay plan(2) grade(2) issued(4) expires(4) card instance(1) [middle initial(1), version 1 only]
+// Code 39: version(1) PDI(6) PDI type(1) EDIPI(7) category(1) branch(1) card instance(1)
+
+const CAC_PDF417_REGEX = /^[1N][0-9A-V]{6}[A-Z][0-9A-V]{7}[A-Z ,'\-]{46}[0-9A-V]{4}/;
+const CAC_CODE39_REGEX = /^[1N][0-9A-V]{6}[A-Z][0-9A-V]{7}[A-Z][A-Z][0-9A-Z]$/;
+
+const cacDate = (base32: string): string => {
+  const days = parseInt(base32, 32);
+  if (isNaN(days)) return '';
+  const date = new Date(1000, 0, 1);
+  date.setDate(date.getDate() + days);
+  return toMMDDYYYY(date);
+};
+
+export const parseCacBarcode = (data: string): IdentityRecord | null => {
+  const raw = data.replace(/[\r\n]+$/, '');
+  if (!CAC_PDF417_REGEX.test(raw) || (raw.length !== 88 && raw.length !== 89)) return null;
+
+  const firstName = raw.substring(15, 35).trim();
+  const lastName = raw.substring(35, 61).trim();
+  const dateOfBirth = cacDate(raw.substring(61, 65));
+  const expirationDate = cacDate(raw.substring(83, 87));
+  const middleInitial = raw.length === 89 ? raw[88].trim() : '';
+  const edipi = parseInt(raw.substring(8, 15), 32);
+
+  if (!firstName) return null;
+  const ageInfo = calculateAge(dateOfBirth);
+
+  return {
+    firstName: properCase(firstName),
+    lastName: properCase(lastName),
+    middleName: middleInitial || undefined,
+    dateOfBirth: dateOfBirth || undefined,
+    age: ageInfo?.age,
+    isOver21: ageInfo?.isOver21,
+    expirationDate: expirationDate || undefined,
+    provenance: {},
+    documentType: 'military_id',
+    documentFormat: 'cac_pdf417',
+    documentNumber: isNaN(edipi) ? undefined : String(edipi),   // DoD ID number
+    issuingCountry: 'USA',
+  };
+};
+
+// ============================================
+// Detection + dispatch
+// ============================================
+
+export const detectDocumentFormat = (data: string): IdentityDocumentFormat | null => {
+  const trimmed = data.trim();
+  if (CAC_CODE39_REGEX.test(trimmed)) return 'cac_code39';
+  if (splitMrz(trimmed)) return 'mrz';
+  if (CAC_PDF417_REGEX.test(trimmed)) return 'cac_pdf417';
+  if (isLikelyAamvaBarcode(data)) return 'aamva';
+  return null;
+};
+
+// Driver's license vs state ID comes from the AAMVA subfile the name was read from
+const fromAamva = (data: string): IdentityRecord | null => {
+  const license = toParsedLicense(parseAamva(data));
+  if (!license) return null;
+  const subfile = license.provenance.firstName?.subfile ?? license.provenance.lastName?.subfile;
+  return {
+    ...license,
+    documentType: subfile === 'ID' ? 'state_id' : 'drivers_license',
+    documentFormat: 'aamva',
+    documentNumber: license.licenseNumber,
+    issuingCountry: license.state ? (CANADIAN_JURISDICTIONS.has(license.state) ? 'CAN' : 'USA') : undefined,
+  };
+};
+
+export const parseIdentityDocument = (data: string): IdentityRecord | null => {
+  try {
+    switch (detectDocumentFormat(data)) {
+      case 'aamva': return fromAamva(data);
+      case 'mrz': return parseMrz(data.trim());
+      case 'cac_pdf417': return parseCacBarcode(data.trim());
+      default: return null;
+    }
+  } catch (e) {
+    console.error('Failed to parse identity document:', e);
+    return null;
+  }
+};
+
+// Result of checking a raw scan the way the ID scan screen does. The error strings are what
+// gets stored in failed_scans.parser_error, so keep them stable.
+export interface ScanEvaluation {
+  ok: boolean;
+  error: string | null;
+  license: IdentityRecord | null;   // also set for missing_required_fields, for diagnostics
+}
+
+export const evaluateScan = (scanData: string): ScanEvaluation => {
+  const format = detectDocumentFormat(scanData);
+
+  // Historical name — this is "not any document we can read", not just "not AAMVA"
+  if (!format) {
+    return { ok: false, error: 'not_aamva_marker', license: null };
+  }
+  if (format === 'cac_code39') {
+    return { ok: false, error: 'military_code39_no_dob', license: null };
+  }
+
+  const parsed = parseIdentityDocument(scanData);
+  if (!parsed) {
+    return { ok: false, error: format === 'mrz' ? 'mrz_check_digit_failed' : 'parse_returned_null', license: null };
+  }
+
+  // Must have at least first name AND (last name OR DOB)
+  if (!parsed.firstName || (!parsed.lastName && !parsed.dateOfBirth)) {
+    const missing = [
+      !parsed.firstName ? 'firstName' : null,
+      !parsed.lastName ? 'lastName' : null,
+      !parsed.dateOfBirth ? 'dateOfBirth' : null,
+    ].filter(Boolean).join(',');
+    return { ok: false, error: `missing_required_fields:${missing}`, license: parsed };
+  }
+
+  return { ok: true, error: null, license: parsed };
+};
@@ -0,0 +1,74 @@
+// Name search helpers for the customers_fts (SQLite FTS5) index in database.ts
+// Pure TypeScript like aamva.ts so the query building can be unit tested without SQLite.
+//
+// The index holds each customer's first/last name tokens plus a phonetic key per word
+// (Soundex, with sound-alike first letters folded so Catherine/Katherine and Philip/Filip agree).
+// Queries match a typed prefix ("rob" → Robert, Robbie) or the phonetic key (Smyth → Smith).
+
+const SOUNDEX_DIGITS: Record<string, string> = {
+  B: '1', F: '1', P: '1', V: '1',
+  C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+  D: '3', T: '3',
+  L: '4',
+  M: '5', N: '5',
+  R: '6',
+};
+
+// Words shorter than this are treated as prefixes only — their phonetic key is too coarse
+const MIN_PHONETIC_LENGTH = 3;
+
+const nameTokens = (text: string): string[] =>
+  (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .split(/[^A-Z]+/)
+    .filter(Boolean);
+
+// Soundex code for one word ("ROBERT" → "R163"), '' for no letters
+export const phoneticCode = (word: string): string => {
+  let w = (word || '').toUpperCase().replace(/[^A-Z]/g, '');
+  if (!w) return '';
+  // Spellings that sound alike at the start of a name
+  w = w.replace(/^PH/, 'F').replace(/^(KN|GN|PN|WR)/, m => m[1]).replace(/^[CQ]/, 'K').replace(/^[XZ]/, 'S');
+
+  let code = w[0];
+  let last = SOUNDEX_DIGITS[w[0]] || '';
+  for (let i = 1; i < w.length && code.length < 4; i++) {
+    const digit = SOUNDEX_DIGITS[w[i]] || '';
+    if (digit && digit !== last) code += digit;
+    // H and W don't separate letters with the same code; vowels do
+    if (w[i] !== 'H' && w[i] !== 'W') last = digit;
+  }
+  return code.padEnd(4, '0');
+};
+
+// Space-separated phonetic keys for every word of a name — the indexed *_phonetic columns
+export const phoneticKeys = (name: string): string =>
+  nameTokens(name).map(phoneticCode).join(' ');
+
+const prefixTerm = (columns: string, token: string) => `${columns} : "${token}"*`;
+const phoneticTerm = (columns: string, token: string) => `${columns} : "${phoneticCode(token)}"`;
+
+// MATCH expression for free-text name search ("rob smi", "katherine smyth"): every word must
+// match a first/last name by prefix or sound. null when there's nothing to search for.
+export const buildNameSearchQuery = (text: string): string | null => {
+  const tokens = nameTokens(text);
+  if (tokens.length === 0) return null;
+  return tokens
+    .map(token => token.length >= MIN_PHONETIC_LENGTH
+      ? `(${prefixTerm('{first_name last_name}', token)} OR ${phoneticTerm('{first_phonetic last_phonetic}', token)})`
+      : `(${prefixTerm('{first_name last_name}', token)})`)
+    .join(' AND ');
+};
+
+// MATCH expression for match candidates: any word of the scanned last name, by prefix
+// (DL truncation) or sound (spelling differences). Multi-word names ("VAN HOUTEN") match either word.
+export const buildLastNameQuery = (lastName: string): string | null => {
+  const tokens = nameTokens(lastName).filter(token => token.length >= 2);
+  if (tokens.length === 0) return null;
+  const terms = tokens.flatMap(token => token.length >= MIN_PHONETIC_LENGTH
+    ? [prefixTerm('last_name', token), phoneticTerm('last_phonetic', token)]
+    : [prefixTerm('last_name', token)]);
+  return terms.join(' OR ');
+};
@@ -0,0 +1,68 @@
+// Retry policy for the offline check-in queue (offline_queue table, drained by SyncService)
+// Pure TypeScript like retention.ts so the backoff and failure rules can be unit tested.
+//
+// Each entry is retried with exponential backoff until it posts, POSaBIT rejects it outright
+// (a 4xx other than timeout / rate limit), or it runs out of attempts — then it's dead-lettered
+// for staff to retry or discard. An entry whose POST started but never finished (crash, dropped
+// connection) may already be on the POSaBIT queue, so it's looked for there before reposting.
+
+export interface OfflineRetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+export const OFFLINE_RETRY_POLICY: OfflineRetryPolicy = {
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 30 * 60 * 1000,
+  maxAttempts: 10,
+};
+
+// An unfinished POST this old is treated as not having reached POSaBIT's queue window
+export const POSTED_MATCH_WINDOW_MS = 2 * 60 * 1000;
+
+// Delay before attempt number `attempts + 1`: doubles from baseDelayMs, capped, with up to 20%
+// jitter so several kiosks coming back online don't retry in lockstep
+export const nextRetryDelay = (
+  attempts: number,
+  policy: OfflineRetryPolicy = OFFLINE_RETRY_POLICY,
+  random: () => number = Math.random
+): number => {
+  const exponential = policy.baseDelayMs * Math.pow(2, Math.max(0, attempts - 1));
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(capped * (1 + 0.2 * random()));
+};
+
+// HTTP status from a PosabitService error ("Failed to add to queue: 422 - ..."), null for
+// network errors that never got a response
+export const httpStatusFromError = (message: string): number | null => {
+  const match = /:\s(\d{3})\b/.exec(message || '');
+  return match ? parseInt(match[1], 10) : null;
+};
+
+// POSaBIT refused the entry itself — retrying the same payload won't help
+export const isPermanentQueueError = (message: string): boolean => {
+  const status = httpStatusFromError(message);
+  return status !== null && status >= 400 && status < 500 && status !== 408 && status !== 429;
+};
+
+export const shouldDeadLetter = (
+  attempts: number,
+  message: string,
+  policy: OfflineRetryPolicy = OFFLINE_RETRY_POLICY
+): boolean => isPermanentQueueError(message) || attempts >= policy.maxAttempts;
+
+// Whether an interrupted POST made it onto the POSaBIT queue: same customer (or name + phone)
+// added after the attempt started
+export const findPostedQueueItem = <T extends { customer_id: number | null; name: string; telephone: string | null; created_at: string }>(
+  entry: { customer_id: number | null; name: string; phone: string | null; posting_started_at: string },
+  queue: T[]
+): T | null => {
+  const since = new Date(entry.posting_started_at).getTime() - POSTED_MATCH_WINDOW_MS;
+  const digits = (value: string | null) => (value || '').replace(/\D/g, '').slice(-10);
+  return queue.find(item => {
+    if (new Date(item.created_at).getTime() < since) return false;
+    if (entry.customer_id) return item.customer_id === entry.customer_id;
+    return item.name.trim().toUpperCase() === entry.name.trim().toUpperCase() && digits(item.telephone) === digits(entry.phone);
+  }) || null;
+};
@@ -0,0 +1,55 @@
+// Customers created at the kiosk while POSaBIT was unreachable (pending_customers table)
+// Pure TypeScript like offlineQueue.ts; retried on the same backoff policy by SyncService.
+//
+// The kiosk gets a provisional customer straight away: a negative ID (the pending row's ID,
+// negated) that can't collide with a POSaBIT ID. Check-ins queued under it wait until the
+// customer is created, then are re-pointed to the real ID and post as usual.
+
+import { POSTED_MATCH_WINDOW_MS } from './offlineQueue.js';
+
+// The createCustomer payload, held encrypted until POSaBIT accepts it
+export interface CreateCustomerRequest {
+  firstName: string;
+  lastName?: string;
+  telephone: string;
+  email?: string;
+  loyaltyOptIn: boolean;
+  // Demographics
+  address1?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  dateOfBirth?: string;
+  gender?: 'M' | 'F' | 'X';
+  driversLicense?: string;
+}
+
+// created: POSaBIT made a new record; linked: it already had this person (duplicate DL, or an
+// interrupted create that had landed); discarded: staff gave up on it
+export type PendingCustomerResolution = 'created' | 'linked' | 'discarded';
+
+export const toProvisionalId = (pendingId: number): number => -pendingId;
+
+export const isProvisionalId = (customerId: number | null | undefined): customerId is number =>
+  typeof customerId === 'number' && customerId < 0;
+
+export const pendingIdFromProvisional = (customerId: number): number => -customerId;
+
+const normalizeName = (name: string | null | undefined): string => (name || '').trim().toUpperCase();
+const normalizeDigits = (value: string | null | undefined): string => (value || '').replace(/\D/g, '').slice(-10);
+
+// A create whose POST was interrupted may have gone through. Without a DL to trip the duplicate
+// check, look for it by phone: same phone and same full name, made after the attempt started.
+export const findCreatedCustomer = <T extends { first_name: string; last_name: string; telephone?: string | null; created_at?: string | null }>(
+  request: Pick<CreateCustomerRequest, 'firstName' | 'lastName' | 'telephone'>,
+  postingStartedAt: string,
+  candidates: T[]
+): T | null => {
+  const since = new Date(postingStartedAt).getTime() - POSTED_MATCH_WINDOW_MS;
+  return candidates.find(c =>
+    normalizeDigits(c.telephone) === normalizeDigits(request.telephone) &&
+    normalizeName(c.first_name) === normalizeName(request.firstName) &&
+    normalizeName(c.last_name) === normalizeName(request.lastName) &&
+    (!c.created_at || new Date(c.created_at).getTime() >= since)
+  ) || null;
+};
@@ -0,0 +1,52 @@
+// Reconciliation of the local customer cache against POSaBIT (deleted / merged customers)
+// Pure TypeScript like customerMatch.ts; SyncService.reconcile does the fetching and writing.
+//
+// The customer list only returns a 2-year window, so an ID missing from it isn't proof the
+// customer is gone. Each missing ID is confirmed one by one (GET /customers/:id) before it is
+// tombstoned — a capped number per pass, stalest first, so every ID is reached over a few passes.
+
+export interface ReconcileResult {
+  at: string;
+  remoteCount: number;     // IDs POSaBIT listed
+  localCount: number;      // active local rows for the venue
+  missing: number;         // local IDs not in the list
+  checked: number;         // missing IDs confirmed individually this pass
+  tombstoned: number;      // deleted in POSaBIT
+  merged: number;          // merged into another record (references rewritten to the survivor)
+  skipped: string | null;  // why the pass didn't run
+}
+
+export const MAX_CONFIRMATIONS_PER_PASS = 100;
+
+// What GET /customers/:id says about a local ID
+export type RemoteCustomerStatus =
+  | { status: 'active' }
+  | { status: 'deleted' }
+  | { status: 'merged'; survivorId: number };
+
+export const planReconciliation = (
+  local: { id: number; synced_at: string }[],
+  remoteIds: Set<number>,
+  maxConfirmations: number = MAX_CONFIRMATIONS_PER_PASS
+): { missing: number; toConfirm: number[]; skipped: string | null } => {
+  if (remoteIds.size === 0 && local.length > 0) {
+    // An empty list is far more likely an API problem than every customer being deleted
+    return { missing: 0, toConfirm: [], skipped: 'POSaBIT returned no customers' };
+  }
+  const missing = local
+    .filter(c => !remoteIds.has(c.id))
+    .sort((a, b) => a.synced_at.localeCompare(b.synced_at));
+  return { missing: missing.length, toConfirm: missing.slice(0, maxConfirmations).map(c => c.id), skipped: null };
+};
+
+// A merged record comes back as the survivor (a different id) or flagged with merged_into_id;
+// no record at all (404) means it was deleted
+export const classifyRemoteRecord = (
+  requestedId: number,
+  record: { id: number; merged_into_id?: number | null } | null
+): RemoteCustomerStatus => {
+  if (!record) return { status: 'deleted' };
+  if (record.merged_into_id && record.merged_into_id !== requestedId) return { status: 'merged', survivorId: record.merged_into_id };
+  if (record.id !== requestedId) return { status: 'merged', survivorId: record.id };
+  return { status: 'active' };
+};
@@ -0,0 +1,47 @@
+// PII retention settings and "forget this customer" input handling
+// Pure TypeScript like idExpiry.ts — shared by the main process and the AdminPanel.
+
+// Days to keep rows in each table. The age-verification log has its own setting
+// (idVerificationRetentionDays) next to the log itself.
+export interface RetentionPolicies {
+  customers: number;      // since last seen at the kiosk, updated in POSaBIT, or synced — whichever is latest
+  offlineQueue: number;   // check-ins that old can't go on today's queue, synced or not
+  failedScans: number;    // raw barcodes kept for parser debugging
+}
+
+export const DEFAULT_RETENTION_POLICIES: RetentionPolicies = {
+  customers: 730,
+  offlineQueue: 30,
+  failedScans: 30,
+};
+
+const toDays = (value: unknown, fallback: number): number => {
+  const days = Math.floor(Number(value));
+  return Number.isFinite(days) && days >= 1 ? days : fallback;
+};
+
+// Coerce whatever came out of the settings store into usable policies
+export const normalizeRetentionPolicies = (policies: Partial<RetentionPolicies> | null | undefined): RetentionPolicies => ({
+  customers: toDays(policies?.customers, DEFAULT_RETENTION_POLICIES.customers),
+  offlineQueue: toDays(policies?.offlineQueue, DEFAULT_RETENTION_POLICIES.offlineQueue),
+  failedScans: toDays(policies?.failedScans, DEFAULT_RETENTION_POLICIES.failedScans),
+});
+
+export type ForgetIdentifierType = 'phone' | 'license' | 'customer_id';
+
+// Normalized identifier for a forget request, or null if it can't identify anyone
+export const normalizeForgetIdentifier = (type: ForgetIdentifierType, value: string): string | null => {
+  const raw = (value || '').trim();
+  switch (type) {
+    case 'phone': {
+      const digits = raw.replace(/\D/g, '');
+      return digits.length >= 10 ? digits.slice(-10) : null;
+    }
+    case 'license':
+      return raw.length >= 4 ? raw.toUpperCase() : null;
+    case 'customer_id':
+      return /^\d+$/.test(raw) && Number(raw) > 0 ? String(Number(raw)) : null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,114 @@
+// Scan assembly — turns keystrokes or serial chunks into complete scans
+//
+// Scanners send a whole barcode in one fast burst; a scan is complete once the input
+// goes quiet for idleMs. Used by the main-process scanner drivers and by the
+// browser fallback in services/kioskApi.ts.
+
+export interface ScanBufferOptions {
+  idleMs: number;           // quiet time that ends a scan
+  minLength: number;        // shorter bursts are dropped (stray keys, partial reads)
+  maxAvgKeyGapMs?: number;  // keyboard wedge only: slower bursts are a person typing, not a scanner
+  burstKeys?: number;       // keyboard wedge only: this many keys in a row at scanner speed is a scan in progress
+}
+
+export const KEYBOARD_WEDGE_OPTIONS: ScanBufferOptions = { idleMs: 100, minLength: 6, maxAvgKeyGapMs: 50, burstKeys: 3 };
+export const SERIAL_OPTIONS: ScanBufferOptions = { idleMs: 100, minLength: 6 };
+
+// Ctrl+key combinations scanners use for control characters in "Ctrl+ASCII" mode
+const CONTROL_KEY_CODES: Record<string, number> = { '[': 0x1B, '\\': 0x1C, ']': 0x1D, '^': 0x1E, '6': 0x1E, '_': 0x1F, '-': 0x1F };
+
+// Text a keyboard-wedge key event contributes to a scan ('' for modifiers, arrows, etc.)
+// Scanners send the AAMVA line feeds as Enter and the separators (GS/RS) as Ctrl combinations.
+export const keyToScanText = (key: string, control: boolean = false): string => {
+  if (key === 'Enter') return '\n';
+  if (key === 'Tab') return '\t';
+  if (key.length !== 1) return '';
+  if (!control) return key;
+  if (/^[a-z]$/i.test(key)) return String.fromCharCode(key.toUpperCase().charCodeAt(0) - 64);
+  return CONTROL_KEY_CODES[key] !== undefined ? String.fromCharCode(CONTROL_KEY_CODES[key]) : '';
+};
+
+// Enter, Tab and Ctrl combinations — once one reaches the page it may already have fired a
+// handler, so unlike printable keys it can't be taken back with Backspace
+export const isControlText = (text: string): boolean => text.length === 1 && text < ' ';
+
+export class ScanBuffer {
+  private onScan: (data: string, gapsMs: number[]) => void;
+  private onDrop: (() => void) | null;
+  private options: ScanBufferOptions;
+  private chunks: string[] = [];
+  private firstAt = 0;
+  private lastAt = 0;
+  private keyCount = 0;
+  private gaps: number[] = [];
+  private fastRun = 0;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // onScan also gets the gap before each keystroke / chunk after the first (scan diagnostics).
+  // onDrop is called when buffered input ends without making a scan.
+  constructor(onScan: (data: string, gapsMs: number[]) => void, options: ScanBufferOptions, onDrop?: () => void) {
+    this.onScan = onScan;
+    this.onDrop = onDrop ?? null;
+    this.options = options;
+  }
+
+  // Returns true once the input is coming at scanner speed (burstKeys keys in a row), so the
+  // keyboard-wedge driver can keep the rest of the scan from being typed into a focused field.
+  // Control keys are held from the first one: a scan may be starting (AAMVA sends "@", Enter).
+  push(text: string, at: number = Date.now()): boolean {
+    if (!text) return false;
+    if (this.chunks.length === 0) {
+      this.firstAt = at;
+      this.fastRun = 1;
+    } else {
+      const gap = at - this.lastAt;
+      this.gaps.push(gap);
+      const fast = this.options.maxAvgKeyGapMs === undefined || gap <= this.options.maxAvgKeyGapMs;
+      this.fastRun = fast ? this.fastRun + 1 : 1;
+    }
+    this.chunks.push(text);
+    this.lastAt = at;
+    this.keyCount += text.length;
+
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => this.flush(), this.options.idleMs);
+    if (this.options.burstKeys === undefined) return false;
+    return this.fastRun >= this.options.burstKeys || isControlText(text);
+  }
+
+  // End the current scan now (idle timeout, or driver shutting down)
+  flush(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    const data = this.chunks.join('').replace(/[\r\n]+$/, '');
+    const avgGap = this.keyCount > 1 ? (this.lastAt - this.firstAt) / (this.keyCount - 1) : 0;
+    const gaps = this.gaps;
+    const hadInput = this.chunks.length > 0;
+    this.chunks = [];
+    this.keyCount = 0;
+    this.gaps = [];
+    this.fastRun = 0;
+
+    const tooShort = data.length < this.options.minLength;
+    const tooSlow = this.options.maxAvgKeyGapMs !== undefined && avgGap > this.options.maxAvgKeyGapMs;
+    if (tooShort || tooSlow) {
+      if (hadInput) this.onDrop?.();
+      return;
+    }
+    this.onScan(data, gaps);
+  }
+
+  // Drop anything buffered without emitting it
+  reset(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.chunks = [];
+    this.keyCount = 0;
+    this.gaps = [];
+    this.fastRun = 0;
+  }
+}
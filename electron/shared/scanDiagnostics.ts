@@ -0,0 +1,168 @@
+// Scan quality diagnostics - tells scanner configuration problems apart from parser bugs
+// Pure TypeScript like aamva.ts; used by the AdminPanel scan diagnostics view.
+//
+// A healthy AAMVA scan starts "@\n\x1E\rANSI ", and every subfile sits exactly at the offset
+// its header designator declares. Keyboard-wedge scanners that strip control characters
+// shift the subfiles earlier; dropped keystrokes shift them by odd amounts or cut the scan short.
+
+import { AamvaHeader, parseAamva } from './aamva.js';
+import { detectDocumentFormat, evaluateScan, IdentityDocumentFormat } from './identity.js';
+
+export const CONTROL_CHAR_NAMES: Record<number, string> = {
+  0x00: 'NUL', 0x03: 'ETX', 0x04: 'EOT', 0x09: 'TAB', 0x0A: 'LF', 0x0D: 'CR',
+  0x1B: 'ESC', 0x1C: 'FS', 0x1D: 'GS', 0x1E: 'RS', 0x1F: 'US',
+};
+
+// Keystroke gaps above this mean the wedge is stalling (and may drop characters)
+export const SLOW_KEY_GAP_MS = 50;
+
+export interface ControlCharCount {
+  code: number;
+  name: string;
+  count: number;
+}
+
+export interface SubfileBoundary {
+  type: string;
+  declaredOffset: number;     // from the header designator, counted from "@"
+  declaredLength: number;
+  actualOffset: number | null; // where the subfile type really is (null = not found)
+  drift: number | null;       // actualOffset - declaredOffset (negative = characters missing before it)
+}
+
+export interface KeyTimingSummary {
+  gaps: number;
+  averageMs: number;
+  maxMs: number;
+  slowGaps: number;
+}
+
+export interface ScanDiagnosis {
+  length: number;
+  visible: string;            // raw scan with control characters spelled out
+  controlChars: ControlCharCount[];
+  format: IdentityDocumentFormat | null;
+  preamble: string | null;    // visible text before the file type ("@⟨LF⟩⟨RS⟩⟨CR⟩" when intact)
+  header: AamvaHeader | null;
+  subfiles: SubfileBoundary[];
+  timing: KeyTimingSummary | null;
+  parseError: string | null;  // evaluateScan error, null when the scan parses
+  findings: string[];         // plain-English hints, scanner problems first
+}
+
+const controlName = (code: number) => CONTROL_CHAR_NAMES[code] || `0x${code.toString(16).toUpperCase().padStart(2, '0')}`;
+
+// "@\n\x1E\r" → "@⟨LF⟩⟨RS⟩⟨CR⟩"
+export const showControlChars = (raw: string): string =>
+  raw.replace(/[\x00-\x1F\x7F]/g, ch => `⟨${controlName(ch.charCodeAt(0))}⟩`);
+
+export const countControlChars = (raw: string): ControlCharCount[] => {
+  const counts = new Map<number, number>();
+  for (const ch of raw) {
+    const code = ch.charCodeAt(0);
+    if (code < 0x20 || code === 0x7F) counts.set(code, (counts.get(code) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([code, count]) => ({ code, name: controlName(code), count }));
+};
+
+export const summarizeKeyTiming = (gapsMs: number[] | undefined): KeyTimingSummary | null => {
+  if (!gapsMs || gapsMs.length === 0) return null;
+  const total = gapsMs.reduce((sum, gap) => sum + gap, 0);
+  return {
+    gaps: gapsMs.length,
+    averageMs: Math.round((total / gapsMs.length) * 10) / 10,
+    maxMs: Math.max(...gapsMs),
+    slowGaps: gapsMs.filter(gap => gap > SLOW_KEY_GAP_MS).length,
+  };
+};
+
+// Compare each header designator with where its subfile actually is
+const subfileBoundaries = (raw: string, header: AamvaHeader): SubfileBoundary[] => {
+  const base = Math.max(0, raw.indexOf('@'));
+  const located = parseAamva(raw).subfiles;
+  return header.subfiles.map(designator => {
+    const found = located.find(s => s.type === designator.type);
+    const actualOffset = found ? found.start - base : null;
+    return {
+      type: designator.type,
+      declaredOffset: designator.offset,
+      declaredLength: designator.length,
+      actualOffset,
+      drift: actualOffset === null ? null : actualOffset - designator.offset,
+    };
+  });
+};
+
+export const diagnoseScan = (raw: string, keyGapsMs?: number[]): ScanDiagnosis => {
+  const format = detectDocumentFormat(raw);
+  const controlChars = countControlChars(raw);
+  const header = format === 'aamva' ? parseAamva(raw).header : null;
+  const subfiles = header ? subfileBoundaries(raw, header) : [];
+  const timing = summarizeKeyTiming(keyGapsMs);
+  const evaluation = evaluateScan(raw);
+  const parseError = evaluation.ok ? null : evaluation.error || 'parse_returned_null';
+
+  const findings: string[] = [];
+  let scannerProblem = false;
+
+  if (!format) {
+    findings.push('Not an ID barcode — front of the card, a product barcode, or a partial read.');
+  }
+
+  if (format === 'aamva') {
+    if (controlChars.length === 0) {
+      scannerProblem = true;
+      findings.push('No control characters at all — the scanner is stripping LF/RS/CR. Turn on control-character output (Ctrl+ASCII / function-key mode).');
+    }
+    if (header && !header.complianceIndicator) {
+      scannerProblem = true;
+      findings.push('Scan does not start with "@" — the first characters were dropped.');
+    }
+    if (header && header.subfiles.length < header.numberOfEntries) {
+      scannerProblem = true;
+      findings.push(`Header declares ${header.numberOfEntries} subfiles but only ${header.subfiles.length} designators could be read — the header is damaged.`);
+    }
+    for (const subfile of subfiles) {
+      if (subfile.actualOffset === null) {
+        scannerProblem = true;
+        findings.push(`Subfile ${subfile.type} is missing — the scan was cut short.`);
+      } else if (subfile.drift !== 0) {
+        scannerProblem = true;
+        findings.push(`Subfile ${subfile.type} is ${Math.abs(subfile.drift!)} characters ${subfile.drift! < 0 ? 'early' : 'late'} — characters were ${subfile.drift! < 0 ? 'dropped' : 'added'} before it.`);
+      }
+    }
+    // The final segment terminator is often trimmed with the scanner's suffix, so allow one short
+    const declaredEnd = Math.max(0, ...subfiles.map(s => s.declaredOffset + s.declaredLength));
+    const shortBy = declaredEnd - (raw.length - Math.max(0, raw.indexOf('@')));
+    if (declaredEnd > 0 && shortBy > 1) {
+      scannerProblem = true;
+      findings.push(`Scan is ${shortBy} characters shorter than the header says.`);
+    }
+  }
+
+  if (timing && timing.slowGaps > 0) {
+    scannerProblem = true;
+    findings.push(`${timing.slowGaps} pause${timing.slowGaps === 1 ? '' : 's'} over ${SLOW_KEY_GAP_MS}ms between keystrokes (max ${timing.maxMs}ms) — the keyboard wedge is stalling and may drop characters.`);
+  }
+
+  if (parseError && format && !scannerProblem) {
+    findings.push('The scan data looks complete — this is likely a parser bug. Export it as a test fixture.');
+  } else if (!parseError && scannerProblem) {
+    findings.push('The parser recovered anyway, but the scanner should be reconfigured.');
+  }
+
+  return {
+    length: raw.length,
+    visible: showControlChars(raw),
+    controlChars,
+    format,
+    preamble: header ? showControlChars(raw.substring(0, header.start)) : null,
+    header,
+    subfiles,
+    timing,
+    parseError,
+    findings,
+  };
+};
@@ -0,0 +1,163 @@
+// Background sync schedule — when each sync job runs, per venue (AdminPanel → Sync Schedule)
+// Pure TypeScript like retention.ts; SyncScheduler (services/syncScheduler.ts) runs the jobs.
+//
+// Every job has one interval for while the store is open and one for while it's closed. Either
+// can be off, so the heavy jobs (reconcile, full resync) can stay out of business hours. A job
+// that fails with a 429, a 5xx or no response backs off (honoring Retry-After) before its
+// next run.
+
+import { httpStatusFromError } from './offlineQueue.js';
+
+export type SyncJobName = 'incremental' | 'queueDrain' | 'reconcile' | 'fullResync';
+
+export const SYNC_JOBS: SyncJobName[] = ['incremental', 'queueDrain', 'reconcile', 'fullResync'];
+
+export const SYNC_JOB_LABELS: Record<SyncJobName, string> = {
+  incremental: 'Customer updates',
+  queueDrain: 'Offline queue',
+  reconcile: 'Deleted-customer check',
+  fullResync: 'Full resync',
+};
+
+// What started a run, for the job history
+export type SyncJobTrigger = 'startup' | 'schedule' | 'manual' | 'reconnect' | 'retry';
+
+// Minutes between runs; null = don't run at those times
+export interface SyncJobSchedule {
+  openMinutes: number | null;
+  closedMinutes: number | null;
+}
+
+// "HH:MM" local time. A close time before the open time runs past midnight; the same time for
+// both means open all day.
+export interface StoreHoursDay {
+  open: string;
+  close: string;
+}
+
+export interface SyncSchedule {
+  storeHours: (StoreHoursDay | null)[];   // Sunday first; null = closed all day
+  jobs: Record<SyncJobName, SyncJobSchedule>;
+  pageDelayMs: number;                    // pause between customer list pages in a full fetch
+}
+
+export const DEFAULT_STORE_HOURS: StoreHoursDay = { open: '08:00', close: '23:00' };
+
+export const DEFAULT_SYNC_SCHEDULE: SyncSchedule = {
+  storeHours: Array.from({ length: 7 }, () => ({ ...DEFAULT_STORE_HOURS })),
+  jobs: {
+    incremental: { openMinutes: 15, closedMinutes: 60 },
+    queueDrain: { openMinutes: 15, closedMinutes: 15 },
+    reconcile: { openMinutes: null, closedMinutes: 24 * 60 },
+    fullResync: { openMinutes: null, closedMinutes: 7 * 24 * 60 },
+  },
+  pageDelayMs: 100,
+};
+
+// How often the scheduler checks which jobs are due
+export const SCHEDULER_TICK_MS = 60 * 1000;
+
+export const SYNC_BACKOFF = {
+  baseMs: 60 * 1000,
+  maxMs: 60 * 60 * 1000,
+};
+
+const MAX_PAGE_DELAY_MS = 5000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const toMinutesOfDay = (time: string): number => {
+  const match = TIME_PATTERN.exec(time);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : 0;
+};
+
+const toInterval = (value: unknown, fallback: number | null): number | null => {
+  if (value === null) return null;
+  const minutes = Math.floor(Number(value));
+  return Number.isFinite(minutes) && minutes >= 1 ? minutes : fallback;
+};
+
+const toHours = (day: unknown, fallback: StoreHoursDay | null): StoreHoursDay | null => {
+  if (day === null) return null;
+  const d = day as Partial<StoreHoursDay> | undefined;
+  return d && TIME_PATTERN.test(d.open || '') && TIME_PATTERN.test(d.close || '')
+    ? { open: d.open!, close: d.close! }
+    : fallback;
+};
+
+// Coerce whatever came out of the settings store into a usable schedule
+export const normalizeSyncSchedule = (schedule: Partial<SyncSchedule> | null | undefined): SyncSchedule => {
+  const jobs = {} as Record<SyncJobName, SyncJobSchedule>;
+  for (const job of SYNC_JOBS) {
+    const fallback = DEFAULT_SYNC_SCHEDULE.jobs[job];
+    jobs[job] = {
+      openMinutes: toInterval(schedule?.jobs?.[job]?.openMinutes, fallback.openMinutes),
+      closedMinutes: toInterval(schedule?.jobs?.[job]?.closedMinutes, fallback.closedMinutes),
+    };
+  }
+
+  const pageDelay = Math.floor(Number(schedule?.pageDelayMs));
+  return {
+    storeHours: DEFAULT_SYNC_SCHEDULE.storeHours.map((fallback, day) => toHours(schedule?.storeHours?.[day], fallback)),
+    jobs,
+    pageDelayMs: Number.isFinite(pageDelay) && pageDelay >= 0 ? Math.min(pageDelay, MAX_PAGE_DELAY_MS) : DEFAULT_SYNC_SCHEDULE.pageDelayMs,
+  };
+};
+
+export const isStoreOpen = (storeHours: (StoreHoursDay | null)[], at: Date = new Date()): boolean => {
+  const minute = at.getHours() * 60 + at.getMinutes();
+  const today = storeHours[at.getDay()];
+  const yesterday = storeHours[(at.getDay() + 6) % 7];
+
+  if (today) {
+    const open = toMinutesOfDay(today.open);
+    const close = toMinutesOfDay(today.close);
+    if (open === close) return true;
+    if (open < close ? minute >= open && minute < close : minute >= open) return true;
+  }
+
+  // Yesterday's hours running past midnight
+  if (yesterday) {
+    const open = toMinutesOfDay(yesterday.open);
+    const close = toMinutesOfDay(yesterday.close);
+    if (close < open && minute < close) return true;
+  }
+  return false;
+};
+
+// The job's interval at this time of day, null if it's off right now
+export const jobInterval = (job: SyncJobSchedule, open: boolean): number | null =>
+  open ? job.openMinutes : job.closedMinutes;
+
+export const isJobDue = (job: SyncJobSchedule, open: boolean, lastRunAt: number | null, now: number = Date.now()): boolean => {
+  const interval = jobInterval(job, open);
+  if (interval === null) return false;
+  return lastRunAt === null || now - lastRunAt >= interval * 60 * 1000;
+};
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+// PosabitService errors carry the header as "(retry after 30s)"
+export const retryAfterFromError = (message: string): number | null => {
+  const match = /retry after (\d+)s/.exec(message || '');
+  return match ? parseInt(match[1], 10) * 1000 : null;
+};
+
+// Rate limited, a server error, or no response at all — worth waiting before trying again.
+// Other 4xx responses won't change by waiting, so those jobs keep their normal interval.
+export const isBackoffError = (message: string): boolean => {
+  const status = httpStatusFromError(message);
+  return status === null || status === 429 || status >= 500;
+};
+
+export const jobBackoffMs = (failures: number, retryAfterMs: number | null = null): number => {
+  const exponential = Math.min(SYNC_BACKOFF.maxMs, SYNC_BACKOFF.baseMs * Math.pow(2, Math.max(0, failures - 1)));
+  return Math.max(exponential, retryAfterMs ?? 0);
+};
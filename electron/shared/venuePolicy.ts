@@ -0,0 +1,57 @@
+// Venue check-in policy engine — the kiosk flows ask this instead of hardcoding 21+
+//
+// Per-venue values live in electron/config/policies.ts (main process); the expired-ID
+// rule is edited from AdminPanel and merged in by main before the policy reaches the renderer.
+
+import { DEFAULT_EXPIRED_ID_POLICY, ExpiredIdPolicy, normalizeExpiredIdPolicy } from './idExpiry.js';
+
+export interface VenuePolicy {
+  minimumAge: number;                    // recreational minimum (21 in WA)
+  allowMedicalRecognitionCard: boolean;  // medically endorsed store: admit card holders under minimumAge
+  medicalCardMinimumAge: number;         // youngest recognition-card holder we can admit (18)
+  requireIdForAllEntries: boolean;       // Phone and Guest check-ins must go through an ID scan
+  expiredId: ExpiredIdPolicy;
+}
+
+export const DEFAULT_VENUE_POLICY: VenuePolicy = {
+  minimumAge: 21,
+  allowMedicalRecognitionCard: false,
+  medicalCardMinimumAge: 18,
+  requireIdForAllEntries: false,
+  expiredId: DEFAULT_EXPIRED_ID_POLICY,
+};
+
+// Fill in defaults and reject nonsense (e.g. a medical minimum above the recreational one)
+export const normalizeVenuePolicy = (policy: Partial<VenuePolicy> | null | undefined): VenuePolicy => {
+  const wholeAge = (value: unknown, fallback: number) => {
+    const n = Math.floor(Number(value));
+    return Number.isFinite(n) && n > 0 ? n : fallback;
+  };
+  const minimumAge = wholeAge(policy?.minimumAge, DEFAULT_VENUE_POLICY.minimumAge);
+  return {
+    minimumAge,
+    allowMedicalRecognitionCard: policy?.allowMedicalRecognitionCard === true,
+    medicalCardMinimumAge: Math.min(wholeAge(policy?.medicalCardMinimumAge, DEFAULT_VENUE_POLICY.medicalCardMinimumAge), minimumAge),
+    requireIdForAllEntries: policy?.requireIdForAllEntries === true,
+    expiredId: normalizeExpiredIdPolicy(policy?.expiredId),
+  };
+};
+
+// allowed               — at or over the minimum age
+// medical_card_required — under the minimum but old enough for a recognition card; staff must see the card
+// underage              — turn away
+// unknown               — no usable DOB on the document (let through, same as before the engine)
+export type AgeCheckOutcome = 'allowed' | 'medical_card_required' | 'underage' | 'unknown';
+
+export const checkAge = (age: number | undefined, policy: VenuePolicy): AgeCheckOutcome => {
+  if (age === undefined || !Number.isFinite(age)) return 'unknown';
+  if (age >= policy.minimumAge) return 'allowed';
+  if (policy.allowMedicalRecognitionCard && age >= policy.medicalCardMinimumAge) return 'medical_card_required';
+  return 'underage';
+};
+
+// Entry methods that skip the ID scan unless the venue requires ID for everyone
+const ID_OPTIONAL_METHODS = new Set(['PHONE', 'GUEST']);
+
+export const requiresIdScan = (method: string, policy: VenuePolicy): boolean =>
+  method === 'ID_SCAN' || (policy.requireIdForAllEntries && ID_OPTIONAL_METHODS.has(method));
@@ -0,0 +1,126 @@
+// Turns an AdminPanel "Export CSV" of failed scans into anonymized regression fixtures.
+//
+//   npm run fixtures:import -- failed-scans-2026-10-19.csv
+//
+// PII element values are masked in place with same-length text so header and
+// subfile offsets stay valid. The current parser result is recorded as the
+// expected result — review the diff before committing.
+import fs from 'fs';
+import path from 'path';
+import { parseAamva } from '../electron/shared/aamva';
+import { evaluateScan } from '../electron/shared/identity';
+
+const FIXTURE_FILE = path.resolve('tests/fixtures/failed-scans.json');
+
+const NAME_ELEMENTS = ['DCS', 'DAC', 'DAD', 'DCT', 'DAA', 'DAB', 'DCU', 'DBN', 'DBG', 'DBS'];
+const NUMBER_ELEMENTS = ['DAQ', 'DBJ', 'DCF', 'DCK', 'DBH', 'DBP'];
+const ADDRESS_ELEMENTS = ['DAG', 'DAH', 'DAI', 'DAK', 'DAL', 'DAM', 'DAN', 'DAP'];
+const DOB_ELEMENTS = ['DBB', 'DBL'];
+
+const EXPECTED_FIELDS = ['firstName', 'lastName', 'dateOfBirth', 'licenseNumber', 'state', 'expirationDate'] as const;
+
+interface CsvRow {
+  id: string;
+  created_at: string;
+  venue_id: string;
+  parser_error: string;
+  raw_barcode: string;
+}
+
+// Minimal RFC 4180 reader: raw barcodes contain quoted newlines and control chars
+const parseCsv = (text: string): CsvRow[] => {
+  const records: string[][] = [];
+  let field = '';
+  let record: string[] = [];
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      record.push(field); field = '';
+    } else if (c === '\n') {
+      record.push(field); records.push(record);
+      field = ''; record = [];
+    } else if (c !== '\r') {
+      field += c;
+    }
+  }
+  if (field || record.length > 0) { record.push(field); records.push(record); }
+
+  const [header, ...rows] = records;
+  return rows.map(values => Object.fromEntries(header.map((h, i) => [h, values[i] ?? ''])) as unknown as CsvRow);
+};
+
+const maskText = (value: string, digit: string) => value.replace(/[A-Za-z]/g, 'X').replace(/[0-9]/g, digit);
+
+// Keep the year (age gating depends on it) but drop month and day
+const maskDate = (value: string) => {
+  if (!/^\d{8}$/.test(value)) return maskText(value, '1');
+  const ymd = /^(19|20)\d{2}(0[1-9]|1[0-2])/.test(value);
+  return ymd ? value.substring(0, 4) + '0101' : '0101' + value.substring(4);
+};
+
+const anonymize = (raw: string): string => {
+  const doc = parseAamva(raw);
+  let result = raw;
+
+  const replace = (id: string, masked: (value: string) => string) => {
+    const element = doc.elements[id];
+    if (!element || !element.value) return;
+    const original = id + element.value;
+    const index = result.indexOf(original);
+    if (index < 0) return;
+    result = result.substring(0, index) + id + masked(element.value) + result.substring(index + original.length);
+  };
+
+  NAME_ELEMENTS.forEach(id => replace(id, v => maskText(v, '9')));
+  NUMBER_ELEMENTS.forEach(id => replace(id, v => maskText(v, '9')));
+  ADDRESS_ELEMENTS.forEach(id => replace(id, v => maskText(v, '1')));
+  DOB_ELEMENTS.forEach(id => replace(id, maskDate));
+  return result;
+};
+
+const main = () => {
+  const csvPath = process.argv[2];
+  if (!csvPath) {
+    console.error('Usage: npm run fixtures:import -- <failed-scans.csv>');
+    process.exit(1);
+  }
+
+  const rows = parseCsv(fs.readFileSync(csvPath, 'utf8'));
+  const fixtures = fs.existsSync(FIXTURE_FILE) ? JSON.parse(fs.readFileSync(FIXTURE_FILE, 'utf8')) : [];
+  const existing = new Set(fixtures.map((f: { name: string }) => f.name));
+  let added = 0;
+
+  for (const row of rows) {
+    if (!row.raw_barcode) continue;
+    const name = `failed_scans #${row.id} (${row.created_at.slice(0, 10)}, ${row.parser_error})`;
+    if (existing.has(name)) continue;
+
+    const raw = anonymize(row.raw_barcode);
+    const result = evaluateScan(raw);
+    const fields: Record<string, string | null> = {};
+    for (const field of EXPECTED_FIELDS) {
+      fields[field] = result.license?.[field] ?? null;
+    }
+
+    fixtures.push({
+      name,
+      originalError: row.parser_error,
+      raw,
+      expected: { ok: result.ok, error: result.error, fields },
+    });
+    added++;
+  }
+
+  fs.writeFileSync(FIXTURE_FILE, JSON.stringify(fixtures, null, 2) + '\n');
+  console.log(`Added ${added} fixtures (${fixtures.length} total) to ${path.relative(process.cwd(), FIXTURE_FILE)}`);
+};
+
+main();
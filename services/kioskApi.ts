@@ -1,6 +1,21 @@
 // Kiosk API - Abstracts Electron IPC vs Web API calls
 // Detects if running in Electron and uses appropriate method
 
+import type { CheckInMethod } from '../types';
+import type { IdentityDocumentType, IdentityRecord } from '../electron/shared/identity';
+import { DEFAULT_EXPIRED_ID_POLICY, ExpiredIdPolicy } from '../electron/shared/idExpiry';
+import { DEFAULT_VENUE_POLICY, VenuePolicy } from '../electron/shared/venuePolicy';
+import type { CustomerMatchQuery, CustomerMatchResult } from '../electron/shared/customerMatch';
+import { DEFAULT_RETENTION_POLICIES, RetentionPolicies, ForgetIdentifierType } from '../electron/shared/retention';
+import type { CrossVenuePolicy } from '../electron/shared/crossVenue';
+import type { ReconcileResult } from '../electron/shared/reconcile';
+import type { FullSyncCheckpoint } from '../electron/shared/fullSync';
+import type { DuplicateGroup } from '../electron/shared/duplicates';
+import type { PendingCustomerResolution } from '../electron/shared/pendingCustomers';
+import { DEFAULT_SYNC_SCHEDULE, SyncSchedule, SyncJobName, SyncJobTrigger } from '../electron/shared/syncSchedule';
+import { INITIAL_CONNECTIVITY, ConnectivityStatus } from '../electron/shared/connectivity';
+import { ScanBuffer, KEYBOARD_WEDGE_OPTIONS, keyToScanText, isControlText } from '../electron/shared/scanBuffer';
+
 // Check if running in Electron (with working kiosk API)
 export const isElectron = (): boolean => {
   return typeof window !== 'undefined' && typeof window.kiosk !== 'undefined';
@@ -23,6 +38,14 @@ export interface KioskCustomer {
   // Extended fields for account linking verification
   birthday?: string;          // "1990-07-23" format from API
   drivers_license?: string;
+  // Demographics (cached locally by the main process)
+  gender?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipcode?: string;
+  loyalty_points?: number;
+  pending?: boolean;          // created while offline — id is provisional until POSaBIT has the record
 }
 
 // Queue item type
@@ -86,7 +109,14 @@ export async function setVenue(venueId: string): Promise<Venue> {
   return { id: venueId, name: `Craft Cannabis ${venueId}` };
 }
 
-export async function lookupCustomer(phone: string): Promise<{ found: boolean; customer?: KioskCustomer }> {
+// Set when the customer was found at a sibling venue and linked / created in this one
+export interface CrossVenueInfo {
+  fromVenueId: string;
+  action: 'linked' | 'created';
+}
+
+// Several customers on one phone come back as found: false with candidates (CustomerPicker)
+export async function lookupCustomer(phone: string): Promise<{ found: boolean; customer?: KioskCustomer; candidates?: KioskCustomer[]; matchKey?: string; crossVenue?: CrossVenueInfo }> {
   if (isElectron()) {
     return window.kiosk.lookupCustomer(phone);
   }
@@ -96,13 +126,30 @@ export async function lookupCustomer(phone: string): Promise<{ found: boolean; c
   return lookupCustomerByPhone(phone);
 }
 
-export async function lookupCustomerByName(firstName: string, lastName: string): Promise<{ found: boolean; customer?: KioskCustomer }> {
+// Name search over the local customer index (prefix + sounds-like) — AdminPanel Customer Search
+export async function searchCustomersByName(text: string): Promise<KioskCustomer[]> {
   if (isElectron()) {
-    return window.kiosk.lookupCustomerByName(firstName, lastName);
+    return window.kiosk.searchCustomersByName(text);
   }
+  return [];
+}
 
-  // Web fallback - not supported, return not found
-  return { found: false };
+// Ranked candidates for a scanned ID — only auto-attach on decision 'accept'
+export async function matchCustomers(query: CustomerMatchQuery): Promise<CustomerMatchResult<KioskCustomer>> {
+  if (isElectron()) {
+    return window.kiosk.matchCustomers(query);
+  }
+
+  // Web fallback - not supported, return no candidates
+  return { decision: 'none', candidates: [] };
+}
+
+// Remember the record picked on the disambiguation screen so the same ambiguity resolves itself next time
+export async function rememberCustomerChoice(matchKey: string, customerId: number): Promise<{ ok: boolean }> {
+  if (isElectron()) {
+    return window.kiosk.rememberCustomerChoice(matchKey, customerId);
+  }
+  return { ok: false };
 }
 
 export async function fetchCustomerById(customerId: number): Promise<{ found: boolean; customer?: KioskCustomer }> {
@@ -112,7 +159,7 @@ export async function fetchCustomerById(customerId: number): Promise<{ found: bo
   return { found: false };
 }
 
-export async function lookupCustomerByLicense(licenseNumber: string): Promise<{ found: boolean; customer?: KioskCustomer }> {
+export async function lookupCustomerByLicense(licenseNumber: string): Promise<{ found: boolean; customer?: KioskCustomer; crossVenue?: CrossVenueInfo }> {
   if (isElectron()) {
     return window.kiosk.lookupCustomerByLicense(licenseNumber);
   }
@@ -121,13 +168,6 @@ export async function lookupCustomerByLicense(licenseNumber: string): Promise<{
   return { found: false };
 }
 
-export async function lookupCustomerByDobLastname(birthday: string, lastName: string): Promise<{ found: boolean; customer?: KioskCustomer }> {
-  if (isElectron()) {
-    return window.kiosk.lookupCustomerByDobLastname(birthday, lastName);
-  }
-  return { found: false };
-}
-
 export async function createCustomer(data: {
   firstName: string;
   lastName?: string;
@@ -274,6 +314,8 @@ export async function getSyncStatus(): Promise<{
   lastSync: string | null;
   isSyncing: boolean;
   customerCount: number;
+  lastReconcile: ReconcileResult | null;
+  fullSyncCheckpoint: FullSyncCheckpoint | null;
 }> {
   if (isElectron()) {
     return window.kiosk.getSyncStatus();
@@ -284,6 +326,8 @@ export async function getSyncStatus(): Promise<{
     lastSync: new Date().toISOString(),
     isSyncing: false,
     customerCount: 0,
+    lastReconcile: null,
+    fullSyncCheckpoint: null,
   };
 }
 
@@ -298,6 +342,64 @@ export async function forceSync(): Promise<{ success: boolean }> {
   return { success: true };
 }
 
+// Deleted / merged customer check — the web build has no local cache to reconcile
+export async function reconcileCustomers(): Promise<ReconcileResult | null> {
+  if (isElectron()) {
+    return window.kiosk.reconcileCustomers();
+  }
+  return null;
+}
+
+// Background sync schedule and job history (see electron/shared/syncSchedule.ts)
+export interface SyncJobStatus {
+  job: SyncJobName;
+  running: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  failures: number;
+  backoffUntil: string | null;
+}
+
+export interface SyncJobRun {
+  id: number;
+  venue_id: string;
+  job: SyncJobName;
+  trigger: SyncJobTrigger;
+  status: 'ok' | 'skipped' | 'error';
+  started_at: string;
+  finished_at: string;
+  rows: number | null;
+  error: string | null;
+}
+
+export async function getSyncSchedule(): Promise<SyncSchedule> {
+  if (isElectron()) {
+    return window.kiosk.getSyncSchedule();
+  }
+  return DEFAULT_SYNC_SCHEDULE;
+}
+
+export async function setSyncSchedule(schedule: SyncSchedule): Promise<SyncSchedule> {
+  if (isElectron()) {
+    return window.kiosk.setSyncSchedule(schedule);
+  }
+  return schedule;
+}
+
+export async function getSyncJobs(): Promise<{ storeOpen: boolean; jobs: SyncJobStatus[]; history: SyncJobRun[] }> {
+  if (isElectron()) {
+    return window.kiosk.getSyncJobs();
+  }
+  return { storeOpen: false, jobs: [], history: [] };
+}
+
+export async function runSyncJob(job: SyncJobName): Promise<{ success: boolean }> {
+  if (isElectron()) {
+    return window.kiosk.runSyncJob(job);
+  }
+  return { success: false };
+}
+
 export async function setKioskMode(enabled: boolean): Promise<boolean> {
   if (isElectron()) {
     return window.kiosk.setKioskMode(enabled);
@@ -355,6 +457,26 @@ export interface FailedScan {
   parser_error: string;
   venue_id: string;
   created_at: string;
+  resolved_at: string | null;
+}
+
+// One failed scan re-run through the current parser
+export interface FailedScanReplay {
+  id: number;
+  created_at: string;
+  venue_id: string;
+  resolved_at: string | null;
+  original_error: string;
+  ok: boolean;
+  error: string | null;
+  license: IdentityRecord | null;
+}
+
+export interface FailedScanReplaySummary {
+  total: number;
+  parsed: number;
+  failing: number;
+  results: FailedScanReplay[];
 }
 
 export async function logFailedScan(rawBarcode: string, parserError: string): Promise<void> {
@@ -370,6 +492,431 @@ export async function getFailedScans(limit: number = 50): Promise<FailedScan[]>
   return [];
 }
 
+export async function replayFailedScans(includeResolved: boolean = false): Promise<FailedScanReplaySummary> {
+  if (isElectron()) {
+    return window.kiosk.replayFailedScans(includeResolved);
+  }
+  return { total: 0, parsed: 0, failing: 0, results: [] };
+}
+
+export async function resolveFailedScans(ids: number[]): Promise<number> {
+  if (isElectron()) {
+    const result = await window.kiosk.resolveFailedScans(ids);
+    return result.resolved;
+  }
+  return 0;
+}
+
+// POSaBIT connectivity — the web build only knows whether the browser itself is online
+const browserConnectivity = (): ConnectivityStatus => ({
+  ...INITIAL_CONNECTIVITY,
+  state: typeof navigator !== 'undefined' && navigator.onLine === false ? 'offline' : 'online',
+});
+
+export async function getConnectivity(): Promise<ConnectivityStatus> {
+  if (isElectron()) {
+    return window.kiosk.getConnectivity();
+  }
+  return browserConnectivity();
+}
+
+export async function checkConnectivity(): Promise<ConnectivityStatus> {
+  if (isElectron()) {
+    return window.kiosk.checkConnectivity();
+  }
+  return browserConnectivity();
+}
+
+export function onConnectivityChanged(callback: (status: ConnectivityStatus) => void): () => void {
+  if (isElectron()) {
+    return window.kiosk.onConnectivityChanged(callback);
+  }
+  const handler = () => callback(browserConnectivity());
+  window.addEventListener('online', handler);
+  window.addEventListener('offline', handler);
+  return () => {
+    window.removeEventListener('online', handler);
+    window.removeEventListener('offline', handler);
+  };
+}
+
+// Barcode scanner — complete scans from the main-process scanner service
+export type ScannerDriverType = 'keyboard' | 'serial' | 'simulated';
+
+export interface ScannerConfig {
+  driver: ScannerDriverType;
+  serialPath: string;   // /dev/ttyACM0, \\.\COM3
+  replayDir: string;    // simulated driver: files dropped here are replayed as scans
+}
+
+export interface ScannerStatus {
+  driver: ScannerDriverType;
+  connected: boolean;
+  error: string | null;
+  scanCount: number;
+  lastScanAt: string | null;
+}
+
+export interface ScanEvent {
+  data: string;
+  source: ScannerDriverType;
+  receivedAt: string;
+  keyGapsMs: number[];  // ms between keystrokes / serial chunks (scan diagnostics)
+}
+
+// Subscribe to scans; returns the unsubscribe function.
+// Outside Electron (dev in a browser) keystrokes are read directly as a keyboard wedge.
+export function onScan(callback: (scan: ScanEvent) => void): () => void {
+  if (isElectron()) {
+    return window.kiosk.onScan(callback);
+  }
+  // Enter / Tab / Ctrl keys held while a scan might be starting, and the copies sent on after
+  let held: KeyboardEvent[] = [];
+  const replayed = new WeakSet<Event>();
+  const buffer = new ScanBuffer(
+    (data, keyGapsMs) => {
+      held = [];
+      callback({ data, source: 'keyboard', receivedAt: new Date().toISOString(), keyGapsMs });
+    },
+    KEYBOARD_WEDGE_OPTIONS,
+    () => {
+      // Not a scan after all — let the page's key handlers see them
+      for (const e of held) {
+        const copy = new KeyboardEvent('keydown', { key: e.key, code: e.code, ctrlKey: e.ctrlKey, shiftKey: e.shiftKey, bubbles: true, cancelable: true });
+        replayed.add(copy);
+        (e.target ?? window).dispatchEvent(copy);
+      }
+      held = [];
+    }
+  );
+  // Capture phase, so held keys never reach the page's own handlers
+  const handler = (e: KeyboardEvent) => {
+    if (e.altKey || e.metaKey || replayed.has(e)) return;
+    const text = keyToScanText(e.key, e.ctrlKey);
+    // Keep the rest of a scan out of whatever field has focus
+    if (buffer.push(text)) {
+      e.preventDefault();
+      e.stopPropagation();
+      if (isControlText(text)) held.push(e);
+    }
+  };
+  window.addEventListener('keydown', handler, true);
+  return () => {
+    window.removeEventListener('keydown', handler, true);
+    buffer.reset();
+    held = [];
+  };
+}
+
+export async function getScannerConfig(): Promise<ScannerConfig | null> {
+  if (isElectron()) {
+    return window.kiosk.getScannerConfig();
+  }
+  return null;
+}
+
+export async function setScannerConfig(config: Partial<ScannerConfig>): Promise<ScannerConfig | null> {
+  if (isElectron()) {
+    return window.kiosk.setScannerConfig(config);
+  }
+  return null;
+}
+
+export async function getScannerStatus(): Promise<ScannerStatus | null> {
+  if (isElectron()) {
+    return window.kiosk.getScannerStatus();
+  }
+  return null;
+}
+
+// Last scans the scanner service delivered, newest first (in memory only — cleared on restart)
+export async function getRecentScans(limit?: number): Promise<ScanEvent[]> {
+  if (isElectron()) {
+    return window.kiosk.getRecentScans(limit);
+  }
+  return [];
+}
+
+export async function replayScanFile(): Promise<{ ok: boolean; error?: string }> {
+  if (isElectron()) {
+    return window.kiosk.replayScanFile();
+  }
+  return { ok: false };
+}
+
+// Local database schema version + migration history (AdminPanel)
+export interface MigrationRecord {
+  id: number;
+  version: number;
+  name: string;
+  status: 'applied' | 'failed';
+  error: string | null;
+  backup_path: string | null;   // backup written before this run
+  duration_ms: number;
+  applied_at: string;
+}
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  backupDir: string;
+  history: MigrationRecord[];   // newest first
+}
+
+export async function getSchemaStatus(): Promise<SchemaStatus | null> {
+  if (isElectron()) {
+    return window.kiosk.getSchemaStatus();
+  }
+  return null;
+}
+
+// Expired-ID policy (per venue)
+export async function getExpiredIdPolicy(): Promise<ExpiredIdPolicy> {
+  if (isElectron()) {
+    return window.kiosk.getExpiredIdPolicy();
+  }
+  return DEFAULT_EXPIRED_ID_POLICY;
+}
+
+export async function setExpiredIdPolicy(policy: ExpiredIdPolicy): Promise<ExpiredIdPolicy> {
+  if (isElectron()) {
+    return window.kiosk.setExpiredIdPolicy(policy);
+  }
+  return policy;
+}
+
+// Check-in policy for the selected venue (minimum age, medical cards, ID-required rule, expired IDs)
+export async function getVenuePolicy(): Promise<VenuePolicy> {
+  if (isElectron()) {
+    return window.kiosk.getVenuePolicy();
+  }
+  return DEFAULT_VENUE_POLICY;
+}
+
+// Age-verification audit log — every underage / expired / admitted decision
+export type IdVerificationOutcome =
+  | 'admitted'
+  | 'admitted_grace'      // expired, inside the venue grace window
+  | 'admitted_override'   // expired, team member approved with PIN
+  | 'admitted_medical'    // under the minimum age, team member checked the medical recognition card
+  | 'underage'
+  | 'medical_card_check'  // under the minimum age, stopped to check for a recognition card
+  | 'expired_blocked'
+  | 'expired_warned';     // stopped for team member approval
+
+export interface IdVerificationEvent {
+  outcome: IdVerificationOutcome;
+  age?: number;
+  jurisdiction?: string;
+  licenseNumber?: string;  // document number; the log keeps the last 4 and a keyed hash
+  documentType?: IdentityDocumentType;
+  entryMethod?: CheckInMethod;
+  expirationDate?: string;
+  daysExpired?: number;
+}
+
+export interface IdVerificationRecord {
+  id: number;
+  created_at: string;
+  venue_id: string;
+  outcome: IdVerificationOutcome;
+  age: number | null;
+  jurisdiction: string | null;
+  license_last4: string | null;
+  document_type: string | null;
+  entry_method: string | null;
+  expiration_date: string | null;
+  days_expired: number | null;
+}
+
+export interface IdVerificationFilter {
+  from?: string;   // ISO timestamp, inclusive
+  to?: string;     // ISO timestamp, exclusive
+  outcome?: IdVerificationOutcome;
+  limit?: number;
+}
+
+export async function logIdVerification(event: IdVerificationEvent): Promise<void> {
+  if (isElectron()) {
+    await window.kiosk.logIdVerification(event);
+  }
+}
+
+export async function getIdVerifications(filter: IdVerificationFilter = {}): Promise<IdVerificationRecord[]> {
+  if (isElectron()) {
+    return window.kiosk.getIdVerifications(filter);
+  }
+  return [];
+}
+
+export async function getIdVerificationRetention(): Promise<number> {
+  if (isElectron()) {
+    return window.kiosk.getIdVerificationRetention();
+  }
+  return 365;
+}
+
+export async function setIdVerificationRetention(days: number): Promise<number> {
+  if (isElectron()) {
+    return window.kiosk.setIdVerificationRetention(days);
+  }
+  return days;
+}
+
+// Cross-venue lookup settings for the current venue (AdminPanel)
+export async function getCrossVenuePolicy(): Promise<CrossVenuePolicy> {
+  if (isElectron()) {
+    return window.kiosk.getCrossVenuePolicy();
+  }
+  return {};
+}
+
+export async function setCrossVenuePolicy(policy: CrossVenuePolicy): Promise<CrossVenuePolicy> {
+  if (isElectron()) {
+    return window.kiosk.setCrossVenuePolicy(policy);
+  }
+  return policy;
+}
+
+// PII retention policies + "forget this customer" (AdminPanel)
+export interface RetentionRemoved {
+  customers: number;
+  offlineQueue: number;
+  failedScans: number;
+  idVerifications: number;
+}
+
+export interface DeletionRecord {
+  id: number;
+  deleted_at: string;
+  venue_id: string;
+  identifier_type: ForgetIdentifierType;
+  identifier_hash: string;
+  reason: string;
+  counts: string;               // JSON { customers, offlineQueue, failedScans, matchChoices, auditReferences }
+  prev_hash: string;
+  hash: string;
+}
+
+export interface DeletionChainStatus {
+  ok: boolean;
+  count: number;
+  brokenAtId: number | null;
+  truncated: boolean;
+}
+
+export async function getRetentionPolicies(): Promise<RetentionPolicies> {
+  if (isElectron()) {
+    return window.kiosk.getRetentionPolicies();
+  }
+  return DEFAULT_RETENTION_POLICIES;
+}
+
+export async function setRetentionPolicies(policies: Partial<RetentionPolicies>): Promise<{ policies: RetentionPolicies; removed: RetentionRemoved }> {
+  if (isElectron()) {
+    return window.kiosk.setRetentionPolicies(policies);
+  }
+  return { policies: { ...DEFAULT_RETENTION_POLICIES, ...policies }, removed: { customers: 0, offlineQueue: 0, failedScans: 0, idVerifications: 0 } };
+}
+
+export async function forgetCustomer(type: ForgetIdentifierType, value: string, reason: string): Promise<{ ok: boolean; record?: DeletionRecord; error?: string }> {
+  if (isElectron()) {
+    return window.kiosk.forgetCustomer(type, value, reason);
+  }
+  return { ok: false, error: 'Only available in the kiosk app' };
+}
+
+export async function getDeletionLog(): Promise<{ records: DeletionRecord[]; chain: DeletionChainStatus }> {
+  if (isElectron()) {
+    return window.kiosk.getDeletionLog();
+  }
+  return { records: [], chain: { ok: true, count: 0, brokenAtId: null, truncated: false } };
+}
+
+export async function getDuplicateReport(): Promise<{ scanned: number; groups: DuplicateGroup[] }> {
+  if (isElectron()) {
+    return window.kiosk.getDuplicateReport();
+  }
+  return { scanned: 0, groups: [] };
+}
+
+// Offline check-in that couldn't be posted to POSaBIT (see electron/shared/offlineQueue.ts)
+export interface OfflineQueueEntry {
+  id?: number;
+  name: string;
+  phone: string | null;
+  method: string;
+  customer_id: number | null;
+  venue_id: string;
+  created_at: string;
+  synced: number;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  posting_started_at: string | null;
+  dead_lettered_at: string | null;
+  idempotency_key: string;
+}
+
+export async function getOfflineQueue(): Promise<{ pending: number; deadLettered: OfflineQueueEntry[] }> {
+  if (isElectron()) {
+    return window.kiosk.getOfflineQueue();
+  }
+  return { pending: 0, deadLettered: [] };
+}
+
+export async function retryOfflineEntry(id: number): Promise<boolean> {
+  if (isElectron()) {
+    return window.kiosk.retryOfflineEntry(id);
+  }
+  return false;
+}
+
+export async function discardOfflineEntry(id: number): Promise<boolean> {
+  if (isElectron()) {
+    return window.kiosk.discardOfflineEntry(id);
+  }
+  return false;
+}
+
+// Customer signed up while POSaBIT was offline (see electron/shared/pendingCustomers.ts)
+export interface PendingCustomer {
+  id: number;
+  venue_id: string;
+  first_name: string;
+  last_name: string | null;
+  loyalty_opt_in: number;
+  created_at: string;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  failed_at: string | null;
+  customer_id: number | null;
+  resolution: PendingCustomerResolution | null;
+  resolved_at: string | null;
+}
+
+export async function getPendingCustomers(): Promise<PendingCustomer[]> {
+  if (isElectron()) {
+    return window.kiosk.getPendingCustomers();
+  }
+  return [];
+}
+
+export async function retryPendingCustomer(id: number): Promise<boolean> {
+  if (isElectron()) {
+    return window.kiosk.retryPendingCustomer(id);
+  }
+  return false;
+}
+
+export async function discardPendingCustomer(id: number): Promise<boolean> {
+  if (isElectron()) {
+    return window.kiosk.discardPendingCustomer(id);
+  }
+  return false;
+}
+
 // Auto-update functions
 export async function checkForUpdates(): Promise<{ updateAvailable: boolean; info?: any; error?: string }> {
   if (isElectron()) {
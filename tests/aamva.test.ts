@@ -0,0 +1,309 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import {
+  parseAamva,
+  parseAamvaHeader,
+  parseDriversLicense,
+  calculateAge,
+  formatDOB,
+  normalizeAamvaDate,
+  normalizeAamvaHeight,
+} from '../electron/shared/aamva';
+import { evaluateScan } from '../electron/shared/identity';
+import { buildBarcode, mmddyyyy, WA_ELEMENTS } from './fixtures/aamva';
+
+describe('parseAamvaHeader', () => {
+  it('reads compliance indicator, IIN, versions and subfile designators', () => {
+    const raw = buildBarcode({ elements: WA_ELEMENTS, jurisdictionElements: { ZWA: 'TEST' }, jurisdictionVersion: 2 });
+    const header = parseAamvaHeader(raw);
+
+    expect(header).not.toBeNull();
+    expect(header!.complianceIndicator).toBe(true);
+    expect(header!.fileType).toBe('ANSI ');
+    expect(header!.iin).toBe('636045');
+    expect(header!.aamvaVersion).toBe(8);
+    expect(header!.jurisdictionVersion).toBe(2);
+    expect(header!.numberOfEntries).toBe(2);
+    expect(header!.subfiles.map(s => s.type)).toEqual(['DL', 'ZW']);
+    expect(raw.substring(header!.subfiles[0].offset, header!.subfiles[0].offset + 2)).toBe('DL');
+  });
+
+  it('handles version 1 headers without a jurisdiction version', () => {
+    const header = parseAamvaHeader(buildBarcode({ iin: '636018', version: 1, elements: { DAQ: '123' } }));
+    expect(header!.aamvaVersion).toBe(1);
+    expect(header!.jurisdictionVersion).toBeNull();
+    expect(header!.subfiles).toHaveLength(1);
+  });
+
+  it('returns null when there is no header', () => {
+    expect(parseAamvaHeader('DCSSMITHDACJOHN')).toBeNull();
+  });
+});
+
+describe('parseAamva', () => {
+  it('uses designator offsets when control characters survive', () => {
+    const doc = parseAamva(buildBarcode({ elements: WA_ELEMENTS, jurisdictionElements: { ZWA: 'TEST123' } }));
+    const dl = doc.subfiles.find(s => s.type === 'DL')!;
+    const zw = doc.subfiles.find(s => s.type === 'ZW')!;
+
+    expect(dl.source).toBe('offset');
+    expect(dl.elements.DAQ.value).toBe('WDLSAMPL123AB');
+    expect(zw.elements.ZWA.value).toBe('TEST123');
+    expect(doc.elements.DCS).toMatchObject({ value: 'SAMPLEMAN', subfile: 'DL', source: 'offset' });
+  });
+
+  it('falls back to element-ID scanning when the scanner strips control characters', () => {
+    const doc = parseAamva(buildBarcode({ elements: WA_ELEMENTS, stripControlChars: true }));
+    expect(doc.header!.iin).toBe('636045');
+    expect(doc.subfiles[0].source).toBe('scan');
+    expect(doc.elements.DAC.value).toBe('ROWAN');
+    expect(doc.elements.DBB.value).toBe('03141990');
+  });
+
+  it('keeps the priority element when IDs overlap in undelimited data', () => {
+    // "BEAMGUARDDAC" contains DDA one character before DAC
+    const doc = parseAamva('DCSBEAMGUARDDACJOHNDBB01011980DAQ123');
+    expect(doc.elements.DCS.value).toBe('BEAMGUARD');
+    expect(doc.elements.DAC.value).toBe('JOHN');
+    expect(doc.elements.DDA).toBeUndefined();
+  });
+});
+
+describe('parseDriversLicense', () => {
+  it('normalizes a Washington v8 license with provenance', () => {
+    const license = parseDriversLicense(buildBarcode({ elements: WA_ELEMENTS }))!;
+
+    expect(license).toMatchObject({
+      firstName: 'Rowan',
+      lastName: 'Sampleman',
+      middleName: 'Alex',
+      licenseNumber: 'WDLSAMPL123AB',
+      dateOfBirth: '03141990',
+      expirationDate: '08152030',
+      address: '1200 DAKOTA AVE',
+      city: 'Wenatchee',
+      state: 'WA',
+      zipCode: '98801',
+      gender: 'M',
+      height: '070 in',
+      iin: '636045',
+      aamvaVersion: 8,
+    });
+    expect(license.nameTruncated).toBeUndefined();
+    expect(license.provenance.lastName).toEqual({ element: 'DCS', subfile: 'DL', source: 'offset' });
+    expect(license.provenance.firstName?.element).toBe('DAC');
+  });
+
+  it('reads the same fields from a stripped keyboard-wedge scan', () => {
+    const license = parseDriversLicense(buildBarcode({ elements: WA_ELEMENTS, stripControlChars: true }))!;
+    expect(license.firstName).toBe('Rowan');
+    expect(license.lastName).toBe('Sampleman');
+    expect(license.dateOfBirth).toBe('03141990');
+    expect(license.provenance.firstName?.source).toBe('scan');
+  });
+
+  it('reads v1 (AAMVA 2000) cards: DAA full name, CCYYMMDD dates, feet-inches height', () => {
+    const license = parseDriversLicense(buildBarcode({
+      iin: '636018',
+      version: 1,
+      elements: {
+        DAQ: '123SA4567',
+        DAA: 'SAMPLEMAN,CASEY,LEE',
+        DBB: '19850412',
+        DBA: '20290412',
+        DAG: '1 MAIN ST',
+        DAI: 'DES MOINES',
+        DAJ: 'IA',
+        DAK: '50309',
+        DBC: 'F',
+        DAU: '5-06',
+      },
+    }))!;
+
+    expect(license).toMatchObject({
+      firstName: 'Casey',
+      lastName: 'Sampleman',
+      middleName: 'Lee',
+      licenseNumber: '123SA4567',
+      dateOfBirth: '04121985',
+      expirationDate: '04122029',
+      state: 'IA',
+      gender: 'F',
+      height: '066 in',
+      aamvaVersion: 1,
+    });
+    expect(license.provenance.firstName?.element).toBe('DAA');
+  });
+
+  it('reads v1 cards with separate DAB/DAC names and residence address', () => {
+    const license = parseDriversLicense(buildBarcode({
+      version: 1,
+      elements: { DAQ: 'X100', DAB: 'TESTER', DAC: 'MORGAN', DBB: '19770704', DAL: '9 ELM RD', DAN: 'SPOKANE', DAO: 'WA', DAP: '99201' },
+    }))!;
+
+    expect(license.firstName).toBe('Morgan');
+    expect(license.lastName).toBe('Tester');
+    expect(license.licenseNumber).toBe('X100');
+    expect(license.city).toBe('Spokane');
+    expect(license.address).toBe('9 ELM RD');
+  });
+
+  it('splits v3 DCT given names into first and middle', () => {
+    const license = parseDriversLicense(buildBarcode({
+      iin: '636029',
+      version: 3,
+      elements: { DAQ: 'OR1234', DCS: 'EXAMPLE', DCT: 'RILEY QUINN', DBB: '11021995', DAJ: 'OR', DBC: '2', DAU: '064 in' },
+    }))!;
+
+    expect(license.firstName).toBe('Riley');
+    expect(license.middleName).toBe('Quinn');
+    expect(license.lastName).toBe('Example');
+    expect(license.gender).toBe('F');
+    expect(license.provenance.firstName?.element).toBe('DCT');
+  });
+
+  it('reads Canadian CCYYMMDD dates and postal codes', () => {
+    const license = parseDriversLicense(buildBarcode({
+      iin: '636028',
+      elements: { DAQ: 'BC0001', DCS: 'SPECIMEN', DAC: 'ALEX', DBB: '20000229', DBA: '20310101', DAJ: 'BC', DAK: 'V6B 1A1', DCG: 'CAN', DAU: '180 cm' },
+    }))!;
+
+    expect(license.dateOfBirth).toBe('02292000');
+    expect(license.expirationDate).toBe('01012031');
+    expect(license.zipCode).toBe('V6B1A1');
+    expect(license.height).toBe('180 cm');
+  });
+
+  it('flags truncated names', () => {
+    const license = parseDriversLicense(buildBarcode({
+      elements: { ...WA_ELEMENTS, DCS: 'WOLFESCHLEGELSTEINHAUSENBERGERD', DDE: 'T' },
+    }))!;
+
+    expect(license.lastName).toBe('Wolfeschlegelsteinhausenbergerd');
+    expect(license.nameTruncated).toBe(true);
+  });
+
+  it('parses ID card subfiles the same way', () => {
+    const license = parseDriversLicense(buildBarcode({ subfileType: 'ID', elements: WA_ELEMENTS }))!;
+    expect(license.firstName).toBe('Rowan');
+    expect(license.provenance.firstName?.subfile).toBe('ID');
+  });
+
+  it('returns null without a first name', () => {
+    const { DAC, ...noFirstName } = WA_ELEMENTS;
+    expect(parseDriversLicense(buildBarcode({ elements: noFirstName }))).toBeNull();
+  });
+});
+
+describe('normalizers', () => {
+  it('normalizes dates to MMDDYYYY and rejects impossible dates', () => {
+    expect(normalizeAamvaDate('07231990', 'MDY')).toBe('07231990');
+    expect(normalizeAamvaDate('19900723', 'MDY')).toBe('07231990');   // wrong order on the card
+    expect(normalizeAamvaDate('19900723', 'YMD')).toBe('07231990');
+    expect(normalizeAamvaDate('02291990', 'MDY')).toBe('');           // 1990 is not a leap year
+    expect(normalizeAamvaDate('02292004', 'MDY')).toBe('02292004');
+    expect(normalizeAamvaDate('1990', 'MDY')).toBe('');
+  });
+
+  it('normalizes heights', () => {
+    expect(normalizeAamvaHeight('068 IN')).toBe('068 in');
+    expect(normalizeAamvaHeight('5-09')).toBe('069 in');
+    expect(normalizeAamvaHeight('509')).toBe('069 in');
+    expect(normalizeAamvaHeight('070')).toBe('070 in');
+    expect(normalizeAamvaHeight('', '175')).toBe('175 cm');
+  });
+});
+
+describe('calculateAge (21+ gate)', () => {
+  const today = new Date(2026, 9, 19);  // Oct 19 2026
+
+  it('admits a customer whose 21st birthday is today', () => {
+    const dob = mmddyyyy(new Date(2005, 9, 19));
+    expect(calculateAge(dob, today)).toEqual({ age: 21, isOver21: true });
+  });
+
+  it('blocks a customer whose 21st birthday is tomorrow', () => {
+    const dob = mmddyyyy(new Date(2005, 9, 20));
+    expect(calculateAge(dob, today)).toEqual({ age: 20, isOver21: false });
+  });
+
+  it('treats Feb 29 birthdays as March 1 in non-leap years', () => {
+    expect(calculateAge('02292004', new Date(2025, 1, 28))).toEqual({ age: 20, isOver21: false });
+    expect(calculateAge('02292004', new Date(2025, 2, 1))).toEqual({ age: 21, isOver21: true });
+    expect(calculateAge('02292004', new Date(2028, 1, 29))).toEqual({ age: 24, isOver21: true });
+  });
+
+  it('returns null for malformed dates', () => {
+    expect(calculateAge('', today)).toBeNull();
+    expect(calculateAge('0314199', today)).toBeNull();
+    expect(calculateAge('AB141990', today)).toBeNull();
+  });
+
+  it('gates on the parsed DOB from a barcode', () => {
+    const now = new Date();
+    const minorDob = mmddyyyy(new Date(now.getFullYear() - 20, now.getMonth(), now.getDate()));
+    const license = parseDriversLicense(buildBarcode({ elements: { ...WA_ELEMENTS, DBB: minorDob } }))!;
+    expect(license.isOver21).toBe(false);
+    expect(license.age).toBe(20);
+  });
+});
+
+describe('formatDOB', () => {
+  it('formats MMDDYYYY for display', () => {
+    expect(formatDOB('03141990')).toBe('03/14/1990');
+  });
+
+  it('leaves anything else untouched', () => {
+    expect(formatDOB('')).toBe('');
+    expect(formatDOB('1990')).toBe('1990');
+  });
+});
+
+describe('evaluateScan', () => {
+  it('rejects short 1D barcodes', () => {
+    expect(evaluateScan('012345678905')).toMatchObject({ ok: false, error: 'not_aamva_marker' });
+  });
+
+  it('reports which required fields are missing', () => {
+    const { DCS, DBB, ...elements } = WA_ELEMENTS;
+    const result = evaluateScan(buildBarcode({ elements }));
+    expect(result.ok).toBe(false);
+    expect(result.error).toBe('missing_required_fields:lastName,dateOfBirth');
+  });
+
+  it('still parses expired cards (expiry is a policy decision, not a parse failure)', () => {
+    const result = evaluateScan(buildBarcode({ elements: { ...WA_ELEMENTS, DBA: '01012020' } }));
+    expect(result.ok).toBe(true);
+    expect(result.license!.expirationDate).toBe('01012020');
+  });
+});
+
+// Anonymized failed_scans rows imported with `npm run fixtures:import -- <export.csv>`
+interface FailedScanFixture {
+  name: string;
+  originalError: string;
+  raw: string;
+  expected: {
+    ok: boolean;
+    error: string | null;
+    fields: Record<string, string | number | boolean | null>;
+  };
+}
+
+const failedScanFixtures: FailedScanFixture[] = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'fixtures/failed-scans.json'), 'utf8')
+);
+
+describe('failed_scans fixtures', () => {
+  for (const fixture of failedScanFixtures) {
+    it(fixture.name, () => {
+      const result = evaluateScan(fixture.raw);
+      expect(result.ok).toBe(fixture.expected.ok);
+      expect(result.error).toBe(fixture.expected.error);
+      for (const [field, value] of Object.entries(fixture.expected.fields)) {
+        expect(result.license?.[field as keyof typeof result.license] ?? null).toEqual(value);
+      }
+    });
+  }
+});
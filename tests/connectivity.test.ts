@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { nextConnectivity, isApiAvailable, INITIAL_CONNECTIVITY, SLOW_PROBE_MS } from '../electron/shared/connectivity';
+
+const NOW = '2026-10-19T15:00:00.000Z';
+
+describe('nextConnectivity', () => {
+  it('goes degraded on the first missed probe and offline on the second', () => {
+    const miss = { reachable: false, status: null, latencyMs: 8000, error: 'fetch failed' };
+    const once = nextConnectivity(INITIAL_CONNECTIVITY, miss, NOW);
+    expect(once.state).toBe('degraded');
+    const twice = nextConnectivity(once, miss, NOW);
+    expect(twice.state).toBe('offline');
+    expect(twice.consecutiveFailures).toBe(2);
+    expect(isApiAvailable(twice.state)).toBe(false);
+  });
+
+  it('comes straight back online on a fast answer', () => {
+    const offline = { ...INITIAL_CONNECTIVITY, state: 'offline' as const, consecutiveFailures: 5 };
+    const back = nextConnectivity(offline, { reachable: true, status: 200, latencyMs: 120 }, NOW);
+    expect(back).toMatchObject({ state: 'online', consecutiveFailures: 0, lastOnlineAt: NOW, error: null });
+  });
+
+  it('treats slow answers and server errors as degraded', () => {
+    expect(nextConnectivity(INITIAL_CONNECTIVITY, { reachable: true, status: 200, latencyMs: SLOW_PROBE_MS + 1 }, NOW).state).toBe('degraded');
+    const serverError = nextConnectivity(INITIAL_CONNECTIVITY, { reachable: true, status: 503, latencyMs: 100 }, NOW);
+    expect(serverError.state).toBe('degraded');
+    expect(serverError.lastOnlineAt).toBeNull();
+    expect(isApiAvailable(serverError.state)).toBe(true);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeCrossVenuePolicy, enabledSiblings, siblingToCreateRequest } from '../electron/shared/crossVenue';
+
+const VENUES = ['tacoma', 'southWenatchee', 'wenatchee'];
+
+describe('normalizeCrossVenuePolicy', () => {
+  it('lists every other venue, turning unknown modes off and dropping unknown venues', () => {
+    expect(normalizeCrossVenuePolicy({ southWenatchee: 'create', tacoma: 'sometimes', leavenworth: 'link', wenatchee: 'link' }, 'wenatchee', VENUES))
+      .toEqual({ tacoma: 'off', southWenatchee: 'create' });
+    expect(normalizeCrossVenuePolicy(undefined, 'tacoma', VENUES)).toEqual({ southWenatchee: 'off', wenatchee: 'off' });
+  });
+
+  it('only returns siblings that are switched on', () => {
+    expect(enabledSiblings({ tacoma: 'off', southWenatchee: 'link' })).toEqual([{ venueId: 'southWenatchee', mode: 'link' }]);
+  });
+});
+
+describe('siblingToCreateRequest', () => {
+  it('copies the sibling record, converting the birthday to MMDDYYYY', () => {
+    expect(siblingToCreateRequest({
+      first_name: 'Rowan', last_name: 'Ashford', telephone: '5095550142', loyalty_member: 1,
+      birthday: '1990-07-23', drivers_license: 'ASHFORR*123AB', city: 'Wenatchee', state: 'WA', zipcode: '98801',
+    })).toEqual({
+      firstName: 'Rowan', lastName: 'Ashford', telephone: '5095550142', email: undefined, loyaltyOptIn: true,
+      address1: undefined, city: 'Wenatchee', state: 'WA', zipCode: '98801',
+      dateOfBirth: '07231990', driversLicense: 'ASHFORR*123AB',
+    });
+  });
+});
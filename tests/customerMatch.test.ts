@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchCustomers,
+  scoreCandidate,
+  firstNameSimilarity,
+  lastNameSimilarity,
+  jaroWinkler,
+  areNicknames,
+  maskCandidate,
+  nameMatchKey,
+  phoneMatchKey,
+  AUTO_ACCEPT_SCORE,
+  MatchCandidate,
+} from '../electron/shared/customerMatch';
+
+const customer = (id: number, first_name: string, last_name: string, extra: Partial<MatchCandidate> = {}): MatchCandidate =>
+  ({ id, first_name, last_name, ...extra });
+
+describe('name similarity', () => {
+  it('treats nicknames as the same first name, but below an exact match', () => {
+    expect(areNicknames('Bob', 'ROBERT')).toBe(true);
+    expect(areNicknames('Bob', 'William')).toBe(false);
+    expect(firstNameSimilarity('ROBERT', 'Bob')).toBeGreaterThan(0.7);
+    expect(firstNameSimilarity('ROBERT', 'Bob')).toBeLessThan(firstNameSimilarity('ROBERT', 'Robert'));
+  });
+
+  it('handles multi-word, hyphenated and truncated last names', () => {
+    expect(lastNameSimilarity('VAN HOUTEN', 'Van')).toBeGreaterThanOrEqual(0.85);
+    expect(lastNameSimilarity('GARCIA-LOPEZ', 'Garcia')).toBeGreaterThanOrEqual(0.85);
+    expect(lastNameSimilarity('DELACRUZ', 'De La Cruz')).toBe(1);
+    expect(lastNameSimilarity('SMITH', 'Jones')).toBeLessThan(0.7);
+  });
+
+  it('scores typos high and unrelated names low', () => {
+    expect(jaroWinkler('MARTHA', 'MARHTA')).toBeGreaterThan(0.95);
+    expect(jaroWinkler('ROWAN', 'QUINCY')).toBeLessThan(0.5);
+  });
+});
+
+describe('scoreCandidate', () => {
+  it('adds birthday, license and phone evidence and penalizes a different birthday', () => {
+    const query = { firstName: 'ROBERT', lastName: 'SMITH', birthday: '1990-07-23', licenseNumber: 'SMITHR*123AB', phone: '(509) 555-0142' };
+    const backed = scoreCandidate(query, customer(1, 'Bob', 'Smith', { birthday: '1990-07-23', drivers_license: 'smithr*123ab', telephone: '5095550142' }));
+    expect(backed.score).toBe(100);
+    expect(backed.reasons).toContain('birthday matches');
+
+    const otherPerson = scoreCandidate(query, customer(2, 'Robert', 'Smith', { birthday: '1961-02-01' }));
+    expect(otherPerson.score).toBeLessThan(AUTO_ACCEPT_SCORE);
+    expect(otherPerson.reasons).toContain('different birthday on file');
+  });
+});
+
+describe('matchCustomers', () => {
+  it('auto-accepts a single exact name match', () => {
+    const result = matchCustomers({ firstName: 'ROWAN', lastName: 'ASHFORD' }, [
+      customer(1, 'Rowan', 'Ashford'),
+      customer(2, 'Quincy', 'Ashford'),
+    ]);
+    expect(result.decision).toBe('accept');
+    expect(result.candidates.map(c => c.customer.id)).toEqual([1]);
+  });
+
+  it('is ambiguous when two records share the name', () => {
+    const result = matchCustomers({ firstName: 'ROWAN', lastName: 'ASHFORD' }, [
+      customer(1, 'Rowan', 'Ashford'),
+      customer(2, 'Rowan', 'Ashford'),
+    ]);
+    expect(result.decision).toBe('ambiguous');
+    expect(result.candidates).toHaveLength(2);
+  });
+
+  it('needs more than a nickname to auto-accept', () => {
+    const nicknameOnly = matchCustomers({ firstName: 'ROBERT', lastName: 'SMITH' }, [customer(1, 'Bob', 'Smith')]);
+    expect(nicknameOnly.decision).toBe('ambiguous');
+
+    const withBirthday = matchCustomers({ firstName: 'ROBERT', lastName: 'SMITH', birthday: '1990-07-23' }, [
+      customer(1, 'Bob', 'Smith', { birthday: '1990-07-23' }),
+      customer(2, 'Rob', 'Smith', { birthday: '1985-01-01' }),
+    ]);
+    expect(withBirthday.decision).toBe('accept');
+    expect(withBirthday.candidates[0].customer.id).toBe(1);
+  });
+
+  it('lets the birthday break a same-name tie', () => {
+    const result = matchCustomers({ firstName: 'ROWAN', lastName: 'ASHFORD', birthday: '1990-07-23' }, [
+      customer(1, 'Rowan', 'Ashford', { birthday: '1971-03-14' }),
+      customer(2, 'Rowan', 'Ashford', { birthday: '1990-07-23' }),
+    ]);
+    expect(result.decision).toBe('accept');
+    expect(result.candidates[0].customer.id).toBe(2);
+  });
+
+  it('keeps the later copy of a duplicate record and finds nobody for unrelated names', () => {
+    const merged = matchCustomers({ firstName: 'ROWAN', lastName: 'ASHFORD', birthday: '1990-07-23' }, [
+      customer(1, 'Rowan', 'Ashford'),
+      customer(1, 'Rowan', 'Ashford', { birthday: '1990-07-23' }),
+    ]);
+    expect(merged.candidates).toHaveLength(1);
+    expect(merged.candidates[0].reasons).toContain('birthday matches');
+
+    expect(matchCustomers({ firstName: 'ROWAN', lastName: 'ASHFORD' }, [customer(3, 'Quincy', 'Jones')]).decision).toBe('none');
+  });
+});
+
+describe('disambiguation', () => {
+  it('resolves a same-name tie to the record picked before', () => {
+    const candidates = [customer(1, 'Rowan', 'Ashford'), customer(2, 'Rowan', 'Ashford')];
+    const result = matchCustomers({ firstName: 'ROWAN', lastName: 'ASHFORD', rememberedCustomerId: 2 }, candidates);
+    expect(result.decision).toBe('accept');
+    expect(result.candidates[0].customer.id).toBe(2);
+    expect(result.candidates[0].reasons).toContain('picked before');
+  });
+
+  it('does not let a remembered pick rescue a non-match', () => {
+    const result = matchCustomers({ firstName: 'ROWAN', lastName: 'ASHFORD', rememberedCustomerId: 3 }, [customer(3, 'Quincy', 'Jones')]);
+    expect(result.decision).toBe('none');
+  });
+
+  it('masks everything but first name, last initial, last 2 phone digits and birth month', () => {
+    expect(maskCandidate(customer(7, ' Rowan ', 'ashford', { telephone: '+1 (509) 555-0142', birthday: '1990-07-23', drivers_license: 'ASHFORR*123AB' })))
+      .toEqual({ id: 7, firstName: 'Rowan', lastInitial: 'A', phoneLast2: '42', birthMonth: 'July' });
+    expect(maskCandidate(customer(8, 'Quincy', '')))
+      .toEqual({ id: 8, firstName: 'Quincy', lastInitial: '', phoneLast2: null, birthMonth: null });
+  });
+
+  it('builds stable keys regardless of formatting', () => {
+    expect(phoneMatchKey('(509) 555-0142')).toBe(phoneMatchKey('15095550142'));
+    expect(nameMatchKey({ firstName: 'rowan', lastName: ' Ashford ', birthday: '1990-07-23' }))
+      .toBe(nameMatchKey({ firstName: 'ROWAN', lastName: 'ASHFORD', birthday: '1990-07-23' }));
+  });
+});
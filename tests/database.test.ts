@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ENCRYPTED_PREFIX } from '../electron/services/fieldCrypto';
+import { phoneticKeys } from '../electron/shared/nameSearch';
+
+// A fresh customers.db (and key file) in a temp directory per test; no OS keystore
+const electron = vi.hoisted(() => ({ userData: '' }));
+vi.mock('electron', () => ({
+  app: { getPath: () => electron.userData },
+  safeStorage: { isEncryptionAvailable: () => false },
+}));
+
+import {
+  initDatabase,
+  closeDatabase,
+  upsertCustomers,
+  getCustomerById,
+  getCustomersByPhone,
+  forgetCustomer,
+  isForgottenIdentifier,
+  logIdVerification,
+  getIdVerifications,
+  rotateDatabaseKey,
+} from '../electron/services/database';
+
+const VENUE = 'wenatchee-north';
+
+const customer = (id: number, telephone: string, license: string) => ({
+  id,
+  first_name: 'Jane',
+  last_name: 'Doe',
+  telephone,
+  drivers_license: license,
+  loyalty_member: true,
+});
+
+// What's actually on disk, read through a second connection
+const rawCustomer = (id: number) => {
+  const raw = new Database(path.join(electron.userData, 'customers.db'), { readonly: true });
+  try {
+    return raw.prepare(`SELECT telephone, drivers_license, telephone_hash FROM customers WHERE id = ?`).get(id) as { telephone: string; drivers_license: string; telephone_hash: string };
+  } finally {
+    raw.close();
+  }
+};
+
+const keyFile = () => JSON.parse(fs.readFileSync(path.join(electron.userData, 'customers.key'), 'utf8'));
+
+beforeEach(() => {
+  electron.userData = fs.mkdtempSync(path.join(os.tmpdir(), 'kiosk-db-'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  initDatabase();
+});
+
+afterEach(() => {
+  closeDatabase();
+  fs.rmSync(electron.userData, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe('forgetCustomer', () => {
+  it('deletes the customer and keeps syncs from bringing them back', () => {
+    upsertCustomers([customer(101, '5095550101', 'WDL123456789'), customer(102, '5095550102', 'WDL987654321')], VENUE);
+
+    const { record } = forgetCustomer('license', 'wdl123456789', 'Customer request', VENUE);
+    expect(JSON.parse(record.counts).customers).toBe(1);
+    expect(getCustomerById(101, VENUE)).toBeNull();
+
+    // The same record, and a new POSaBIT record for the same phone or license, are skipped
+    expect(upsertCustomers([customer(101, '5095550101', 'WDL123456789')], VENUE)).toBe(0);
+    expect(upsertCustomers([customer(201, '5095550101', 'WDL000000001')], VENUE)).toBe(0);
+    expect(upsertCustomers([customer(202, '5095550199', 'WDL123456789')], VENUE)).toBe(0);
+    expect(getCustomersByPhone('5095550101', VENUE)).toEqual([]);
+
+    // Everyone else still syncs
+    expect(upsertCustomers([customer(102, '5095550102', 'WDL987654321')], VENUE)).toBe(1);
+    expect(isForgottenIdentifier('license', 'WDL123456789')).toBe(true);
+    expect(isForgottenIdentifier('phone', '(509) 555-0101')).toBe(true);
+    expect(isForgottenIdentifier('phone', '5095550102')).toBe(false);
+  });
+
+  it('keeps a forgotten phone blocked after the kiosk moves venue', () => {
+    upsertCustomers([customer(101, '5095550101', 'WDL123456789')], VENUE);
+    forgetCustomer('phone', '5095550101', 'Customer request', VENUE);
+
+    rotateDatabaseKey(VENUE);
+    rotateDatabaseKey('wenatchee-south');
+    expect(upsertCustomers([customer(301, '5095550101', 'WDL000000003')], 'wenatchee-south')).toBe(0);
+    expect(isForgottenIdentifier('phone', '5095550101')).toBe(true);
+  });
+
+  it('clears only their age-log rows, not others with the same last 4', () => {
+    const scan = { venue_id: VENUE, outcome: 'admitted', age: 30, jurisdiction: 'WA', document_type: 'drivers_license', entry_method: 'ID_SCAN', expiration_date: null, days_expired: null };
+    logIdVerification(scan, 'WDL123456789');
+    logIdVerification(scan, 'WDL999996789');
+
+    const { record } = forgetCustomer('license', 'WDL123456789', 'Customer request', VENUE);
+    expect(JSON.parse(record.counts).auditReferences).toBe(1);
+    expect(getIdVerifications().map(row => row.license_last4).sort()).toEqual(['6789', null]);
+  });
+});
+
+describe('encryption at rest', () => {
+  it('encrypts plaintext rows left from before encryption on the next launch', () => {
+    closeDatabase();
+    const raw = new Database(path.join(electron.userData, 'customers.db'));
+    raw.function('phonetic_keys', (name: unknown) => phoneticKeys(typeof name === 'string' ? name : ''));  // customers_fts triggers
+    raw.prepare(`INSERT INTO customers (id, first_name, last_name, telephone, drivers_license, venue_id, synced_at) VALUES (?, ?, ?, ?, ?, ?, ?)`)
+      .run(301, 'Old', 'Row', '5095550301', 'WDL555555555', VENUE, new Date().toISOString());
+    raw.close();
+
+    initDatabase();
+    expect(rawCustomer(301).telephone.startsWith(ENCRYPTED_PREFIX)).toBe(true);
+    expect(rawCustomer(301).drivers_license.startsWith(ENCRYPTED_PREFIX)).toBe(true);
+    expect(getCustomersByPhone('5095550301', VENUE).map(c => c.drivers_license)).toEqual(['WDL555555555']);
+  });
+
+  it('re-encrypts everything under a new key when the kiosk moves venue', () => {
+    upsertCustomers([customer(101, '5095550101', 'WDL123456789')], VENUE);
+    rotateDatabaseKey(VENUE);  // first venue just claims the key
+    const firstKey = keyFile().current;
+    const before = rawCustomer(101);
+    expect(before.telephone.startsWith(ENCRYPTED_PREFIX)).toBe(true);
+
+    rotateDatabaseKey('wenatchee-south');
+    expect(keyFile().current).not.toBe(firstKey);
+    expect(keyFile().previous).toBeNull();
+
+    const after = rawCustomer(101);
+    expect(after.telephone).not.toBe(before.telephone);
+    expect(after.telephone_hash).toBe(before.telephone_hash);  // index key doesn't rotate
+    expect(getCustomersByPhone('5095550101', VENUE).map(c => c.telephone)).toEqual(['5095550101']);
+  });
+
+  it('finishes a rotation a crash interrupted', () => {
+    upsertCustomers([customer(101, '5095550101', 'WDL123456789')], VENUE);
+    closeDatabase();
+
+    // Crashed after saving the new key, before re-encrypting: the rows are still under "previous"
+    const file = keyFile();
+    fs.writeFileSync(path.join(electron.userData, 'customers.key'), JSON.stringify({
+      ...file,
+      current: Buffer.alloc(32, 7).toString('base64'),
+      previous: file.current,
+    }));
+
+    initDatabase();
+    expect(keyFile().previous).toBeNull();
+    expect(getCustomersByPhone('5095550101', VENUE).map(c => c.drivers_license)).toEqual(['WDL123456789']);
+  });
+
+  it('takes the index key from the data key of an older key file', () => {
+    forgetCustomer('license', 'WDL123456789', 'Customer request', VENUE);
+    closeDatabase();
+
+    // Before the index key existed the hashes were made with the data key
+    const { index, ...file } = keyFile();
+    fs.writeFileSync(path.join(electron.userData, 'customers.key'), JSON.stringify({ ...file, current: index }));
+
+    initDatabase();
+    expect(keyFile().index).toBe(index);
+    expect(isForgottenIdentifier('license', 'WDL123456789')).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { hashDeletionRecord, verifyDeletionChain, GENESIS_HASH, DeletionRecord } from '../electron/services/deletionLog';
+
+const buildChain = (reasons: string[]): DeletionRecord[] => {
+  const records: DeletionRecord[] = [];
+  let prev = GENESIS_HASH;
+  reasons.forEach((reason, i) => {
+    const entry = {
+      deleted_at: `2026-10-0${i + 1}T12:00:00.000Z`,
+      venue_id: 'wenatchee-north',
+      identifier_type: 'phone' as const,
+      identifier_hash: `hash-${i}`,
+      reason,
+      counts: JSON.stringify({ customers: 1, offlineQueue: 0, failedScans: 0, matchChoices: 0, auditReferences: 0 }),
+      prev_hash: prev,
+    };
+    const hash = hashDeletionRecord(entry);
+    records.push({ id: i + 1, ...entry, hash });
+    prev = hash;
+  });
+  return records;
+};
+
+describe('verifyDeletionChain', () => {
+  it('accepts an untouched chain that reaches the stored head', () => {
+    const records = buildChain(['request', 'request', 'request']);
+    const status = verifyDeletionChain(records, { count: 3, hash: records[2].hash });
+    expect(status).toEqual({ ok: true, count: 3, brokenAtId: null, truncated: false });
+    expect(verifyDeletionChain([], null).ok).toBe(true);
+  });
+
+  it('points at the first edited record', () => {
+    const records = buildChain(['request', 'request', 'request']);
+    records[1] = { ...records[1], reason: 'edited' };
+    expect(verifyDeletionChain(records, null)).toMatchObject({ ok: false, brokenAtId: 2 });
+  });
+
+  it('catches a record deleted from the middle', () => {
+    const records = buildChain(['a', 'b', 'c']);
+    expect(verifyDeletionChain([records[0], records[2]], null)).toMatchObject({ ok: false, brokenAtId: 3 });
+  });
+
+  it('catches records dropped off the end using the head', () => {
+    const records = buildChain(['a', 'b', 'c']);
+    const head = { count: 3, hash: records[2].hash };
+    expect(verifyDeletionChain(records.slice(0, 2), head)).toMatchObject({ ok: false, truncated: true });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicateGroups, DuplicateCustomer } from '../electron/shared/duplicates';
+
+const customer = (id: number, first_name: string, last_name: string, fields: Partial<DuplicateCustomer> = {}): DuplicateCustomer => ({
+  id, first_name, last_name,
+  telephone: null, email: null, birthday: null, drivers_license: null, loyalty_points: null, created_at: null,
+  ...fields,
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups records sharing a license number, whatever the names say', () => {
+    const groups = findDuplicateGroups([
+      customer(12, 'Robert', 'Ashford', { drivers_license: 'ashforr*123ab' }),
+      customer(40, 'Bob', 'Ashford-Lee', { drivers_license: 'ASHFORR*123AB' }),
+      customer(41, 'Jane', 'Doe'),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].reasons).toEqual(['license']);
+    expect(groups[0].customers.map(c => c.id)).toEqual([12, 40]);
+    expect(groups[0].suggestedSurvivorId).toBe(12);
+  });
+
+  it('groups same birthday + last name and near-identical names', () => {
+    const groups = findDuplicateGroups([
+      customer(1, 'Katherine', 'Smith', { birthday: '1990-07-23' }),
+      customer(2, 'Kate', 'Smith', { birthday: '1990-07-23' }),
+      customer(3, 'Jonathon', 'Miller'),
+      customer(4, 'Jonathan', 'Miller'),
+    ]);
+    expect(groups.map(g => g.reasons)).toEqual([['birthday_last_name'], ['similar_name']]);
+  });
+
+  it('does not treat a shared household phone as a duplicate', () => {
+    expect(findDuplicateGroups([
+      customer(1, 'Maria', 'Lopez', { telephone: '5095550142' }),
+      customer(2, 'Daniel', 'Lopez', { telephone: '(509) 555-0142' }),
+    ])).toEqual([]);
+    expect(findDuplicateGroups([
+      customer(1, 'Maria', 'Lopez', { telephone: '5095550142' }),
+      customer(2, 'Mariah', 'Garcia', { telephone: '509-555-0142' }),
+    ])[0].reasons).toEqual(['phone']);
+  });
+
+  it('keeps similar names apart when their birthdays differ', () => {
+    expect(findDuplicateGroups([
+      customer(1, 'Jonathan', 'Miller', { birthday: '1990-07-23' }),
+      customer(2, 'Jonathan', 'Miller', { birthday: '1962-01-05' }),
+    ])).toEqual([]);
+  });
+
+  it('links transitively and collects every reason', () => {
+    const groups = findDuplicateGroups([
+      customer(5, 'Ann', 'Lee', { drivers_license: 'LEEANN123' }),
+      customer(6, 'Annie', 'Lee', { drivers_license: 'LEEANN123', telephone: '2065550100' }),
+      customer(7, 'Anne', 'Leigh', { telephone: '2065550100' }),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].customers.map(c => c.id)).toEqual([5, 6, 7]);
+    expect(groups[0].reasons).toEqual(['license', 'phone']);
+  });
+});
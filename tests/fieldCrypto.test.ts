@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { encryptField, decryptField, blindIndex, generateKey, isEncrypted } from '../electron/services/fieldCrypto';
+
+describe('encryptField / decryptField', () => {
+  it('round-trips a value and never stores the plaintext', () => {
+    const key = generateKey();
+    const encrypted = encryptField('5095550142', key);
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('5095550142');
+    expect(decryptField(encrypted, [key])).toBe('5095550142');
+  });
+
+  it('uses a fresh IV so equal values encrypt differently', () => {
+    const key = generateKey();
+    expect(encryptField('ASHFORR*123AB', key)).not.toBe(encryptField('ASHFORR*123AB', key));
+  });
+
+  it('keeps empty values null and passes legacy plaintext through', () => {
+    const key = generateKey();
+    expect(encryptField('', key)).toBeNull();
+    expect(encryptField(null, key)).toBeNull();
+    expect(decryptField(null, [key])).toBeNull();
+    expect(decryptField('5095550142', [key])).toBe('5095550142');
+  });
+
+  it('reads values under the previous key during a rotation, and nothing under an unknown key', () => {
+    const previous = generateKey();
+    const current = generateKey();
+    const encrypted = encryptField('1990-07-23', previous);
+    expect(decryptField(encrypted, [current, previous])).toBe('1990-07-23');
+    expect(decryptField(encrypted, [current])).toBeNull();
+  });
+});
+
+describe('blindIndex', () => {
+  it('is stable for a key and differs across keys and purposes', () => {
+    const key = generateKey();
+    const hash = blindIndex('5095550142', key, 'phone');
+    expect(hash).toBe(blindIndex('5095550142', key, 'phone'));
+    expect(hash).not.toBe(blindIndex('5095550142', generateKey(), 'phone'));
+    expect(hash).not.toBe(blindIndex('5095550142', key, 'license'));
+    expect(blindIndex('', key, 'phone')).toBeNull();
+  });
+});
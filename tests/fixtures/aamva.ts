@@ -0,0 +1,79 @@
+// Synthetic AAMVA barcode builder for parser tests
+// Every name, number and address here is made up.
+
+export interface BarcodeOptions {
+  iin?: string;                     // 636045 = Washington
+  version?: number;                 // AAMVA version (1 = no jurisdiction version in header)
+  jurisdictionVersion?: number;
+  subfileType?: 'DL' | 'ID';
+  elements: Record<string, string>;
+  jurisdictionElements?: Record<string, string>;  // e.g. { ZWA: '...' } → "ZW" subfile
+  stripControlChars?: boolean;      // simulate a keyboard wedge that drops \n, \x1E, \r
+}
+
+const pad = (n: number, width: number) => String(n).padStart(width, '0');
+
+// Build a barcode with a correct header and subfile designator offsets
+export const buildBarcode = (options: BarcodeOptions): string => {
+  const {
+    iin = '636045',
+    version = 8,
+    jurisdictionVersion = 0,
+    subfileType = 'DL',
+    elements,
+    jurisdictionElements,
+    stripControlChars = false,
+  } = options;
+
+  const subfiles: { type: string; body: string }[] = [
+    { type: subfileType, body: subfileType + Object.entries(elements).map(([id, value]) => id + value).join('\n') + '\r' },
+  ];
+  if (jurisdictionElements && Object.keys(jurisdictionElements).length > 0) {
+    const type = Object.keys(jurisdictionElements)[0].substring(0, 2);
+    subfiles.push({ type, body: type + Object.entries(jurisdictionElements).map(([id, value]) => id + value).join('\n') + '\r' });
+  }
+
+  const versionPart = version >= 2 ? pad(version, 2) + pad(jurisdictionVersion, 2) : pad(version, 2);
+  const prefix = `@\n\x1E\rANSI ${iin}${versionPart}${pad(subfiles.length, 2)}`;
+  const headerLength = prefix.length + subfiles.length * 10;
+
+  let offset = headerLength;
+  let designators = '';
+  for (const subfile of subfiles) {
+    designators += subfile.type + pad(offset, 4) + pad(subfile.body.length, 4);
+    offset += subfile.body.length;
+  }
+
+  const barcode = prefix + designators + subfiles.map(s => s.body).join('');
+  return stripControlChars ? barcode.replace(/[\x00-\x1F]/g, '') : barcode;
+};
+
+// MMDDYYYY for a date relative to `today`
+export const mmddyyyy = (date: Date): string =>
+  pad(date.getMonth() + 1, 2) + pad(date.getDate(), 2) + pad(date.getFullYear(), 4);
+
+// Washington v8 card with every commonly-read element
+export const WA_ELEMENTS: Record<string, string> = {
+  DCA: 'C',
+  DCB: 'NONE',
+  DCD: 'NONE',
+  DBA: '08152030',
+  DCS: 'SAMPLEMAN',
+  DAC: 'ROWAN',
+  DAD: 'ALEX',
+  DBD: '08152022',
+  DBB: '03141990',
+  DBC: '1',
+  DAY: 'BRO',
+  DAU: '070 IN',
+  DAG: '1200 DAKOTA AVE',
+  DAI: 'WENATCHEE',
+  DAJ: 'WA',
+  DAK: '988010000',
+  DAQ: 'WDLSAMPL123AB',
+  DCF: 'TESTDOCDISC01',
+  DCG: 'USA',
+  DDE: 'N',
+  DDF: 'N',
+  DDG: 'N',
+};
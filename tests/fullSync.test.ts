@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { resumePage, isCheckpointStale, FULL_SYNC_CHECKPOINT_MAX_AGE_MS } from '../electron/shared/fullSync';
+
+const now = Date.parse('2026-10-19T12:00:00.000Z');
+
+const checkpoint = (lastPage: number, startedAgoMs: number) => ({
+  venue_id: 'venue-1',
+  started_at: new Date(now - startedAgoMs).toISOString(),
+  last_page: lastPage,
+  total_pages: 200,
+  total_records: 19950,
+  fetched: lastPage * 100,
+  updated_at: new Date(now).toISOString(),
+});
+
+describe('resumePage', () => {
+  it('starts from the first page without a checkpoint', () => {
+    expect(resumePage(null, now)).toBe(1);
+  });
+
+  it('refetches the last page written', () => {
+    expect(resumePage(checkpoint(180, 60 * 60 * 1000), now)).toBe(180);
+    expect(resumePage(checkpoint(0, 0), now)).toBe(1);
+  });
+
+  it('starts over once the download is too old to resume', () => {
+    const old = checkpoint(180, FULL_SYNC_CHECKPOINT_MAX_AGE_MS + 1);
+    expect(isCheckpointStale(old, now)).toBe(true);
+    expect(resumePage(old, now)).toBe(1);
+  });
+});
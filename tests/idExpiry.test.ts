@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { checkIdExpiry, normalizeExpiredIdPolicy, DEFAULT_EXPIRED_ID_POLICY } from '../electron/shared/idExpiry';
+
+const today = new Date(2026, 9, 19);  // Oct 19 2026
+
+describe('checkIdExpiry', () => {
+  it('treats a card as valid through its expiration date', () => {
+    expect(checkIdExpiry('10192026', DEFAULT_EXPIRED_ID_POLICY, today)).toEqual({ outcome: 'valid', daysExpired: 0 });
+    expect(checkIdExpiry('10202030', DEFAULT_EXPIRED_ID_POLICY, today).outcome).toBe('valid');
+  });
+
+  it('blocks the day after expiry by default', () => {
+    expect(checkIdExpiry('10182026', DEFAULT_EXPIRED_ID_POLICY, today)).toEqual({ outcome: 'blocked', daysExpired: 1 });
+  });
+
+  it('asks for staff approval under the warn policy', () => {
+    expect(checkIdExpiry('09192026', { action: 'warn', graceDays: 0 }, today)).toEqual({ outcome: 'warn', daysExpired: 30 });
+  });
+
+  it('allows expired cards inside the grace window only', () => {
+    const policy = { action: 'grace' as const, graceDays: 30 };
+    expect(checkIdExpiry('09192026', policy, today)).toEqual({ outcome: 'grace', daysExpired: 30 });
+    expect(checkIdExpiry('09182026', policy, today)).toEqual({ outcome: 'blocked', daysExpired: 31 });
+  });
+
+  it('counts days across a DST change', () => {
+    expect(checkIdExpiry('11012026', DEFAULT_EXPIRED_ID_POLICY, new Date(2026, 10, 2)).daysExpired).toBe(1);
+    expect(checkIdExpiry('03072026', DEFAULT_EXPIRED_ID_POLICY, new Date(2026, 2, 9)).daysExpired).toBe(2);
+  });
+
+  it('lets cards without a usable expiration date through as unknown', () => {
+    expect(checkIdExpiry(undefined, DEFAULT_EXPIRED_ID_POLICY, today).outcome).toBe('unknown');
+    expect(checkIdExpiry('', DEFAULT_EXPIRED_ID_POLICY, today).outcome).toBe('unknown');
+    expect(checkIdExpiry('13452026', DEFAULT_EXPIRED_ID_POLICY, today).outcome).toBe('unknown');
+  });
+});
+
+describe('normalizeExpiredIdPolicy', () => {
+  it('defaults to block', () => {
+    expect(normalizeExpiredIdPolicy(undefined)).toEqual({ action: 'block', graceDays: 0 });
+    expect(normalizeExpiredIdPolicy({ action: 'nope' as any, graceDays: 5 })).toEqual({ action: 'block', graceDays: 5 });
+  });
+
+  it('clamps grace days to a non-negative whole number', () => {
+    expect(normalizeExpiredIdPolicy({ action: 'grace', graceDays: -3 })).toEqual({ action: 'grace', graceDays: 0 });
+    expect(normalizeExpiredIdPolicy({ action: 'grace', graceDays: 7.9 })).toEqual({ action: 'grace', graceDays: 7 });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectDocumentFormat,
+  evaluateScan,
+  mrzCheckDigit,
+  parseCacBarcode,
+  parseIdentityDocument,
+  parseMrz,
+} from '../electron/shared/identity';
+import { buildBarcode, WA_ELEMENTS } from './fixtures/aamva';
+
+// ICAO 9303 specimen documents (Part 4 / Part 5 examples)
+const TD3_SPECIMEN = [
+  'P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<',
+  'L898902C36UTO7408122F1204159ZE184226B<<<<<10',
+];
+const TD1_SPECIMEN = [
+  'I<UTOD231458907<<<<<<<<<<<<<<<',
+  '7408122F1204159UTO<<<<<<<<<<<6',
+  'ERIKSSON<<ANNA<MARIA<<<<<<<<<<',
+];
+
+const pad = (s: string, width: number) => s.padEnd(width, '<').substring(0, width);
+const withCheck = (field: string) => field + mrzCheckDigit(field);
+
+// US passport card style TD1 with real check digits
+const passportCard = (dob: string, expiry: string) => [
+  pad('C1USA' + withCheck('C03005988'), 30),
+  pad(withCheck(dob) + 'M' + withCheck(expiry) + 'USA', 30),
+  pad('SAMPLEMAN<<ROWAN<ALEX', 30),
+];
+
+// Synthetic CAC PDF417 (fixed-width, base-32 dates counted from 1000-01-01)
+const base32Days = (year: number, month: number, day: number) => {
+  const days = Math.round((Date.UTC(year, month - 1, day) - Date.UTC(1000, 0, 1)) / 86400000);
+  return days.toString(32).toUpperCase().padStart(4, '0');
+};
+const cacBarcode = (version: '1' | 'N' = '1') =>
+  version +
+  '0A1B2C' + 'P' + '12ABCDE' +
+  'TAYLOR'.padEnd(20) +
+  'SAMPLEMAN'.padEnd(26) +
+  base32Days(1988, 7, 4) +
+  'A' + 'N' + '01' + 'SGT   ' + 'ME' + '05' +
+  base32Days(2024, 1, 15) + base32Days(2028, 1, 15) + 'A' +
+  (version === '1' ? 'Q' : '');
+
+describe('detectDocumentFormat', () => {
+  it('tells the document formats apart', () => {
+    expect(detectDocumentFormat(buildBarcode({ elements: WA_ELEMENTS }))).toBe('aamva');
+    expect(detectDocumentFormat(TD3_SPECIMEN.join('\n'))).toBe('mrz');
+    expect(detectDocumentFormat(TD1_SPECIMEN.join(''))).toBe('mrz');
+    expect(detectDocumentFormat(cacBarcode())).toBe('cac_pdf417');
+    expect(detectDocumentFormat('10A1B2CP12ABCDEANA')).toBe('cac_code39');
+    expect(detectDocumentFormat('012345678905')).toBeNull();
+  });
+});
+
+describe('parseMrz', () => {
+  it('reads a TD3 passport with or without line breaks', () => {
+    for (const raw of [TD3_SPECIMEN.join('\n'), TD3_SPECIMEN.join('')]) {
+      expect(parseMrz(raw)).toMatchObject({
+        firstName: 'Anna',
+        middleName: 'Maria',
+        lastName: 'Eriksson',
+        dateOfBirth: '08121974',
+        expirationDate: '04152012',
+        gender: 'F',
+        documentType: 'passport',
+        documentFormat: 'mrz',
+        documentNumber: 'L898902C3',
+        issuingCountry: 'UTO',
+      });
+    }
+  });
+
+  it('reads a TD1 ID card', () => {
+    const record = parseMrz(TD1_SPECIMEN.join('\r\n'))!;
+    expect(record.documentType).toBe('id_card');
+    expect(record.documentNumber).toBe('D23145890');
+    expect(record.lastName).toBe('Eriksson');
+    expect(record.dateOfBirth).toBe('08121974');
+  });
+
+  it('recognizes a US passport card', () => {
+    const record = parseMrz(passportCard('000229', '320101').join(''))!;
+    expect(record).toMatchObject({
+      firstName: 'Rowan',
+      lastName: 'Sampleman',
+      dateOfBirth: '02292000',
+      expirationDate: '01012032',
+      documentType: 'passport_card',
+      issuingCountry: 'USA',
+    });
+    expect(record.licenseNumber).toBeUndefined();
+  });
+
+  it('rejects a misread line (bad check digit)', () => {
+    const misread = [TD3_SPECIMEN[0], TD3_SPECIMEN[1].replace('7408122', '7408132')];
+    expect(parseMrz(misread.join('\n'))).toBeNull();
+    expect(evaluateScan(misread.join('\n'))).toMatchObject({ ok: false, error: 'mrz_check_digit_failed' });
+  });
+});
+
+describe('parseCacBarcode', () => {
+  it('reads name, DOB and expiry from a CAC PDF417', () => {
+    const record = parseCacBarcode(cacBarcode())!;
+    expect(record).toMatchObject({
+      firstName: 'Taylor',
+      lastName: 'Sampleman',
+      middleName: 'Q',
+      dateOfBirth: '07041988',
+      expirationDate: '01152028',
+      documentType: 'military_id',
+      documentFormat: 'cac_pdf417',
+    });
+    expect(record.documentNumber).toBe(String(parseInt('12ABCDE', 32)));
+  });
+
+  it('reads version N cards without a middle initial', () => {
+    expect(parseCacBarcode(cacBarcode('N'))!.middleName).toBeUndefined();
+  });
+
+  it('explains why a Code 39 CAC scan is not enough', () => {
+    expect(evaluateScan('10A1B2CP12ABCDEANA')).toMatchObject({ ok: false, error: 'military_code39_no_dob' });
+  });
+});
+
+describe('parseIdentityDocument', () => {
+  it('labels AAMVA DL and ID subfiles', () => {
+    expect(parseIdentityDocument(buildBarcode({ elements: WA_ELEMENTS }))).toMatchObject({
+      documentType: 'drivers_license',
+      documentNumber: 'WDLSAMPL123AB',
+      licenseNumber: 'WDLSAMPL123AB',
+      issuingCountry: 'USA',
+    });
+    expect(parseIdentityDocument(buildBarcode({ subfileType: 'ID', elements: WA_ELEMENTS }))!.documentType).toBe('state_id');
+  });
+
+  it('gives every document type the same age fields', () => {
+    for (const raw of [TD3_SPECIMEN.join('\n'), cacBarcode(), buildBarcode({ elements: WA_ELEMENTS })]) {
+      const result = evaluateScan(raw);
+      expect(result.ok).toBe(true);
+      expect(typeof result.license!.age).toBe('number');
+      expect(result.license!.isOver21).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { phoneticKeys } from '../electron/shared/nameSearch';
+import { runMigrations, getSchemaVersion, getMigrationHistory, MIGRATIONS, LATEST_SCHEMA_VERSION, Migration } from '../electron/services/migrations';
+
+const tables = (db: Database.Database) =>
+  (db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`).all() as { name: string }[]).map(t => t.name);
+
+const backups = (dir: string) => (fs.existsSync(dir) ? fs.readdirSync(dir).sort() : []);
+
+const createTable = (version: number, table: string): Migration => ({
+  version,
+  name: `Create ${table}`,
+  up: (db) => db.exec(`CREATE TABLE ${table} (id INTEGER PRIMARY KEY)`),
+});
+
+let db: Database.Database;
+let backupDir: string;
+
+beforeEach(() => {
+  db = new Database(':memory:');
+  // Registered by initDatabase before migrating — the customers_fts triggers call it
+  db.function('phonetic_keys', { deterministic: true }, (name: unknown) => phoneticKeys(typeof name === 'string' ? name : ''));
+  backupDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'kiosk-migrations-')), 'backups');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(path.dirname(backupDir), { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe('runMigrations', () => {
+  it('brings a fresh database to the latest version without a backup', () => {
+    runMigrations(db, backupDir);
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(getMigrationHistory(db, 100)).toHaveLength(MIGRATIONS.length);
+    expect(backups(backupDir)).toEqual([]);
+
+    // Nothing pending — nothing recorded
+    runMigrations(db, backupDir);
+    expect(getMigrationHistory(db, 100)).toHaveLength(MIGRATIONS.length);
+  });
+
+  it('rolls back a failing migration and stops there', () => {
+    runMigrations(db, backupDir, [createTable(1, 'first')]);
+    const before = tables(db);
+
+    const failing: Migration = {
+      version: 2,
+      name: 'Half-done change',
+      up: (d) => {
+        d.exec(`CREATE TABLE second (id INTEGER PRIMARY KEY)`);
+        throw new Error('boom');
+      },
+    };
+    expect(() => runMigrations(db, backupDir, [createTable(1, 'first'), failing, createTable(3, 'third')])).toThrow('boom');
+
+    expect(getSchemaVersion(db)).toBe(1);
+    expect(tables(db)).toEqual(before);
+    const [last] = getMigrationHistory(db);
+    expect(last).toMatchObject({ version: 2, status: 'failed', error: 'boom' });
+    expect(getMigrationHistory(db).some(m => m.version === 3)).toBe(false);
+  });
+
+  it('backs up an existing database first and keeps only the newest few backups', () => {
+    runMigrations(db, backupDir, [createTable(1, 'first')]);
+    db.exec(`INSERT INTO first (id) VALUES (42)`);
+
+    fs.mkdirSync(backupDir, { recursive: true });
+    const old = ['a', 'b', 'c', 'd', 'e'].map(s => `customers-v0-2020-01-01T00-00-00-000Z-${s}.db`);
+    for (const file of old) fs.writeFileSync(path.join(backupDir, file), '');
+
+    runMigrations(db, backupDir, [createTable(1, 'first'), createTable(2, 'second')]);
+
+    const kept = backups(backupDir);
+    expect(kept).toHaveLength(5);
+    expect(kept).not.toContain(old[0]);
+    const backup = kept.find(f => f.startsWith('customers-v1-'))!;
+    expect(getMigrationHistory(db)[0].backup_path).toBe(path.join(backupDir, backup));
+
+    // The backup is the database as it was before migrating
+    const copy = new Database(path.join(backupDir, backup), { readonly: true });
+    expect(getSchemaVersion(copy)).toBe(1);
+    expect(copy.prepare(`SELECT id FROM first`).all()).toEqual([{ id: 42 }]);
+    expect(tables(copy)).not.toContain('second');
+    copy.close();
+  });
+});
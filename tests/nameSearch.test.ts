@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { phoneticCode, phoneticKeys, buildNameSearchQuery, buildLastNameQuery } from '../electron/shared/nameSearch';
+
+describe('phoneticCode', () => {
+  it('gives names that sound alike the same key', () => {
+    expect(phoneticCode('Robert')).toBe('R163');
+    expect(phoneticCode('Rupert')).toBe('R163');
+    expect(phoneticCode('Smith')).toBe(phoneticCode('Smyth'));
+    expect(phoneticCode('Ashcraft')).toBe('A261');
+  });
+
+  it('folds sound-alike first letters', () => {
+    expect(phoneticCode('Catherine')).toBe(phoneticCode('Katherine'));
+    expect(phoneticCode('Philip')).toBe(phoneticCode('Filip'));
+    expect(phoneticCode('Knight')).toBe(phoneticCode('Night'));
+  });
+
+  it('pads short names and ignores non-letters', () => {
+    expect(phoneticCode('Lee')).toBe('L000');
+    expect(phoneticCode("O'Neil")).toBe(phoneticCode('ONeil'));
+    expect(phoneticCode('123')).toBe('');
+  });
+});
+
+describe('phoneticKeys', () => {
+  it('keys every word of a name, accents stripped', () => {
+    expect(phoneticKeys('Van Houten')).toBe('V500 H350');
+    expect(phoneticKeys('José')).toBe(phoneticKeys('Jose'));
+    expect(phoneticKeys('')).toBe('');
+  });
+});
+
+describe('buildNameSearchQuery', () => {
+  it('requires every word to match by prefix or sound', () => {
+    expect(buildNameSearchQuery('rob smi')).toBe(
+      '({first_name last_name} : "ROB"* OR {first_phonetic last_phonetic} : "R100") AND ' +
+      '({first_name last_name} : "SMI"* OR {first_phonetic last_phonetic} : "S500")'
+    );
+  });
+
+  it('uses prefixes only for very short words and strips FTS syntax', () => {
+    expect(buildNameSearchQuery('jo "OR" *')).toBe('({first_name last_name} : "JO"*) AND ({first_name last_name} : "OR"*)');
+    expect(buildNameSearchQuery('  ')).toBeNull();
+  });
+});
+
+describe('buildLastNameQuery', () => {
+  it('matches any word of a multi-word last name', () => {
+    expect(buildLastNameQuery('Van Houten')).toBe(
+      'last_name : "VAN"* OR last_phonetic : "V500" OR last_name : "HOUTEN"* OR last_phonetic : "H350"'
+    );
+    expect(buildLastNameQuery('A')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  nextRetryDelay,
+  httpStatusFromError,
+  isPermanentQueueError,
+  shouldDeadLetter,
+  findPostedQueueItem,
+  OFFLINE_RETRY_POLICY,
+} from '../electron/shared/offlineQueue';
+
+describe('nextRetryDelay', () => {
+  it('doubles from the base delay and caps at the maximum', () => {
+    const noJitter = () => 0;
+    expect(nextRetryDelay(1, OFFLINE_RETRY_POLICY, noJitter)).toBe(30 * 1000);
+    expect(nextRetryDelay(2, OFFLINE_RETRY_POLICY, noJitter)).toBe(60 * 1000);
+    expect(nextRetryDelay(4, OFFLINE_RETRY_POLICY, noJitter)).toBe(4 * 60 * 1000);
+    expect(nextRetryDelay(20, OFFLINE_RETRY_POLICY, noJitter)).toBe(30 * 60 * 1000);
+  });
+
+  it('adds at most 20% jitter', () => {
+    expect(nextRetryDelay(1, OFFLINE_RETRY_POLICY, () => 1)).toBe(36 * 1000);
+  });
+});
+
+describe('failure classification', () => {
+  it('reads the status out of PosabitService errors', () => {
+    expect(httpStatusFromError('Failed to add to queue: 422 - {"error":"bad phone"}')).toBe(422);
+    expect(httpStatusFromError('fetch failed')).toBeNull();
+  });
+
+  it('dead-letters rejected payloads at once and everything else after the last attempt', () => {
+    expect(isPermanentQueueError('Failed to add to queue: 422 - invalid')).toBe(true);
+    expect(isPermanentQueueError('Failed to add to queue: 429 - slow down')).toBe(false);
+    expect(isPermanentQueueError('Failed to add to queue: 503 - unavailable')).toBe(false);
+    expect(shouldDeadLetter(1, 'Failed to add to queue: 400 - bad')).toBe(true);
+    expect(shouldDeadLetter(3, 'fetch failed')).toBe(false);
+    expect(shouldDeadLetter(OFFLINE_RETRY_POLICY.maxAttempts, 'fetch failed')).toBe(true);
+  });
+});
+
+describe('findPostedQueueItem', () => {
+  const item = (fields: Partial<{ customer_id: number | null; name: string; telephone: string | null; created_at: string }>) => ({
+    customer_id: null, name: 'Robert A', telephone: null, created_at: '2026-10-19T15:00:30.000Z', ...fields,
+  });
+  const entry = { customer_id: null, name: 'Robert A', phone: '(509) 555-0142', posting_started_at: '2026-10-19T15:00:00.000Z' };
+
+  it('finds an interrupted check-in by customer, or by name and phone', () => {
+    expect(findPostedQueueItem({ ...entry, customer_id: 77 }, [item({ customer_id: 77 })])).not.toBeNull();
+    expect(findPostedQueueItem(entry, [item({ telephone: '5095550142' })])).not.toBeNull();
+    expect(findPostedQueueItem(entry, [item({ telephone: '5095550199' })])).toBeNull();
+  });
+
+  it('ignores queue entries from before the attempt', () => {
+    expect(findPostedQueueItem(entry, [item({ telephone: '5095550142', created_at: '2026-10-19T14:30:00.000Z' })])).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toProvisionalId,
+  isProvisionalId,
+  pendingIdFromProvisional,
+  findCreatedCustomer,
+} from '../electron/shared/pendingCustomers';
+
+describe('provisional customer IDs', () => {
+  it('round-trips a pending row ID through a negative provisional ID', () => {
+    expect(toProvisionalId(7)).toBe(-7);
+    expect(pendingIdFromProvisional(toProvisionalId(7))).toBe(7);
+  });
+
+  it('only treats negative IDs as provisional', () => {
+    expect(isProvisionalId(-3)).toBe(true);
+    expect(isProvisionalId(12345)).toBe(false);
+    expect(isProvisionalId(null)).toBe(false);
+    expect(isProvisionalId(undefined)).toBe(false);
+  });
+});
+
+describe('findCreatedCustomer', () => {
+  const request = { firstName: 'Dana', lastName: 'Reyes', telephone: '(206) 555-0142' };
+  const startedAt = '2026-03-01T18:00:00.000Z';
+
+  it('finds the record an interrupted create made', () => {
+    const found = findCreatedCustomer(request, startedAt, [
+      { id: 1, first_name: 'Dan', last_name: 'Reyes', telephone: '2065550142', created_at: '2026-03-01T18:00:05.000Z' },
+      { id: 2, first_name: 'DANA', last_name: 'reyes', telephone: '+1 206-555-0142', created_at: '2026-03-01T18:00:05.000Z' },
+    ]);
+    expect(found?.id).toBe(2);
+  });
+
+  it('ignores a same-named household member who was already on file', () => {
+    const found = findCreatedCustomer(request, startedAt, [
+      { id: 3, first_name: 'Dana', last_name: 'Reyes', telephone: '2065550142', created_at: '2024-06-10T12:00:00.000Z' },
+    ]);
+    expect(found).toBeNull();
+  });
+});
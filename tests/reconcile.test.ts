@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { planReconciliation, classifyRemoteRecord } from '../electron/shared/reconcile';
+
+const local = [
+  { id: 1, synced_at: '2026-10-01T00:00:00.000Z' },
+  { id: 2, synced_at: '2026-09-01T00:00:00.000Z' },
+  { id: 3, synced_at: '2026-08-01T00:00:00.000Z' },
+  { id: 4, synced_at: '2026-10-10T00:00:00.000Z' },
+];
+
+describe('planReconciliation', () => {
+  it('confirms the stalest missing IDs first, up to the cap', () => {
+    expect(planReconciliation(local, new Set([1]), 2)).toEqual({ missing: 3, toConfirm: [3, 2], skipped: null });
+    expect(planReconciliation(local, new Set([1, 2, 3, 4])).toConfirm).toEqual([]);
+  });
+
+  it('refuses to act on an empty customer list', () => {
+    expect(planReconciliation(local, new Set()).skipped).toBeTruthy();
+    expect(planReconciliation([], new Set()).skipped).toBeNull();
+  });
+});
+
+describe('classifyRemoteRecord', () => {
+  it('tells deleted, merged and active records apart', () => {
+    expect(classifyRemoteRecord(7, null)).toEqual({ status: 'deleted' });
+    expect(classifyRemoteRecord(7, { id: 9 })).toEqual({ status: 'merged', survivorId: 9 });
+    expect(classifyRemoteRecord(7, { id: 7, merged_into_id: 12 })).toEqual({ status: 'merged', survivorId: 12 });
+    expect(classifyRemoteRecord(7, { id: 7, merged_into_id: null })).toEqual({ status: 'active' });
+  });
+});
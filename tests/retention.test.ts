@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeRetentionPolicies, normalizeForgetIdentifier, DEFAULT_RETENTION_POLICIES } from '../electron/shared/retention';
+
+describe('normalizeRetentionPolicies', () => {
+  it('keeps whole positive day counts and falls back to defaults for anything else', () => {
+    expect(normalizeRetentionPolicies({ customers: 90.7, offlineQueue: 0, failedScans: 'x' as any }))
+      .toEqual({ customers: 90, offlineQueue: DEFAULT_RETENTION_POLICIES.offlineQueue, failedScans: DEFAULT_RETENTION_POLICIES.failedScans });
+    expect(normalizeRetentionPolicies(null)).toEqual(DEFAULT_RETENTION_POLICIES);
+  });
+});
+
+describe('normalizeForgetIdentifier', () => {
+  it('needs a full phone number and keeps the last 10 digits', () => {
+    expect(normalizeForgetIdentifier('phone', '+1 (509) 555-0142')).toBe('5095550142');
+    expect(normalizeForgetIdentifier('phone', '555-0142')).toBeNull();
+  });
+
+  it('upper-cases license numbers and rejects fragments', () => {
+    expect(normalizeForgetIdentifier('license', ' ashforr*123ab ')).toBe('ASHFORR*123AB');
+    expect(normalizeForgetIdentifier('license', '3AB')).toBeNull();
+  });
+
+  it('accepts only positive numeric customer IDs', () => {
+    expect(normalizeForgetIdentifier('customer_id', '00412')).toBe('412');
+    expect(normalizeForgetIdentifier('customer_id', '0')).toBeNull();
+    expect(normalizeForgetIdentifier('customer_id', '41a')).toBeNull();
+  });
+});
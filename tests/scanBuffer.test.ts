@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ScanBuffer, KEYBOARD_WEDGE_OPTIONS, SERIAL_OPTIONS, keyToScanText } from '../electron/shared/scanBuffer';
+import { buildBarcode, WA_ELEMENTS } from './fixtures/aamva';
+
+// Type a string into the buffer one key at a time, gapMs apart
+const typeInto = (buffer: ScanBuffer, text: string, gapMs: number, start = 0) => {
+  [...text].forEach((ch, i) => buffer.push(ch, start + i * gapMs));
+};
+
+describe('ScanBuffer', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('emits one scan once the scanner goes quiet', () => {
+    const scans: string[] = [];
+    let gaps: number[] = [];
+    const buffer = new ScanBuffer((data, gapsMs) => { scans.push(data); gaps = gapsMs; }, KEYBOARD_WEDGE_OPTIONS);
+    typeInto(buffer, 'ABC123456', 5);
+    expect(scans).toEqual([]);
+    vi.advanceTimersByTime(KEYBOARD_WEDGE_OPTIONS.idleMs);
+    expect(scans).toEqual(['ABC123456']);
+    expect(gaps).toEqual(Array(8).fill(5));
+  });
+
+  it('ignores a person typing on the keyboard', () => {
+    const scans: string[] = [];
+    const buffer = new ScanBuffer(data => scans.push(data), KEYBOARD_WEDGE_OPTIONS);
+    typeInto(buffer, 'hello world', 90);
+    buffer.flush();
+    expect(scans).toEqual([]);
+  });
+
+  it('recognises scanner speed after a few keys so the driver can hold the rest back', () => {
+    const buffer = new ScanBuffer(() => {}, KEYBOARD_WEDGE_OPTIONS);
+    const held = [...'ABC123456'].map((ch, i) => buffer.push(ch, i * 5));
+    expect(held).toEqual([false, false, true, true, true, true, true, true, true]);
+
+    buffer.reset();
+    expect([...'hello'].map((ch, i) => buffer.push(ch, i * 90))).toEqual([false, false, false, false, false]);
+  });
+
+  it("holds control keys from the first one, so a scan's leading Enter never reaches the page", () => {
+    const buffer = new ScanBuffer(() => {}, KEYBOARD_WEDGE_OPTIONS);
+    const held = [...'@\n\x1E\rANSI '].map((ch, i) => buffer.push(ch, i * 5));
+    expect(held).toEqual([false, true, true, true, true, true, true, true, true]);
+
+    // A person pressing Enter is held too, until the buffer drops it
+    buffer.reset();
+    expect(buffer.push('\n', 1000)).toBe(true);
+    expect(buffer.push('\t', 2000)).toBe(true);
+  });
+
+  it('reports input that ends without making a scan', () => {
+    const scans: string[] = [];
+    let drops = 0;
+    const buffer = new ScanBuffer(data => scans.push(data), KEYBOARD_WEDGE_OPTIONS, () => drops++);
+    typeInto(buffer, 'abc', 5);
+    vi.advanceTimersByTime(KEYBOARD_WEDGE_OPTIONS.idleMs);
+    expect(scans).toEqual([]);
+    expect(drops).toBe(1);
+
+    typeInto(buffer, 'ABC123456', 5, 1000);
+    vi.advanceTimersByTime(KEYBOARD_WEDGE_OPTIONS.idleMs);
+    expect(scans).toEqual(['ABC123456']);
+    expect(drops).toBe(1);
+  });
+
+  it('drops short bursts', () => {
+    const scans: string[] = [];
+    const buffer = new ScanBuffer(data => scans.push(data), SERIAL_OPTIONS);
+    buffer.push('12');
+    vi.advanceTimersByTime(SERIAL_OPTIONS.idleMs);
+    expect(scans).toEqual([]);
+  });
+
+  it('joins serial chunks into one scan and trims the trailing terminator', () => {
+    const scans: string[] = [];
+    const buffer = new ScanBuffer(data => scans.push(data), SERIAL_OPTIONS);
+    const barcode = buildBarcode({ elements: WA_ELEMENTS });
+    buffer.push(barcode.slice(0, 64));
+    buffer.push(barcode.slice(64) + '\r\n');
+    vi.advanceTimersByTime(SERIAL_OPTIONS.idleMs);
+    expect(scans).toEqual([barcode.replace(/[\r\n]+$/, '')]);
+  });
+
+  it('reset discards a partial scan', () => {
+    const scans: string[] = [];
+    const buffer = new ScanBuffer(data => scans.push(data), SERIAL_OPTIONS);
+    buffer.push('PARTIAL-READ');
+    buffer.reset();
+    vi.advanceTimersByTime(SERIAL_OPTIONS.idleMs);
+    expect(scans).toEqual([]);
+  });
+});
+
+describe('keyToScanText', () => {
+  it('maps keyboard-wedge keys to barcode text', () => {
+    expect(keyToScanText('A')).toBe('A');
+    expect(keyToScanText('@')).toBe('@');
+    expect(keyToScanText('Enter')).toBe('\n');
+    expect(keyToScanText('Tab')).toBe('\t');
+    expect(keyToScanText('Shift')).toBe('');
+    expect(keyToScanText('ArrowLeft')).toBe('');
+  });
+
+  it('maps Ctrl+ASCII combinations to control characters', () => {
+    expect(keyToScanText('^', true)).toBe('\x1E');
+    expect(keyToScanText(']', true)).toBe('\x1D');
+    expect(keyToScanText('j', true)).toBe('\n');
+    expect(keyToScanText('M', true)).toBe('\r');
+  });
+});
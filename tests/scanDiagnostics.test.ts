@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { diagnoseScan, showControlChars, summarizeKeyTiming } from '../electron/shared/scanDiagnostics';
+import { buildBarcode, WA_ELEMENTS } from './fixtures/aamva';
+
+describe('showControlChars', () => {
+  it('spells out control characters', () => {
+    expect(showControlChars('@\n\x1E\rANSI \x1D')).toBe('@⟨LF⟩⟨RS⟩⟨CR⟩ANSI ⟨GS⟩');
+    expect(showControlChars('\x07')).toBe('⟨0x07⟩');
+  });
+});
+
+describe('summarizeKeyTiming', () => {
+  it('summarizes keystroke gaps', () => {
+    expect(summarizeKeyTiming([4, 6, 80])).toEqual({ gaps: 3, averageMs: 30, maxMs: 80, slowGaps: 1 });
+    expect(summarizeKeyTiming([])).toBeNull();
+  });
+});
+
+describe('diagnoseScan', () => {
+  it('finds nothing wrong with a clean scan', () => {
+    const diagnosis = diagnoseScan(buildBarcode({ elements: WA_ELEMENTS, jurisdictionElements: { ZWA: 'SAMPLE' } }), [5, 6, 5]);
+    expect(diagnosis.format).toBe('aamva');
+    expect(diagnosis.preamble).toBe('@⟨LF⟩⟨RS⟩⟨CR⟩');
+    expect(diagnosis.header?.iin).toBe('636045');
+    expect(diagnosis.subfiles.map(s => [s.type, s.drift])).toEqual([['DL', 0], ['ZW', 0]]);
+    expect(diagnosis.parseError).toBeNull();
+    expect(diagnosis.findings).toEqual([]);
+  });
+
+  it('blames the scanner when control characters are stripped', () => {
+    const diagnosis = diagnoseScan(buildBarcode({ elements: WA_ELEMENTS, stripControlChars: true }));
+    expect(diagnosis.controlChars).toEqual([]);
+    expect(diagnosis.subfiles[0].drift).toBe(-3);
+    expect(diagnosis.findings[0]).toMatch(/stripping/);
+    expect(diagnosis.findings[diagnosis.findings.length - 1]).toMatch(/recovered/);
+  });
+
+  it('reports a truncated scan and slow keystrokes', () => {
+    const full = buildBarcode({ elements: WA_ELEMENTS });
+    const diagnosis = diagnoseScan(full.substring(0, full.length - 40), [5, 120, 5]);
+    expect(diagnosis.findings.some(f => /shorter than the header/.test(f))).toBe(true);
+    expect(diagnosis.findings.some(f => /stalling/.test(f))).toBe(true);
+  });
+
+  it('points at the parser when the scan data is intact', () => {
+    // No first name (DAC/DCT) — complete, well-formed scan the parser can't use
+    const { DAC, DAD, ...noFirstName } = WA_ELEMENTS;
+    const diagnosis = diagnoseScan(buildBarcode({ elements: noFirstName }));
+    expect(diagnosis.parseError).not.toBeNull();
+    expect(diagnosis.findings).toEqual([expect.stringMatching(/parser bug/)]);
+  });
+
+  it('recognizes non-ID barcodes', () => {
+    expect(diagnoseScan('012345678905').findings[0]).toMatch(/Not an ID barcode/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Input, WebContents } from 'electron';
+import { KEYBOARD_WEDGE_OPTIONS } from '../electron/shared/scanBuffer';
+import { buildBarcode, WA_ELEMENTS } from './fixtures/aamva';
+
+vi.mock('electron', () => ({
+  BrowserWindow: { getAllWindows: () => [] },
+}));
+
+import { ScannerService } from '../electron/services/scanner';
+
+// The key event a keyboard-wedge scanner sends for a character (control characters as Ctrl+key)
+const keyInput = (ch: string): Input => {
+  const named: Record<string, string> = { '\n': 'Enter', '\t': 'Tab' };
+  const control = ch < ' ' && !named[ch];
+  return {
+    type: 'keyDown',
+    key: named[ch] ?? (control ? String.fromCharCode(ch.charCodeAt(0) + 64) : ch),
+    control,
+    alt: false,
+    meta: false,
+  } as Input;
+};
+
+let service: ScannerService;
+let page: { isDestroyed: () => boolean; sendInputEvent: ReturnType<typeof vi.fn> };
+let target: WebContents;
+
+// Type text at scanner speed; returns the characters that reached the page
+const scan = (text: string, gapMs = 5): string => {
+  let reached = '';
+  for (const ch of text) {
+    if (!service.handleKeyboardInput(keyInput(ch), target)) reached += ch;
+    vi.advanceTimersByTime(gapMs);
+  }
+  return reached;
+};
+
+const sentKeys = () => page.sendInputEvent.mock.calls.map(([event]) => `${event.type}:${event.keyCode}`);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  page = { isDestroyed: () => false, sendInputEvent: vi.fn() };
+  target = page as unknown as WebContents;
+  service = new ScannerService({ driver: 'keyboard', serialPath: '', replayDir: '' });
+  service.start();
+});
+
+afterEach(() => {
+  service.stop();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('keyboard wedge driver', () => {
+  it("keeps a scan's leading Enter from reaching the page", () => {
+    const barcode = buildBarcode({ elements: WA_ELEMENTS });
+    expect(scan(barcode)).toBe('@');
+    vi.advanceTimersByTime(KEYBOARD_WEDGE_OPTIONS.idleMs);
+
+    expect(service.getRecentScans().map(s => s.data)).toEqual([barcode.replace(/[\r\n]+$/, '')]);
+    // Only the "@" is taken back; the held keys are never sent on
+    expect(sentKeys()).toEqual(['keyDown:Backspace', 'keyUp:Backspace']);
+  });
+
+  it('sends a held Enter on once it turns out not to be a scan', () => {
+    expect(scan('\n')).toBe('');
+    vi.advanceTimersByTime(KEYBOARD_WEDGE_OPTIONS.idleMs);
+    expect(sentKeys()).toEqual(['keyDown:Enter', 'keyUp:Enter']);
+
+    // The copy comes back through before-input-event and goes straight to the page
+    expect(service.handleKeyboardInput(keyInput('\n'), target)).toBe(false);
+    vi.advanceTimersByTime(KEYBOARD_WEDGE_OPTIONS.idleMs);
+    expect(page.sendInputEvent).toHaveBeenCalledTimes(2);
+    expect(service.getRecentScans()).toEqual([]);
+  });
+});
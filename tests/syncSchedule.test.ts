@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeSyncSchedule,
+  isStoreOpen,
+  isJobDue,
+  parseRetryAfter,
+  retryAfterFromError,
+  isBackoffError,
+  jobBackoffMs,
+  DEFAULT_SYNC_SCHEDULE,
+  SYNC_BACKOFF,
+} from '../electron/shared/syncSchedule';
+
+// 2026-03-04 is a Wednesday
+const at = (time: string, day = '2026-03-04') => new Date(`${day}T${time}:00`);
+
+describe('normalizeSyncSchedule', () => {
+  it('falls back to the defaults for missing or invalid settings', () => {
+    expect(normalizeSyncSchedule(null)).toEqual(DEFAULT_SYNC_SCHEDULE);
+
+    const schedule = normalizeSyncSchedule({
+      storeHours: [null, { open: '25:00', close: '22:00' }],
+      jobs: { incremental: { openMinutes: 0, closedMinutes: null } } as any,
+      pageDelayMs: 999999,
+    });
+    expect(schedule.storeHours[0]).toBeNull();
+    expect(schedule.storeHours[1]).toEqual(DEFAULT_SYNC_SCHEDULE.storeHours[1]);
+    expect(schedule.jobs.incremental).toEqual({ openMinutes: 15, closedMinutes: null });
+    expect(schedule.jobs.fullResync).toEqual(DEFAULT_SYNC_SCHEDULE.jobs.fullResync);
+    expect(schedule.pageDelayMs).toBe(5000);
+  });
+});
+
+describe('isStoreOpen', () => {
+  const hours = (open: string, close: string) => Array.from({ length: 7 }, () => ({ open, close }));
+
+  it('is open between opening and closing time', () => {
+    expect(isStoreOpen(hours('08:00', '23:00'), at('07:59'))).toBe(false);
+    expect(isStoreOpen(hours('08:00', '23:00'), at('08:00'))).toBe(true);
+    expect(isStoreOpen(hours('08:00', '23:00'), at('23:00'))).toBe(false);
+  });
+
+  it('carries hours past midnight into the next morning', () => {
+    expect(isStoreOpen(hours('08:00', '02:00'), at('01:30'))).toBe(true);
+    expect(isStoreOpen(hours('08:00', '02:00'), at('03:00'))).toBe(false);
+  });
+
+  it('treats a null day as closed, and equal times as open all day', () => {
+    const closedWednesday = hours('08:00', '23:00').map((day, i) => (i === 3 ? null : day));
+    expect(isStoreOpen(closedWednesday, at('12:00'))).toBe(false);
+    expect(isStoreOpen(hours('00:00', '00:00'), at('04:00'))).toBe(true);
+  });
+});
+
+describe('isJobDue', () => {
+  const job = { openMinutes: 15, closedMinutes: null };
+  const now = at('12:00').getTime();
+
+  it('runs once the interval for the time of day has passed', () => {
+    expect(isJobDue(job, true, null, now)).toBe(true);
+    expect(isJobDue(job, true, now - 10 * 60 * 1000, now)).toBe(false);
+    expect(isJobDue(job, true, now - 15 * 60 * 1000, now)).toBe(true);
+  });
+
+  it('never runs while its window is off', () => {
+    expect(isJobDue(job, false, null, now)).toBe(false);
+  });
+});
+
+describe('backoff', () => {
+  it('reads Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2026-03-04T12:00:00Z');
+    expect(parseRetryAfter('120', now)).toBe(120 * 1000);
+    expect(parseRetryAfter('Wed, 04 Mar 2026 12:01:00 GMT', now)).toBe(60 * 1000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(retryAfterFromError('Failed to fetch customers: 429 (retry after 30s)')).toBe(30 * 1000);
+  });
+
+  it('backs off on rate limits, server errors and no response only', () => {
+    expect(isBackoffError('Failed to fetch customers: 429 (retry after 30s)')).toBe(true);
+    expect(isBackoffError('Failed to fetch customers: 503')).toBe(true);
+    expect(isBackoffError('fetch failed')).toBe(true);
+    expect(isBackoffError('Failed to fetch customers: 401')).toBe(false);
+  });
+
+  it('doubles per failure, capped, but never waits less than Retry-After', () => {
+    expect(jobBackoffMs(1)).toBe(SYNC_BACKOFF.baseMs);
+    expect(jobBackoffMs(3)).toBe(4 * SYNC_BACKOFF.baseMs);
+    expect(jobBackoffMs(20)).toBe(SYNC_BACKOFF.maxMs);
+    expect(jobBackoffMs(1, 5 * 60 * 1000)).toBe(5 * 60 * 1000);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { checkAge, DEFAULT_VENUE_POLICY, normalizeVenuePolicy, requiresIdScan } from '../electron/shared/venuePolicy';
+
+const medical = normalizeVenuePolicy({ allowMedicalRecognitionCard: true });
+
+describe('checkAge', () => {
+  it('admits at or over the minimum age and turns away anyone younger', () => {
+    expect(checkAge(21, DEFAULT_VENUE_POLICY)).toBe('allowed');
+    expect(checkAge(45, DEFAULT_VENUE_POLICY)).toBe('allowed');
+    expect(checkAge(20, DEFAULT_VENUE_POLICY)).toBe('underage');
+    expect(checkAge(18, DEFAULT_VENUE_POLICY)).toBe('underage');
+  });
+
+  it('sends 18-20 year olds to a medical card check at endorsed stores', () => {
+    expect(checkAge(20, medical)).toBe('medical_card_required');
+    expect(checkAge(18, medical)).toBe('medical_card_required');
+    expect(checkAge(17, medical)).toBe('underage');
+    expect(checkAge(21, medical)).toBe('allowed');
+  });
+
+  it('lets scans without a DOB through as unknown', () => {
+    expect(checkAge(undefined, DEFAULT_VENUE_POLICY)).toBe('unknown');
+    expect(checkAge(NaN, DEFAULT_VENUE_POLICY)).toBe('unknown');
+  });
+});
+
+describe('normalizeVenuePolicy', () => {
+  it('fills in defaults', () => {
+    expect(normalizeVenuePolicy(null)).toEqual(DEFAULT_VENUE_POLICY);
+    expect(normalizeVenuePolicy({ minimumAge: 0 }).minimumAge).toBe(21);
+  });
+
+  it('keeps the medical minimum at or below the recreational minimum', () => {
+    expect(normalizeVenuePolicy({ minimumAge: 19, medicalCardMinimumAge: 25 }).medicalCardMinimumAge).toBe(19);
+  });
+
+  it('normalizes the expired-ID rule', () => {
+    expect(normalizeVenuePolicy({ expiredId: { action: 'grace', graceDays: -3 } }).expiredId).toEqual({ action: 'grace', graceDays: 0 });
+  });
+});
+
+describe('requiresIdScan', () => {
+  it('forces Phone and Guest check-ins through the ID scan only when configured', () => {
+    const strict = normalizeVenuePolicy({ requireIdForAllEntries: true });
+    expect(requiresIdScan('PHONE', DEFAULT_VENUE_POLICY)).toBe(false);
+    expect(requiresIdScan('GUEST', DEFAULT_VENUE_POLICY)).toBe(false);
+    expect(requiresIdScan('PHONE', strict)).toBe(true);
+    expect(requiresIdScan('GUEST', strict)).toBe(true);
+    expect(requiresIdScan('QR', strict)).toBe(false);
+    expect(requiresIdScan('ID_SCAN', DEFAULT_VENUE_POLICY)).toBe(true);
+  });
+});
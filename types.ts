@@ -18,6 +18,7 @@ export interface Customer {
   isOnlineOrder?: boolean;   // True if customer has pending online order
   incognito?: boolean;       // Incogweedo mode — show display number instead of name on queue TV
   displayNumber?: string;    // 3-digit number assigned for this check-in when incognito is on
+  offline?: boolean;         // Stored on the kiosk while POSaBIT was unreachable — posts when it's back
 }
 
 export interface LoyaltyProfile {